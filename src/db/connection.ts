@@ -35,6 +35,22 @@ const client = postgres(connectionString, {
 // Create drizzle database instance
 export const db = drizzle(client, { schema });
 
+// Client for the same database logged in as another role, such as an
+// installation's role
+export function createRoleClient(
+  username: string,
+  password: string,
+  options: { max?: number; idle_timeout?: number } = {}
+) {
+  return postgres(connectionString, {
+    connect_timeout: config.connect_timeout,
+    ssl: config.ssl,
+    ...options,
+    username,
+    password,
+  });
+}
+
 // Migration client for running migrations
 const migrationClient = postgres(connectionString, {
   max: 1,
@@ -59,6 +75,11 @@ export async function testConnection(): Promise<boolean> {
 export async function runMigrations() {
   try {
     console.log("🔄 Running database migrations...");
+    // Extensions the schema's indexes depend on
+    await migrationDb.execute("CREATE EXTENSION IF NOT EXISTS pg_trgm");
+    // Installation roles may only use their own schemas
+    await migrationDb.execute("GRANT USAGE, CREATE ON SCHEMA public TO CURRENT_USER");
+    await migrationDb.execute("REVOKE ALL ON SCHEMA public FROM PUBLIC");
     await migrate(migrationDb, { migrationsFolder: "./drizzle" });
     console.log("✅ Migrations completed successfully");
   } catch (error) {
@@ -10,8 +10,9 @@ import {
   index,
   uniqueIndex,
   pgEnum,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
-import { relations } from "drizzle-orm";
+import { relations, sql, type AnyColumn } from "drizzle-orm";
 
 // Enums
 export const extensionStatusEnum = pgEnum("extension_status", [
@@ -27,6 +28,16 @@ export const installationStatusEnum = pgEnum("installation_status", [
   "uninstalled",
 ]);
 export const userRoleEnum = pgEnum("user_role", ["user", "developer", "admin"]);
+export const scanStatusEnum = pgEnum("scan_status", [
+  "passed",
+  "quarantined",
+  "approved",
+  "rejected",
+]);
+export const userTokenTypeEnum = pgEnum("user_token_type", [
+  "email_verification",
+  "password_reset",
+]);
 
 // Users table
 export const users = pgTable(
@@ -46,15 +57,37 @@ export const users = pgTable(
     isVerified: boolean("is_verified").default(false),
     isActive: boolean("is_active").default(true),
     lastLoginAt: timestamp("last_login_at"),
+    sessionsRevokedAt: timestamp("sessions_revoked_at"), // Tokens issued before this are rejected
     createdAt: timestamp("created_at").defaultNow().notNull(),
     updatedAt: timestamp("updated_at").defaultNow().notNull(),
   },
   (table) => [
     index("users_email_idx").on(table.email),
     index("users_username_idx").on(table.username),
+    // Trigram index for typo-tolerant suggestions (pg_trgm)
+    index("users_username_trgm_idx").using("gin", table.username.op("gin_trgm_ops")),
   ],
 );
 
+// Weighted full-text search document of an extension: names rank highest,
+// then tags and keywords, then the descriptions. The GIN index on extensions
+// is built over this expression, so searches must use it unchanged.
+export function extensionSearchDocument(columns: {
+  name: AnyColumn;
+  displayName: AnyColumn;
+  description: AnyColumn;
+  longDescription: AnyColumn;
+  tags: AnyColumn;
+  keywords: AnyColumn;
+}) {
+  return sql`(
+    setweight(to_tsvector('english', coalesce(${columns.name}, '') || ' ' || coalesce(${columns.displayName}, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(${columns.tags}, '[]'::jsonb) || coalesce(${columns.keywords}, '[]'::jsonb)), 'B') ||
+    setweight(to_tsvector('english', coalesce(${columns.description}, '')), 'C') ||
+    setweight(to_tsvector('english', coalesce(${columns.longDescription}, '')), 'D')
+  )`;
+}
+
 // Extensions table
 export const extensions = pgTable(
   "extensions",
@@ -82,6 +115,8 @@ export const extensions = pgTable(
     isPublic: boolean("is_public").default(false),
     isFeatured: boolean("is_featured").default(false),
     downloadCount: integer("download_count").default(0),
+    rating: integer("rating").default(0), // Average rating * 100
+    ratingCount: integer("rating_count").default(0),
     lastPublishedAt: timestamp("last_published_at"),
     createdAt: timestamp("created_at").defaultNow().notNull(),
     updatedAt: timestamp("updated_at").defaultNow().notNull(),
@@ -91,6 +126,10 @@ export const extensions = pgTable(
     index("extensions_author_idx").on(table.authorId),
     index("extensions_category_idx").on(table.category),
     index("extensions_status_idx").on(table.status),
+    index("extensions_search_idx").using("gin", extensionSearchDocument(table)),
+    // Trigram indexes for typo-tolerant suggestions (pg_trgm)
+    index("extensions_name_trgm_idx").using("gin", table.name.op("gin_trgm_ops")),
+    index("extensions_display_name_trgm_idx").using("gin", table.displayName.op("gin_trgm_ops")),
   ],
 );
 
@@ -142,6 +181,24 @@ export const extensionVersions = pgTable(
     // Security and validation
     checksum: text("checksum"), // SHA-256 hash of the package
     signature: text("signature"), // Digital signature
+    signingKeyId: uuid("signing_key_id").references(() => publisherKeys.id, {
+      onDelete: "set null",
+    }), // Publisher key the signature was made with
+
+    // Security scan. Quarantined versions stay unpublished until an admin
+    // approves them.
+    scanStatus: scanStatusEnum("scan_status"),
+    scanReport: jsonb("scan_report").$type<{
+      scannedAt: string;
+      findings: {
+        rule: string;
+        severity: "high" | "medium" | "low";
+        message: string;
+        file: string;
+        line?: number;
+      }[];
+      summary: { high: number; medium: number; low: number };
+    }>(),
 
     // Installation requirements
     minNodeVersion: varchar("min_node_version", { length: 20 }),
@@ -160,6 +217,14 @@ export const extensionVersions = pgTable(
 
     isPrerelease: boolean("is_prerelease").default(false),
     isDeprecated: boolean("is_deprecated").default(false),
+    deprecationMessage: text("deprecation_message"),
+    deprecatedAt: timestamp("deprecated_at"),
+    // Yanked versions are skipped when resolving versions but can still be
+    // installed by exact version
+    yankedAt: timestamp("yanked_at"),
+    yankReason: text("yank_reason"),
+    // Unpublished versions keep their content for existing installations
+    unpublishedAt: timestamp("unpublished_at"),
     downloadCount: integer("download_count").default(0),
     publishedAt: timestamp("published_at"),
     createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -174,6 +239,53 @@ export const extensionVersions = pgTable(
   ],
 );
 
+// Dist-tags: named pointers (`latest`, `beta`, `next`, ...) to versions of an
+// extension that publishers can move
+export const extensionDistTags = pgTable(
+  "extension_dist_tags",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    extensionId: uuid("extension_id")
+      .references(() => extensions.id, { onDelete: "cascade" })
+      .notNull(),
+    tag: varchar("tag", { length: 50 }).notNull(),
+    versionId: uuid("version_id")
+      .references(() => extensionVersions.id, { onDelete: "cascade" })
+      .notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("extension_dist_tags_extension_tag_idx").on(
+      table.extensionId,
+      table.tag,
+    ),
+  ],
+);
+
+// Component bundles: each manifest component bundled into an ESM module when
+// its version is published, served to host apps with an integrity hash
+export const componentBundles = pgTable(
+  "component_bundles",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    versionId: uuid("version_id")
+      .references(() => extensionVersions.id, { onDelete: "cascade" })
+      .notNull(),
+    name: varchar("name", { length: 100 }).notNull(),
+    code: text("code").notNull(),
+    size: integer("size").notNull(),
+    integrity: varchar("integrity", { length: 100 }).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("component_bundles_version_name_idx").on(
+      table.versionId,
+      table.name,
+    ),
+  ],
+);
+
 // Extension installations table
 export const extensionInstallations = pgTable(
   "extension_installations",
@@ -192,15 +304,41 @@ export const extensionInstallations = pgTable(
 
     // Installation configuration
     config: jsonb("config"), // User-specific configuration
+    // Encrypted at rest (see services/environment.ts). Rows written before
+    // encryption hold plain `{ NAME: value }` objects until keys are rotated.
     environmentVariables: jsonb("environment_variables").$type<
-      Record<string, string>
+      | { keyId: string; dataKey: string; values: Record<string, string> }
+      | Record<string, string>
     >(),
+    // Manifest permissions the user consented to. Null for installations made
+    // before consent was required, which keep what their version requests.
+    grantedPermissions: jsonb("granted_permissions").$type<string[]>(),
+    permissionsGrantedAt: timestamp("permissions_granted_at"),
 
     // Installation tracking
     installedAt: timestamp("installed_at"),
     lastUsedAt: timestamp("last_used_at"),
     uninstalledAt: timestamp("uninstalled_at"),
 
+    // Provisioning
+    schemaName: varchar("schema_name", { length: 63 }), // Dedicated Postgres schema
+    progress: jsonb("progress").$type<{
+      step:
+        | "install_dependencies"
+        | "create_schema"
+        | "run_migrations"
+        | "verify_handlers"
+        | "finalize";
+      completedSteps: (
+        | "install_dependencies"
+        | "create_schema"
+        | "run_migrations"
+        | "verify_handlers"
+        | "finalize"
+      )[];
+      updatedAt: string;
+    }>(),
+
     // Error tracking
     errorMessage: text("error_message"),
     errorDetails: jsonb("error_details"),
@@ -219,6 +357,162 @@ export const extensionInstallations = pgTable(
   ],
 );
 
+// Extension reviews table
+export const extensionReviews = pgTable(
+  "extension_reviews",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    extensionId: uuid("extension_id")
+      .references(() => extensions.id, { onDelete: "cascade" })
+      .notNull(),
+    versionId: uuid("version_id").references(() => extensionVersions.id, {
+      onDelete: "set null",
+    }),
+    userId: uuid("user_id")
+      .references(() => users.id, { onDelete: "cascade" })
+      .notNull(),
+    rating: integer("rating").notNull(), // 1-5
+    title: varchar("title", { length: 200 }),
+    review: text("review"),
+    isVerified: boolean("is_verified").default(false), // Reviewer has installed the extension
+    helpfulCount: integer("helpful_count").default(0),
+    reportedCount: integer("reported_count").default(0),
+    isHidden: boolean("is_hidden").default(false),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("reviews_extension_user_idx").on(
+      table.extensionId,
+      table.userId,
+    ),
+    index("reviews_extension_idx").on(table.extensionId),
+    index("reviews_user_idx").on(table.userId),
+  ],
+);
+
+// API keys table
+export const apiKeys = pgTable(
+  "api_keys",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: uuid("user_id")
+      .references(() => users.id, { onDelete: "cascade" })
+      .notNull(),
+    name: varchar("name", { length: 100 }).notNull(),
+    keyHash: text("key_hash").notNull(), // bcrypt hash of the full key
+    keyPreview: varchar("key_preview", { length: 20 }).notNull(), // Used to look up candidate keys
+    permissions: jsonb("permissions").$type<string[]>().notNull(),
+    lastUsedAt: timestamp("last_used_at"),
+    expiresAt: timestamp("expires_at"),
+    isActive: boolean("is_active").default(true),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("api_keys_user_idx").on(table.userId),
+    index("api_keys_preview_idx").on(table.keyPreview),
+  ],
+);
+
+// Audit trail of changes made to extensions and their versions
+export const auditLogs = pgTable(
+  "audit_logs",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    actorId: uuid("actor_id").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    action: varchar("action", { length: 50 }).notNull(), // e.g. version.yank
+    extensionId: uuid("extension_id").references(() => extensions.id, {
+      onDelete: "cascade",
+    }),
+    versionId: uuid("version_id").references(() => extensionVersions.id, {
+      onDelete: "set null",
+    }),
+    details: jsonb("details").$type<Record<string, any>>(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("audit_logs_extension_idx").on(table.extensionId),
+    index("audit_logs_actor_idx").on(table.actorId),
+  ],
+);
+
+// Ed25519 public keys publishers sign packages with. Revoked keys are kept so
+// that versions signed with them can still be checked.
+export const publisherKeys = pgTable(
+  "publisher_keys",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: uuid("user_id")
+      .references(() => users.id, { onDelete: "cascade" })
+      .notNull(),
+    name: varchar("name", { length: 100 }).notNull(),
+    publicKey: text("public_key").notNull(), // SPKI PEM
+    fingerprint: varchar("fingerprint", { length: 64 }).notNull().unique(), // SHA-256 of the raw key
+    lastUsedAt: timestamp("last_used_at"),
+    revokedAt: timestamp("revoked_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [index("publisher_keys_user_idx").on(table.userId)],
+);
+
+// Single-use email verification and password reset tokens
+export const userTokens = pgTable(
+  "user_tokens",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: uuid("user_id")
+      .references(() => users.id, { onDelete: "cascade" })
+      .notNull(),
+    type: userTokenTypeEnum("type").notNull(),
+    tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(), // SHA-256 of the emailed token
+    expiresAt: timestamp("expires_at").notNull(),
+    usedAt: timestamp("used_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("user_tokens_user_type_idx").on(table.userId, table.type),
+  ],
+);
+
+// Login sessions. Each session is a refresh token family: refreshing rotates
+// the token but keeps the session.
+export const userSessions = pgTable(
+  "user_sessions",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: uuid("user_id")
+      .references(() => users.id, { onDelete: "cascade" })
+      .notNull(),
+    userAgent: text("user_agent"),
+    ipAddress: varchar("ip_address", { length: 45 }),
+    deviceName: varchar("device_name", { length: 100 }),
+    lastUsedAt: timestamp("last_used_at").defaultNow().notNull(),
+    expiresAt: timestamp("expires_at").notNull(),
+    revokedAt: timestamp("revoked_at"),
+    revokedReason: varchar("revoked_reason", { length: 50 }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [index("user_sessions_user_idx").on(table.userId)],
+);
+
+// Refresh tokens issued for a session. Rotated tokens are kept so that a
+// replayed token can be detected.
+export const refreshTokens = pgTable(
+  "refresh_tokens",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    sessionId: uuid("session_id")
+      .references(() => userSessions.id, { onDelete: "cascade" })
+      .notNull(),
+    tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(), // SHA-256 of the token
+    rotatedAt: timestamp("rotated_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [index("refresh_tokens_session_idx").on(table.sessionId)],
+);
+
 // Extension categories table
 export const extensionCategories = pgTable(
   "extension_categories",
@@ -229,7 +523,11 @@ export const extensionCategories = pgTable(
     description: text("description"),
     icon: text("icon"),
     color: varchar("color", { length: 7 }), // Hex color
-    sortOrder: integer("sort_order").default(0),
+    parentId: uuid("parent_id").references(
+      (): AnyPgColumn => extensionCategories.id,
+      { onDelete: "restrict" },
+    ), // Null for top-level categories
+    sortOrder: integer("sort_order").default(0), // Among siblings
     isActive: boolean("is_active").default(true),
     createdAt: timestamp("created_at").defaultNow().notNull(),
     updatedAt: timestamp("updated_at").defaultNow().notNull(),
@@ -237,6 +535,7 @@ export const extensionCategories = pgTable(
   (table) => ({
     slugIdx: uniqueIndex("categories_slug_idx").on(table.slug),
     nameIdx: index("categories_name_idx").on(table.name),
+    parentIdx: index("categories_parent_idx").on(table.parentId),
   }),
 );
 
@@ -244,6 +543,11 @@ export const extensionCategories = pgTable(
 export const usersRelations = relations(users, ({ many }) => ({
   extensions: many(extensions),
   installations: many(extensionInstallations),
+  reviews: many(extensionReviews),
+  apiKeys: many(apiKeys),
+  publisherKeys: many(publisherKeys),
+  tokens: many(userTokens),
+  sessions: many(userSessions),
 }));
 
 export const extensionsRelations = relations(extensions, ({ one, many }) => ({
@@ -252,7 +556,9 @@ export const extensionsRelations = relations(extensions, ({ one, many }) => ({
     references: [users.id],
   }),
   versions: many(extensionVersions),
+  distTags: many(extensionDistTags),
   installations: many(extensionInstallations),
+  reviews: many(extensionReviews),
 }));
 
 export const extensionVersionsRelations = relations(
@@ -262,7 +568,36 @@ export const extensionVersionsRelations = relations(
       fields: [extensionVersions.extensionId],
       references: [extensions.id],
     }),
+    signingKey: one(publisherKeys, {
+      fields: [extensionVersions.signingKeyId],
+      references: [publisherKeys.id],
+    }),
     installations: many(extensionInstallations),
+    componentBundles: many(componentBundles),
+  }),
+);
+
+export const componentBundlesRelations = relations(
+  componentBundles,
+  ({ one }) => ({
+    version: one(extensionVersions, {
+      fields: [componentBundles.versionId],
+      references: [extensionVersions.id],
+    }),
+  }),
+);
+
+export const extensionDistTagsRelations = relations(
+  extensionDistTags,
+  ({ one }) => ({
+    extension: one(extensions, {
+      fields: [extensionDistTags.extensionId],
+      references: [extensions.id],
+    }),
+    version: one(extensionVersions, {
+      fields: [extensionDistTags.versionId],
+      references: [extensionVersions.id],
+    }),
   }),
 );
 
@@ -283,3 +618,91 @@ export const extensionInstallationsRelations = relations(
     }),
   }),
 );
+
+export const extensionReviewsRelations = relations(
+  extensionReviews,
+  ({ one }) => ({
+    extension: one(extensions, {
+      fields: [extensionReviews.extensionId],
+      references: [extensions.id],
+    }),
+    version: one(extensionVersions, {
+      fields: [extensionReviews.versionId],
+      references: [extensionVersions.id],
+    }),
+    user: one(users, {
+      fields: [extensionReviews.userId],
+      references: [users.id],
+    }),
+  }),
+);
+
+export const apiKeysRelations = relations(apiKeys, ({ one }) => ({
+  user: one(users, {
+    fields: [apiKeys.userId],
+    references: [users.id],
+  }),
+}));
+
+export const auditLogsRelations = relations(auditLogs, ({ one }) => ({
+  actor: one(users, {
+    fields: [auditLogs.actorId],
+    references: [users.id],
+  }),
+  extension: one(extensions, {
+    fields: [auditLogs.extensionId],
+    references: [extensions.id],
+  }),
+  version: one(extensionVersions, {
+    fields: [auditLogs.versionId],
+    references: [extensionVersions.id],
+  }),
+}));
+
+export const publisherKeysRelations = relations(
+  publisherKeys,
+  ({ one, many }) => ({
+    user: one(users, {
+      fields: [publisherKeys.userId],
+      references: [users.id],
+    }),
+    signedVersions: many(extensionVersions),
+  }),
+);
+
+export const userTokensRelations = relations(userTokens, ({ one }) => ({
+  user: one(users, {
+    fields: [userTokens.userId],
+    references: [users.id],
+  }),
+}));
+
+export const userSessionsRelations = relations(
+  userSessions,
+  ({ one, many }) => ({
+    user: one(users, {
+      fields: [userSessions.userId],
+      references: [users.id],
+    }),
+    refreshTokens: many(refreshTokens),
+  }),
+);
+
+export const refreshTokensRelations = relations(refreshTokens, ({ one }) => ({
+  session: one(userSessions, {
+    fields: [refreshTokens.sessionId],
+    references: [userSessions.id],
+  }),
+}));
+
+export const extensionCategoriesRelations = relations(
+  extensionCategories,
+  ({ one, many }) => ({
+    parent: one(extensionCategories, {
+      fields: [extensionCategories.parentId],
+      references: [extensionCategories.id],
+      relationName: "subcategories",
+    }),
+    children: many(extensionCategories, { relationName: "subcategories" }),
+  }),
+);
@@ -14,11 +14,14 @@ import {
 } from "./db/connection.js";
 
 // Import route handlers
+import authRoutes from "./routes/auth";
 import extensionRoutes from "./routes/extensions";
 import userRoutes from "./routes/users";
 import installationRoutes from "./routes/installations";
 import adminRoutes from "./routes/admin";
 import uploadRoutes from "./routes/uploads";
+import reviewRoutes from "./routes/reviews";
+import categoryRoutes from "./routes/categories";
 
 // Import middleware
 import { rateLimitMiddleware } from "./middleware/rateLimit";
@@ -33,7 +36,7 @@ const serverConfig: ServerConfig = {
   host: process.env.HOST || "localhost",
   nodeEnv: process.env.NODE_ENV || "development",
   jwtSecret: process.env.JWT_SECRET || "your-super-secret-jwt-key",
-  jwtExpiresIn: process.env.JWT_EXPIRES_IN || "7d",
+  jwtExpiresIn: process.env.JWT_EXPIRES_IN || "15m",
   maxFileSize: parseInt(process.env.MAX_FILE_SIZE || "50000000"), // 50MB
   uploadDir: process.env.UPLOAD_DIR || "./uploads",
   extensionsDir: process.env.EXTENSIONS_DIR || "./extensions",
@@ -44,6 +47,7 @@ const serverConfig: ServerConfig = {
   rateLimitMaxRequests: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || "100"),
   bcryptSaltRounds: parseInt(process.env.BCRYPT_SALT_ROUNDS || "12"),
   extensionTimeout: parseInt(process.env.EXTENSION_TIMEOUT || "30000"), // 30 seconds
+  extensionMemoryLimit: parseInt(process.env.EXTENSION_MEMORY_LIMIT || "128"), // 128MB
   maxExtensionSize: parseInt(process.env.MAX_EXTENSION_SIZE || "10000000"), // 10MB
 };
 
@@ -58,7 +62,7 @@ app.use(
   cors({
     origin: serverConfig.allowedOrigins,
     allowMethods: ["GET", "POST", "PUT", "DELETE", "PATCH", "OPTIONS"],
-    allowHeaders: ["Content-Type", "Authorization", "X-Requested-With"],
+    allowHeaders: ["Content-Type", "Authorization", "X-Requested-With", "X-API-Key"],
     exposeHeaders: ["X-Total-Count", "X-Page-Count"],
     credentials: true,
     maxAge: 86400, // 24 hours
@@ -203,11 +207,15 @@ app.get("/api/docs", (c) => {
 const apiPrefix = `/api/${process.env.API_VERSION || "v1"}`;
 
 // Mount route handlers
+app.route(`${apiPrefix}/auth`, authRoutes);
 app.route(`${apiPrefix}/extensions`, extensionRoutes);
+app.route(`${apiPrefix}/categories`, categoryRoutes);
 app.route(`${apiPrefix}/users`, userRoutes);
 app.route(`${apiPrefix}/installations`, installationRoutes);
 app.route(`${apiPrefix}/uploads`, uploadRoutes);
 app.route(`${apiPrefix}/admin`, adminRoutes);
+// Review routes span /extensions/:extensionId/reviews and /reviews/:id
+app.route(apiPrefix, reviewRoutes);
 
 // 404 handler
 app.notFound((c) => {
@@ -0,0 +1,307 @@
+import type { Context, Next } from "hono";
+import { HTTPException } from "hono/http-exception";
+import bcrypt from "bcryptjs";
+import jwt from "jsonwebtoken";
+import { and, eq } from "drizzle-orm";
+import { db } from "../db/connection.js";
+import { apiKeys, users } from "../db/schema.js";
+import { isSessionActive } from "../services/sessions.js";
+import { createError } from "./errorHandler.js";
+import type { ApiKey, ApiKeyScope, User } from "../types/index.js";
+
+// Configuration
+const JWT_SECRET = process.env.JWT_SECRET || "your-super-secret-jwt-key";
+
+// Prefix of keys issued by POST /users/me/api-keys
+const API_KEY_PREFIX = "ak_";
+
+// Claims signed into access tokens by the auth routes
+interface TokenPayload {
+  userId: string;
+  email: string;
+  username: string;
+  role: User["role"];
+  sid?: string; // Session the token was issued for
+}
+
+export type AuthMethod = "jwt" | "apiKey";
+
+declare module "hono" {
+  interface ContextVariableMap {
+    user?: User;
+    apiKey?: Omit<ApiKey, "userId">;
+    authMethod?: AuthMethod;
+    sessionId?: string;
+  }
+}
+
+// Read the credential sent with a request. API keys are accepted in the
+// X-API-Key header, with the ApiKey scheme or as a bearer token; other bearer
+// tokens are treated as JWTs.
+function getCredentials(
+  c: Context,
+): { type: AuthMethod; value: string } | undefined {
+  const apiKey = c.req.header("x-api-key");
+  if (apiKey) {
+    return { type: "apiKey", value: apiKey.trim() };
+  }
+
+  const authorization = c.req.header("authorization");
+  if (!authorization) {
+    return undefined;
+  }
+
+  const [scheme, token] = authorization.split(" ", 2);
+  const normalizedScheme = scheme?.toLowerCase();
+  if ((normalizedScheme !== "bearer" && normalizedScheme !== "apikey") || !token) {
+    throw new HTTPException(401, {
+      message: "Invalid authorization header format.",
+    });
+  }
+
+  if (normalizedScheme === "apikey") {
+    return { type: "apiKey", value: token.trim() };
+  }
+
+  return token.startsWith(API_KEY_PREFIX)
+    ? { type: "apiKey", value: token.trim() }
+    : { type: "jwt", value: token.trim() };
+}
+
+// Load an active user by ID without the password hash
+async function loadActiveUser(
+  userId: string,
+): Promise<{ user: User; sessionsRevokedAt: Date | null } | undefined> {
+  const result = await db
+    .select({
+      id: users.id,
+      email: users.email,
+      username: users.username,
+      displayName: users.displayName,
+      role: users.role,
+      avatar: users.avatar,
+      bio: users.bio,
+      website: users.website,
+      github: users.github,
+      twitter: users.twitter,
+      isVerified: users.isVerified,
+      isActive: users.isActive,
+      lastLoginAt: users.lastLoginAt,
+      sessionsRevokedAt: users.sessionsRevokedAt,
+      createdAt: users.createdAt,
+      updatedAt: users.updatedAt,
+    })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+
+  const row = result[0];
+  if (!row || !row.isActive) {
+    return undefined;
+  }
+
+  const { sessionsRevokedAt, ...user } = row;
+  return { user: user as User, sessionsRevokedAt };
+}
+
+// Verify a JWT access token. Signature and expiry errors propagate to the
+// error handler, which reports them as INVALID_TOKEN / TOKEN_EXPIRED.
+async function verifyToken(
+  token: string,
+): Promise<{ user: User; sessionId?: string }> {
+  const payload = jwt.verify(token, JWT_SECRET) as TokenPayload & { iat?: number };
+
+  const account = payload?.userId ? await loadActiveUser(payload.userId) : undefined;
+  if (!account) {
+    throw new HTTPException(401, {
+      message: "User account not found or inactive.",
+    });
+  }
+
+  // Tokens issued before the user's sessions were revoked (e.g. by a
+  // password reset) are no longer accepted. `iat` has second precision.
+  const { sessionsRevokedAt } = account;
+  if (
+    sessionsRevokedAt &&
+    (payload.iat ?? 0) < Math.floor(sessionsRevokedAt.getTime() / 1000)
+  ) {
+    throw new HTTPException(401, {
+      message: "Session has been revoked. Please log in again.",
+    });
+  }
+
+  // Logging out or revoking a session invalidates its access tokens
+  if (payload.sid && !(await isSessionActive(payload.sid))) {
+    throw new HTTPException(401, {
+      message: "Session has been revoked. Please log in again.",
+    });
+  }
+
+  return { user: account.user, sessionId: payload.sid };
+}
+
+// Verify an API key. Keys are stored as bcrypt hashes, so candidates are
+// narrowed down by their preview before comparing hashes.
+async function verifyApiKey(
+  key: string,
+): Promise<{ user: User; apiKey: Omit<ApiKey, "userId"> }> {
+  const keyPreview = `${key.substring(0, 8)}...${key.substring(key.length - 4)}`;
+
+  const candidates = await db
+    .select()
+    .from(apiKeys)
+    .where(and(eq(apiKeys.keyPreview, keyPreview), eq(apiKeys.isActive, true)));
+
+  for (const candidate of candidates) {
+    if (!(await bcrypt.compare(key, candidate.keyHash))) {
+      continue;
+    }
+
+    if (candidate.expiresAt && candidate.expiresAt.getTime() <= Date.now()) {
+      throw new HTTPException(401, { message: "API key has expired." });
+    }
+
+    const user = (await loadActiveUser(candidate.userId))?.user;
+    if (!user) {
+      throw new HTTPException(401, {
+        message: "User account not found or inactive.",
+      });
+    }
+
+    // Track usage without delaying the request
+    db.update(apiKeys)
+      .set({ lastUsedAt: new Date() })
+      .where(eq(apiKeys.id, candidate.id))
+      .catch((error) => console.error("Failed to update API key usage:", error));
+
+    const { keyHash, userId, ...apiKey } = candidate;
+    return { user, apiKey: apiKey as Omit<ApiKey, "userId"> };
+  }
+
+  throw new HTTPException(401, { message: "Invalid API key." });
+}
+
+// Authenticate the request and store the user on the context. Returns false
+// when no credentials were sent.
+async function authenticate(c: Context): Promise<boolean> {
+  const credentials = getCredentials(c);
+  if (!credentials) {
+    return false;
+  }
+
+  if (credentials.type === "apiKey") {
+    const { user, apiKey } = await verifyApiKey(credentials.value);
+    c.set("user", user);
+    c.set("apiKey", apiKey);
+  } else {
+    const { user, sessionId } = await verifyToken(credentials.value);
+    c.set("user", user);
+    c.set("sessionId", sessionId);
+  }
+  c.set("authMethod", credentials.type);
+
+  return true;
+}
+
+// Require a valid JWT or API key
+export const authMiddleware = async (c: Context, next: Next) => {
+  const authenticated = await authenticate(c);
+  if (!authenticated) {
+    throw new HTTPException(401, { message: "Authentication required." });
+  }
+
+  await next();
+};
+
+// Authenticate when credentials are present; invalid credentials are treated
+// as an anonymous request
+export const optionalAuthMiddleware = async (c: Context, next: Next) => {
+  try {
+    await authenticate(c);
+  } catch {
+    c.set("user", undefined);
+    c.set("apiKey", undefined);
+    c.set("authMethod", undefined);
+    c.set("sessionId", undefined);
+  }
+
+  await next();
+};
+
+// Require the authenticated user to be an admin
+export const requireAdmin = async (c: Context, next: Next) => {
+  const user = getCurrentUser(c);
+  if (!user) {
+    throw new HTTPException(401, { message: "Authentication required." });
+  }
+
+  if (user.role !== "admin") {
+    throw new HTTPException(403, { message: "Admin access required." });
+  }
+
+  await next();
+};
+
+// Require the authenticated user to own the resource, or to be an admin.
+// `getOwnerId` resolves the owner's user ID from the request and may throw
+// (e.g. a 404 when the resource does not exist).
+export const requireOwnershipOrAdmin = (
+  getOwnerId: (c: Context) => Promise<string>,
+) => {
+  return async (c: Context, next: Next) => {
+    const user = getCurrentUser(c);
+    if (!user) {
+      throw new HTTPException(401, { message: "Authentication required." });
+    }
+
+    if (user.role !== "admin") {
+      const ownerId = await getOwnerId(c);
+      if (ownerId !== user.id) {
+        throw new HTTPException(403, {
+          message: "You do not have permission to access this resource.",
+        });
+      }
+    }
+
+    await next();
+  };
+};
+
+// Require requests authenticated with an API key to hold `scope`. JWT and
+// anonymous requests pass through; pair with authMiddleware where a user is
+// required.
+export const requireScope = (scope: ApiKeyScope) => {
+  return async (c: Context, next: Next) => {
+    const apiKey = c.get("apiKey");
+
+    if (c.get("authMethod") === "apiKey" && !apiKey?.permissions.includes(scope)) {
+      throw createError(
+        403,
+        `This API key does not have the "${scope}" permission.`,
+        "INSUFFICIENT_SCOPE",
+        { required: scope, granted: apiKey?.permissions || [] },
+      );
+    }
+
+    await next();
+  };
+};
+
+// Reject requests authenticated with an API key, for endpoints that must not
+// be reachable with one (e.g. managing API keys)
+export const rejectApiKeyAuth = async (c: Context, next: Next) => {
+  if (c.get("authMethod") === "apiKey") {
+    throw createError(
+      403,
+      "This endpoint cannot be used with an API key.",
+      "API_KEY_NOT_ALLOWED",
+    );
+  }
+
+  await next();
+};
+
+// Get the authenticated user, if any
+export function getCurrentUser(c: Context): User | undefined {
+  return c.get("user");
+}
@@ -15,6 +15,16 @@ interface ErrorResponse {
   stack?: string;
 }
 
+// HTTP exception carrying the error code and details set by createError()
+export interface AppError extends HTTPException {
+  code?: string;
+  details?: any;
+}
+
+export function isAppError(error: unknown): error is AppError {
+  return error instanceof HTTPException;
+}
+
 // Database error patterns
 const DB_ERROR_PATTERNS = {
   UNIQUE_VIOLATION: '23505',
@@ -72,7 +82,7 @@ function getDatabaseErrorMessage(error: any): string {
 function formatZodError(error: ZodError): ValidationError {
   const fields: Record<string, string[]> = {};
 
-  error.errors.forEach((err) => {
+  error.issues.forEach((err) => {
     const path = err.path.join('.');
     const field = path || 'root';
 
@@ -86,7 +96,7 @@ function formatZodError(error: ZodError): ValidationError {
   return {
     code: 'VALIDATION_ERROR',
     message: 'Validation failed. Please check your input.',
-    details: { issues: error.errors },
+    details: { issues: error.issues },
     fields,
     timestamp: new Date().toISOString(),
     path: '', // Will be set by error handler
@@ -147,12 +157,14 @@ export const errorHandler = (error: Error, c: Context): Response => {
 
   try {
     // HTTP Exception from Hono
-    if (error instanceof HTTPException) {
+    if (isAppError(error)) {
       statusCode = error.status;
       errorResponse = {
         ...errorResponse,
-        code: getHttpErrorCode(error.status),
+        // Prefer the code and details attached by createError()
+        code: error.code || getHttpErrorCode(error.status),
         message: error.message,
+        details: error.details,
       };
     }
     // Zod Validation Error
@@ -300,13 +312,13 @@ function getHttpErrorCode(status: number): string {
 }
 
 // Helper function to create HTTP exceptions
-export const createError = (status: number, message: string, code?: string, details?: any): HTTPException => {
-  const error = new HTTPException(status, { message });
+export const createError = (status: number, message: string, code?: string, details?: any): AppError => {
+  const error: AppError = new HTTPException(status, { message });
   if (code) {
-    (error as any).code = code;
+    error.code = code;
   }
   if (details) {
-    (error as any).details = details;
+    error.details = details;
   }
   return error;
 };
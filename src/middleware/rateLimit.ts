@@ -239,6 +239,11 @@ export const rateLimitMiddleware = (serverConfig: ServerConfig) => {
         return true;
       }
 
+      // Suggestions have their own limit (suggestRateLimit)
+      if (c.req.path.endsWith("/extensions/suggest")) {
+        return true;
+      }
+
       return false;
     },
     onLimitReached: (c: Context, key: string) => {
@@ -299,6 +304,16 @@ export const uploadRateLimit = createRateLimitMiddleware({
   },
 });
 
+// Suggest rate limit (autocomplete sends a request per keystroke)
+export const suggestRateLimit = createRateLimitMiddleware({
+  windowMs: 60 * 1000, // 1 minute
+  maxRequests: 120, // 120 suggestions per minute
+  keyGenerator: (c: Context) => {
+    const user = c.get("user") as User | undefined;
+    return user ? `suggest:${user.id}` : `suggest:${defaultKeyGenerator(c)}`;
+  },
+});
+
 // API key rate limit (higher limits for API usage)
 export const apiKeyRateLimit = createRateLimitMiddleware({
   windowMs: 60 * 60 * 1000, // 1 hour
@@ -1,6 +1,6 @@
 import type { Context, Next } from "hono";
 import { HTTPException } from "hono/http-exception";
-import { z, ZodSchema, ZodError } from "zod";
+import { z, ZodError, type ZodSchema } from "zod";
 
 // Validation targets
 export type ValidationTarget = "body" | "query" | "param" | "header";
@@ -23,7 +23,7 @@ interface ValidationResult<T = any> {
 }
 
 // Parse and validate request body
-async function validateBody(
+async function parseBody(
   c: Context,
   schema: ZodSchema,
 ): Promise<ValidationResult> {
@@ -59,7 +59,7 @@ async function validateBody(
 }
 
 // Validate query parameters
-function validateQuery(c: Context, schema: ZodSchema): ValidationResult {
+function parseQuery(c: Context, schema: ZodSchema): ValidationResult {
   const query = c.req.query();
   const queryObject: Record<string, any> = {};
 
@@ -95,7 +95,7 @@ function validateQuery(c: Context, schema: ZodSchema): ValidationResult {
 }
 
 // Validate path parameters
-function validateParam(c: Context, schema: ZodSchema): ValidationResult {
+function parseParam(c: Context, schema: ZodSchema): ValidationResult {
   // Get all path parameters
   const params: Record<string, any> = {};
 
@@ -141,7 +141,7 @@ function validateParam(c: Context, schema: ZodSchema): ValidationResult {
 }
 
 // Validate headers
-function validateHeader(c: Context, schema: ZodSchema): ValidationResult {
+function parseHeader(c: Context, schema: ZodSchema): ValidationResult {
   const headers: Record<string, string> = {};
 
   // Get common headers
@@ -176,7 +176,7 @@ function formatValidationErrors(errors: ZodError[]): Record<string, string[]> {
   const formatted: Record<string, string[]> = {};
 
   errors.forEach((error) => {
-    error.errors.forEach((err) => {
+    error.issues.forEach((err) => {
       const path = err.path.length > 0 ? err.path.join(".") : "root";
 
       if (!formatted[path]) {
@@ -199,7 +199,7 @@ export function validate(config: ValidationConfig) {
     try {
       // Validate body
       if (config.body) {
-        const result = await validateBody(c, config.body);
+        const result = await parseBody(c, config.body);
         if (!result.success && result.errors) {
           validationErrors.push(result.errors);
         } else if (result.data) {
@@ -209,7 +209,7 @@ export function validate(config: ValidationConfig) {
 
       // Validate query parameters
       if (config.query) {
-        const result = validateQuery(c, config.query);
+        const result = parseQuery(c, config.query);
         if (!result.success && result.errors) {
           validationErrors.push(result.errors);
         } else if (result.data) {
@@ -219,7 +219,7 @@ export function validate(config: ValidationConfig) {
 
       // Validate path parameters
       if (config.param) {
-        const result = validateParam(c, config.param);
+        const result = parseParam(c, config.param);
         if (!result.success && result.errors) {
           validationErrors.push(result.errors);
         } else if (result.data) {
@@ -229,7 +229,7 @@ export function validate(config: ValidationConfig) {
 
       // Validate headers
       if (config.header) {
-        const result = validateHeader(c, config.header);
+        const result = parseHeader(c, config.header);
         if (!result.success && result.errors) {
           validationErrors.push(result.errors);
         } else if (result.data) {
@@ -255,7 +255,7 @@ export function validate(config: ValidationConfig) {
         // Create a comprehensive validation error
         const allErrors = validationErrors.reduce(
           (acc, err) => {
-            acc.errors.push(...err.errors);
+            acc.errors.push(...err.issues);
             return acc;
           },
           { errors: [] as any[] },
@@ -305,6 +305,8 @@ export const commonQueries = {
   pagination: z.object({
     page: z.number().int().min(1).optional(),
     limit: z.number().int().min(1).max(100).optional(),
+    cursor: z.string().max(1000).optional(),
+    count: z.boolean().optional(),
     sort: z.string().optional(),
     order: z.enum(["asc", "desc"]).optional(),
   }),
@@ -338,7 +340,9 @@ export const commonHeaders = {
   contentType: z.object({
     content_type: z
       .string()
-      .includes("application/json", "Content-Type must be application/json"),
+      .includes("application/json", {
+        message: "Content-Type must be application/json",
+      }),
   }),
 };
 
@@ -382,6 +386,15 @@ export function getValidatedHeader<T = any>(c: Context): T | undefined {
   return getValidatedData<T>(c, "header");
 }
 
+// Category slugs: lowercase words joined by single hyphens
+const categorySlug = z
+  .string()
+  .max(50)
+  .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "Invalid category slug");
+
+// Facets the extension list can count results by
+const extensionFacet = z.enum(["category", "tag", "license", "author", "rating"]);
+
 // Create validation middleware with common patterns
 export const validationMiddleware = {
   // User registration
@@ -403,6 +416,29 @@ export const validationMiddleware = {
     body: z.object({
       email: z.string().email("Invalid email address"),
       password: z.string().min(1, "Password is required"),
+      deviceName: z.string().max(100).optional(),
+    }),
+  }),
+
+  // Token refresh
+  refreshToken: validate({
+    body: z.object({
+      refreshToken: z.string().min(1, "Refresh token is required"),
+    }),
+  }),
+
+  // Password reset request
+  forgotPassword: validate({
+    body: z.object({
+      email: z.string().email("Invalid email address"),
+    }),
+  }),
+
+  // Password reset with an emailed token
+  resetPassword: validate({
+    body: z.object({
+      token: z.string().min(1, "Token is required"),
+      password: z.string().min(8, "Password must be at least 8 characters"),
     }),
   }),
 
@@ -417,7 +453,7 @@ export const validationMiddleware = {
       displayName: z.string().max(150).optional(),
       description: z.string().max(500).optional(),
       longDescription: z.string().max(5000).optional(),
-      category: z.string().max(50).optional(),
+      category: categorySlug.optional(),
       tags: z.array(z.string().max(30)).max(10).optional(),
       homepage: z.string().url().optional(),
       repository: z.string().url().optional(),
@@ -434,7 +470,7 @@ export const validationMiddleware = {
       displayName: z.string().max(150).optional(),
       description: z.string().max(500).optional(),
       longDescription: z.string().max(5000).optional(),
-      category: z.string().max(50).optional(),
+      category: categorySlug.optional(),
       tags: z.array(z.string().max(30)).max(10).optional(),
       homepage: z.string().url().optional(),
       repository: z.string().url().optional(),
@@ -459,12 +495,25 @@ export const validationMiddleware = {
         .enum(["draft", "published", "deprecated", "suspended"])
         .optional(),
       featured: z.boolean().optional(),
+      license: z.coerce.string().max(50).optional(),
+      rating: z.number().int().min(1).max(5).optional(),
       sortBy: z
-        .enum(["name", "downloads", "rating", "updated", "created"])
+        .enum(["relevance", "name", "downloads", "rating", "updated", "created"])
         .optional(),
       sortOrder: z.enum(["asc", "desc"]).optional(),
       page: z.number().int().min(1).optional(),
       limit: z.number().int().min(1).max(100).optional(),
+      cursor: z.string().max(1000).optional(),
+      count: z.boolean().optional(),
+      facets: z.array(extensionFacet).or(extensionFacet).optional(),
+    }),
+  }),
+
+  // Extension name suggestions
+  suggestExtensions: validate({
+    query: z.object({
+      q: z.coerce.string().trim().min(2, "Query must be at least 2 characters").max(100),
+      limit: z.number().int().min(1).max(20).optional(),
     }),
   }),
 
@@ -473,8 +522,29 @@ export const validationMiddleware = {
     body: z.object({
       extensionId: z.string().uuid("Invalid extension ID"),
       version: z.string().optional(),
-      config: z.any().optional(),
+      config: z.record(z.string(), z.any()).optional(),
       environmentVariables: z.record(z.string(), z.string()).optional(),
+      acceptedPermissions: z.array(z.string().max(300)).max(100).optional(),
+    }),
+  }),
+
+  // Update installation config and environment variables (null removes one)
+  updateInstallation: validate({
+    param: commonParams.id,
+    body: z.object({
+      config: z.record(z.string(), z.any()).optional(),
+      environmentVariables: z.record(z.string(), z.string().nullable()).optional(),
+    }),
+  }),
+
+  // Upgrade or downgrade an installation
+  upgradeInstallation: validate({
+    param: commonParams.id,
+    body: z.object({
+      version: z.string().min(1).optional(),
+      dryRun: z.boolean().optional(),
+      config: z.record(z.string(), z.any()).optional(),
+      acceptedPermissions: z.array(z.string().max(300)).max(100).optional(),
     }),
   }),
 
@@ -489,6 +559,89 @@ export const validationMiddleware = {
     }),
   }),
 
+  // Point a dist-tag at a version
+  setDistTag: validate({
+    param: commonParams.id,
+    body: z.object({
+      version: z.string().min(1).max(20),
+    }),
+  }),
+
+  // Deprecate a version
+  deprecateVersion: validate({
+    body: z.object({
+      message: z.string().min(1).max(500),
+    }),
+  }),
+
+  // Yank a version
+  yankVersion: validate({
+    body: z.object({
+      reason: z.string().max(500).optional(),
+    }),
+  }),
+
+  // Approve a version held back by the security scan
+  approveVersion: validate({
+    param: commonParams.id,
+    body: z.object({
+      notes: z.string().max(1000).optional(),
+    }),
+  }),
+
+  // Reject a version held back by the security scan
+  rejectVersion: validate({
+    param: commonParams.id,
+    body: z.object({
+      notes: z.string().min(1).max(1000),
+    }),
+  }),
+
+  // Register a package signing key
+  createPublisherKey: validate({
+    body: z.object({
+      name: z.string().min(1).max(100),
+      publicKey: z.string().min(1).max(1000),
+    }),
+  }),
+
+  // Create a category
+  createCategory: validate({
+    body: z.object({
+      name: z.string().min(1).max(50),
+      slug: categorySlug,
+      description: z.string().max(500).optional(),
+      icon: z.string().max(100).optional(),
+      color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Invalid hex color").optional(),
+      parentId: z.string().uuid("Invalid parent category ID").optional(),
+      sortOrder: z.number().int().min(0).optional(),
+      isActive: z.boolean().optional(),
+    }),
+  }),
+
+  // Update a category (parentId null moves it to the top level)
+  updateCategory: validate({
+    param: commonParams.id,
+    body: z.object({
+      name: z.string().min(1).max(50).optional(),
+      slug: categorySlug.optional(),
+      description: z.string().max(500).optional(),
+      icon: z.string().max(100).optional(),
+      color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Invalid hex color").optional(),
+      parentId: z.string().uuid("Invalid parent category ID").nullable().optional(),
+      sortOrder: z.number().int().min(0).optional(),
+      isActive: z.boolean().optional(),
+    }),
+  }),
+
+  // Reorder the subcategories of a parent (or the top level)
+  reorderCategories: validate({
+    body: z.object({
+      parentId: z.string().uuid("Invalid parent category ID").nullable().optional(),
+      categoryIds: z.array(z.string().uuid("Invalid category ID")).min(1).max(200),
+    }),
+  }),
+
   // Common ID parameter
   withId: validate({
     param: commonParams.id,
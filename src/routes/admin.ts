@@ -1,16 +1,73 @@
 import { Hono } from 'hono';
 import { HTTPException } from 'hono/http-exception';
 import { db } from '../db/connection.js';
-import { users, extensions, extensionReviews, extensionInstallations, apiKeys } from '../db/schema.js';
-import { eq, desc, asc, count, and, or, like } from 'drizzle-orm';
-import { authMiddleware, requireAdmin, getCurrentUser } from '../middleware/auth.js';
+import { users, extensions, extensionReviews, extensionInstallations, apiKeys, extensionVersions, extensionCategories } from '../db/schema.js';
+import { eq, count, and, or, like } from 'drizzle-orm';
+import semver from 'semver';
+import { ZodError } from 'zod';
+import { authMiddleware, requireAdmin, requireScope, getCurrentUser } from '../middleware/auth.js';
 import { validationMiddleware, getValidatedQuery, getValidatedBody } from '../middleware/validation.js';
-import type { PaginatedResponse, User, Extension } from '../types/index.js';
+import { createError } from '../middleware/errorHandler.js';
+import { recordAudit } from '../services/audit.js';
+import {
+  assertValidParent,
+  countCategoryExtensions,
+  findConflictingCategory,
+  getCategory,
+  getCategoryTree,
+  getNextSortOrder,
+  migrateCategoryNames,
+  reorderCategories,
+  updateCategory,
+} from '../services/categories.js';
+import { rotateEnvironmentKeys } from '../services/environment.js';
+import { getPaging, toPage, type SortKey } from '../services/pagination.js';
+import { rebuildSearchIndex } from '../services/search.js';
+import { LATEST_TAG, PRERELEASE_TAG, getDistTags, setDistTag } from '../services/versions.js';
+import type {
+  PaginatedResponse,
+  User,
+  Extension,
+  ReviewVersionRequest,
+  CreateCategoryRequest,
+  UpdateCategoryRequest,
+  ReorderCategoriesRequest,
+} from '../types/index.js';
 
 const adminRoutes = new Hono();
 
 // Apply admin authentication to all routes
-adminRoutes.use('*', authMiddleware, requireAdmin);
+adminRoutes.use('*', authMiddleware, requireAdmin, requireScope('admin'));
+
+// Helper function to load a version held back by the security scan
+async function getQuarantinedVersion(id: string) {
+  const result = await db
+    .select({
+      id: extensionVersions.id,
+      extensionId: extensionVersions.extensionId,
+      version: extensionVersions.version,
+      isPrerelease: extensionVersions.isPrerelease,
+      scanStatus: extensionVersions.scanStatus,
+    })
+    .from(extensionVersions)
+    .where(eq(extensionVersions.id, id))
+    .limit(1);
+
+  const version = result[0];
+  if (!version) {
+    throw new HTTPException(404, {
+      message: 'Version not found.',
+    });
+  }
+
+  if (version.scanStatus !== 'quarantined') {
+    throw new HTTPException(409, {
+      message: 'Version is not quarantined.',
+    });
+  }
+
+  return version;
+}
 
 // GET /stats - Get system statistics
 adminRoutes.get('/stats', async (c) => {
@@ -126,38 +183,41 @@ adminRoutes.get('/users',
   async (c) => {
     try {
       const query = getValidatedQuery(c) || {};
-      const { page = 1, limit = 50, sort = 'created', order = 'desc' } = query;
-      const offset = (page - 1) * limit;
+      const { sort = 'created', order = 'desc' } = query;
 
       // Build order clause
-      let orderBy;
-      const isDesc = order === 'desc';
+      let sortKey: SortKey;
 
       switch (sort) {
         case 'email':
-          orderBy = isDesc ? desc(users.email) : asc(users.email);
+          sortKey = { field: 'email', expression: users.email, direction: order };
           break;
         case 'username':
-          orderBy = isDesc ? desc(users.username) : asc(users.username);
+          sortKey = { field: 'username', expression: users.username, direction: order };
           break;
         case 'role':
-          orderBy = isDesc ? desc(users.role) : asc(users.role);
+          sortKey = { field: 'role', expression: users.role, direction: order };
           break;
         case 'lastLogin':
-          orderBy = isDesc ? desc(users.lastLoginAt) : asc(users.lastLoginAt);
+          sortKey = { field: 'lastLoginAt', expression: users.lastLoginAt, direction: order };
           break;
         case 'created':
         default:
-          orderBy = isDesc ? desc(users.createdAt) : asc(users.createdAt);
+          sortKey = { field: 'createdAt', expression: users.createdAt, direction: order };
           break;
       }
 
+      const paging = getPaging(query, [sortKey, { field: 'id', expression: users.id, direction: 'asc' }], 50);
+
       // Get total count
-      const totalResult = await db
-        .select({ count: count() })
-        .from(users);
+      let total: number | undefined;
+      if (paging.withTotal) {
+        const totalResult = await db
+          .select({ count: count() })
+          .from(users);
 
-      const total = totalResult[0]?.count || 0;
+        total = totalResult[0]?.count || 0;
+      }
 
       // Get users
       const results = await db
@@ -175,25 +235,20 @@ adminRoutes.get('/users',
           updatedAt: users.updatedAt,
         })
         .from(users)
-        .orderBy(orderBy)
-        .limit(limit)
-        .offset(offset);
-
-      const response: PaginatedResponse<any> = {
-        data: results,
-        pagination: {
-          page,
-          limit,
-          total,
-          pages: Math.ceil(total / limit),
-          hasNext: page < Math.ceil(total / limit),
-          hasPrev: page > 1,
-        },
-      };
+        .where(paging.where)
+        .orderBy(...paging.orderBy)
+        .limit(paging.take)
+        .offset(paging.offset);
+
+      const response: PaginatedResponse<any> = toPage(results, paging, total);
 
       return c.json(response);
 
     } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
       console.error('List users error:', error);
       throw new HTTPException(500, {
         message: 'Failed to retrieve users.',
@@ -269,8 +324,7 @@ adminRoutes.get('/extensions',
   async (c) => {
     try {
       const query = getValidatedQuery(c) || {};
-      const { page = 1, limit = 50, status, sort = 'updated', order = 'desc' } = query;
-      const offset = (page - 1) * limit;
+      const { status, sort = 'updated', order = 'desc' } = query;
 
       // Build where conditions
       const conditions = [];
@@ -279,38 +333,42 @@ adminRoutes.get('/extensions',
       }
 
       // Build order clause
-      let orderBy;
-      const isDesc = order === 'desc';
+      let sortKey: SortKey;
 
       switch (sort) {
         case 'name':
-          orderBy = isDesc ? desc(extensions.name) : asc(extensions.name);
+          sortKey = { field: 'name', expression: extensions.name, direction: order };
           break;
         case 'downloads':
-          orderBy = isDesc ? desc(extensions.downloadCount) : asc(extensions.downloadCount);
+          sortKey = { field: 'downloadCount', expression: extensions.downloadCount, direction: order };
           break;
         case 'rating':
-          orderBy = isDesc ? desc(extensions.rating) : asc(extensions.rating);
+          sortKey = { field: 'rating', expression: extensions.rating, direction: order };
           break;
         case 'created':
-          orderBy = isDesc ? desc(extensions.createdAt) : asc(extensions.createdAt);
+          sortKey = { field: 'createdAt', expression: extensions.createdAt, direction: order };
           break;
         case 'published':
-          orderBy = isDesc ? desc(extensions.lastPublishedAt) : asc(extensions.lastPublishedAt);
+          sortKey = { field: 'lastPublishedAt', expression: extensions.lastPublishedAt, direction: order };
           break;
         case 'updated':
         default:
-          orderBy = isDesc ? desc(extensions.updatedAt) : asc(extensions.updatedAt);
+          sortKey = { field: 'updatedAt', expression: extensions.updatedAt, direction: order };
           break;
       }
 
-      // Get total count
-      const totalResult = await db
-        .select({ count: count() })
-        .from(extensions)
-        .where(conditions.length > 0 ? and(...conditions) : undefined);
+      const paging = getPaging(query, [sortKey, { field: 'id', expression: extensions.id, direction: 'asc' }], 50);
 
-      const total = totalResult[0]?.count || 0;
+      // Get total count
+      let total: number | undefined;
+      if (paging.withTotal) {
+        const totalResult = await db
+          .select({ count: count() })
+          .from(extensions)
+          .where(conditions.length > 0 ? and(...conditions) : undefined);
+
+        total = totalResult[0]?.count || 0;
+      }
 
       // Get extensions with author info
       const results = await db
@@ -341,26 +399,20 @@ adminRoutes.get('/extensions',
         })
         .from(extensions)
         .leftJoin(users, eq(extensions.authorId, users.id))
-        .where(conditions.length > 0 ? and(...conditions) : undefined)
-        .orderBy(orderBy)
-        .limit(limit)
-        .offset(offset);
-
-      const response: PaginatedResponse<any> = {
-        data: results,
-        pagination: {
-          page,
-          limit,
-          total,
-          pages: Math.ceil(total / limit),
-          hasNext: page < Math.ceil(total / limit),
-          hasPrev: page > 1,
-        },
-      };
+        .where(and(...conditions, paging.where))
+        .orderBy(...paging.orderBy)
+        .limit(paging.take)
+        .offset(paging.offset);
+
+      const response: PaginatedResponse<any> = toPage(results, paging, total);
 
       return c.json(response);
 
     } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
       console.error('List extensions error:', error);
       throw new HTTPException(500, {
         message: 'Failed to retrieve extensions.',
@@ -441,8 +493,7 @@ adminRoutes.get('/reviews',
   async (c) => {
     try {
       const query = getValidatedQuery(c) || {};
-      const { page = 1, limit = 50, reported, hidden, sort = 'created', order = 'desc' } = query;
-      const offset = (page - 1) * limit;
+      const { reported, hidden, sort = 'created', order = 'desc' } = query;
 
       // Build where conditions
       const conditions = [];
@@ -454,35 +505,39 @@ adminRoutes.get('/reviews',
       }
 
       // Build order clause
-      let orderBy;
-      const isDesc = order === 'desc';
+      let sortKey: SortKey;
 
       switch (sort) {
         case 'rating':
-          orderBy = isDesc ? desc(extensionReviews.rating) : asc(extensionReviews.rating);
+          sortKey = { field: 'rating', expression: extensionReviews.rating, direction: order };
           break;
         case 'helpful':
-          orderBy = isDesc ? desc(extensionReviews.helpfulCount) : asc(extensionReviews.helpfulCount);
+          sortKey = { field: 'helpfulCount', expression: extensionReviews.helpfulCount, direction: order };
           break;
         case 'reported':
-          orderBy = isDesc ? desc(extensionReviews.reportedCount) : asc(extensionReviews.reportedCount);
+          sortKey = { field: 'reportedCount', expression: extensionReviews.reportedCount, direction: order };
           break;
         case 'updated':
-          orderBy = isDesc ? desc(extensionReviews.updatedAt) : asc(extensionReviews.updatedAt);
+          sortKey = { field: 'updatedAt', expression: extensionReviews.updatedAt, direction: order };
           break;
         case 'created':
         default:
-          orderBy = isDesc ? desc(extensionReviews.createdAt) : asc(extensionReviews.createdAt);
+          sortKey = { field: 'createdAt', expression: extensionReviews.createdAt, direction: order };
           break;
       }
 
-      // Get total count
-      const totalResult = await db
-        .select({ count: count() })
-        .from(extensionReviews)
-        .where(conditions.length > 0 ? and(...conditions) : undefined);
+      const paging = getPaging(query, [sortKey, { field: 'id', expression: extensionReviews.id, direction: 'asc' }], 50);
 
-      const total = totalResult[0]?.count || 0;
+      // Get total count
+      let total: number | undefined;
+      if (paging.withTotal) {
+        const totalResult = await db
+          .select({ count: count() })
+          .from(extensionReviews)
+          .where(conditions.length > 0 ? and(...conditions) : undefined);
+
+        total = totalResult[0]?.count || 0;
+      }
 
       // Get reviews with user and extension info
       const results = await db
@@ -516,26 +571,20 @@ adminRoutes.get('/reviews',
         .from(extensionReviews)
         .leftJoin(users, eq(extensionReviews.userId, users.id))
         .leftJoin(extensions, eq(extensionReviews.extensionId, extensions.id))
-        .where(conditions.length > 0 ? and(...conditions) : undefined)
-        .orderBy(orderBy)
-        .limit(limit)
-        .offset(offset);
-
-      const response: PaginatedResponse<any> = {
-        data: results,
-        pagination: {
-          page,
-          limit,
-          total,
-          pages: Math.ceil(total / limit),
-          hasNext: page < Math.ceil(total / limit),
-          hasPrev: page > 1,
-        },
-      };
+        .where(and(...conditions, paging.where))
+        .orderBy(...paging.orderBy)
+        .limit(paging.take)
+        .offset(paging.offset);
+
+      const response: PaginatedResponse<any> = toPage(results, paging, total);
 
       return c.json(response);
 
     } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
       console.error('List reviews error:', error);
       throw new HTTPException(500, {
         message: 'Failed to retrieve reviews.',
@@ -598,6 +647,364 @@ adminRoutes.put('/reviews/:id',
   }
 );
 
+// GET /versions/quarantined - List versions held back by the security scan,
+// oldest first
+adminRoutes.get('/versions/quarantined',
+  validationMiddleware.withPagination,
+  async (c) => {
+    try {
+      const query = getValidatedQuery(c) || {};
+      const paging = getPaging(query, [
+        { field: 'createdAt', expression: extensionVersions.createdAt, direction: 'asc' },
+        { field: 'id', expression: extensionVersions.id, direction: 'asc' },
+      ], 50);
+
+      let total: number | undefined;
+      if (paging.withTotal) {
+        const totalResult = await db
+          .select({ count: count() })
+          .from(extensionVersions)
+          .where(eq(extensionVersions.scanStatus, 'quarantined'));
+
+        total = totalResult[0]?.count || 0;
+      }
+
+      const results = await db
+        .select({
+          id: extensionVersions.id,
+          version: extensionVersions.version,
+          changelog: extensionVersions.changelog,
+          scanReport: extensionVersions.scanReport,
+          createdAt: extensionVersions.createdAt,
+          extension: {
+            id: extensions.id,
+            name: extensions.name,
+            displayName: extensions.displayName,
+          },
+          author: {
+            id: users.id,
+            username: users.username,
+          },
+        })
+        .from(extensionVersions)
+        .innerJoin(extensions, eq(extensionVersions.extensionId, extensions.id))
+        .leftJoin(users, eq(extensions.authorId, users.id))
+        .where(and(eq(extensionVersions.scanStatus, 'quarantined'), paging.where))
+        .orderBy(...paging.orderBy)
+        .limit(paging.take)
+        .offset(paging.offset);
+
+      const response: PaginatedResponse<any> = toPage(results, paging, total);
+
+      return c.json(response);
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
+      console.error('List quarantined versions error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to retrieve quarantined versions.',
+      });
+    }
+  }
+);
+
+// POST /versions/:id/approve - Publish a quarantined version. It takes the
+// tag it would have taken when it was published: `next` for prereleases,
+// `latest` for stable versions newer than the current latest.
+adminRoutes.post('/versions/:id/approve',
+  validationMiddleware.approveVersion,
+  async (c) => {
+    try {
+      const id = c.req.param('id')!;
+      const { notes } = getValidatedBody<ReviewVersionRequest>(c) || {};
+      const currentUser = getCurrentUser(c);
+      const version = await getQuarantinedVersion(id);
+
+      const approvedVersion = await db
+        .update(extensionVersions)
+        .set({
+          scanStatus: 'approved',
+          publishedAt: new Date(),
+        })
+        .where(eq(extensionVersions.id, id))
+        .returning();
+
+      const distTags = await getDistTags(version.extensionId);
+      const latest = distTags[LATEST_TAG];
+      if (version.isPrerelease) {
+        await setDistTag(version.extensionId, PRERELEASE_TAG, version.id);
+      } else if (!latest || !semver.valid(latest) || semver.gt(version.version, latest)) {
+        await setDistTag(version.extensionId, LATEST_TAG, version.id);
+      }
+
+      await recordAudit({
+        actorId: currentUser?.id ?? null,
+        action: 'version.approve',
+        extensionId: version.extensionId,
+        versionId: version.id,
+        details: { version: version.version, notes: notes ?? null },
+      });
+
+      return c.json({
+        message: 'Version approved and published.',
+        version: approvedVersion[0],
+        distTags: await getDistTags(version.extensionId),
+      });
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
+      console.error('Approve version error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to approve version.',
+      });
+    }
+  }
+);
+
+// POST /versions/:id/reject - Reject a quarantined version. It stays
+// unpublished; its version number cannot be reused.
+adminRoutes.post('/versions/:id/reject',
+  validationMiddleware.rejectVersion,
+  async (c) => {
+    try {
+      const id = c.req.param('id')!;
+      const { notes } = getValidatedBody<ReviewVersionRequest>(c)!;
+      const currentUser = getCurrentUser(c);
+      const version = await getQuarantinedVersion(id);
+
+      const rejectedVersion = await db
+        .update(extensionVersions)
+        .set({ scanStatus: 'rejected' })
+        .where(eq(extensionVersions.id, id))
+        .returning();
+
+      await recordAudit({
+        actorId: currentUser?.id ?? null,
+        action: 'version.reject',
+        extensionId: version.extensionId,
+        versionId: version.id,
+        details: { version: version.version, notes },
+      });
+
+      return c.json({
+        message: 'Version rejected.',
+        version: rejectedVersion[0],
+      });
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
+      console.error('Reject version error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to reject version.',
+      });
+    }
+  }
+);
+
+// GET /categories - All categories, inactive ones included, as a tree
+adminRoutes.get('/categories', async (c) => {
+  try {
+    const categories = await getCategoryTree(true);
+
+    return c.json({ categories });
+
+  } catch (error) {
+    console.error('List categories error:', error);
+    throw new HTTPException(500, {
+      message: 'Failed to retrieve categories.',
+    });
+  }
+});
+
+// POST /categories - Create a category, optionally under a parent
+adminRoutes.post('/categories',
+  validationMiddleware.createCategory,
+  async (c) => {
+    try {
+      const body = getValidatedBody<CreateCategoryRequest>(c)!;
+
+      if (await findConflictingCategory(body)) {
+        throw createError(409, 'A category with this name or slug already exists.', 'CATEGORY_EXISTS');
+      }
+      if (body.parentId) {
+        await assertValidParent(null, body.parentId);
+      }
+
+      const newCategory = await db
+        .insert(extensionCategories)
+        .values({
+          name: body.name,
+          slug: body.slug,
+          description: body.description,
+          icon: body.icon,
+          color: body.color,
+          parentId: body.parentId,
+          sortOrder: body.sortOrder ?? await getNextSortOrder(body.parentId ?? null),
+          isActive: body.isActive ?? true,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .returning();
+
+      return c.json({
+        message: 'Category created successfully!',
+        category: newCategory[0],
+      }, 201);
+
+    } catch (error) {
+      if (error instanceof HTTPException || error instanceof ZodError) {
+        throw error;
+      }
+
+      console.error('Create category error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to create category.',
+      });
+    }
+  }
+);
+
+// POST /categories/reorder - Set the order of a parent's subcategories (or of
+// the top-level categories)
+adminRoutes.post('/categories/reorder',
+  validationMiddleware.reorderCategories,
+  async (c) => {
+    try {
+      const body = getValidatedBody<ReorderCategoriesRequest>(c)!;
+
+      await reorderCategories(body.parentId ?? null, body.categoryIds);
+
+      return c.json({
+        message: 'Categories reordered successfully!',
+        categories: await getCategoryTree(true),
+      });
+
+    } catch (error) {
+      if (error instanceof HTTPException || error instanceof ZodError) {
+        throw error;
+      }
+
+      console.error('Reorder categories error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to reorder categories.',
+      });
+    }
+  }
+);
+
+// PUT /categories/:id - Update a category. Changing the slug moves the
+// extensions filed under it along.
+adminRoutes.put('/categories/:id',
+  validationMiddleware.updateCategory,
+  async (c) => {
+    try {
+      const id = c.req.param('id')!;
+      const body = getValidatedBody<UpdateCategoryRequest>(c)!;
+
+      const category = await getCategory(id);
+      if (!category) {
+        throw new HTTPException(404, {
+          message: 'Category not found.',
+        });
+      }
+
+      if ((body.name !== undefined || body.slug !== undefined) && await findConflictingCategory(body, id)) {
+        throw createError(409, 'A category with this name or slug already exists.', 'CATEGORY_EXISTS');
+      }
+      if (body.parentId) {
+        await assertValidParent(id, body.parentId);
+      }
+
+      // A moved category goes after its new siblings unless an order is given
+      const parentChanged = body.parentId !== undefined && body.parentId !== category.parentId;
+      const sortOrder = body.sortOrder ?? (parentChanged ? await getNextSortOrder(body.parentId ?? null) : undefined);
+
+      const { category: updatedCategory, extensionsUpdated } = await updateCategory(category, {
+        ...body,
+        ...(sortOrder !== undefined ? { sortOrder } : {}),
+      });
+
+      return c.json({
+        message: 'Category updated successfully!',
+        category: updatedCategory,
+        extensionsUpdated,
+      });
+
+    } catch (error) {
+      if (error instanceof HTTPException || error instanceof ZodError) {
+        throw error;
+      }
+
+      console.error('Update category error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to update category.',
+      });
+    }
+  }
+);
+
+// DELETE /categories/:id - Delete a category without subcategories or
+// extensions. Deactivate it instead to hide it while extensions still use it.
+adminRoutes.delete('/categories/:id',
+  validationMiddleware.withId,
+  async (c) => {
+    try {
+      const id = c.req.param('id')!;
+
+      const category = await getCategory(id);
+      if (!category) {
+        throw new HTTPException(404, {
+          message: 'Category not found.',
+        });
+      }
+
+      const children = await db
+        .select({ id: extensionCategories.id })
+        .from(extensionCategories)
+        .where(eq(extensionCategories.parentId, id))
+        .limit(1);
+      if (children.length > 0) {
+        throw createError(409, 'Move or delete the subcategories of this category first.', 'CATEGORY_HAS_SUBCATEGORIES');
+      }
+
+      const extensionCount = await countCategoryExtensions(category.slug);
+      if (extensionCount > 0) {
+        throw createError(
+          409,
+          'Extensions are filed under this category. Move them or deactivate the category instead.',
+          'CATEGORY_IN_USE',
+          { extensionCount }
+        );
+      }
+
+      await db.delete(extensionCategories).where(eq(extensionCategories.id, id));
+
+      return c.json({
+        message: 'Category deleted successfully!',
+      });
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
+      console.error('Delete category error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to delete category.',
+      });
+    }
+  }
+);
+
 // GET /logs - Get system logs (placeholder)
 adminRoutes.get('/logs', async (c) => {
   try {
@@ -614,6 +1021,7 @@ adminRoutes.get('/logs', async (c) => {
         pages: 0,
         hasNext: false,
         hasPrev: false,
+        nextCursor: null,
       },
     });
 
@@ -650,9 +1058,18 @@ adminRoutes.post('/maintenance', async (c) => {
         results.updateStatistics = 'Statistics update not yet implemented';
         break;
 
+      case 'rotate_env_keys':
+        // Rewrap environment variable data keys with the current master key
+        results.rotateEnvironmentKeys = await rotateEnvironmentKeys();
+        break;
+
       case 'rebuild_search_index':
-        // TODO: Implement search index rebuild
-        results.rebuildSearchIndex = 'Search index rebuild not yet implemented';
+        results.rebuildSearchIndex = await rebuildSearchIndex();
+        break;
+
+      case 'migrate_category_names':
+        // File extensions that store a category name under its slug
+        results.migrateCategoryNames = await migrateCategoryNames();
         break;
 
       default:
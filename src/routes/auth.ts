@@ -1,4 +1,4 @@
-import { Hono } from 'hono';
+import { Hono, type Context } from 'hono';
 import { HTTPException } from 'hono/http-exception';
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
@@ -6,34 +6,72 @@ import { db } from '../db/connection.js';
 import { users } from '../db/schema.js';
 import { eq } from 'drizzle-orm';
 import { validationMiddleware, getValidatedBody } from '../middleware/validation.js';
-import { authMiddleware, getCurrentUser } from '../middleware/auth.js';
+import { authMiddleware, requireScope, getCurrentUser } from '../middleware/auth.js';
 import { authRateLimit } from '../middleware/rateLimit.js';
-import type { CreateUserRequest, LoginRequest, AuthResponse, User } from '../types/index.js';
+import { createError } from '../middleware/errorHandler.js';
+import { sendMail } from '../services/mailer.js';
+import { renderEmail } from '../services/emailTemplates.js';
+import { consumeUserToken, describeTokenTtl, issueUserToken } from '../services/userTokens.js';
+import {
+  createSession,
+  revokeSession,
+  revokeUserSessions,
+  rotateRefreshToken,
+  SessionError,
+  type SessionMetadata,
+  type UserSession,
+} from '../services/sessions.js';
+import type {
+  CreateUserRequest,
+  LoginRequest,
+  RefreshTokenRequest,
+  ForgotPasswordRequest,
+  ResetPasswordRequest,
+  AuthResponse,
+  User,
+} from '../types/index.js';
 
 const auth = new Hono();
 
 // Configuration
 const JWT_SECRET = process.env.JWT_SECRET || 'your-super-secret-jwt-key';
-const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '7d';
+// Access tokens are short-lived; clients renew them with a refresh token
+const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '15m';
 const BCRYPT_SALT_ROUNDS = parseInt(process.env.BCRYPT_SALT_ROUNDS || '12');
+const APP_URL = (process.env.APP_URL || `http://localhost:${process.env.PORT || '3000'}`).replace(/\/$/, '');
+const API_PREFIX = `/api/${process.env.API_VERSION || 'v1'}`;
+// Page the password reset link points at; the token is appended as `?token=`
+const PASSWORD_RESET_URL = process.env.PASSWORD_RESET_URL || `${APP_URL}/reset-password`;
 
 // Helper function to generate JWT token
-function generateToken(user: User): string {
+function generateToken(user: User, sessionId: string): string {
   return jwt.sign(
     {
       userId: user.id,
       email: user.email,
       username: user.username,
       role: user.role,
+      sid: sessionId,
     },
     JWT_SECRET,
     { expiresIn: JWT_EXPIRES_IN }
   );
 }
 
+// Helper function to email a verification link to a user
+async function sendVerificationEmail(user: { id: string; email: string; username: string; displayName?: string | null }) {
+  const token = await issueUserToken(user.id, 'email_verification');
+
+  await sendMail(renderEmail('verifyEmail', user.email, {
+    name: user.displayName || user.username,
+    url: `${APP_URL}${API_PREFIX}/auth/verify-email/${token}`,
+    expiresIn: describeTokenTtl('email_verification'),
+  }));
+}
+
 // Helper function to create auth response
-function createAuthResponse(user: User): AuthResponse {
-  const token = generateToken(user);
+function createAuthResponse(user: User, session: UserSession, refreshToken: string): AuthResponse {
+  const token = generateToken(user, session.id);
 
   return {
     user: {
@@ -55,6 +93,19 @@ function createAuthResponse(user: User): AuthResponse {
     },
     token,
     expiresIn: JWT_EXPIRES_IN,
+    refreshToken,
+    refreshTokenExpiresAt: session.expiresAt,
+  };
+}
+
+// Helper function to collect device metadata for a session
+function getSessionMetadata(c: Context, deviceName?: string): SessionMetadata {
+  const forwardedFor = c.req.header('x-forwarded-for')?.split(',')[0]?.trim();
+
+  return {
+    userAgent: c.req.header('user-agent'),
+    ipAddress: forwardedFor || c.req.header('x-real-ip'),
+    deviceName,
   };
 }
 
@@ -139,7 +190,14 @@ auth.post('/register',
         });
       }
 
-      const authResponse = createAuthResponse(user);
+      // A failed email should not fail the registration; the user can
+      // request another one via /verify-email/resend
+      sendVerificationEmail(user).catch((error) =>
+        console.error('Failed to send verification email:', error)
+      );
+
+      const { session, refreshToken } = await createSession(user.id, getSessionMetadata(c));
+      const authResponse = createAuthResponse(user, session, refreshToken);
 
       return c.json({
         message: 'Account created successfully!',
@@ -170,7 +228,7 @@ auth.post('/login',
         throw new HTTPException(400, { message: 'Invalid request body' });
       }
 
-      const { email, password } = body;
+      const { email, password, deviceName } = body;
 
       // Find user by email
       const userResult = await db
@@ -234,7 +292,8 @@ auth.post('/login',
         lastLoginAt: new Date(),
       };
 
-      const authResponse = createAuthResponse(userWithLastLogin);
+      const { session, refreshToken } = await createSession(user.id, getSessionMetadata(c, deviceName));
+      const authResponse = createAuthResponse(userWithLastLogin, session, refreshToken);
 
       return c.json({
         message: 'Login successful!',
@@ -257,6 +316,7 @@ auth.post('/login',
 // GET /me - Get current user profile
 auth.get('/me',
   authMiddleware,
+  requireScope('users:read'),
   async (c) => {
     try {
       const user = getCurrentUser(c);
@@ -313,18 +373,19 @@ auth.get('/me',
   }
 );
 
-// POST /refresh - Refresh JWT token
+// POST /refresh - Exchange a refresh token for a new access/refresh token pair
 auth.post('/refresh',
-  authMiddleware,
+  authRateLimit,
+  validationMiddleware.refreshToken,
   async (c) => {
     try {
-      const user = getCurrentUser(c);
-      if (!user) {
-        throw new HTTPException(401, {
-          message: 'Authentication required.',
-        });
+      const body = getValidatedBody<RefreshTokenRequest>(c);
+      if (!body) {
+        throw new HTTPException(400, { message: 'Invalid request body' });
       }
 
+      const { session, refreshToken } = await rotateRefreshToken(body.refreshToken, getSessionMetadata(c));
+
       // Get fresh user data from database
       const userResult = await db
         .select({
@@ -345,17 +406,18 @@ auth.post('/refresh',
           updatedAt: users.updatedAt,
         })
         .from(users)
-        .where(eq(users.id, user.id))
+        .where(eq(users.id, session.userId))
         .limit(1);
 
       const currentUser = userResult[0];
       if (!currentUser || !currentUser.isActive) {
+        await revokeSession(session.id, 'user_revoked');
         throw new HTTPException(401, {
           message: 'User account not found or inactive.',
         });
       }
 
-      const authResponse = createAuthResponse(currentUser);
+      const authResponse = createAuthResponse(currentUser, session, refreshToken);
 
       return c.json({
         message: 'Token refreshed successfully!',
@@ -367,6 +429,10 @@ auth.post('/refresh',
         throw error;
       }
 
+      if (error instanceof SessionError) {
+        throw createError(401, error.message, error.code);
+      }
+
       console.error('Token refresh error:', error);
       throw new HTTPException(500, {
         message: 'Failed to refresh token.',
@@ -375,15 +441,18 @@ auth.post('/refresh',
   }
 );
 
-// POST /logout - Logout user (mainly for logging purposes)
+// POST /logout - Logout user by revoking the current session
 auth.post('/logout',
   authMiddleware,
   async (c) => {
     try {
       const user = getCurrentUser(c);
+      const sessionId = c.get('sessionId');
+
+      if (sessionId) {
+        await revokeSession(sessionId, 'logout');
+      }
 
-      // In a JWT-based system, logout is mainly client-side
-      // We can log the logout event for analytics
       console.log(`User ${user?.username} (${user?.id}) logged out`);
 
       return c.json({
@@ -392,57 +461,199 @@ auth.post('/logout',
 
     } catch (error) {
       console.error('Logout error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to log out.',
+      });
+    }
+  }
+);
+
+// POST /verify-email/resend - Send a new verification email
+auth.post('/verify-email/resend',
+  authRateLimit,
+  authMiddleware,
+  async (c) => {
+    try {
+      const user = getCurrentUser(c);
+      if (!user) {
+        throw new HTTPException(401, {
+          message: 'Authentication required.',
+        });
+      }
+
+      if (user.isVerified) {
+        throw new HTTPException(400, {
+          message: 'Your email address is already verified.',
+        });
+      }
+
+      await sendVerificationEmail(user);
 
-      // Even if there's an error, we should return success for logout
       return c.json({
-        message: 'Logged out successfully!',
+        message: 'Verification email sent.',
+      });
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
+      console.error('Resend verification error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to send verification email.',
       });
     }
   }
 );
 
-// GET /verify-email/:token - Verify email address (placeholder for future implementation)
+// GET /verify-email/:token - Verify email address
 auth.get('/verify-email/:token', async (c) => {
-  const token = c.req.param('token');
+  try {
+    const userId = await consumeUserToken(c.req.param('token'), 'email_verification');
+    if (!userId) {
+      throw new HTTPException(400, {
+        message: 'This verification link is invalid or has expired.',
+      });
+    }
 
-  // TODO: Implement email verification logic
-  // This would typically involve:
-  // 1. Validate the verification token
-  // 2. Update user's isVerified status
-  // 3. Return success/error response
+    await db
+      .update(users)
+      .set({
+        isVerified: true,
+        updatedAt: new Date(),
+      })
+      .where(eq(users.id, userId));
+
+    return c.json({
+      message: 'Email address verified successfully!',
+    });
+
+  } catch (error) {
+    if (error instanceof HTTPException) {
+      throw error;
+    }
 
-  return c.json({
-    message: 'Email verification is not yet implemented.',
-    token,
-  }, 501);
+    console.error('Email verification error:', error);
+    throw new HTTPException(500, {
+      message: 'Failed to verify email address.',
+    });
+  }
 });
 
-// POST /forgot-password - Request password reset (placeholder for future implementation)
-auth.post('/forgot-password', async (c) => {
-  // TODO: Implement password reset logic
-  // This would typically involve:
-  // 1. Validate email address
-  // 2. Generate reset token
-  // 3. Send reset email
-  // 4. Store reset token in database
-
-  return c.json({
-    message: 'Password reset is not yet implemented.',
-  }, 501);
-});
+// POST /forgot-password - Request password reset
+auth.post('/forgot-password',
+  authRateLimit,
+  validationMiddleware.forgotPassword,
+  async (c) => {
+    try {
+      const body = getValidatedBody<ForgotPasswordRequest>(c);
+      if (!body) {
+        throw new HTTPException(400, { message: 'Invalid request body' });
+      }
 
-// POST /reset-password - Reset password with token (placeholder for future implementation)
-auth.post('/reset-password', async (c) => {
-  // TODO: Implement password reset logic
-  // This would typically involve:
-  // 1. Validate reset token
-  // 2. Hash new password
-  // 3. Update user password
-  // 4. Invalidate reset token
-
-  return c.json({
-    message: 'Password reset is not yet implemented.',
-  }, 501);
-});
+      const userResult = await db
+        .select({
+          id: users.id,
+          email: users.email,
+          username: users.username,
+          displayName: users.displayName,
+          isActive: users.isActive,
+        })
+        .from(users)
+        .where(eq(users.email, body.email.toLowerCase()))
+        .limit(1);
+
+      // Respond the same way whether or not the account exists, so the
+      // endpoint cannot be used to discover registered addresses
+      const user = userResult[0];
+      if (user && user.isActive) {
+        const token = await issueUserToken(user.id, 'password_reset');
+        const url = new URL(PASSWORD_RESET_URL);
+        url.searchParams.set('token', token);
+
+        await sendMail(renderEmail('passwordReset', user.email, {
+          name: user.displayName || user.username,
+          url: url.toString(),
+          expiresIn: describeTokenTtl('password_reset'),
+        }));
+      }
+
+      return c.json({
+        message: 'If an account exists for this email address, a password reset link has been sent.',
+      });
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
+      console.error('Forgot password error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to request a password reset. Please try again.',
+      });
+    }
+  }
+);
+
+// POST /reset-password - Reset password with token
+auth.post('/reset-password',
+  authRateLimit,
+  validationMiddleware.resetPassword,
+  async (c) => {
+    try {
+      const body = getValidatedBody<ResetPasswordRequest>(c);
+      if (!body) {
+        throw new HTTPException(400, { message: 'Invalid request body' });
+      }
+
+      const passwordHash = await bcrypt.hash(body.password, BCRYPT_SALT_ROUNDS);
+
+      const userId = await consumeUserToken(body.token, 'password_reset');
+      if (!userId) {
+        throw new HTTPException(400, {
+          message: 'This password reset link is invalid or has expired.',
+        });
+      }
+
+      // Changing the password signs the user out of every existing session
+      await revokeUserSessions(userId, 'password_reset');
+
+      const updated = await db
+        .update(users)
+        .set({
+          passwordHash,
+          sessionsRevokedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(users.id, userId))
+        .returning({
+          email: users.email,
+          username: users.username,
+          displayName: users.displayName,
+        });
+
+      const user = updated[0];
+      if (user) {
+        sendMail(renderEmail('passwordChanged', user.email, {
+          name: user.displayName || user.username,
+        })).catch((error) => console.error('Failed to send password changed email:', error));
+      }
+
+      return c.json({
+        message: 'Password reset successfully! Please log in with your new password.',
+      });
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
+      console.error('Reset password error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to reset password. Please try again.',
+      });
+    }
+  }
+);
 
 export default auth;
@@ -0,0 +1,69 @@
+import { Hono } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import { getCategoryTree, type CategoryNode } from '../services/categories.js';
+
+const categoryRoutes = new Hono();
+
+// Helper function to find a category and the categories above it in a tree
+function findCategory(
+  nodes: CategoryNode[],
+  slug: string,
+  parents: CategoryNode[] = []
+): { category: CategoryNode; parents: CategoryNode[] } | undefined {
+  for (const node of nodes) {
+    if (node.slug === slug) {
+      return { category: node, parents };
+    }
+    const found = findCategory(node.children, slug, [...parents, node]);
+    if (found) {
+      return found;
+    }
+  }
+  return undefined;
+}
+
+// GET / - Active categories as a tree with published extension counts
+categoryRoutes.get('/', async (c) => {
+  try {
+    const categories = await getCategoryTree();
+
+    return c.json({ categories });
+
+  } catch (error) {
+    console.error('List categories error:', error);
+    throw new HTTPException(500, {
+      message: 'Failed to retrieve categories.',
+    });
+  }
+});
+
+// GET /:slug - Category with its subcategories and the categories above it
+categoryRoutes.get('/:slug', async (c) => {
+  try {
+    const slug = c.req.param('slug')!;
+
+    const found = findCategory(await getCategoryTree(), slug);
+    if (!found) {
+      throw new HTTPException(404, {
+        message: 'Category not found.',
+      });
+    }
+
+    return c.json({
+      category: found.category,
+      parents: found.parents.map(({ children, ...parent }) => parent),
+    });
+
+  } catch (error) {
+    if (error instanceof HTTPException) {
+      throw error;
+    }
+
+    console.error('Get category error:', error);
+    throw new HTTPException(500, {
+      message: 'Failed to retrieve category.',
+    });
+  }
+});
+
+export default categoryRoutes;
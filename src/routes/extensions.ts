@@ -1,12 +1,67 @@
-import { Hono } from 'hono';
+import { Hono, type Context } from 'hono';
 import { HTTPException } from 'hono/http-exception';
 import { db } from '../db/connection.js';
-import { extensions, extensionVersions, users, extensionInstallations } from '../db/schema.js';
-import { eq, desc, asc, like, and, or, inArray, count, sql } from 'drizzle-orm';
-import { authMiddleware, optionalAuthMiddleware, getCurrentUser, requireOwnershipOrAdmin } from '../middleware/auth.js';
+import { extensions, extensionVersions, users, extensionInstallations, publisherKeys } from '../db/schema.js';
+import { eq, and, gte, inArray, count, sql, getTableColumns } from 'drizzle-orm';
+import semver from 'semver';
+import { z, ZodError } from 'zod';
+import { authMiddleware, optionalAuthMiddleware, getCurrentUser, requireOwnershipOrAdmin, requireScope } from '../middleware/auth.js';
 import { validationMiddleware, getValidatedBody, getValidatedQuery, getValidatedParam } from '../middleware/validation.js';
-import { uploadRateLimit } from '../middleware/rateLimit.js';
+import { suggestRateLimit, uploadRateLimit } from '../middleware/rateLimit.js';
+import { createError } from '../middleware/errorHandler.js';
+import { listExtensionAudit, recordAudit } from '../services/audit.js';
+import {
+  BundleError,
+  bundleComponents,
+  getBundlePath,
+  getComponentBundle,
+  listComponentBundles,
+  saveComponentBundles,
+} from '../services/bundler.js';
+import { assertActiveCategory, getCategorySlugs } from '../services/categories.js';
+import { toValidationError } from '../services/endpoints.js';
+import { applyConfigDefaults, getConfigSchema } from '../services/installationConfig.js';
+import { validateManifest } from '../services/manifest.js';
+import { notifyVersionUsers } from '../services/notifications.js';
+import { PackageError, readExtensionPackage } from '../services/packages.js';
+import { PERMISSION_CATALOG, describePermission, getRequestedPermissions } from '../services/permissions.js';
+import { getPaging, toPage, type SortKey } from '../services/pagination.js';
+import { getScanMode, hasBlockingFindings, scanVersion } from '../services/scanner.js';
+import {
+  SUGGEST_CACHE_SECONDS,
+  formatHighlight,
+  getExtensionFacets,
+  getSuggestions,
+  matchesSearch,
+  searchHighlights,
+  searchRank,
+  type FacetFilters,
+} from '../services/search.js';
+import {
+  LATEST_TAG,
+  PRERELEASE_TAG,
+  UNPUBLISH_GRACE_PERIOD,
+  VersionPolicyError,
+  checkPublishVersion,
+  getDistTags,
+  isValidDistTag,
+  pickLatestVersion,
+  removeDistTag,
+  repointLatestTag,
+  setDistTag,
+  sortVersionsDesc,
+} from '../services/versions.js';
+import {
+  SigningError,
+  computeContentDigest,
+  findSigningKey,
+  getSignatureStatus,
+  getStoredContentDigest,
+  type SignedVersion,
+} from '../services/signing.js';
 import type {
+  DeprecateVersionRequest,
+  YankVersionRequest,
   Extension,
   ExtensionWithAuthor,
   ExtensionVersion,
@@ -14,11 +69,17 @@ import type {
   UpdateExtensionRequest,
   PublishVersionRequest,
   SearchExtensionsQuery,
-  PaginatedResponse
+  SuggestExtensionsQuery,
+  PaginatedResponse,
+  User
 } from '../types/index.js';
+import { extensionFileSchema } from '../types/index.js';
 
 const extensionRoutes = new Hono();
 
+// Configuration
+const MAX_PACKAGE_SIZE = parseInt(process.env.MAX_EXTENSION_SIZE || '10000000'); // 10MB
+
 // Helper function to generate slug from name
 function generateSlug(name: string): string {
   return name.toLowerCase()
@@ -45,9 +106,157 @@ const getExtensionOwner = async (c: any): Promise<string> => {
   return extension.authorId;
 };
 
+// Helper function to load a version for a deprecate, yank or unpublish
+// request
+async function getManagedVersion(extensionId: string, version: string) {
+  const result = await db
+    .select({
+      id: extensionVersions.id,
+      version: extensionVersions.version,
+      isDeprecated: extensionVersions.isDeprecated,
+      yankedAt: extensionVersions.yankedAt,
+      unpublishedAt: extensionVersions.unpublishedAt,
+      publishedAt: extensionVersions.publishedAt,
+      extensionName: extensions.displayName,
+      extensionSlug: extensions.slug,
+    })
+    .from(extensionVersions)
+    .innerJoin(extensions, eq(extensionVersions.extensionId, extensions.id))
+    .where(
+      and(
+        eq(extensionVersions.extensionId, extensionId),
+        eq(extensionVersions.version, version)
+      )
+    )
+    .limit(1);
+
+  const managedVersion = result[0];
+  if (!managedVersion) {
+    throw new HTTPException(404, {
+      message: 'Version not found.',
+    });
+  }
+
+  return managedVersion;
+}
+
+// Helper function to load a version the current user may see, for the
+// component bundle routes. Versions that are not published are only visible to
+// the owner and admins.
+async function getVisibleVersion(extensionId: string, version: string, currentUser?: User) {
+  const result = await db
+    .select({
+      id: extensionVersions.id,
+      version: extensionVersions.version,
+      publishedAt: extensionVersions.publishedAt,
+      manifest: extensionVersions.manifest,
+      authorId: extensions.authorId,
+      isPublic: extensions.isPublic,
+      status: extensions.status,
+    })
+    .from(extensionVersions)
+    .innerJoin(extensions, eq(extensionVersions.extensionId, extensions.id))
+    .where(
+      and(
+        eq(extensionVersions.extensionId, extensionId),
+        eq(extensionVersions.version, version)
+      )
+    )
+    .limit(1);
+
+  const visibleVersion = result[0];
+  const canManage = currentUser?.id === visibleVersion?.authorId || currentUser?.role === 'admin';
+  if (!visibleVersion || (!visibleVersion.publishedAt && !canManage)) {
+    throw new HTTPException(404, {
+      message: 'Version not found.',
+    });
+  }
+
+  if (!visibleVersion.isPublic && visibleVersion.status !== 'published' && !canManage) {
+    throw new HTTPException(403, { message: 'Access denied' });
+  }
+
+  return visibleVersion;
+}
+
+// Helper function to replace the signing key columns of a version row with
+// its signature status
+function withSignatureStatus<T extends SignedVersion>({ publicKey, keyRevokedAt, contentDigest, ...version }: T) {
+  const { signed, verified } = getSignatureStatus({ ...version, publicKey, keyRevokedAt, contentDigest });
+  return { ...version, signed, verified };
+}
+
+// Helper function to read a publish request made with a package archive. The
+// version comes from the package's package.json; form fields supply the rest.
+async function readPackagePublishRequest(c: Context) {
+  const body = await c.req.parseBody();
+  const file = body.package;
+
+  if (!(file instanceof File)) {
+    throw new HTTPException(400, {
+      message: 'A package archive must be uploaded in the "package" field.',
+    });
+  }
+
+  if (file.size > MAX_PACKAGE_SIZE) {
+    throw new HTTPException(413, {
+      message: `Package size too large. Maximum size is ${MAX_PACKAGE_SIZE / 1024 / 1024}MB.`,
+    });
+  }
+
+  let extensionPackage;
+  try {
+    extensionPackage = await readExtensionPackage(Buffer.from(await file.arrayBuffer()));
+  } catch (error) {
+    if (error instanceof PackageError) {
+      throw createError(422, error.message, 'INVALID_PACKAGE', error.details);
+    }
+    throw error;
+  }
+
+  const { packageJson, manifest, files, ...packageFields } = extensionPackage;
+  const version = packageJson.version;
+
+  if (typeof version !== 'string' || !semver.valid(version)) {
+    throw createError(422, 'package.json must contain a valid semantic version.', 'INVALID_PACKAGE');
+  }
+
+  if (typeof body.version === 'string' && body.version && body.version !== version) {
+    throw new HTTPException(400, {
+      message: `Version ${body.version} does not match the package version ${version}.`,
+    });
+  }
+
+  let requiredExtensions: unknown = [];
+  if (typeof body.requiredExtensions === 'string' && body.requiredExtensions) {
+    try {
+      requiredExtensions = JSON.parse(body.requiredExtensions);
+    } catch {
+      throw new HTTPException(400, {
+        message: 'requiredExtensions must be a JSON array.',
+      });
+    }
+  }
+
+  return {
+    version,
+    changelog: typeof body.changelog === 'string' ? body.changelog : undefined,
+    files,
+    manifest,
+    requiredExtensions,
+    backport: body.backport === 'true',
+    tag: typeof body.tag === 'string' && body.tag ? body.tag : undefined,
+    signature: typeof body.signature === 'string' && body.signature ? body.signature : undefined,
+    signingKeyId: typeof body.signingKeyId === 'string' && body.signingKeyId ? body.signingKeyId : undefined,
+    packageJson,
+    ...packageFields,
+  };
+}
+
 // GET / - List extensions with search and filtering
 extensionRoutes.get('/',
   optionalAuthMiddleware,
+  requireScope('extensions:read'),
   validationMiddleware.searchExtensions,
   async (c) => {
     try {
@@ -59,14 +268,14 @@ extensionRoutes.get('/',
         author,
         status = 'published',
         featured,
-        sortBy = 'updated',
+        license,
+        rating,
+        sortBy = searchQuery ? 'relevance' : 'updated',
         sortOrder = 'desc',
-        page = 1,
-        limit = 20
+        facets
       } = query;
 
       const currentUser = getCurrentUser(c);
-      const offset = (page - 1) * limit;
 
       // Build where conditions
       const conditions = [];
@@ -79,28 +288,29 @@ extensionRoutes.get('/',
         conditions.push(eq(extensions.status, status as any));
       }
 
-      // Search query
+      // Full-text search query
       if (searchQuery) {
-        conditions.push(
-          or(
-            like(extensions.name, `%${searchQuery}%`),
-            like(extensions.displayName, `%${searchQuery}%`),
-            like(extensions.description, `%${searchQuery}%`)
-          )
-        );
+        conditions.push(matchesSearch(searchQuery));
       }
 
-      // Category filter
+      // Filters with a facet of their own are kept apart, so facet counts can
+      // leave out their own filter
+      const facetFilters: FacetFilters = {};
+
+      // Category filter, including its subcategories
       if (category) {
-        conditions.push(eq(extensions.category, category));
+        facetFilters.category = inArray(extensions.category, await getCategorySlugs(category));
       }
 
-      // Tags filter
+      // Tags filter (any of the given tags)
       if (tags && tags.length > 0) {
         const tagArray = Array.isArray(tags) ? tags : [tags];
-        conditions.push(
-          sql`${extensions.tags} && ${JSON.stringify(tagArray)}`
-        );
+        facetFilters.tag = sql`${extensions.tags} ?| array[${sql.join(tagArray.map((tag) => sql`${tag}`), sql`, `)}]::text[]`;
+      }
+
+      // License filter
+      if (license) {
+        facetFilters.license = eq(extensions.license, license);
       }
 
       // Author filter
@@ -112,46 +322,67 @@ extensionRoutes.get('/',
           .limit(1);
 
         if (authorResult[0]) {
-          conditions.push(eq(extensions.authorId, authorResult[0].id));
+          facetFilters.author = eq(extensions.authorId, authorResult[0].id);
         }
       }
 
+      // Minimum rating filter (ratings are stored * 100)
+      if (rating) {
+        facetFilters.rating = gte(extensions.rating, rating * 100);
+      }
+
       // Featured filter
       if (featured !== undefined) {
         conditions.push(eq(extensions.isFeatured, featured));
       }
 
+      const filters = [...conditions, ...Object.values(facetFilters)];
+
       // Build sort order
-      let orderBy;
-      const isDesc = sortOrder === 'desc';
+      let sortKey: SortKey;
 
       switch (sortBy) {
+        case 'relevance':
+          // Without a search query there is nothing to rank by
+          sortKey = searchQuery
+            ? { field: 'relevance', expression: searchRank(searchQuery), direction: sortOrder }
+            : { field: 'updatedAt', expression: extensions.updatedAt, direction: 'desc' };
+          break;
         case 'name':
-          orderBy = isDesc ? desc(extensions.name) : asc(extensions.name);
+          sortKey = { field: 'name', expression: extensions.name, direction: sortOrder };
           break;
         case 'downloads':
-          orderBy = isDesc ? desc(extensions.downloadCount) : asc(extensions.downloadCount);
+          sortKey = { field: 'downloadCount', expression: extensions.downloadCount, direction: sortOrder };
           break;
         case 'rating':
-          orderBy = isDesc ? desc(extensions.rating) : asc(extensions.rating);
+          sortKey = { field: 'rating', expression: extensions.rating, direction: sortOrder };
           break;
         case 'created':
-          orderBy = isDesc ? desc(extensions.createdAt) : asc(extensions.createdAt);
+          sortKey = { field: 'createdAt', expression: extensions.createdAt, direction: sortOrder };
           break;
         case 'updated':
         default:
-          orderBy = isDesc ? desc(extensions.updatedAt) : asc(extensions.updatedAt);
+          sortKey = { field: 'updatedAt', expression: extensions.updatedAt, direction: sortOrder };
           break;
       }
 
-      // Get total count
-      const totalResult = await db
-        .select({ count: count() })
-        .from(extensions)
-        .leftJoin(users, eq(extensions.authorId, users.id))
-        .where(and(...conditions));
+      const paging = getPaging(query, [
+        sortKey,
+        { field: 'downloadCount', expression: extensions.downloadCount, direction: 'desc' },
+        { field: 'id', expression: extensions.id, direction: 'asc' },
+      ]);
 
-      const total = totalResult[0]?.count || 0;
+      // Get total count
+      let total: number | undefined;
+      if (paging.withTotal) {
+        const totalResult = await db
+          .select({ count: count() })
+          .from(extensions)
+          .leftJoin(users, eq(extensions.authorId, users.id))
+          .where(and(...filters));
+
+        total = totalResult[0]?.count || 0;
+      }
 
       // Get extensions
       const results = await db
@@ -189,29 +420,47 @@ extensionRoutes.get('/',
             displayName: users.displayName,
             avatar: users.avatar,
           },
+          // Search relevance and highlighted matches
+          ...(searchQuery ? { relevance: searchRank(searchQuery), highlight: searchHighlights(searchQuery) } : {}),
         })
         .from(extensions)
         .leftJoin(users, eq(extensions.authorId, users.id))
-        .where(and(...conditions))
-        .orderBy(orderBy)
-        .limit(limit)
-        .offset(offset);
+        .where(and(...filters, paging.where))
+        .orderBy(...paging.orderBy)
+        .limit(paging.take)
+        .offset(paging.offset);
+
+      const { data, pagination } = toPage(results, paging, total);
 
       const response: PaginatedResponse<ExtensionWithAuthor> = {
-        data: results,
-        pagination: {
-          page,
-          limit,
-          total,
-          pages: Math.ceil(total / limit),
-          hasNext: page < Math.ceil(total / limit),
-          hasPrev: page > 1,
-        },
+        data: data.map((result) => 'highlight' in result && result.highlight
+          ? {
+              ...result,
+              highlight: {
+                name: formatHighlight(result.highlight.name),
+                snippet: formatHighlight(result.highlight.snippet),
+              },
+            }
+          : result),
+        pagination,
       };
 
+      // Facet counts, only when asked for
+      if (facets) {
+        response.facets = await getExtensionFacets(
+          Array.isArray(facets) ? facets : [facets],
+          conditions,
+          facetFilters
+        );
+      }
+
       return c.json(response);
 
     } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
       console.error('List extensions error:', error);
       throw new HTTPException(500, {
         message: 'Failed to retrieve extensions.',
@@ -223,6 +472,7 @@ extensionRoutes.get('/',
 // POST / - Create new extension
 extensionRoutes.post('/',
   authMiddleware,
+  requireScope('extensions:write'),
   validationMiddleware.createExtension,
   async (c) => {
     try {
@@ -236,6 +486,10 @@ extensionRoutes.post('/',
         throw new HTTPException(400, { message: 'Invalid request body' });
       }
 
+      if (body.category) {
+        await assertActiveCategory(body.category);
+      }
+
       const slug = generateSlug(body.name);
 
       // Check if slug already exists
@@ -290,7 +544,7 @@ extensionRoutes.post('/',
       }, 201);
 
     } catch (error) {
-      if (error instanceof HTTPException) {
+      if (error instanceof HTTPException || error instanceof ZodError) {
         throw error;
       }
 
@@ -302,13 +556,49 @@ extensionRoutes.post('/',
   }
 );
 
+// GET /suggest - Typo-tolerant extension, tag and author suggestions
+extensionRoutes.get('/suggest',
+  optionalAuthMiddleware,
+  requireScope('extensions:read'),
+  suggestRateLimit,
+  validationMiddleware.suggestExtensions,
+  async (c) => {
+    try {
+      const { q, limit = 8 } = getValidatedQuery<SuggestExtensionsQuery>(c)!;
+
+      const suggestions = await getSuggestions(q, limit);
+
+      // Only public extensions are suggested, so shared caches may keep them
+      c.header('Cache-Control', `public, max-age=${SUGGEST_CACHE_SECONDS}`);
+      return c.json({ query: q, suggestions });
+
+    } catch (error) {
+      console.error('Suggest extensions error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to retrieve suggestions.',
+      });
+    }
+  }
+);
+
+// GET /permissions - Permission catalog for `extensionConfig.permissions`
+extensionRoutes.get('/permissions', (c) => {
+  return c.json({
+    permissions: Object.entries(PERMISSION_CATALOG).map(([permission, definition]) => ({
+      permission,
+      ...definition,
+    })),
+  });
+});
+
 // GET /:id - Get extension by ID
 extensionRoutes.get('/:id',
   optionalAuthMiddleware,
+  requireScope('extensions:read'),
   validationMiddleware.withId,
   async (c) => {
     try {
-      const { id } = c.req.param();
+      const id = c.req.param('id')!;
       const currentUser = getCurrentUser(c);
 
       const result = await db
@@ -391,8 +681,22 @@ extensionRoutes.get('/:id',
         installationStatus = installationResult[0] || null;
       }
 
+      const versions = await db
+        .select({
+          version: extensionVersions.version,
+          yankedAt: extensionVersions.yankedAt,
+          publishedAt: extensionVersions.publishedAt,
+        })
+        .from(extensionVersions)
+        .where(eq(extensionVersions.extensionId, id));
+      const distTags = await getDistTags(id);
+
       return c.json({
-        extension,
+        extension: {
+          ...extension,
+          latestVersion: pickLatestVersion(versions, distTags[LATEST_TAG])?.version ?? null,
+          distTags,
+        },
         installationStatus,
       });
 
@@ -412,6 +716,7 @@ extensionRoutes.get('/:id',
 // PUT /:id - Update extension
 extensionRoutes.put('/:id',
   authMiddleware,
+  requireScope('extensions:write'),
   validationMiddleware.updateExtension,
   requireOwnershipOrAdmin(getExtensionOwner),
   async (c) => {
@@ -422,6 +727,10 @@ extensionRoutes.put('/:id',
         throw new HTTPException(400, { message: 'Invalid request body' });
       }
 
+      if (body.category) {
+        await assertActiveCategory(body.category);
+      }
+
       const updateData: any = {
         ...body,
         updatedAt: new Date(),
@@ -451,7 +760,7 @@ extensionRoutes.put('/:id',
       });
 
     } catch (error) {
-      if (error instanceof HTTPException) {
+      if (error instanceof HTTPException || error instanceof ZodError) {
         throw error;
       }
 
@@ -466,6 +775,7 @@ extensionRoutes.put('/:id',
 // DELETE /:id - Delete extension
 extensionRoutes.delete('/:id',
   authMiddleware,
+  requireScope('extensions:write'),
   validationMiddleware.withId,
   requireOwnershipOrAdmin(getExtensionOwner),
   async (c) => {
@@ -504,10 +814,11 @@ extensionRoutes.delete('/:id',
 // GET /:id/versions - Get extension versions
 extensionRoutes.get('/:id/versions',
   optionalAuthMiddleware,
+  requireScope('extensions:read'),
   validationMiddleware.withId,
   async (c) => {
     try {
-      const { id } = c.req.param();
+      const id = c.req.param('id')!;
       const currentUser = getCurrentUser(c);
 
       // Check if extension exists and user can view it
@@ -545,15 +856,38 @@ extensionRoutes.get('/:id/versions',
           changelog: extensionVersions.changelog,
           isPrerelease: extensionVersions.isPrerelease,
           isDeprecated: extensionVersions.isDeprecated,
+          deprecationMessage: extensionVersions.deprecationMessage,
+          yankedAt: extensionVersions.yankedAt,
+          yankReason: extensionVersions.yankReason,
+          unpublishedAt: extensionVersions.unpublishedAt,
+          scanStatus: extensionVersions.scanStatus,
           downloadCount: extensionVersions.downloadCount,
+          checksum: extensionVersions.checksum,
+          signature: extensionVersions.signature,
+          signingKeyId: extensionVersions.signingKeyId,
           publishedAt: extensionVersions.publishedAt,
           createdAt: extensionVersions.createdAt,
+          publicKey: publisherKeys.publicKey,
+          keyRevokedAt: publisherKeys.revokedAt,
         })
         .from(extensionVersions)
-        .where(eq(extensionVersions.extensionId, id))
-        .orderBy(desc(extensionVersions.createdAt));
+        .leftJoin(publisherKeys, eq(extensionVersions.signingKeyId, publisherKeys.id))
+        .where(eq(extensionVersions.extensionId, id));
 
-      return c.json({ versions });
+      // Unpublished and quarantined versions are only listed for the owner and
+      // admins
+      const canManage = currentUser?.id === extension.authorId || currentUser?.role === 'admin';
+      const visibleVersions = canManage ? versions : versions.filter((version) => version.publishedAt);
+
+      // Newest first by semver precedence, with the dist-tags on each version
+      const distTags = await getDistTags(id);
+      return c.json({
+        versions: sortVersionsDesc(visibleVersions).map((version) => ({
+          ...withSignatureStatus(version),
+          tags: Object.keys(distTags).filter((tag) => distTags[tag] === version.version),
+        })),
+        distTags,
+      });
 
     } catch (error) {
       if (error instanceof HTTPException) {
@@ -571,17 +905,30 @@ extensionRoutes.get('/:id/versions',
 // POST /:id/versions - Publish new version
 extensionRoutes.post('/:id/versions',
   authMiddleware,
+  requireScope('extensions:publish'),
   uploadRateLimit,
   requireOwnershipOrAdmin(getExtensionOwner),
   async (c) => {
     try {
-      const { id } = c.req.param();
+      const id = c.req.param('id')!;
       const user = getCurrentUser(c);
 
-      // For now, we'll accept JSON body. In a real implementation,
-      // this would handle file uploads and extract extension files
-      const body = await c.req.json();
-      const { version, changelog, files, manifest, isPrerelease = false } = body;
+      // Versions are published either from an uploaded package archive
+      // (multipart/form-data with a `package` file) or from a JSON body with
+      // the files inlined
+      const isPackageUpload = (c.req.header('content-type') || '').includes('multipart/form-data');
+      const {
+        version,
+        changelog,
+        files,
+        manifest,
+        requiredExtensions = [],
+        backport = false,
+        tag,
+        signature,
+        signingKeyId,
+        ...packageFields
+      } = isPackageUpload ? await readPackagePublishRequest(c) : await c.req.json();
 
       if (!version || !files || !manifest) {
         throw new HTTPException(400, {
@@ -589,24 +936,155 @@ extensionRoutes.post('/:id/versions',
         });
       }
 
+      // Inlined files are stored and run as given, so each must be a
+      // well-formed file entry
+      if (!isPackageUpload) {
+        z.object({ files: z.array(extensionFileSchema) }).parse({ files });
+      }
+
+      // Dependencies are extension slugs with semver ranges
+      const invalidDependency = Array.isArray(requiredExtensions)
+        ? requiredExtensions.find((dependency: any) =>
+            typeof dependency?.name !== 'string' ||
+            typeof dependency?.version !== 'string' ||
+            !semver.validRange(dependency.version))
+        : true;
+      if (invalidDependency) {
+        throw new HTTPException(400, {
+          message: 'requiredExtensions must be a list of { name, version } entries with valid semver ranges.',
+        });
+      }
+
+      if (signature !== undefined && typeof signature !== 'string') {
+        throw new HTTPException(400, {
+          message: 'signature must be a base64 string.',
+        });
+      }
+      if (signingKeyId !== undefined && (typeof signingKeyId !== 'string' || !/^[0-9a-f-]{36}$/i.test(signingKeyId))) {
+        throw new HTTPException(400, {
+          message: 'signingKeyId must be a signing key ID.',
+        });
+      }
+
+      const extensionResult = await db
+        .select({ name: extensions.name, slug: extensions.slug, authorId: extensions.authorId })
+        .from(extensions)
+        .where(eq(extensions.id, id))
+        .limit(1);
+
+      const extension = extensionResult[0];
+      if (!extension) {
+        throw new HTTPException(404, { message: 'Extension not found' });
+      }
+
+      // Reject manifests that do not describe this version, with field-level
+      // errors in the standard validation format
+      const manifestIssues = validateManifest(manifest, {
+        version,
+        extension,
+        files: Array.isArray(files) ? files : [],
+        serverlessCode: isPackageUpload ? packageFields.serverlessCode : null,
+      });
+      if (manifestIssues.length > 0) {
+        throw toValidationError(manifestIssues);
+      }
+
       // Check if version already exists
-      const existingVersion = await db
-        .select({ id: extensionVersions.id })
+      const existingVersions = await db
+        .select({ version: extensionVersions.version })
         .from(extensionVersions)
-        .where(
-          and(
-            eq(extensionVersions.extensionId, id),
-            eq(extensionVersions.version, version)
-          )
-        )
-        .limit(1);
+        .where(eq(extensionVersions.extensionId, id));
 
-      if (existingVersion.length > 0) {
+      if (existingVersions.some((existing) => existing.version === version)) {
         throw new HTTPException(409, {
           message: 'This version already exists.',
         });
       }
 
+      if (tag !== undefined && (typeof tag !== 'string' || !isValidDistTag(tag))) {
+        throw createError(400, 'tag must be a dist-tag name such as "beta" or "next".', 'INVALID_DIST_TAG');
+      }
+
+      // New versions must move forward, except for explicit backports to an
+      // older major line
+      try {
+        checkPublishVersion(version, existingVersions.map((existing) => existing.version), {
+          backport: backport === true,
+        });
+      } catch (error) {
+        if (error instanceof VersionPolicyError) {
+          throw createError(422, error.message, error.code, error.details);
+        }
+        throw error;
+      }
+
+      // Prereleases are recognised from the version string. Stable releases
+      // move `latest` unless they are backports; prereleases move `next`.
+      const isPrerelease = semver.prerelease(version) !== null;
+      const publishTag: string | null = tag || (isPrerelease ? PRERELEASE_TAG : backport ? null : LATEST_TAG);
+
+      // Package uploads are identified by the archive's digest; JSON
+      // publishes by the digest of their content. A signature must be made
+      // over that digest with one of the author's registered keys.
+      const checksum: string = isPackageUpload
+        ? packageFields.checksum
+        : computeContentDigest({ version, files, manifest });
+
+      let signingKey: { id: string; fingerprint: string } | null = null;
+      if (signature) {
+        try {
+          signingKey = await findSigningKey(extension.authorId, checksum, signature, signingKeyId);
+        } catch (error) {
+          if (error instanceof SigningError) {
+            throw createError(422, error.message, error.code, { checksum });
+          }
+          throw error;
+        }
+      } else if (signingKeyId) {
+        throw new HTTPException(400, {
+          message: 'signingKeyId was given without a signature.',
+        });
+      }
+
+      // Scan the code and migrations the version ships. Depending on the scan
+      // mode, high-severity findings reject the publish or hold the version
+      // back until an admin approves it.
+      const scanReport = scanVersion({
+        permissions: manifest.extensionConfig.permissions,
+        files,
+        componentCode: isPackageUpload ? packageFields.componentCode : null,
+        serverlessCode: isPackageUpload ? packageFields.serverlessCode : null,
+        migrationUp: isPackageUpload ? packageFields.migrationUp : null,
+        migrationDown: isPackageUpload ? packageFields.migrationDown : null,
+        manifestMigrations: manifest.extensionConfig.database?.migrations,
+      });
+      const scanMode = getScanMode();
+      const quarantined = hasBlockingFindings(scanReport) && scanMode !== 'report';
+
+      if (quarantined && scanMode === 'block') {
+        throw createError(422, 'The security scan found high-severity issues.', 'SECURITY_SCAN_FAILED', { scanReport });
+      }
+
+      // Bundle each manifest component into an ESM module. React and the
+      // declared dependencies stay as imports for the host app to provide.
+      let bundled;
+      try {
+        bundled = await bundleComponents({
+          files,
+          components: manifest.extensionConfig.components,
+          dependencies: {
+            ...manifest.peerDependencies,
+            ...(isPackageUpload ? packageFields.packageJson.dependencies : {}),
+            ...manifest.dependencies,
+          },
+        });
+      } catch (error) {
+        if (error instanceof BundleError) {
+          throw createError(422, error.message, 'BUNDLE_FAILED', error.details);
+        }
+        throw error;
+      }
+
       // Create new version
       const newVersion = await db
         .insert(extensionVersions)
@@ -616,10 +1094,19 @@ extensionRoutes.post('/:id/versions',
           changelog,
           files,
           manifest,
+          requiredExtensions,
           isPrerelease,
+          ...(isPackageUpload ? packageFields : {}),
+          checksum,
+          signature: signingKey ? signature : null,
+          signingKeyId: signingKey?.id ?? null,
           isDeprecated: false,
+          componentDependencies: bundled.dependencies,
+          bundleSize: bundled.totalSize,
+          scanStatus: quarantined ? 'quarantined' : 'passed',
+          scanReport,
           downloadCount: 0,
-          publishedAt: new Date(),
+          publishedAt: quarantined ? null : new Date(),
           createdAt: new Date(),
         })
         .returning();
@@ -629,13 +1116,33 @@ extensionRoutes.post('/:id/versions',
         throw new HTTPException(500, { message: 'Failed to create version' });
       }
 
+      await saveComponentBundles(createdVersion.id, bundled.bundles);
+
+      // Quarantined versions get their tag when they are approved
+      if (publishTag && !quarantined) {
+        await setDistTag(id, publishTag, createdVersion.id);
+      }
+
       return c.json({
-        message: 'Version published successfully!',
-        version: createdVersion,
+        message: quarantined
+          ? 'Version was quarantined by the security scan and is awaiting admin review.'
+          : 'Version published successfully!',
+        version: {
+          ...createdVersion,
+          signed: Boolean(signingKey),
+          verified: Boolean(signingKey),
+        },
+        components: bundled.bundles.map(({ name, integrity, size }) => ({
+          name,
+          url: getBundlePath(id, version, name),
+          integrity,
+          size,
+        })),
+        distTags: await getDistTags(id),
       }, 201);
 
     } catch (error) {
-      if (error instanceof HTTPException) {
+      if (error instanceof HTTPException || error instanceof ZodError) {
         throw error;
       }
 
@@ -650,9 +1157,11 @@ extensionRoutes.post('/:id/versions',
 // GET /:id/versions/:version - Get specific version
 extensionRoutes.get('/:id/versions/:version',
   optionalAuthMiddleware,
+  requireScope('extensions:read'),
   async (c) => {
     try {
-      const { id, version } = c.req.param();
+      const id = c.req.param('id')!;
+      const version = c.req.param('version')!;
       const currentUser = getCurrentUser(c);
 
       // Check extension permissions first
@@ -683,8 +1192,13 @@ extensionRoutes.get('/:id/versions/:version',
 
       // Get specific version
       const versionResult = await db
-        .select()
+        .select({
+          ...getTableColumns(extensionVersions),
+          publicKey: publisherKeys.publicKey,
+          keyRevokedAt: publisherKeys.revokedAt,
+        })
         .from(extensionVersions)
+        .leftJoin(publisherKeys, eq(extensionVersions.signingKeyId, publisherKeys.id))
         .where(
           and(
             eq(extensionVersions.extensionId, id),
@@ -693,14 +1207,23 @@ extensionRoutes.get('/:id/versions/:version',
         )
         .limit(1);
 
+      // Unpublished and quarantined versions are only visible to the owner and
+      // admins, and so is the scan report
       const extensionVersion = versionResult[0];
-      if (!extensionVersion) {
+      const canManage = currentUser?.id === extension.authorId || currentUser?.role === 'admin';
+      if (!extensionVersion || (!extensionVersion.publishedAt && !canManage)) {
         throw new HTTPException(404, {
           message: 'Version not found.',
         });
       }
 
-      return c.json({ version: extensionVersion });
+      const { scanReport, ...versionFields } = extensionVersion;
+      return c.json({
+        version: withSignatureStatus(canManage ? extensionVersion : versionFields),
+        components: await listComponentBundles(id, extensionVersion.id, extensionVersion.version),
+        // What installing this version asks the user to consent to
+        permissions: getRequestedPermissions(extensionVersion.manifest).map(describePermission),
+      });
 
     } catch (error) {
       if (error instanceof HTTPException) {
@@ -715,4 +1238,707 @@ extensionRoutes.get('/:id/versions/:version',
   }
 );
 
+// POST /:id/versions/:version/deprecate - Deprecate a version with a message
+extensionRoutes.post('/:id/versions/:version/deprecate',
+  authMiddleware,
+  requireScope('extensions:publish'),
+  validationMiddleware.deprecateVersion,
+  requireOwnershipOrAdmin(getExtensionOwner),
+  async (c) => {
+    try {
+      const id = c.req.param('id')!;
+      const user = getCurrentUser(c);
+      const { message } = getValidatedBody<DeprecateVersionRequest>(c)!;
+
+      const version = await getManagedVersion(id, c.req.param('version')!);
+      if (version.unpublishedAt) {
+        throw new HTTPException(400, {
+          message: 'Version has been unpublished.',
+        });
+      }
+
+      await db
+        .update(extensionVersions)
+        .set({
+          isDeprecated: true,
+          deprecationMessage: message,
+          deprecatedAt: new Date(),
+        })
+        .where(eq(extensionVersions.id, version.id));
+
+      await recordAudit({
+        actorId: user?.id ?? null,
+        action: 'version.deprecate',
+        extensionId: id,
+        versionId: version.id,
+        details: { version: version.version, message },
+      });
+
+      // Users are only told the first time; later calls just update the message
+      const notified = version.isDeprecated
+        ? 0
+        : await notifyVersionUsers(version.id, {
+            extension: version.extensionName || version.extensionSlug,
+            version: version.version,
+            action: 'deprecated',
+            message,
+          });
+
+      return c.json({
+        message: `Version ${version.version} deprecated.`,
+        notified,
+      });
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
+      console.error('Deprecate version error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to deprecate version.',
+      });
+    }
+  }
+);
+
+// DELETE /:id/versions/:version/deprecate - Remove a version's deprecation
+extensionRoutes.delete('/:id/versions/:version/deprecate',
+  authMiddleware,
+  requireScope('extensions:publish'),
+  requireOwnershipOrAdmin(getExtensionOwner),
+  async (c) => {
+    try {
+      const id = c.req.param('id')!;
+      const user = getCurrentUser(c);
+
+      const version = await getManagedVersion(id, c.req.param('version')!);
+      if (!version.isDeprecated) {
+        throw new HTTPException(400, {
+          message: 'Version is not deprecated.',
+        });
+      }
+
+      await db
+        .update(extensionVersions)
+        .set({
+          isDeprecated: false,
+          deprecationMessage: null,
+          deprecatedAt: null,
+        })
+        .where(eq(extensionVersions.id, version.id));
+
+      await recordAudit({
+        actorId: user?.id ?? null,
+        action: 'version.undeprecate',
+        extensionId: id,
+        versionId: version.id,
+        details: { version: version.version },
+      });
+
+      return c.json({
+        message: `Version ${version.version} is no longer deprecated.`,
+      });
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
+      console.error('Undeprecate version error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to remove deprecation.',
+      });
+    }
+  }
+);
+
+// POST /:id/versions/:version/yank - Yank a version. It is skipped when
+// resolving versions but can still be installed by exact version.
+extensionRoutes.post('/:id/versions/:version/yank',
+  authMiddleware,
+  requireScope('extensions:publish'),
+  validationMiddleware.yankVersion,
+  requireOwnershipOrAdmin(getExtensionOwner),
+  async (c) => {
+    try {
+      const id = c.req.param('id')!;
+      const user = getCurrentUser(c);
+      const { reason } = getValidatedBody<YankVersionRequest>(c) || {};
+
+      const version = await getManagedVersion(id, c.req.param('version')!);
+      if (version.unpublishedAt) {
+        throw new HTTPException(400, {
+          message: 'Version has been unpublished.',
+        });
+      }
+      if (version.yankedAt) {
+        throw new HTTPException(409, {
+          message: 'Version is already yanked.',
+        });
+      }
+
+      await db
+        .update(extensionVersions)
+        .set({
+          yankedAt: new Date(),
+          yankReason: reason || null,
+        })
+        .where(eq(extensionVersions.id, version.id));
+
+      await repointLatestTag(id);
+
+      await recordAudit({
+        actorId: user?.id ?? null,
+        action: 'version.yank',
+        extensionId: id,
+        versionId: version.id,
+        details: { version: version.version, reason: reason || null },
+      });
+
+      const notified = await notifyVersionUsers(version.id, {
+        extension: version.extensionName || version.extensionSlug,
+        version: version.version,
+        action: 'yanked',
+        message: reason,
+      });
+
+      return c.json({
+        message: `Version ${version.version} yanked.`,
+        notified,
+        distTags: await getDistTags(id),
+      });
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
+      console.error('Yank version error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to yank version.',
+      });
+    }
+  }
+);
+
+// DELETE /:id/versions/:version/yank - Restore a yanked version
+extensionRoutes.delete('/:id/versions/:version/yank',
+  authMiddleware,
+  requireScope('extensions:publish'),
+  requireOwnershipOrAdmin(getExtensionOwner),
+  async (c) => {
+    try {
+      const id = c.req.param('id')!;
+      const user = getCurrentUser(c);
+
+      const version = await getManagedVersion(id, c.req.param('version')!);
+      if (!version.yankedAt) {
+        throw new HTTPException(400, {
+          message: 'Version is not yanked.',
+        });
+      }
+      if (version.unpublishedAt) {
+        throw new HTTPException(400, {
+          message: 'Version has been unpublished.',
+        });
+      }
+
+      await db
+        .update(extensionVersions)
+        .set({
+          yankedAt: null,
+          yankReason: null,
+        })
+        .where(eq(extensionVersions.id, version.id));
+
+      await recordAudit({
+        actorId: user?.id ?? null,
+        action: 'version.unyank',
+        extensionId: id,
+        versionId: version.id,
+        details: { version: version.version },
+      });
+
+      return c.json({
+        message: `Version ${version.version} restored.`,
+      });
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
+      console.error('Unyank version error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to restore version.',
+      });
+    }
+  }
+);
+
+// DELETE /:id/versions/:version - Unpublish a version. Publishers can do this
+// within the grace window after publishing; admins at any time. The content
+// is kept for existing installations and the version number is not reusable.
+extensionRoutes.delete('/:id/versions/:version',
+  authMiddleware,
+  requireScope('extensions:publish'),
+  requireOwnershipOrAdmin(getExtensionOwner),
+  async (c) => {
+    try {
+      const id = c.req.param('id')!;
+      const user = getCurrentUser(c);
+
+      const version = await getManagedVersion(id, c.req.param('version')!);
+      if (version.unpublishedAt || !version.publishedAt) {
+        throw new HTTPException(400, {
+          message: 'Version is not published.',
+        });
+      }
+
+      const graceEndsAt = new Date(version.publishedAt.getTime() + UNPUBLISH_GRACE_PERIOD);
+      if (user?.role !== 'admin' && graceEndsAt.getTime() < Date.now()) {
+        throw createError(
+          403,
+          'Versions can only be unpublished shortly after publishing. Deprecate or yank it instead.',
+          'UNPUBLISH_WINDOW_EXPIRED',
+          { graceEndsAt }
+        );
+      }
+
+      await db
+        .update(extensionVersions)
+        .set({
+          unpublishedAt: new Date(),
+          publishedAt: null,
+        })
+        .where(eq(extensionVersions.id, version.id));
+
+      // Tags cannot point at an unpublished version
+      const distTags = await getDistTags(id);
+      for (const [tag, taggedVersion] of Object.entries(distTags)) {
+        if (taggedVersion === version.version && tag !== LATEST_TAG) {
+          await removeDistTag(id, tag);
+        }
+      }
+      await repointLatestTag(id);
+
+      await recordAudit({
+        actorId: user?.id ?? null,
+        action: 'version.unpublish',
+        extensionId: id,
+        versionId: version.id,
+        details: { version: version.version, publishedAt: version.publishedAt },
+      });
+
+      const notified = await notifyVersionUsers(version.id, {
+        extension: version.extensionName || version.extensionSlug,
+        version: version.version,
+        action: 'unpublished',
+      });
+
+      return c.json({
+        message: `Version ${version.version} unpublished.`,
+        notified,
+        distTags: await getDistTags(id),
+      });
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
+      console.error('Unpublish version error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to unpublish version.',
+      });
+    }
+  }
+);
+
+// GET /:id/audit-log - Version lifecycle changes made to an extension
+extensionRoutes.get('/:id/audit-log',
+  authMiddleware,
+  requireScope('extensions:read'),
+  validationMiddleware.withId,
+  requireOwnershipOrAdmin(getExtensionOwner),
+  async (c) => {
+    try {
+      const entries = await listExtensionAudit(c.req.param('id')!);
+      return c.json({ entries });
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
+      console.error('Get audit log error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to retrieve audit log.',
+      });
+    }
+  }
+);
+
+// GET /:id/dist-tags - List an extension's dist-tags
+extensionRoutes.get('/:id/dist-tags',
+  optionalAuthMiddleware,
+  requireScope('extensions:read'),
+  validationMiddleware.withId,
+  async (c) => {
+    try {
+      const id = c.req.param('id')!;
+      const currentUser = getCurrentUser(c);
+
+      const extensionResult = await db
+        .select({
+          id: extensions.id,
+          authorId: extensions.authorId,
+          isPublic: extensions.isPublic,
+          status: extensions.status,
+        })
+        .from(extensions)
+        .where(eq(extensions.id, id))
+        .limit(1);
+
+      const extension = extensionResult[0];
+      if (!extension) {
+        throw new HTTPException(404, { message: 'Extension not found' });
+      }
+
+      const canView = extension.isPublic ||
+                     extension.status === 'published' ||
+                     currentUser?.id === extension.authorId ||
+                     currentUser?.role === 'admin';
+
+      if (!canView) {
+        throw new HTTPException(403, { message: 'Access denied' });
+      }
+
+      return c.json({ distTags: await getDistTags(id) });
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
+      console.error('Get dist-tags error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to retrieve dist-tags.',
+      });
+    }
+  }
+);
+
+// PUT /:id/dist-tags/:tag - Point a dist-tag at a version
+extensionRoutes.put('/:id/dist-tags/:tag',
+  authMiddleware,
+  requireScope('extensions:publish'),
+  validationMiddleware.setDistTag,
+  requireOwnershipOrAdmin(getExtensionOwner),
+  async (c) => {
+    try {
+      const id = c.req.param('id')!;
+      const tag = c.req.param('tag')!;
+      const { version } = getValidatedBody<{ version: string }>(c)!;
+
+      if (!isValidDistTag(tag)) {
+        throw createError(400, `"${tag}" is not a valid dist-tag name.`, 'INVALID_DIST_TAG');
+      }
+
+      const versionResult = await db
+        .select({ id: extensionVersions.id, publishedAt: extensionVersions.publishedAt })
+        .from(extensionVersions)
+        .where(
+          and(
+            eq(extensionVersions.extensionId, id),
+            eq(extensionVersions.version, version)
+          )
+        )
+        .limit(1);
+
+      const taggedVersion = versionResult[0];
+      if (!taggedVersion) {
+        throw new HTTPException(404, {
+          message: 'Version not found.',
+        });
+      }
+
+      if (!taggedVersion.publishedAt) {
+        throw new HTTPException(400, {
+          message: 'Unpublished versions cannot be tagged.',
+        });
+      }
+
+      await setDistTag(id, tag, taggedVersion.id);
+
+      return c.json({
+        message: `Tag ${tag} now points to ${version}.`,
+        distTags: await getDistTags(id),
+      });
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
+      console.error('Set dist-tag error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to set dist-tag.',
+      });
+    }
+  }
+);
+
+// DELETE /:id/dist-tags/:tag - Remove a dist-tag
+extensionRoutes.delete('/:id/dist-tags/:tag',
+  authMiddleware,
+  requireScope('extensions:publish'),
+  validationMiddleware.withId,
+  requireOwnershipOrAdmin(getExtensionOwner),
+  async (c) => {
+    try {
+      const id = c.req.param('id')!;
+      const tag = c.req.param('tag')!;
+
+      if (tag === LATEST_TAG) {
+        throw new HTTPException(400, {
+          message: 'The latest tag cannot be removed; point it at another version instead.',
+        });
+      }
+
+      const removed = await removeDistTag(id, tag);
+      if (!removed) {
+        throw new HTTPException(404, {
+          message: 'Dist-tag not found.',
+        });
+      }
+
+      return c.json({
+        message: `Tag ${tag} removed.`,
+        distTags: await getDistTags(id),
+      });
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
+      console.error('Remove dist-tag error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to remove dist-tag.',
+      });
+    }
+  }
+);
+
+// GET /:id/versions/:version/components - List a version's component bundles
+// with their URLs and integrity hashes
+extensionRoutes.get('/:id/versions/:version/components',
+  optionalAuthMiddleware,
+  requireScope('extensions:read'),
+  async (c) => {
+    try {
+      const id = c.req.param('id')!;
+      const extensionVersion = await getVisibleVersion(id, c.req.param('version')!, getCurrentUser(c));
+
+      return c.json({
+        version: extensionVersion.version,
+        components: await listComponentBundles(id, extensionVersion.id, extensionVersion.version),
+      });
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
+      console.error('List component bundles error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to retrieve component bundles.',
+      });
+    }
+  }
+);
+
+// GET /:id/versions/:version/config-schema - JSON Schema of the installation
+// config, with the config its defaults produce
+extensionRoutes.get('/:id/versions/:version/config-schema',
+  optionalAuthMiddleware,
+  requireScope('extensions:read'),
+  async (c) => {
+    try {
+      const extensionVersion = await getVisibleVersion(c.req.param('id')!, c.req.param('version')!, getCurrentUser(c));
+      const schema = getConfigSchema(extensionVersion.manifest);
+
+      return c.json({
+        version: extensionVersion.version,
+        schema: schema ?? null,
+        defaults: applyConfigDefaults(schema, {}),
+      });
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
+      console.error('Get config schema error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to retrieve config schema.',
+      });
+    }
+  }
+);
+
+// GET /:id/versions/:version/components/:name.js - Serve a component bundle.
+// A published version's bundles never change, so they are cached for good.
+extensionRoutes.get('/:id/versions/:version/components/:file',
+  optionalAuthMiddleware,
+  requireScope('extensions:read'),
+  async (c) => {
+    try {
+      const id = c.req.param('id')!;
+      const file = c.req.param('file')!;
+      if (!file.endsWith('.js')) {
+        throw new HTTPException(404, { message: 'Component not found.' });
+      }
+
+      const extensionVersion = await getVisibleVersion(id, c.req.param('version')!, getCurrentUser(c));
+      const bundle = await getComponentBundle(extensionVersion.id, file.slice(0, -'.js'.length));
+      if (!bundle) {
+        throw new HTTPException(404, { message: 'Component not found.' });
+      }
+
+      const isPublic = Boolean(extensionVersion.publishedAt) &&
+        (extensionVersion.isPublic || extensionVersion.status === 'published');
+      const etag = `"${bundle.integrity}"`;
+
+      c.header('Cache-Control', isPublic ? 'public, max-age=31536000, immutable' : 'private, no-cache');
+      c.header('ETag', etag);
+      c.header('X-Content-Integrity', bundle.integrity);
+      c.header('Cross-Origin-Resource-Policy', 'cross-origin');
+
+      if (c.req.header('if-none-match') === etag) {
+        return c.body(null, 304);
+      }
+
+      c.header('Content-Type', 'text/javascript; charset=utf-8');
+      return c.body(bundle.code);
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
+      console.error('Serve component bundle error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to serve component bundle.',
+      });
+    }
+  }
+);
+
+// GET /:id/versions/:version/signature - Verify a version's signature
+extensionRoutes.get('/:id/versions/:version/signature',
+  optionalAuthMiddleware,
+  requireScope('extensions:read'),
+  async (c) => {
+    try {
+      const id = c.req.param('id')!;
+      const version = c.req.param('version')!;
+      const currentUser = getCurrentUser(c);
+
+      const extensionResult = await db
+        .select({
+          id: extensions.id,
+          authorId: extensions.authorId,
+          isPublic: extensions.isPublic,
+          status: extensions.status,
+        })
+        .from(extensions)
+        .where(eq(extensions.id, id))
+        .limit(1);
+
+      const extension = extensionResult[0];
+      if (!extension) {
+        throw new HTTPException(404, { message: 'Extension not found' });
+      }
+
+      const canView = extension.isPublic ||
+                     extension.status === 'published' ||
+                     currentUser?.id === extension.authorId ||
+                     currentUser?.role === 'admin';
+
+      if (!canView) {
+        throw new HTTPException(403, { message: 'Access denied' });
+      }
+
+      const versionResult = await db
+        .select({
+          version: extensionVersions.version,
+          files: extensionVersions.files,
+          manifest: extensionVersions.manifest,
+          packageSize: extensionVersions.packageSize,
+          checksum: extensionVersions.checksum,
+          signature: extensionVersions.signature,
+          keyId: publisherKeys.id,
+          keyName: publisherKeys.name,
+          fingerprint: publisherKeys.fingerprint,
+          publicKey: publisherKeys.publicKey,
+          keyRevokedAt: publisherKeys.revokedAt,
+        })
+        .from(extensionVersions)
+        .leftJoin(publisherKeys, eq(extensionVersions.signingKeyId, publisherKeys.id))
+        .where(
+          and(
+            eq(extensionVersions.extensionId, id),
+            eq(extensionVersions.version, version)
+          )
+        )
+        .limit(1);
+
+      const extensionVersion = versionResult[0];
+      if (!extensionVersion) {
+        throw new HTTPException(404, {
+          message: 'Version not found.',
+        });
+      }
+
+      // Archives are not kept, so only JSON-published versions can have their
+      // digest recomputed from the stored content
+      const digestSource = extensionVersion.packageSize === null ? 'content' : 'package';
+      const status = getSignatureStatus({
+        ...extensionVersion,
+        contentDigest: getStoredContentDigest(extensionVersion),
+      });
+
+      return c.json({
+        version: extensionVersion.version,
+        algorithm: 'ed25519',
+        digestSource,
+        checksum: extensionVersion.checksum,
+        signature: extensionVersion.signature,
+        ...status,
+        signingKey: extensionVersion.keyId
+          ? {
+              id: extensionVersion.keyId,
+              name: extensionVersion.keyName,
+              fingerprint: extensionVersion.fingerprint,
+              revokedAt: extensionVersion.keyRevokedAt,
+            }
+          : null,
+      });
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
+      console.error('Verify version signature error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to verify version signature.',
+      });
+    }
+  }
+);
+
 export default extensionRoutes;
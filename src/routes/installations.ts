@@ -2,17 +2,358 @@ import { Hono } from 'hono';
 import { HTTPException } from 'hono/http-exception';
 import { db } from '../db/connection.js';
 import { extensionInstallations, extensions, extensionVersions, users } from '../db/schema.js';
-import { eq, desc, and, count } from 'drizzle-orm';
-import { authMiddleware, getCurrentUser, requireOwnershipOrAdmin } from '../middleware/auth.js';
+import { eq, and, count, inArray } from 'drizzle-orm';
+import semver from 'semver';
+import { ZodError } from 'zod';
+import { authMiddleware, getCurrentUser, requireOwnershipOrAdmin, requireScope } from '../middleware/auth.js';
 import { validationMiddleware, getValidatedBody, getValidatedQuery } from '../middleware/validation.js';
+import { createError } from '../middleware/errorHandler.js';
+import { executeInSandbox, getExecutionLimits } from '../services/sandbox.js';
+import { findDependents, getRequiredRanges, resolveDependencies } from '../services/dependencies.js';
+import { findPolicyViolations, getSignaturePolicy } from '../services/signing.js';
+import { LATEST_TAG, getDistTags, resolveVersionSpecifier } from '../services/versions.js';
+import {
+  decryptEnvironment,
+  encryptEnvironment,
+  findMissingEnvironment,
+  getDeclaredEnvironment,
+  maskEnvironment,
+  mergeEnvironment,
+} from '../services/environment.js';
+import { applyConfigDefaults, getConfigSchema, migrateConfig, resolveConfig } from '../services/installationConfig.js';
+import { getPaging, toPage } from '../services/pagination.js';
+import {
+  describePermission,
+  findMissingPermissions,
+  getGrantedPermissions,
+  getRequestedPermissions,
+  hasPermission,
+} from '../services/permissions.js';
+import {
+  InstallationError,
+  buildMigrationPlan,
+  createPendingInstallation,
+  getInstallationSchemaName,
+  runInstallationQuery,
+  runInstallWithDependencies,
+  runVersionChange,
+  uninstallInstallation,
+  type ChainVersion,
+} from '../services/installer.js';
+import {
+  getManifestEndpoints,
+  normalizeHandlerResponse,
+  resolveEndpoint,
+  resolveHandlerSource,
+  toValidationError,
+  validateParameters,
+  validateResponse,
+  type ResolvedEndpoint,
+} from '../services/endpoints.js';
 import type {
+  ExecutionErrorCode,
+  ExecutionHttpRequest,
   ExtensionInstallation,
+  DependencyConflict,
   InstallExtensionRequest,
-  PaginatedResponse
+  PaginatedResponse,
+  PermissionChanges,
+  ResolvedDependency,
+  UpdateInstallationRequest,
+  UpgradeInstallationRequest
 } from '../types/index.js';
 
 const installationRoutes = new Hono();
 
+// Configuration
+const EXECUTION_LIMITS = getExecutionLimits({
+  extensionTimeout: parseInt(process.env.EXTENSION_TIMEOUT || '30000'),
+  extensionMemoryLimit: parseInt(process.env.EXTENSION_MEMORY_LIMIT || '128'),
+});
+
+// Helper function to map sandbox failures to HTTP status codes
+function getExecutionErrorStatus(code: ExecutionErrorCode): 404 | 422 | 502 | 504 {
+  switch (code) {
+    case 'HANDLER_NOT_FOUND': return 404;
+    case 'EXECUTION_TIMEOUT': return 504;
+    case 'SANDBOX_ERROR':
+    case 'RESPONSE_TOO_LARGE': return 502;
+    default: return 422;
+  }
+}
+
+// Helper function to refuse versions the package signature policy does not
+// allow to be installed
+async function assertSignaturePolicy(versionIds: string[]) {
+  const violations = await findPolicyViolations(versionIds);
+  if (violations.length > 0) {
+    throw createError(403, 'Installation refused by the package signature policy.', 'SIGNATURE_POLICY_VIOLATION', {
+      policy: getSignaturePolicy(),
+      violations,
+    });
+  }
+}
+
+// Helper function to refuse installs the user has not consented to: every
+// permission requested by the versions being installed must be accepted
+async function assertPermissionConsent(versionIds: string[], acceptedPermissions: string[] = []) {
+  const versions = await db
+    .select({ manifest: extensionVersions.manifest })
+    .from(extensionVersions)
+    .where(inArray(extensionVersions.id, versionIds));
+
+  const requested = [...new Set(versions.flatMap((version) => getRequestedPermissions(version.manifest)))].sort();
+  const missing = findMissingPermissions(requested, acceptedPermissions);
+  if (missing.length > 0) {
+    throw createError(403, 'The permissions requested by the extension must be accepted to install it.', 'PERMISSION_CONSENT_REQUIRED', {
+      permissions: requested.map(describePermission),
+      missing,
+    });
+  }
+}
+
+// Helper function to refuse installs missing required environment variables.
+// Dependencies installed along the way get no variables, so one that requires
+// some has to be installed on its own first.
+async function assertRequiredEnvironment(
+  extension: string,
+  manifest: unknown,
+  environmentVariables: Record<string, string>,
+  dependencies: ResolvedDependency[]
+) {
+  const dependencyVersions = dependencies.length > 0
+    ? await db
+        .select({ id: extensionVersions.id, manifest: extensionVersions.manifest })
+        .from(extensionVersions)
+        .where(inArray(extensionVersions.id, dependencies.map((dependency) => dependency.versionId)))
+    : [];
+
+  const missing = [
+    ...findMissingEnvironment(manifest, environmentVariables).map((variable) => ({ ...variable, extension })),
+    ...dependencies.flatMap((dependency) =>
+      findMissingEnvironment(dependencyVersions.find((version) => version.id === dependency.versionId)?.manifest, {})
+        .map((variable) => ({ ...variable, extension: dependency.name }))
+    ),
+  ];
+  if (missing.length > 0) {
+    throw createError(400, 'Required environment variables are missing.', 'MISSING_ENVIRONMENT_VARIABLES', { missing });
+  }
+}
+
+// Helper function to refuse installs whose dependencies cannot be installed
+// with their config defaults. Dependencies installed along the way get no
+// config of their own, so one with required settings has to be installed on
+// its own first.
+async function assertDependencyConfig(dependencies: ResolvedDependency[]) {
+  if (dependencies.length === 0) {
+    return;
+  }
+
+  const dependencyVersions = await db
+    .select({ id: extensionVersions.id, manifest: extensionVersions.manifest })
+    .from(extensionVersions)
+    .where(inArray(extensionVersions.id, dependencies.map((dependency) => dependency.versionId)));
+
+  const invalid = dependencies.flatMap((dependency) => {
+    const manifest = dependencyVersions.find((version) => version.id === dependency.versionId)?.manifest;
+    const { issues } = resolveConfig(manifest, {});
+    return issues.length > 0 ? [{ extension: dependency.name, version: dependency.version, issues }] : [];
+  });
+  if (invalid.length > 0) {
+    throw createError(400, 'Dependencies need config that cannot be filled in from defaults.', 'INVALID_DEPENDENCY_CONFIG', {
+      dependencies: invalid,
+    });
+  }
+}
+
+// Helper function to describe why a version being installed is discouraged
+function getVersionWarnings(version: {
+  version: string;
+  isDeprecated?: boolean | null;
+  deprecationMessage?: string | null;
+  yankedAt?: Date | null;
+  yankReason?: string | null;
+}): string[] {
+  const warnings: string[] = [];
+  if (version.isDeprecated) {
+    warnings.push(`Version ${version.version} is deprecated${version.deprecationMessage ? `: ${version.deprecationMessage}` : '.'}`);
+  }
+  if (version.yankedAt) {
+    warnings.push(`Version ${version.version} has been yanked${version.yankReason ? `: ${version.yankReason}` : '.'}`);
+  }
+  return warnings;
+}
+
+// Helper function to load an installation together with the version data
+// needed to execute it
+async function getExecutableInstallation(id: string) {
+  const installationResult = await db
+    .select({
+      id: extensionInstallations.id,
+      status: extensionInstallations.status,
+      config: extensionInstallations.config,
+      environmentVariables: extensionInstallations.environmentVariables,
+      grantedPermissions: extensionInstallations.grantedPermissions,
+      schemaName: extensionInstallations.schemaName,
+      // Version details for execution
+      serverlessCode: extensionVersions.serverlessCode,
+      serverlessConfig: extensionVersions.serverlessConfig,
+      files: extensionVersions.files,
+      manifest: extensionVersions.manifest,
+      // Installing user, exposed to handlers with `user:profile`
+      user: {
+        id: users.id,
+        username: users.username,
+        displayName: users.displayName,
+        avatar: users.avatar,
+        email: users.email,
+      },
+    })
+    .from(extensionInstallations)
+    .leftJoin(extensionVersions, eq(extensionInstallations.versionId, extensionVersions.id))
+    .innerJoin(users, eq(extensionInstallations.userId, users.id))
+    .where(eq(extensionInstallations.id, id))
+    .limit(1);
+
+  const installation = installationResult[0];
+  if (!installation) {
+    throw new HTTPException(404, {
+      message: 'Installation not found.',
+    });
+  }
+
+  if (installation.status !== 'installed') {
+    throw new HTTPException(400, {
+      message: 'Extension is not installed or not ready.',
+    });
+  }
+
+  return installation;
+}
+
+// Helper function to run a resolved endpoint handler in the sandbox
+async function runEndpoint(
+  installation: Awaited<ReturnType<typeof getExecutableInstallation>>,
+  resolved: ResolvedEndpoint,
+  parameters: Record<string, any>,
+  request?: ExecutionHttpRequest
+) {
+  const source = resolveHandlerSource(installation, resolved.endpoint.handler);
+  if (!source) {
+    throw createError(
+      404,
+      `Handler "${resolved.endpoint.handler}" is not provided by this extension.`,
+      'HANDLER_NOT_FOUND'
+    );
+  }
+
+  // Handlers only get what the installation's permissions allow
+  const permissions = getGrantedPermissions(installation);
+  const { email, ...profile } = installation.user;
+  const schemaName = installation.schemaName || getInstallationSchemaName(installation.id);
+
+  const execution = await executeInSandbox(
+    {
+      code: source.code,
+      handler: source.handler,
+      action: resolved.endpoint.handler,
+      parameters,
+      config: installation.config || {},
+      environmentVariables: hasPermission(permissions, 'secrets:read') ? decryptEnvironment(installation.environmentVariables) : {},
+      installationId: installation.id,
+      request,
+      permissions,
+      user: hasPermission(permissions, 'user:profile')
+        ? { ...profile, ...(hasPermission(permissions, 'user:email') ? { email } : {}) }
+        : undefined,
+    },
+    EXECUTION_LIMITS,
+    {
+      query: hasPermission(permissions, 'database:read')
+        ? (text, params) => runInstallationQuery(schemaName, text, params, {
+            readOnly: !hasPermission(permissions, 'database:write'),
+          })
+        : undefined,
+    }
+  );
+
+  // Update last used timestamp
+  await db
+    .update(extensionInstallations)
+    .set({
+      lastUsedAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .where(eq(extensionInstallations.id, installation.id));
+
+  return execution;
+}
+
+// Request headers never forwarded to extension handlers
+const PRIVATE_REQUEST_HEADERS = ['authorization', 'cookie', 'x-api-key'];
+
+// Helper function to read a proxied request body based on its content type
+async function readProxyBody(c: any): Promise<any> {
+  if (c.req.method === 'GET' || c.req.method === 'HEAD') {
+    return undefined;
+  }
+
+  const contentType = (c.req.header('content-type') || '').toLowerCase();
+  const text = await c.req.text();
+  if (!text) {
+    return undefined;
+  }
+
+  if (contentType.includes('application/json')) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new HTTPException(400, { message: 'Invalid JSON body.' });
+    }
+  }
+
+  if (contentType.includes('application/x-www-form-urlencoded')) {
+    return Object.fromEntries(new URLSearchParams(text));
+  }
+
+  return text;
+}
+
+// Headers set on every proxied response, overriding the handler's. Handler
+// output is served from the store's origin, so browsers must not sniff it
+// into HTML or run it as a page with access to that origin.
+const PROXY_RESPONSE_HEADERS: Record<string, string> = {
+  'x-content-type-options': 'nosniff',
+  'content-security-policy': "sandbox; default-src 'none'",
+};
+
+// Helper function to build the HTTP response for a proxied handler result
+function toProxyResponse(status: number, headers: Record<string, string>, body: unknown, isBase64Encoded: boolean): Response {
+  const responseHeaders = new Headers(headers);
+  for (const [name, value] of Object.entries(PROXY_RESPONSE_HEADERS)) {
+    responseHeaders.set(name, value);
+  }
+
+  if (body === undefined || body === null || status === 204 || status === 304) {
+    return new Response(null, { status, headers: responseHeaders });
+  }
+
+  if (typeof body === 'string') {
+    if (isBase64Encoded) {
+      return new Response(Buffer.from(body, 'base64'), { status, headers: responseHeaders });
+    }
+    if (!responseHeaders.has('content-type')) {
+      responseHeaders.set('content-type', 'text/plain; charset=UTF-8');
+    }
+    return new Response(body, { status, headers: responseHeaders });
+  }
+
+  if (!responseHeaders.has('content-type')) {
+    responseHeaders.set('content-type', 'application/json');
+  }
+  return new Response(JSON.stringify(body), { status, headers: responseHeaders });
+}
+
 // Helper function to get installation owner
 const getInstallationOwner = async (c: any): Promise<string> => {
   const { id } = c.req.param();
@@ -34,6 +375,7 @@ const getInstallationOwner = async (c: any): Promise<string> => {
 // GET / - List user's installations
 installationRoutes.get('/',
   authMiddleware,
+  requireScope('installations:read'),
   validationMiddleware.withPagination,
   async (c) => {
     try {
@@ -43,16 +385,21 @@ installationRoutes.get('/',
       }
 
       const query = getValidatedQuery(c) || {};
-      const { page = 1, limit = 20 } = query;
-      const offset = (page - 1) * limit;
+      const paging = getPaging(query, [
+        { field: 'createdAt', expression: extensionInstallations.createdAt, direction: 'desc' },
+        { field: 'id', expression: extensionInstallations.id, direction: 'desc' },
+      ]);
 
       // Get total count
-      const totalResult = await db
-        .select({ count: count() })
-        .from(extensionInstallations)
-        .where(eq(extensionInstallations.userId, user.id));
-
-      const total = totalResult[0]?.count || 0;
+      let total: number | undefined;
+      if (paging.withTotal) {
+        const totalResult = await db
+          .select({ count: count() })
+          .from(extensionInstallations)
+          .where(eq(extensionInstallations.userId, user.id));
+
+        total = totalResult[0]?.count || 0;
+      }
 
       // Get installations with extension details
       const results = await db
@@ -69,6 +416,7 @@ installationRoutes.get('/',
           uninstalledAt: extensionInstallations.uninstalledAt,
           errorMessage: extensionInstallations.errorMessage,
           errorDetails: extensionInstallations.errorDetails,
+          progress: extensionInstallations.progress,
           createdAt: extensionInstallations.createdAt,
           updatedAt: extensionInstallations.updatedAt,
           // Extension details
@@ -91,21 +439,19 @@ installationRoutes.get('/',
         .from(extensionInstallations)
         .leftJoin(extensions, eq(extensionInstallations.extensionId, extensions.id))
         .leftJoin(extensionVersions, eq(extensionInstallations.versionId, extensionVersions.id))
-        .where(eq(extensionInstallations.userId, user.id))
-        .orderBy(desc(extensionInstallations.createdAt))
-        .limit(limit)
-        .offset(offset);
+        .where(and(eq(extensionInstallations.userId, user.id), paging.where))
+        .orderBy(...paging.orderBy)
+        .limit(paging.take)
+        .offset(paging.offset);
+
+      const { data, pagination } = toPage(results, paging, total);
 
       const response: PaginatedResponse<any> = {
-        data: results,
-        pagination: {
-          page,
-          limit,
-          total,
-          pages: Math.ceil(total / limit),
-          hasNext: page < Math.ceil(total / limit),
-          hasPrev: page > 1,
-        },
+        data: data.map((installation) => ({
+          ...installation,
+          environmentVariables: maskEnvironment(installation.environmentVariables),
+        })),
+        pagination,
       };
 
       return c.json(response);
@@ -126,6 +472,7 @@ installationRoutes.get('/',
 // POST / - Install an extension
 installationRoutes.post('/',
   authMiddleware,
+  requireScope('installations:write'),
   validationMiddleware.installExtension,
   async (c) => {
     try {
@@ -139,13 +486,14 @@ installationRoutes.post('/',
         throw new HTTPException(400, { message: 'Invalid request body' });
       }
 
-      const { extensionId, version, config, environmentVariables } = body;
+      const { extensionId, version, config, environmentVariables, acceptedPermissions } = body;
 
       // Check if extension exists and is published
       const extensionResult = await db
         .select({
           id: extensions.id,
           name: extensions.name,
+          slug: extensions.slug,
           status: extensions.status,
           isPublic: extensions.isPublic,
         })
@@ -166,52 +514,37 @@ installationRoutes.post('/',
         });
       }
 
-      // Find version to install
-      let versionToInstall;
-      if (version) {
-        // Install specific version
-        const versionResult = await db
-          .select()
-          .from(extensionVersions)
-          .where(
-            and(
-              eq(extensionVersions.extensionId, extensionId),
-              eq(extensionVersions.version, version)
-            )
-          )
-          .limit(1);
-
-        versionToInstall = versionResult[0];
-        if (!versionToInstall) {
-          throw new HTTPException(404, {
-            message: 'Specified version not found.',
-          });
-        }
-      } else {
-        // Install latest version
-        const latestVersionResult = await db
-          .select()
-          .from(extensionVersions)
-          .where(
-            and(
-              eq(extensionVersions.extensionId, extensionId),
-              eq(extensionVersions.isDeprecated, false)
-            )
-          )
-          .orderBy(desc(extensionVersions.createdAt))
-          .limit(1);
+      // Find version to install: an exact version, a dist-tag such as
+      // `beta`, or the version tagged `latest` when none is given
+      const versionId = await resolveVersionSpecifier(extensionId, version);
+      const versionResult = versionId
+        ? await db
+            .select()
+            .from(extensionVersions)
+            .where(eq(extensionVersions.id, versionId))
+            .limit(1)
+        : [];
+
+      const versionToInstall = versionResult[0];
+      if (!versionToInstall) {
+        throw new HTTPException(404, {
+          message: version ? 'Specified version not found.' : 'No installable version found.',
+        });
+      }
 
-        versionToInstall = latestVersionResult[0];
-        if (!versionToInstall) {
-          throw new HTTPException(404, {
-            message: 'No installable version found.',
-          });
-        }
+      // Config must match the version's schema; its defaults are filled in
+      const resolvedConfig = resolveConfig(versionToInstall.manifest, config);
+      if (resolvedConfig.issues.length > 0) {
+        throw toValidationError(resolvedConfig.issues);
       }
 
-      // Check if already installed
-      const existingInstallation = await db
-        .select({ id: extensionInstallations.id })
+      // Check if already installed. Failed and uninstalled records are reused
+      // so the extension can be installed again.
+      const existingInstallationResult = await db
+        .select({
+          id: extensionInstallations.id,
+          status: extensionInstallations.status,
+        })
         .from(extensionInstallations)
         .where(
           and(
@@ -221,48 +554,63 @@ installationRoutes.post('/',
         )
         .limit(1);
 
-      if (existingInstallation.length > 0) {
+      const existingInstallation = existingInstallationResult[0];
+      if (existingInstallation && existingInstallation.status !== 'failed' && existingInstallation.status !== 'uninstalled') {
         throw new HTTPException(409, {
-          message: 'Extension is already installed.',
+          message: existingInstallation.status === 'pending'
+            ? 'Extension installation is already in progress.'
+            : 'Extension is already installed.',
         });
       }
 
-      // Create installation record
-      const newInstallation = await db
-        .insert(extensionInstallations)
-        .values({
-          userId: user.id,
-          extensionId,
-          versionId: versionToInstall.id,
-          status: 'pending',
-          config: config || {},
-          environmentVariables: environmentVariables || {},
-          createdAt: new Date(),
-          updatedAt: new Date(),
-        })
-        .returning();
-
-      const installation = newInstallation[0];
-      if (!installation) {
-        throw new HTTPException(500, { message: 'Failed to create installation' });
+      // Resolve required extensions before touching anything
+      const resolution = await resolveDependencies(user.id, {
+        slug: extension.slug,
+        version: versionToInstall,
+      });
+      if (resolution.conflicts.length > 0) {
+        throw createError(409, 'Extension dependencies cannot be satisfied.', 'DEPENDENCY_CONFLICT', {
+          conflicts: resolution.conflicts,
+          resolution,
+        });
       }
 
-      // TODO: In a real implementation, this would:
-      // 1. Run the extension's migration scripts
-      // 2. Set up the database schema
-      // 3. Deploy serverless functions
-      // 4. Validate component dependencies
-      // 5. Update status to 'installed' or 'failed'
+      // The version and every dependency about to be installed must satisfy
+      // the signature policy
+      await assertSignaturePolicy([
+        versionToInstall.id,
+        ...resolution.install.map((dependency) => dependency.versionId),
+      ]);
 
-      // For now, we'll simulate successful installation
-      await db
-        .update(extensionInstallations)
-        .set({
-          status: 'installed',
-          installedAt: new Date(),
-          updatedAt: new Date(),
-        })
-        .where(eq(extensionInstallations.id, installation.id));
+      // The user must consent to the permissions of the version and of every
+      // dependency about to be installed
+      await assertPermissionConsent([
+        versionToInstall.id,
+        ...resolution.install.map((dependency) => dependency.versionId),
+      ], acceptedPermissions);
+
+      await assertRequiredEnvironment(extension.slug, versionToInstall.manifest, environmentVariables || {}, resolution.install);
+      await assertDependencyConfig(resolution.install);
+
+      // Create installation record
+      const installation = await createPendingInstallation({
+        userId: user.id,
+        extensionId,
+        versionId: versionToInstall.id,
+        config: resolvedConfig.config,
+        environmentVariables,
+        grantedPermissions: getRequestedPermissions(versionToInstall.manifest),
+      });
+
+      // Install missing dependencies, then provision the installation schema
+      // and run the version's migrations
+      const outcome = await runInstallWithDependencies(user.id, installation.id, versionToInstall, resolution.install);
+      if (!outcome.success && outcome.error) {
+        throw createError(422, outcome.error.message, 'INSTALLATION_FAILED', {
+          installationId: installation.id,
+          ...outcome.error.details,
+        });
+      }
 
       // Update download count
       await db
@@ -283,13 +631,22 @@ installationRoutes.post('/',
         message: 'Extension installed successfully!',
         installation: {
           ...installation,
+          environmentVariables: maskEnvironment(installation.environmentVariables),
           status: 'installed',
+          schemaName: outcome.schemaName,
+          progress: outcome.progress,
           installedAt: new Date(),
         },
+        dependencies: {
+          installed: outcome.dependencies,
+          satisfied: resolution.satisfied,
+          skipped: resolution.skipped,
+        },
+        warnings: getVersionWarnings(versionToInstall),
       }, 201);
 
     } catch (error) {
-      if (error instanceof HTTPException) {
+      if (error instanceof HTTPException || error instanceof ZodError) {
         throw error;
       }
 
@@ -304,11 +661,12 @@ installationRoutes.post('/',
 // GET /:id - Get installation details
 installationRoutes.get('/:id',
   authMiddleware,
+  requireScope('installations:read'),
   validationMiddleware.withId,
   requireOwnershipOrAdmin(getInstallationOwner),
   async (c) => {
     try {
-      const { id } = c.req.param();
+      const id = c.req.param('id')!;
 
       const result = await db
         .select({
@@ -324,6 +682,10 @@ installationRoutes.get('/:id',
           uninstalledAt: extensionInstallations.uninstalledAt,
           errorMessage: extensionInstallations.errorMessage,
           errorDetails: extensionInstallations.errorDetails,
+          schemaName: extensionInstallations.schemaName,
+          progress: extensionInstallations.progress,
+          grantedPermissions: extensionInstallations.grantedPermissions,
+          permissionsGrantedAt: extensionInstallations.permissionsGrantedAt,
           createdAt: extensionInstallations.createdAt,
           updatedAt: extensionInstallations.updatedAt,
           // Extension details
@@ -360,7 +722,22 @@ installationRoutes.get('/:id',
         });
       }
 
-      return c.json({ installation });
+      // Declared variables with whether they are set; values are never returned
+      const environmentVariables = maskEnvironment(installation.environmentVariables);
+      return c.json({
+        installation: {
+          ...installation,
+          environmentVariables,
+          environment: getDeclaredEnvironment(installation.version?.manifest).map((variable) => ({
+            ...variable,
+            isSet: variable.name in environmentVariables,
+          })),
+          permissions: getGrantedPermissions({
+            grantedPermissions: installation.grantedPermissions,
+            manifest: installation.version?.manifest,
+          }).map(describePermission),
+        },
+      });
 
     } catch (error) {
       if (error instanceof HTTPException) {
@@ -378,24 +755,53 @@ installationRoutes.get('/:id',
 // PUT /:id - Update installation configuration
 installationRoutes.put('/:id',
   authMiddleware,
-  validationMiddleware.withId,
+  requireScope('installations:write'),
+  validationMiddleware.updateInstallation,
   requireOwnershipOrAdmin(getInstallationOwner),
   async (c) => {
     try {
-      const { id } = c.req.param();
-      const body = await c.req.json();
-      const { config, environmentVariables } = body;
+      const id = c.req.param('id')!;
+      const { config, environmentVariables } = getValidatedBody<UpdateInstallationRequest>(c) || {};
 
       const updateData: any = {
         updatedAt: new Date(),
       };
 
+      const currentResult = await db
+        .select({
+          environmentVariables: extensionInstallations.environmentVariables,
+          manifest: extensionVersions.manifest,
+        })
+        .from(extensionInstallations)
+        .innerJoin(extensionVersions, eq(extensionInstallations.versionId, extensionVersions.id))
+        .where(eq(extensionInstallations.id, id))
+        .limit(1);
+
+      const current = currentResult[0];
+      if (!current) {
+        throw new HTTPException(404, {
+          message: 'Installation not found.',
+        });
+      }
+
       if (config !== undefined) {
-        updateData.config = config;
+        const resolvedConfig = resolveConfig(current.manifest, config);
+        if (resolvedConfig.issues.length > 0) {
+          throw toValidationError(resolvedConfig.issues);
+        }
+        updateData.config = resolvedConfig.config;
       }
 
       if (environmentVariables !== undefined) {
-        updateData.environmentVariables = environmentVariables;
+        // Values are write-only, so updates merge into the stored variables
+        const values = mergeEnvironment(current.environmentVariables, environmentVariables);
+        const missing = findMissingEnvironment(current.manifest, values);
+        if (missing.length > 0) {
+          throw createError(400, 'Required environment variables cannot be removed.', 'MISSING_ENVIRONMENT_VARIABLES', {
+            missing,
+          });
+        }
+        updateData.environmentVariables = encryptEnvironment(values);
       }
 
       const updatedInstallation = await db
@@ -413,11 +819,14 @@ installationRoutes.put('/:id',
 
       return c.json({
         message: 'Installation updated successfully!',
-        installation,
+        installation: {
+          ...installation,
+          environmentVariables: maskEnvironment(installation.environmentVariables),
+        },
       });
 
     } catch (error) {
-      if (error instanceof HTTPException) {
+      if (error instanceof HTTPException || error instanceof ZodError) {
         throw error;
       }
 
@@ -432,19 +841,21 @@ installationRoutes.put('/:id',
 // DELETE /:id - Uninstall extension
 installationRoutes.delete('/:id',
   authMiddleware,
+  requireScope('installations:write'),
   validationMiddleware.withId,
   requireOwnershipOrAdmin(getInstallationOwner),
   async (c) => {
     try {
       const { id } = c.req.param();
 
+      const cascade = c.req.query('cascade') === 'true';
+
       // Get installation details first
       const installationResult = await db
         .select({
           id: extensionInstallations.id,
+          userId: extensionInstallations.userId,
           status: extensionInstallations.status,
-          extensionId: extensionInstallations.extensionId,
-          versionId: extensionInstallations.versionId,
         })
         .from(extensionInstallations)
         .where(eq(extensionInstallations.id, id))
@@ -463,24 +874,41 @@ installationRoutes.delete('/:id',
         });
       }
 
-      // TODO: In a real implementation, this would:
-      // 1. Run down migrations to clean up database schema
-      // 2. Remove serverless functions
-      // 3. Clean up any created resources
-      // 4. Archive user data if needed
+      // Refuse to break installations that require this one unless the
+      // caller asks for them to be uninstalled as well
+      const dependents = await findDependents(installation.userId, installation.id);
+      const dependentSummary = dependents.map((dependent) => ({
+        installationId: dependent.id,
+        name: dependent.slug,
+        version: dependent.version,
+      }));
+
+      if (dependents.length > 0 && !cascade) {
+        throw createError(
+          409,
+          'Other installed extensions depend on this extension. Pass cascade=true to uninstall them too.',
+          'HAS_DEPENDENTS',
+          { dependents: dependentSummary }
+        );
+      }
 
-      // Update installation status
-      await db
-        .update(extensionInstallations)
-        .set({
-          status: 'uninstalled',
-          uninstalledAt: new Date(),
-          updatedAt: new Date(),
-        })
-        .where(eq(extensionInstallations.id, id));
+      // Run the down migrations and drop the installation schemas, dependents
+      // first
+      try {
+        for (const dependent of dependents) {
+          await uninstallInstallation(dependent.id);
+        }
+        await uninstallInstallation(installation.id);
+      } catch (error) {
+        if (error instanceof InstallationError) {
+          throw createError(422, error.message, 'UNINSTALL_FAILED', error.details);
+        }
+        throw error;
+      }
 
       return c.json({
         message: 'Extension uninstalled successfully!',
+        uninstalledDependents: dependentSummary,
       });
 
     } catch (error) {
@@ -496,37 +924,83 @@ installationRoutes.delete('/:id',
   }
 );
 
-// POST /:id/execute - Execute extension functionality
-installationRoutes.post('/:id/execute',
+// GET /:id/config-schema - Config schema of the installed version, for
+// rendering a settings form
+installationRoutes.get('/:id/config-schema',
   authMiddleware,
+  requireScope('installations:read'),
+  validationMiddleware.withId,
   requireOwnershipOrAdmin(getInstallationOwner),
   async (c) => {
     try {
-      const { id } = c.req.param();
-      const body = await c.req.json();
-      const { action, parameters } = body;
+      const result = await db
+        .select({
+          config: extensionInstallations.config,
+          version: extensionVersions.version,
+          manifest: extensionVersions.manifest,
+        })
+        .from(extensionInstallations)
+        .innerJoin(extensionVersions, eq(extensionInstallations.versionId, extensionVersions.id))
+        .where(eq(extensionInstallations.id, c.req.param('id')!))
+        .limit(1);
 
-      if (!action) {
-        throw new HTTPException(400, {
-          message: 'Action is required.',
+      const installation = result[0];
+      if (!installation) {
+        throw new HTTPException(404, {
+          message: 'Installation not found.',
         });
       }
 
-      // Get installation with version details
+      const schema = getConfigSchema(installation.manifest);
+      return c.json({
+        version: installation.version,
+        schema: schema ?? null,
+        defaults: applyConfigDefaults(schema, {}),
+        config: installation.config ?? {},
+      });
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
+      console.error('Get installation config schema error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to retrieve config schema.',
+      });
+    }
+  }
+);
+
+// POST /:id/upgrade - Move an installation to another version
+installationRoutes.post('/:id/upgrade',
+  authMiddleware,
+  requireScope('installations:write'),
+  validationMiddleware.upgradeInstallation,
+  requireOwnershipOrAdmin(getInstallationOwner),
+  async (c) => {
+    try {
+      const body = getValidatedBody<UpgradeInstallationRequest>(c) || {};
+      const { dryRun = false } = body;
+
       const installationResult = await db
         .select({
           id: extensionInstallations.id,
+          userId: extensionInstallations.userId,
+          extensionId: extensionInstallations.extensionId,
           status: extensionInstallations.status,
-          config: extensionInstallations.config,
+          schemaName: extensionInstallations.schemaName,
+          grantedPermissions: extensionInstallations.grantedPermissions,
           environmentVariables: extensionInstallations.environmentVariables,
-          // Version details for execution
-          serverlessCode: extensionVersions.serverlessCode,
-          serverlessConfig: extensionVersions.serverlessConfig,
+          config: extensionInstallations.config,
+          slug: extensions.slug,
+          version: extensionVersions.version,
           manifest: extensionVersions.manifest,
         })
         .from(extensionInstallations)
-        .leftJoin(extensionVersions, eq(extensionInstallations.versionId, extensionVersions.id))
-        .where(eq(extensionInstallations.id, id))
+        .innerJoin(extensions, eq(extensionInstallations.extensionId, extensions.id))
+        .innerJoin(extensionVersions, eq(extensionInstallations.versionId, extensionVersions.id))
+        .where(eq(extensionInstallations.id, c.req.param('id')!))
         .limit(1);
 
       const installation = installationResult[0];
@@ -538,33 +1012,329 @@ installationRoutes.post('/:id/execute',
 
       if (installation.status !== 'installed') {
         throw new HTTPException(400, {
-          message: 'Extension is not installed or not ready.',
+          message: 'Only installed extensions can change versions.',
+        });
+      }
+
+      if (!semver.valid(installation.version)) {
+        throw new HTTPException(400, {
+          message: `Installed version ${installation.version} is not a valid semver version.`,
+        });
+      }
+
+      const versions: (ChainVersion & {
+        isDeprecated: boolean | null;
+        deprecationMessage: string | null;
+        yankedAt: Date | null;
+        yankReason: string | null;
+        publishedAt: Date | null;
+      })[] = await db
+        .select({
+          id: extensionVersions.id,
+          version: extensionVersions.version,
+          migrationUp: extensionVersions.migrationUp,
+          migrationDown: extensionVersions.migrationDown,
+          serverlessCode: extensionVersions.serverlessCode,
+          files: extensionVersions.files,
+          manifest: extensionVersions.manifest,
+          requiredExtensions: extensionVersions.requiredExtensions,
+          isPrerelease: extensionVersions.isPrerelease,
+          isDeprecated: extensionVersions.isDeprecated,
+          deprecationMessage: extensionVersions.deprecationMessage,
+          yankedAt: extensionVersions.yankedAt,
+          yankReason: extensionVersions.yankReason,
+          publishedAt: extensionVersions.publishedAt,
+        })
+        .from(extensionVersions)
+        .where(eq(extensionVersions.extensionId, installation.extensionId));
+
+      // Ranges other installations require of this extension
+      const requiredRanges = await getRequiredRanges(installation.userId, installation.id);
+
+      // Check a target version against dependents and its own dependencies
+      const checkCompatibility = async (target: (typeof versions)[number]) => {
+        const conflicts: DependencyConflict[] = requiredRanges
+          .filter((required) => !semver.satisfies(target.version, required.range, { includePrerelease: true }))
+          .map((required) => ({
+            type: 'RANGE_CONFLICT' as const,
+            name: installation.slug,
+            range: required.range,
+            requiredBy: required.requiredBy,
+            resolvedVersion: target.version,
+            message: `${required.requiredBy} requires ${installation.slug}@${required.range}.`,
+          }));
+
+        const resolution = await resolveDependencies(installation.userId, {
+          slug: installation.slug,
+          version: target,
+        });
+        conflicts.push(...resolution.conflicts);
+
+        return { conflicts, resolution };
+      };
+
+      // A target may be named by version or by dist-tag
+      const distTags = await getDistTags(installation.extensionId);
+      const targetVersion = body.version && (distTags[body.version] ?? body.version);
+
+      let target: (typeof versions)[number] | undefined;
+      let compatibility: Awaited<ReturnType<typeof checkCompatibility>> | undefined;
+
+      if (targetVersion) {
+        target = versions.find((version) => version.version === targetVersion);
+        if (!target) {
+          throw new HTTPException(404, {
+            message: 'Specified version not found.',
+          });
+        }
+        // An exact version may be yanked, but not unpublished
+        if (!semver.valid(target.version) || !target.publishedAt) {
+          throw new HTTPException(400, {
+            message: 'Specified version is not installable.',
+          });
+        }
+        compatibility = await checkCompatibility(target);
+      } else {
+        // Latest compatible: the highest stable version, up to the one tagged
+        // `latest`, whose dependencies are satisfied and that every dependent
+        // still accepts
+        const latestTag = distTags[LATEST_TAG];
+        const candidates = versions
+          .filter((version) => semver.valid(version.version) && version.publishedAt && !version.yankedAt)
+          .filter((version) => !semver.prerelease(version.version))
+          .filter((version) => !latestTag || !semver.valid(latestTag) || semver.lte(version.version, latestTag))
+          .sort((a, b) => semver.rcompare(a.version, b.version));
+
+        for (const candidate of candidates) {
+          if (semver.lte(candidate.version, installation.version)) {
+            break;
+          }
+          const result = await checkCompatibility(candidate);
+          if (result.conflicts.length === 0 && result.resolution.install.length === 0) {
+            target = candidate;
+            compatibility = result;
+            break;
+          }
+        }
+
+        if (!target) {
+          return c.json({
+            message: 'Installation is already on the latest compatible version.',
+            dryRun,
+            plan: buildMigrationPlan(installation.id, versions, installation.version, installation.version),
+          });
+        }
+      }
+
+      const plan = buildMigrationPlan(installation.id, versions, installation.version, target.version);
+      const dependencies = {
+        conflicts: compatibility!.conflicts,
+        missing: compatibility!.resolution.install,
+        satisfied: compatibility!.resolution.satisfied,
+      };
+
+      // Permissions the target requests beyond those already granted need
+      // the user's consent again
+      const grantedPermissions = getGrantedPermissions(installation);
+      const requestedPermissions = getRequestedPermissions(target.manifest);
+      const permissions: PermissionChanges = {
+        granted: grantedPermissions,
+        requested: requestedPermissions,
+        added: findMissingPermissions(requestedPermissions, grantedPermissions),
+        removed: grantedPermissions.filter((permission) => !hasPermission(requestedPermissions, permission)),
+      };
+
+      // The config goes through the config migrations of the versions an
+      // upgrade crosses (or is replaced by the request's) and must then match
+      // the target's schema
+      const crossedVersions = plan.direction === 'upgrade'
+        ? plan.steps.map((step) => versions.find((version) => version.version === step.version)!)
+        : [];
+      const resolvedConfig = resolveConfig(
+        target.manifest,
+        body.config ?? migrateConfig(installation.config ?? {}, crossedVersions)
+      );
+
+      // Variables the target requires must be set before switching to it
+      const missingEnvironment = findMissingEnvironment(target.manifest, decryptEnvironment(installation.environmentVariables));
+
+      if (plan.direction !== 'none') {
+        await assertSignaturePolicy([target.id]);
+      }
+
+      if (dryRun) {
+        return c.json({
+          message: 'Dry run: no changes were made.',
+          dryRun: true,
+          plan,
+          dependencies,
+          permissions,
+          environment: { missing: missingEnvironment },
+          config: resolvedConfig,
+        });
+      }
+
+      if (plan.direction === 'none') {
+        throw new HTTPException(400, {
+          message: `Installation is already on version ${target.version}.`,
+        });
+      }
+
+      if (dependencies.conflicts.length > 0 || dependencies.missing.length > 0) {
+        throw createError(409, 'Target version is not compatible with installed extensions.', 'DEPENDENCY_CONFLICT', {
+          plan,
+          ...dependencies,
+        });
+      }
+
+      if (resolvedConfig.issues.length > 0) {
+        throw toValidationError(resolvedConfig.issues);
+      }
+
+      if (missingEnvironment.length > 0) {
+        throw createError(400, 'The target version requires environment variables that are not set.', 'MISSING_ENVIRONMENT_VARIABLES', {
+          missing: missingEnvironment,
+        });
+      }
+
+      const unaccepted = findMissingPermissions(permissions.added, body.acceptedPermissions || []);
+      if (unaccepted.length > 0) {
+        throw createError(403, 'The target version requests new permissions that must be accepted.', 'PERMISSION_CONSENT_REQUIRED', {
+          ...permissions,
+          permissions: permissions.added.map(describePermission),
+          missing: unaccepted,
+        });
+      }
+
+      try {
+        await runVersionChange(installation, plan, versions, target, {
+          config: resolvedConfig.config,
+          grantedPermissions: requestedPermissions,
+        });
+      } catch (error) {
+        if (error instanceof InstallationError) {
+          throw createError(422, error.message, 'UPGRADE_FAILED', {
+            plan,
+            step: error.step,
+            ...error.details,
+          });
+        }
+        throw error;
+      }
+
+      return c.json({
+        message: plan.direction === 'upgrade'
+          ? 'Extension upgraded successfully!'
+          : 'Extension downgraded successfully!',
+        dryRun: false,
+        plan,
+        installation: {
+          id: installation.id,
+          versionId: target.id,
+          version: target.version,
+          config: resolvedConfig.config,
+          grantedPermissions: requestedPermissions,
+        },
+        permissions,
+        warnings: getVersionWarnings(target),
+      });
+
+    } catch (error) {
+      if (error instanceof HTTPException || error instanceof ZodError) {
+        throw error;
+      }
+
+      console.error('Upgrade installation error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to change installation version.',
+      });
+    }
+  }
+);
+
+// POST /:id/execute - Execute a manifest-declared endpoint
+installationRoutes.post('/:id/execute',
+  authMiddleware,
+  requireScope('installations:execute'),
+  requireOwnershipOrAdmin(getInstallationOwner),
+  async (c) => {
+    try {
+      const id = c.req.param('id')!;
+      const body = await c.req.json().catch(() => {
+        throw new HTTPException(400, { message: 'Invalid JSON body.' });
+      });
+      const { action, method, path, parameters = {} } = body ?? {};
+
+      if (!action && !(method && path)) {
+        throw new HTTPException(400, {
+          message: 'Action or method and path are required.',
         });
       }
 
-      // TODO: In a real implementation, this would:
-      // 1. Validate the action against available endpoints
-      // 2. Execute the serverless function with proper sandboxing
-      // 3. Apply rate limiting and resource constraints
-      // 4. Return the execution result
+      if (typeof parameters !== 'object' || parameters === null || Array.isArray(parameters)) {
+        throw new HTTPException(400, {
+          message: 'Parameters must be an object.',
+        });
+      }
+
+      const installation = await getExecutableInstallation(id);
+
+      // Resolve the call against the version's declared endpoints
+      const resolved = resolveEndpoint(getManifestEndpoints(installation.manifest), { action, method, path });
+      if (!resolved) {
+        throw createError(404, `Unknown action: ${action || `${method} ${path}`}`, 'UNKNOWN_ACTION');
+      }
+
+      // RPC-style calls pass every parameter in one object, so each location
+      // reads from it; path parameters may also come from the matched path.
+      const { values, issues } = validateParameters(resolved.endpoint, {
+        path: { ...parameters, ...resolved.pathParams },
+        query: parameters,
+        body: parameters,
+        header: parameters,
+      });
+      if (issues.length > 0) {
+        throw toValidationError(issues);
+      }
+
+      const execution = await runEndpoint(installation, resolved, values);
 
-      // For now, return a mock response
       const result = {
-        action,
-        parameters,
-        result: `Mock execution of ${action} completed successfully`,
+        action: action || `${resolved.endpoint.method} ${resolved.endpoint.path}`,
+        endpoint: {
+          method: resolved.endpoint.method,
+          path: resolved.endpoint.path,
+          handler: resolved.endpoint.handler,
+        },
+        parameters: values,
+        success: execution.success,
+        result: execution.result,
+        error: execution.error,
+        logs: execution.logs,
         timestamp: new Date().toISOString(),
-        executionTime: Math.random() * 1000, // Mock execution time
+        executionTime: execution.duration,
+        cpuTime: execution.cpuTime,
       };
 
-      // Update last used timestamp
-      await db
-        .update(extensionInstallations)
-        .set({
-          lastUsedAt: new Date(),
-          updatedAt: new Date(),
-        })
-        .where(eq(extensionInstallations.id, id));
+      if (!execution.success && execution.error) {
+        throw createError(
+          getExecutionErrorStatus(execution.error.code),
+          execution.error.message,
+          execution.error.code,
+          { execution: result }
+        );
+      }
+
+      // Check the handler's output against the declared response schema
+      const responseIssues = validateResponse(resolved.endpoint, 200, execution.result);
+      if (responseIssues.length > 0) {
+        throw createError(
+          502,
+          'Extension response does not match the declared schema.',
+          'INVALID_EXTENSION_RESPONSE',
+          { issues: responseIssues, execution: result }
+        );
+      }
 
       return c.json({
         message: 'Extension executed successfully!',
@@ -572,7 +1342,7 @@ installationRoutes.post('/:id/execute',
       });
 
     } catch (error) {
-      if (error instanceof HTTPException) {
+      if (error instanceof HTTPException || error instanceof ZodError) {
         throw error;
       }
 
@@ -584,4 +1354,88 @@ installationRoutes.post('/:id/execute',
   }
 );
 
+// ANY /:id/fn/* - Call a manifest-declared endpoint as a plain HTTP request
+installationRoutes.all('/:id/fn/*',
+  authMiddleware,
+  requireScope('installations:execute'),
+  requireOwnershipOrAdmin(getInstallationOwner),
+  async (c) => {
+    try {
+      const id = c.req.param('id')!;
+      const prefix = `/${id}/fn`;
+      const prefixIndex = c.req.path.indexOf(prefix);
+      const path = (prefixIndex >= 0 ? c.req.path.slice(prefixIndex + prefix.length) : '') || '/';
+      const method = c.req.method.toUpperCase();
+
+      const installation = await getExecutableInstallation(id);
+
+      const resolved = resolveEndpoint(getManifestEndpoints(installation.manifest), { method, path });
+      if (!resolved) {
+        throw createError(404, `No endpoint declared for ${method} ${path}.`, 'UNKNOWN_ENDPOINT');
+      }
+
+      const headers: Record<string, string> = {};
+      for (const [name, value] of Object.entries(c.req.header())) {
+        if (!PRIVATE_REQUEST_HEADERS.includes(name.toLowerCase())) {
+          headers[name] = value;
+        }
+      }
+      const query = c.req.query();
+      const body = await readProxyBody(c);
+
+      const { values, issues } = validateParameters(resolved.endpoint, {
+        path: resolved.pathParams,
+        query,
+        header: headers,
+        body: typeof body === 'object' && body !== null && !Array.isArray(body) ? body : {},
+      });
+      if (issues.length > 0) {
+        throw toValidationError(issues);
+      }
+
+      const execution = await runEndpoint(installation, resolved, values, {
+        method,
+        path,
+        query,
+        headers,
+        body,
+      });
+
+      if (!execution.success && execution.error) {
+        throw createError(
+          getExecutionErrorStatus(execution.error.code),
+          execution.error.message,
+          execution.error.code,
+          { execution }
+        );
+      }
+
+      const response = normalizeHandlerResponse(execution.result);
+
+      // Check the handler's output against the declared response schema
+      const responseIssues = validateResponse(resolved.endpoint, response.status, response.body);
+      if (responseIssues.length > 0) {
+        throw createError(
+          502,
+          'Extension response does not match the declared schema.',
+          'INVALID_EXTENSION_RESPONSE',
+          { issues: responseIssues }
+        );
+      }
+
+      return toProxyResponse(response.status, response.headers, response.body, response.isBase64Encoded);
+
+    } catch (error) {
+      if (error instanceof HTTPException || error instanceof ZodError) {
+        throw error;
+      }
+
+      console.error('Proxy extension request error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to execute extension.',
+      });
+    }
+  }
+);
+
 export default installationRoutes;
@@ -2,9 +2,10 @@ import { Hono } from 'hono';
 import { HTTPException } from 'hono/http-exception';
 import { db } from '../db/connection.js';
 import { extensionReviews, extensions, users, extensionVersions } from '../db/schema.js';
-import { eq, desc, and, count, avg, sql } from 'drizzle-orm';
-import { authMiddleware, optionalAuthMiddleware, getCurrentUser, requireOwnershipOrAdmin } from '../middleware/auth.js';
+import { eq, and, count, avg, sql } from 'drizzle-orm';
+import { authMiddleware, optionalAuthMiddleware, getCurrentUser, requireOwnershipOrAdmin, requireScope } from '../middleware/auth.js';
 import { validationMiddleware, getValidatedBody, getValidatedQuery } from '../middleware/validation.js';
+import { getPaging, toPage, type SortKey } from '../services/pagination.js';
 import type {
   ExtensionReview,
   CreateReviewRequest,
@@ -47,8 +48,8 @@ async function updateExtensionRating(extensionId: string) {
       ));
 
     const stats = ratingResult[0];
-    const averageRating = Math.round((stats.avgRating || 0) * 100); // Store as integer (rating * 100)
-    const ratingCount = stats.count || 0;
+    const averageRating = Math.round(Number(stats?.avgRating || 0) * 100); // Store as integer (rating * 100)
+    const ratingCount = stats?.count || 0;
 
     // Update extension
     await db
@@ -68,6 +69,7 @@ async function updateExtensionRating(extensionId: string) {
 // GET /extensions/:extensionId/reviews - List reviews for an extension
 reviewRoutes.get('/extensions/:extensionId/reviews',
   optionalAuthMiddleware,
+  requireScope('reviews:read'),
   validationMiddleware.withPagination,
   async (c) => {
     try {
@@ -99,39 +101,42 @@ reviewRoutes.get('/extensions/:extensionId/reviews',
       }
 
       const query = getValidatedQuery(c) || {};
-      const { page = 1, limit = 20, sort = 'created', order = 'desc' } = query;
-      const offset = (page - 1) * limit;
+      const { sort = 'created', order = 'desc' } = query;
 
       // Build order clause
-      let orderBy;
-      const isDesc = order === 'desc';
+      let sortKey: SortKey;
 
       switch (sort) {
         case 'rating':
-          orderBy = isDesc ? desc(extensionReviews.rating) : extensionReviews.rating;
+          sortKey = { field: 'rating', expression: extensionReviews.rating, direction: order };
           break;
         case 'helpful':
-          orderBy = isDesc ? desc(extensionReviews.helpfulCount) : extensionReviews.helpfulCount;
+          sortKey = { field: 'helpfulCount', expression: extensionReviews.helpfulCount, direction: order };
           break;
         case 'updated':
-          orderBy = isDesc ? desc(extensionReviews.updatedAt) : extensionReviews.updatedAt;
+          sortKey = { field: 'updatedAt', expression: extensionReviews.updatedAt, direction: order };
           break;
         case 'created':
         default:
-          orderBy = isDesc ? desc(extensionReviews.createdAt) : extensionReviews.createdAt;
+          sortKey = { field: 'createdAt', expression: extensionReviews.createdAt, direction: order };
           break;
       }
 
+      const paging = getPaging(query, [sortKey, { field: 'id', expression: extensionReviews.id, direction: 'asc' }]);
+
       // Get total count
-      const totalResult = await db
-        .select({ count: count() })
-        .from(extensionReviews)
-        .where(and(
-          eq(extensionReviews.extensionId, extensionId),
-          eq(extensionReviews.isHidden, false)
-        ));
+      let total: number | undefined;
+      if (paging.withTotal) {
+        const totalResult = await db
+          .select({ count: count() })
+          .from(extensionReviews)
+          .where(and(
+            eq(extensionReviews.extensionId, extensionId),
+            eq(extensionReviews.isHidden, false)
+          ));
 
-      const total = totalResult[0]?.count || 0;
+        total = totalResult[0]?.count || 0;
+      }
 
       // Get reviews with user details
       const results = await db
@@ -167,23 +172,14 @@ reviewRoutes.get('/extensions/:extensionId/reviews',
         .leftJoin(extensionVersions, eq(extensionReviews.versionId, extensionVersions.id))
         .where(and(
           eq(extensionReviews.extensionId, extensionId),
-          eq(extensionReviews.isHidden, false)
+          eq(extensionReviews.isHidden, false),
+          paging.where
         ))
-        .orderBy(orderBy)
-        .limit(limit)
-        .offset(offset);
-
-      const response: PaginatedResponse<any> = {
-        data: results,
-        pagination: {
-          page,
-          limit,
-          total,
-          pages: Math.ceil(total / limit),
-          hasNext: page < Math.ceil(total / limit),
-          hasPrev: page > 1,
-        },
-      };
+        .orderBy(...paging.orderBy)
+        .limit(paging.take)
+        .offset(paging.offset);
+
+      const response: PaginatedResponse<any> = toPage(results, paging, total);
 
       return c.json(response);
 
@@ -203,6 +199,7 @@ reviewRoutes.get('/extensions/:extensionId/reviews',
 // POST /extensions/:extensionId/reviews - Create a new review
 reviewRoutes.post('/extensions/:extensionId/reviews',
   authMiddleware,
+  requireScope('reviews:write'),
   validationMiddleware.createReview,
   async (c) => {
     try {
@@ -333,10 +330,11 @@ reviewRoutes.post('/extensions/:extensionId/reviews',
 // GET /reviews/:id - Get specific review
 reviewRoutes.get('/reviews/:id',
   optionalAuthMiddleware,
+  requireScope('reviews:read'),
   validationMiddleware.withId,
   async (c) => {
     try {
-      const { id } = c.req.param();
+      const id = c.req.param('id')!;
 
       const result = await db
         .select({
@@ -416,11 +414,12 @@ reviewRoutes.get('/reviews/:id',
 // PUT /reviews/:id - Update review
 reviewRoutes.put('/reviews/:id',
   authMiddleware,
+  requireScope('reviews:write'),
   validationMiddleware.withId,
   requireOwnershipOrAdmin(getReviewOwner),
   async (c) => {
     try {
-      const { id } = c.req.param();
+      const id = c.req.param('id')!;
       const body = await c.req.json();
       const { rating, title, review } = body;
 
@@ -494,11 +493,12 @@ reviewRoutes.put('/reviews/:id',
 // DELETE /reviews/:id - Delete review
 reviewRoutes.delete('/reviews/:id',
   authMiddleware,
+  requireScope('reviews:write'),
   validationMiddleware.withId,
   requireOwnershipOrAdmin(getReviewOwner),
   async (c) => {
     try {
-      const { id } = c.req.param();
+      const id = c.req.param('id')!;
 
       const deletedReview = await db
         .delete(extensionReviews)
@@ -537,10 +537,11 @@ reviewRoutes.delete('/reviews/:id',
 // POST /reviews/:id/helpful - Mark review as helpful
 reviewRoutes.post('/reviews/:id/helpful',
   authMiddleware,
+  requireScope('reviews:write'),
   validationMiddleware.withId,
   async (c) => {
     try {
-      const { id } = c.req.param();
+      const id = c.req.param('id')!;
       const user = getCurrentUser(c);
       if (!user) {
         throw new HTTPException(401, { message: 'Authentication required' });
@@ -589,10 +590,11 @@ reviewRoutes.post('/reviews/:id/helpful',
 // POST /reviews/:id/report - Report a review
 reviewRoutes.post('/reviews/:id/report',
   authMiddleware,
+  requireScope('reviews:write'),
   validationMiddleware.withId,
   async (c) => {
     try {
-      const { id } = c.req.param();
+      const id = c.req.param('id')!;
       const user = getCurrentUser(c);
       if (!user) {
         throw new HTTPException(401, { message: 'Authentication required' });
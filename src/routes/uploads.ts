@@ -1,6 +1,6 @@
 import { Hono } from 'hono';
 import { HTTPException } from 'hono/http-exception';
-import { authMiddleware, getCurrentUser } from '../middleware/auth.js';
+import { authMiddleware, getCurrentUser, requireScope } from '../middleware/auth.js';
 import { uploadRateLimit } from '../middleware/rateLimit.js';
 import { createWriteStream, existsSync, mkdirSync, unlinkSync, statSync } from 'fs';
 import { join, extname, basename } from 'path';
@@ -132,6 +132,7 @@ function deleteFile(filepath: string): void {
 // POST /images - Upload image file (icons, banners, screenshots)
 uploadRoutes.post('/images',
   authMiddleware,
+  requireScope('uploads:write'),
   uploadRateLimit,
   async (c) => {
     try {
@@ -253,6 +254,7 @@ uploadRoutes.post('/images',
 // POST /packages - Upload extension package
 uploadRoutes.post('/packages',
   authMiddleware,
+  requireScope('extensions:publish'),
   uploadRateLimit,
   async (c) => {
     try {
@@ -336,6 +338,7 @@ uploadRoutes.post('/packages',
 // POST /documents - Upload document files (README, CHANGELOG, etc.)
 uploadRoutes.post('/documents',
   authMiddleware,
+  requireScope('uploads:write'),
   uploadRateLimit,
   async (c) => {
     try {
@@ -411,6 +414,7 @@ uploadRoutes.post('/documents',
 // DELETE /:type/:filename - Delete uploaded file
 uploadRoutes.delete('/:type/:filename',
   authMiddleware,
+  requireScope('uploads:write'),
   async (c) => {
     try {
       const user = getCurrentUser(c);
@@ -1,16 +1,23 @@
 import { Hono } from 'hono';
 import { HTTPException } from 'hono/http-exception';
 import { db } from '../db/connection.js';
-import { users, extensions, extensionInstallations, apiKeys } from '../db/schema.js';
-import { eq, desc, and, count } from 'drizzle-orm';
-import { authMiddleware, getCurrentUser, requireOwnershipOrAdmin } from '../middleware/auth.js';
+import { users, extensions, extensionInstallations, apiKeys, publisherKeys } from '../db/schema.js';
+import { eq, desc, and, count, isNull } from 'drizzle-orm';
+import { authMiddleware, getCurrentUser, rejectApiKeyAuth, requireOwnershipOrAdmin, requireScope } from '../middleware/auth.js';
 import { validationMiddleware, getValidatedBody, getValidatedQuery } from '../middleware/validation.js';
+import { createError } from '../middleware/errorHandler.js';
+import { getPaging, toPage } from '../services/pagination.js';
+import { listActiveSessions, revokeSession, revokeUserSessions } from '../services/sessions.js';
+import { SigningError, parsePublicKey } from '../services/signing.js';
 import bcrypt from 'bcryptjs';
 import { v4 as uuidv4 } from 'uuid';
+import { API_KEY_SCOPES } from '../types/index.js';
 import type {
   User,
   CreateApiKeyRequest,
   ApiKey,
+  ApiKeyScope,
+  CreatePublisherKeyRequest,
   PaginatedResponse
 } from '../types/index.js';
 
@@ -106,6 +113,7 @@ userRoutes.get('/:username', async (c) => {
 // PUT /me - Update current user's profile
 userRoutes.put('/me',
   authMiddleware,
+  requireScope('users:write'),
   async (c) => {
     try {
       const user = getCurrentUser(c);
@@ -231,6 +239,7 @@ userRoutes.put('/me',
 // GET /me/extensions - Get current user's extensions
 userRoutes.get('/me/extensions',
   authMiddleware,
+  requireScope('users:read'),
   validationMiddleware.withPagination,
   async (c) => {
     try {
@@ -240,41 +249,40 @@ userRoutes.get('/me/extensions',
       }
 
       const query = getValidatedQuery(c) || {};
-      const { page = 1, limit = 20 } = query;
-      const offset = (page - 1) * limit;
+      const paging = getPaging(query, [
+        { field: 'updatedAt', expression: extensions.updatedAt, direction: 'desc' },
+        { field: 'id', expression: extensions.id, direction: 'desc' },
+      ]);
 
       // Get total count
-      const totalResult = await db
-        .select({ count: count() })
-        .from(extensions)
-        .where(eq(extensions.authorId, user.id));
-
-      const total = totalResult[0]?.count || 0;
+      let total: number | undefined;
+      if (paging.withTotal) {
+        const totalResult = await db
+          .select({ count: count() })
+          .from(extensions)
+          .where(eq(extensions.authorId, user.id));
+
+        total = totalResult[0]?.count || 0;
+      }
 
       // Get user's extensions
       const results = await db
         .select()
         .from(extensions)
-        .where(eq(extensions.authorId, user.id))
-        .orderBy(desc(extensions.updatedAt))
-        .limit(limit)
-        .offset(offset);
-
-      const response: PaginatedResponse<any> = {
-        data: results,
-        pagination: {
-          page,
-          limit,
-          total,
-          pages: Math.ceil(total / limit),
-          hasNext: page < Math.ceil(total / limit),
-          hasPrev: page > 1,
-        },
-      };
+        .where(and(eq(extensions.authorId, user.id), paging.where))
+        .orderBy(...paging.orderBy)
+        .limit(paging.take)
+        .offset(paging.offset);
+
+      const response: PaginatedResponse<any> = toPage(results, paging, total);
 
       return c.json(response);
 
     } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
       console.error('Get user extensions error:', error);
       throw new HTTPException(500, {
         message: 'Failed to retrieve extensions.',
@@ -286,6 +294,7 @@ userRoutes.get('/me/extensions',
 // GET /me/installations - Get current user's installations
 userRoutes.get('/me/installations',
   authMiddleware,
+  requireScope('users:read'),
   validationMiddleware.withPagination,
   async (c) => {
     try {
@@ -295,16 +304,21 @@ userRoutes.get('/me/installations',
       }
 
       const query = getValidatedQuery(c) || {};
-      const { page = 1, limit = 20 } = query;
-      const offset = (page - 1) * limit;
+      const paging = getPaging(query, [
+        { field: 'createdAt', expression: extensionInstallations.createdAt, direction: 'desc' },
+        { field: 'id', expression: extensionInstallations.id, direction: 'desc' },
+      ]);
 
       // Get total count
-      const totalResult = await db
-        .select({ count: count() })
-        .from(extensionInstallations)
-        .where(eq(extensionInstallations.userId, user.id));
-
-      const total = totalResult[0]?.count || 0;
+      let total: number | undefined;
+      if (paging.withTotal) {
+        const totalResult = await db
+          .select({ count: count() })
+          .from(extensionInstallations)
+          .where(eq(extensionInstallations.userId, user.id));
+
+        total = totalResult[0]?.count || 0;
+      }
 
       // Get installations with extension details
       const results = await db
@@ -325,26 +339,20 @@ userRoutes.get('/me/installations',
         })
         .from(extensionInstallations)
         .leftJoin(extensions, eq(extensionInstallations.extensionId, extensions.id))
-        .where(eq(extensionInstallations.userId, user.id))
-        .orderBy(desc(extensionInstallations.createdAt))
-        .limit(limit)
-        .offset(offset);
-
-      const response: PaginatedResponse<any> = {
-        data: results,
-        pagination: {
-          page,
-          limit,
-          total,
-          pages: Math.ceil(total / limit),
-          hasNext: page < Math.ceil(total / limit),
-          hasPrev: page > 1,
-        },
-      };
+        .where(and(eq(extensionInstallations.userId, user.id), paging.where))
+        .orderBy(...paging.orderBy)
+        .limit(paging.take)
+        .offset(paging.offset);
+
+      const response: PaginatedResponse<any> = toPage(results, paging, total);
 
       return c.json(response);
 
     } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
       console.error('Get user installations error:', error);
       throw new HTTPException(500, {
         message: 'Failed to retrieve installations.',
@@ -356,6 +364,7 @@ userRoutes.get('/me/installations',
 // GET /me/api-keys - Get current user's API keys
 userRoutes.get('/me/api-keys',
   authMiddleware,
+  rejectApiKeyAuth,
   async (c) => {
     try {
       const user = getCurrentUser(c);
@@ -392,6 +401,7 @@ userRoutes.get('/me/api-keys',
 // POST /me/api-keys - Create new API key
 userRoutes.post('/me/api-keys',
   authMiddleware,
+  rejectApiKeyAuth,
   async (c) => {
     try {
       const user = getCurrentUser(c);
@@ -414,6 +424,22 @@ userRoutes.post('/me/api-keys',
         });
       }
 
+      const unknownPermissions = permissions.filter(
+        (permission: unknown) => !API_KEY_SCOPES.includes(permission as ApiKeyScope)
+      );
+      if (unknownPermissions.length > 0) {
+        throw createError(400, `Unknown permissions: ${unknownPermissions.join(', ')}.`, 'INVALID_PERMISSIONS', {
+          unknown: unknownPermissions,
+          allowed: API_KEY_SCOPES,
+        });
+      }
+
+      if (expiresAt && !(new Date(expiresAt).getTime() > Date.now())) {
+        throw new HTTPException(400, {
+          message: 'expiresAt must be a valid date in the future.',
+        });
+      }
+
       // Generate API key
       const apiKey = `ak_${uuidv4().replace(/-/g, '')}`;
       const keyHash = await bcrypt.hash(apiKey, 12);
@@ -470,6 +496,7 @@ userRoutes.post('/me/api-keys',
 // DELETE /me/api-keys/:id - Delete API key
 userRoutes.delete('/me/api-keys/:id',
   authMiddleware,
+  rejectApiKeyAuth,
   validationMiddleware.withId,
   async (c) => {
     try {
@@ -512,6 +539,265 @@ userRoutes.delete('/me/api-keys/:id',
   }
 );
 
+// GET /me/signing-keys - List the current user's package signing keys
+userRoutes.get('/me/signing-keys',
+  authMiddleware,
+  requireScope('users:read'),
+  async (c) => {
+    try {
+      const user = getCurrentUser(c);
+      if (!user) {
+        throw new HTTPException(401, { message: 'Authentication required' });
+      }
+
+      const keys = await db
+        .select({
+          id: publisherKeys.id,
+          name: publisherKeys.name,
+          publicKey: publisherKeys.publicKey,
+          fingerprint: publisherKeys.fingerprint,
+          lastUsedAt: publisherKeys.lastUsedAt,
+          revokedAt: publisherKeys.revokedAt,
+          createdAt: publisherKeys.createdAt,
+        })
+        .from(publisherKeys)
+        .where(eq(publisherKeys.userId, user.id))
+        .orderBy(desc(publisherKeys.createdAt));
+
+      return c.json({ signingKeys: keys });
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
+      console.error('Get signing keys error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to retrieve signing keys.',
+      });
+    }
+  }
+);
+
+// POST /me/signing-keys - Register an Ed25519 public key for package signing
+userRoutes.post('/me/signing-keys',
+  authMiddleware,
+  rejectApiKeyAuth,
+  validationMiddleware.createPublisherKey,
+  async (c) => {
+    try {
+      const user = getCurrentUser(c);
+      if (!user) {
+        throw new HTTPException(401, { message: 'Authentication required' });
+      }
+
+      const body = getValidatedBody<CreatePublisherKeyRequest>(c);
+      if (!body) {
+        throw new HTTPException(400, { message: 'Invalid request body' });
+      }
+
+      let parsed;
+      try {
+        parsed = parsePublicKey(body.publicKey);
+      } catch (error) {
+        if (error instanceof SigningError) {
+          throw createError(400, error.message, error.code);
+        }
+        throw error;
+      }
+
+      const existingKey = await db
+        .select({ id: publisherKeys.id })
+        .from(publisherKeys)
+        .where(eq(publisherKeys.fingerprint, parsed.fingerprint))
+        .limit(1);
+
+      if (existingKey.length > 0) {
+        throw new HTTPException(409, {
+          message: 'This public key is already registered.',
+        });
+      }
+
+      const newKey = await db
+        .insert(publisherKeys)
+        .values({
+          userId: user.id,
+          name: body.name,
+          ...parsed,
+        })
+        .returning({
+          id: publisherKeys.id,
+          name: publisherKeys.name,
+          publicKey: publisherKeys.publicKey,
+          fingerprint: publisherKeys.fingerprint,
+          createdAt: publisherKeys.createdAt,
+        });
+
+      return c.json({
+        message: 'Signing key registered successfully!',
+        signingKey: newKey[0],
+      }, 201);
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
+      console.error('Create signing key error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to register signing key.',
+      });
+    }
+  }
+);
+
+// DELETE /me/signing-keys/:id - Revoke a signing key. Versions signed with it
+// are no longer reported as verified.
+userRoutes.delete('/me/signing-keys/:id',
+  authMiddleware,
+  rejectApiKeyAuth,
+  validationMiddleware.withId,
+  async (c) => {
+    try {
+      const user = getCurrentUser(c);
+      if (!user) {
+        throw new HTTPException(401, { message: 'Authentication required' });
+      }
+
+      const revokedKey = await db
+        .update(publisherKeys)
+        .set({ revokedAt: new Date() })
+        .where(and(
+          eq(publisherKeys.id, c.req.param('id')!),
+          eq(publisherKeys.userId, user.id),
+          isNull(publisherKeys.revokedAt)
+        ))
+        .returning({ id: publisherKeys.id });
+
+      if (revokedKey.length === 0) {
+        throw new HTTPException(404, {
+          message: 'Signing key not found.',
+        });
+      }
+
+      return c.json({
+        message: 'Signing key revoked successfully!',
+      });
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
+      console.error('Revoke signing key error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to revoke signing key.',
+      });
+    }
+  }
+);
+
+// GET /me/sessions - List the current user's active sessions
+userRoutes.get('/me/sessions',
+  authMiddleware,
+  requireScope('users:read'),
+  async (c) => {
+    try {
+      const user = getCurrentUser(c);
+      if (!user) {
+        throw new HTTPException(401, { message: 'Authentication required' });
+      }
+
+      const currentSessionId = c.get('sessionId');
+      const sessions = await listActiveSessions(user.id);
+
+      return c.json({
+        sessions: sessions.map((session) => ({
+          ...session,
+          current: session.id === currentSessionId,
+        })),
+      });
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
+      console.error('Get sessions error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to retrieve sessions.',
+      });
+    }
+  }
+);
+
+// DELETE /me/sessions - Revoke all sessions except the current one
+userRoutes.delete('/me/sessions',
+  authMiddleware,
+  requireScope('users:write'),
+  async (c) => {
+    try {
+      const user = getCurrentUser(c);
+      if (!user) {
+        throw new HTTPException(401, { message: 'Authentication required' });
+      }
+
+      const revoked = await revokeUserSessions(user.id, 'user_revoked', c.get('sessionId'));
+
+      return c.json({
+        message: 'Other sessions revoked successfully!',
+        revoked,
+      });
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
+      console.error('Revoke sessions error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to revoke sessions.',
+      });
+    }
+  }
+);
+
+// DELETE /me/sessions/:id - Revoke a session
+userRoutes.delete('/me/sessions/:id',
+  authMiddleware,
+  requireScope('users:write'),
+  validationMiddleware.withId,
+  async (c) => {
+    try {
+      const user = getCurrentUser(c);
+      if (!user) {
+        throw new HTTPException(401, { message: 'Authentication required' });
+      }
+
+      const revoked = await revokeSession(c.req.param('id')!, 'user_revoked', user.id);
+      if (!revoked) {
+        throw new HTTPException(404, {
+          message: 'Session not found.',
+        });
+      }
+
+      return c.json({
+        message: 'Session revoked successfully!',
+      });
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
+      console.error('Revoke session error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to revoke session.',
+      });
+    }
+  }
+);
+
 // Helper function to validate URLs
 function isValidUrl(string: string): boolean {
   try {
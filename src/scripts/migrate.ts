@@ -19,6 +19,15 @@ async function runMigrations() {
     }
     console.log('✅ Database connection successful');
 
+    // Extensions the schema's indexes depend on
+    console.log('🔄 Enabling Postgres extensions...');
+    await migrationDb.execute('CREATE EXTENSION IF NOT EXISTS pg_trgm');
+
+    // Installation roles may only use their own schemas, so the store's tables
+    // in public are left to the store's role
+    await migrationDb.execute('GRANT USAGE, CREATE ON SCHEMA public TO CURRENT_USER');
+    await migrationDb.execute('REVOKE ALL ON SCHEMA public FROM PUBLIC');
+
     // Run migrations
     console.log('🔄 Running database migrations...');
     console.log('📁 Migration folder: ./drizzle');
@@ -4,6 +4,7 @@ import {
   users,
   extensions,
   extensionVersions,
+  extensionDistTags,
   extensionInstallations,
   extensionCategories,
 } from "../db/schema.js";
@@ -122,7 +123,7 @@ const sampleExtensions = [
     description: "Advanced task management with AI-powered prioritization",
     longDescription:
       "A comprehensive task management extension that uses AI to help prioritize your tasks, set deadlines, and track progress. Features include automated task categorization, smart notifications, and integration with popular productivity tools.",
-    category: "Productivity",
+    category: "productivity",
     tags: ["tasks", "productivity", "ai", "management"],
     homepage: "https://taskmanager.dev",
     repository: "https://github.com/johndoe/task-manager",
@@ -139,7 +140,7 @@ const sampleExtensions = [
     description: "Professional analytics dashboard with real-time metrics",
     longDescription:
       "Create beautiful, interactive dashboards with real-time data visualization. Supports multiple data sources, custom widgets, and automated reporting.",
-    category: "Analytics",
+    category: "analytics",
     tags: ["analytics", "dashboard", "visualization", "metrics"],
     homepage: "https://analyticspro.dev",
     repository: "https://github.com/alicesmith/analytics-dashboard",
@@ -155,7 +156,7 @@ const sampleExtensions = [
     description: "Embeddable chat widget for customer support",
     longDescription:
       "Easy to integrate live chat widget that provides real-time customer support. Features include file sharing, emoji support, and integration with popular CRM systems.",
-    category: "Communication",
+    category: "communication",
     tags: ["chat", "support", "widget", "customer"],
     homepage: "https://chatwidget.dev",
     repository: "https://github.com/johndoe/chat-widget",
@@ -171,7 +172,7 @@ const sampleExtensions = [
     description: "Accept payments from multiple providers",
     longDescription:
       "Unified payment processing extension that supports multiple payment providers including Stripe, PayPal, and Square. Features include subscription management, refund processing, and detailed transaction reporting.",
-    category: "E-commerce",
+    category: "ecommerce",
     tags: ["payments", "ecommerce", "stripe", "paypal"],
     homepage: "https://paymentgateway.dev",
     repository: "https://github.com/alicesmith/payment-gateway",
@@ -187,7 +188,7 @@ const sampleExtensions = [
     description: "Automated backup solution with cloud storage",
     longDescription:
       "Intelligent backup system that automatically backs up your data to multiple cloud providers. Features include incremental backups, encryption, and automated restore capabilities.",
-    category: "Utilities",
+    category: "utilities",
     tags: ["backup", "cloud", "storage", "automation"],
     homepage: "https://backuputility.dev",
     license: "GPL-3.0",
@@ -486,7 +487,7 @@ async function seedExtensionVersions(createdExtensions: any[]) {
             extensionConfig: {
               category: "productivity",
               tags: ["sample"],
-              permissions: ["read", "write"],
+              permissions: ["database:read", "database:write"],
               endpoints: [],
               components: [],
             },
@@ -511,7 +512,18 @@ async function seedExtensionVersions(createdExtensions: any[]) {
           version: extensionVersions.version,
         });
 
-      createdVersions.push(newVersions[0]);
+      const createdVersion = newVersions[0];
+      assert(createdVersion, `Version not created`);
+
+      if (!versionData?.isPrerelease) {
+        await db.insert(extensionDistTags).values({
+          extensionId: extension.id,
+          tag: "latest",
+          versionId: createdVersion.id,
+        });
+      }
+
+      createdVersions.push(createdVersion);
       console.log(
         `   ✅ Created version: ${versionData?.version} for ${extension.name}`,
       );
@@ -0,0 +1,45 @@
+import { desc, eq } from 'drizzle-orm';
+import { db } from '../db/connection.js';
+import { auditLogs, users } from '../db/schema.js';
+import type { AuditAction } from '../types/index.js';
+
+// Audit trail for changes publishers and admins make to extensions
+
+export interface AuditEntryInput {
+  actorId: string | null;
+  action: AuditAction;
+  extensionId?: string | null;
+  versionId?: string | null;
+  details?: Record<string, any>;
+}
+
+export async function recordAudit(entry: AuditEntryInput): Promise<void> {
+  await db.insert(auditLogs).values({
+    actorId: entry.actorId,
+    action: entry.action,
+    extensionId: entry.extensionId ?? null,
+    versionId: entry.versionId ?? null,
+    details: entry.details ?? {},
+  });
+}
+
+// An extension's audit entries, newest first, with the acting user
+export async function listExtensionAudit(extensionId: string, limit = 100) {
+  return db
+    .select({
+      id: auditLogs.id,
+      action: auditLogs.action,
+      versionId: auditLogs.versionId,
+      details: auditLogs.details,
+      createdAt: auditLogs.createdAt,
+      actor: {
+        id: users.id,
+        username: users.username,
+      },
+    })
+    .from(auditLogs)
+    .leftJoin(users, eq(auditLogs.actorId, users.id))
+    .where(eq(auditLogs.extensionId, extensionId))
+    .orderBy(desc(auditLogs.createdAt))
+    .limit(limit);
+}
@@ -0,0 +1,229 @@
+import crypto from 'crypto';
+import path from 'path';
+import { build, type Loader, type Message, type Plugin } from 'esbuild';
+import { and, eq } from 'drizzle-orm';
+import { db } from '../db/connection.js';
+import { componentBundles } from '../db/schema.js';
+import type { ComponentBundle, ComponentConfig, ExtensionFile } from '../types/index.js';
+
+// Bundling of manifest components into browser ESM modules. Each component's
+// file is bundled with the package files it imports; React and the packages
+// the manifest declares as dependencies stay as bare imports for the host
+// app to provide (for example through an import map). Bundles are built in
+// memory from the published files and never touch the disk.
+
+export interface BundleInput {
+  files: ExtensionFile[];
+  components: ComponentConfig[];
+  // Declared package dependencies (manifest and package.json) with ranges
+  dependencies?: Record<string, string>;
+}
+
+export interface BuiltBundle {
+  name: string;
+  code: string;
+  size: number;
+  integrity: string;
+}
+
+export interface BundleResult {
+  bundles: BuiltBundle[];
+  totalSize: number;
+  // Bare imports left in the bundles, with their declared ranges
+  dependencies: Record<string, string>;
+}
+
+export class BundleError extends Error {
+  constructor(message: string, public details: Record<string, any> = {}) {
+    super(message);
+    this.name = 'BundleError';
+  }
+}
+
+// Packages the host app always provides
+const HOST_PACKAGES = ['react', 'react-dom'];
+
+const MAX_BUNDLE_SIZE = parseInt(process.env.MAX_BUNDLE_SIZE || '2000000'); // 2MB
+
+const LOADERS: Record<string, Loader> = {
+  '.js': 'jsx',
+  '.mjs': 'js',
+  '.cjs': 'js',
+  '.jsx': 'jsx',
+  '.ts': 'ts',
+  '.mts': 'ts',
+  '.cts': 'ts',
+  '.tsx': 'tsx',
+  '.json': 'json',
+};
+
+const RESOLVE_EXTENSIONS = ['', '.tsx', '.ts', '.jsx', '.js', '.mjs', '.json'];
+
+function normalizeFilePath(filePath: string): string {
+  return path.posix.normalize(filePath.replace(/^\.?\//, ''));
+}
+
+// Package name of a bare import: `lodash/get` -> `lodash`, `@scope/pkg/x` ->
+// `@scope/pkg`
+function getPackageName(specifier: string): string {
+  const parts = specifier.split('/');
+  return (specifier.startsWith('@') ? parts.slice(0, 2) : parts.slice(0, 1)).join('/');
+}
+
+// Subresource Integrity hash of a bundle
+export function computeIntegrity(code: string): string {
+  return `sha384-${crypto.createHash('sha384').update(code).digest('base64')}`;
+}
+
+function formatMessages(messages: Message[]) {
+  return messages.map((message) => ({
+    message: message.text,
+    file: message.location?.file.replace(/^package:/, ''),
+    line: message.location?.line,
+  }));
+}
+
+// esbuild plugin serving imports from the package's files. Bare imports of
+// host and declared packages are left external; anything else must resolve to
+// a package file.
+function packageFilesPlugin(files: Map<string, string>, externals: Set<string>, used: Set<string>): Plugin {
+  return {
+    name: 'package-files',
+    setup(pluginBuild) {
+      pluginBuild.onResolve({ filter: /.*/ }, (args) => {
+        const isRelative = args.kind === 'entry-point' || /^\.{0,2}\//.test(args.path);
+
+        if (!isRelative) {
+          const packageName = getPackageName(args.path);
+          if (!externals.has(packageName)) {
+            return {
+              errors: [{ text: `Cannot resolve "${args.path}": add ${packageName} to the manifest dependencies` }],
+            };
+          }
+          used.add(packageName);
+          return { path: args.path, external: true };
+        }
+
+        const base = args.kind === 'entry-point' || args.path.startsWith('/') ? '' : path.posix.dirname(args.importer);
+        const target = normalizeFilePath(path.posix.join(base, args.path));
+        if (target.startsWith('..')) {
+          return { errors: [{ text: `Import "${args.path}" points outside the package` }] };
+        }
+
+        const candidates = RESOLVE_EXTENSIONS.flatMap((extension) => [
+          `${target}${extension}`,
+          ...(extension ? [`${target}/index${extension}`] : []),
+        ]);
+        const resolved = candidates.find((candidate) => files.has(candidate));
+        if (!resolved) {
+          return { errors: [{ text: `Cannot find "${args.path}" in the package files` }] };
+        }
+        return { path: resolved, namespace: 'package' };
+      });
+
+      pluginBuild.onLoad({ filter: /.*/, namespace: 'package' }, (args) => {
+        const loader = LOADERS[path.posix.extname(args.path)];
+        if (!loader) {
+          return { errors: [{ text: `Unsupported file type for component code: ${args.path}` }] };
+        }
+        return { contents: files.get(args.path), loader };
+      });
+    },
+  };
+}
+
+// Bundle every component of a version. Fails with a BundleError listing the
+// build errors of the first component that cannot be bundled.
+export async function bundleComponents(input: BundleInput): Promise<BundleResult> {
+  const files = new Map(
+    input.files
+      .filter((file) => file.encoding !== 'base64' && typeof file.content === 'string')
+      .map((file) => [normalizeFilePath(file.path), file.content])
+  );
+  const declared = input.dependencies || {};
+  const externals = new Set([...HOST_PACKAGES, ...Object.keys(declared)]);
+  const used = new Set<string>();
+
+  const bundles: BuiltBundle[] = [];
+  for (const component of input.components) {
+    let code: string;
+    try {
+      const result = await build({
+        entryPoints: [normalizeFilePath(component.file)],
+        bundle: true,
+        write: false,
+        outdir: 'out',
+        format: 'esm',
+        platform: 'browser',
+        target: 'es2020',
+        jsx: 'automatic',
+        minify: true,
+        legalComments: 'none',
+        logLevel: 'silent',
+        define: { 'process.env.NODE_ENV': '"production"' },
+        plugins: [packageFilesPlugin(files, externals, used)],
+      });
+      code = result.outputFiles[0]?.text ?? '';
+    } catch (error) {
+      const errors = (error as { errors?: Message[] }).errors;
+      if (!errors) {
+        throw error;
+      }
+      throw new BundleError(`Component ${component.name} could not be bundled.`, {
+        component: component.name,
+        errors: formatMessages(errors),
+      });
+    }
+
+    const size = Buffer.byteLength(code);
+    if (size > MAX_BUNDLE_SIZE) {
+      throw new BundleError(
+        `Component ${component.name} bundles to ${size} bytes; the limit is ${MAX_BUNDLE_SIZE}.`,
+        { component: component.name, size }
+      );
+    }
+
+    bundles.push({ name: component.name, code, size, integrity: computeIntegrity(code) });
+  }
+
+  return {
+    bundles,
+    totalSize: bundles.reduce((total, bundle) => total + bundle.size, 0),
+    dependencies: Object.fromEntries([...used].sort().map((name) => [name, declared[name] || '*'])),
+  };
+}
+
+// Store a version's bundles
+export async function saveComponentBundles(versionId: string, bundles: BuiltBundle[]): Promise<void> {
+  if (bundles.length === 0) {
+    return;
+  }
+
+  await db.insert(componentBundles).values(bundles.map((bundle) => ({ versionId, ...bundle })));
+}
+
+// URL path of a component bundle, relative to the API prefix
+export function getBundlePath(extensionId: string, version: string, name: string): string {
+  return `/extensions/${extensionId}/versions/${encodeURIComponent(version)}/components/${encodeURIComponent(name)}.js`;
+}
+
+// A version's bundles without their code
+export async function listComponentBundles(extensionId: string, versionId: string, version: string): Promise<ComponentBundle[]> {
+  const bundles = await db
+    .select({ name: componentBundles.name, integrity: componentBundles.integrity, size: componentBundles.size })
+    .from(componentBundles)
+    .where(eq(componentBundles.versionId, versionId))
+    .orderBy(componentBundles.name);
+
+  return bundles.map((bundle) => ({ ...bundle, url: getBundlePath(extensionId, version, bundle.name) }));
+}
+
+export async function getComponentBundle(versionId: string, name: string) {
+  const result = await db
+    .select()
+    .from(componentBundles)
+    .where(and(eq(componentBundles.versionId, versionId), eq(componentBundles.name, name)))
+    .limit(1);
+
+  return result[0] ?? null;
+}
@@ -0,0 +1,52 @@
+import { describe, expect, test } from 'bun:test';
+import { ZodError } from 'zod';
+import { checkParent } from './categories.js';
+
+// tools > editors > themes, and a separate top-level media category
+const categories = [
+  { id: 'tools', parentId: null },
+  { id: 'editors', parentId: 'tools' },
+  { id: 'themes', parentId: 'editors' },
+  { id: 'media', parentId: null },
+];
+
+function parentIssue(categoryId: string | null, parentId: string, rows = categories): string | undefined {
+  try {
+    checkParent(rows, categoryId, parentId);
+  } catch (error) {
+    expect(error).toBeInstanceOf(ZodError);
+    return (error as ZodError).issues[0]?.message;
+  }
+  return undefined;
+}
+
+describe('checkParent', () => {
+  test.each([
+    [null, 'themes'],
+    ['media', 'themes'],
+    ['themes', 'media'],
+    ['editors', 'tools'],
+  ])('allows moving %p under %p', (categoryId, parentId) => {
+    expect(parentIssue(categoryId, parentId)).toBeUndefined();
+  });
+
+  test.each([
+    ['tools', 'tools'],
+    ['tools', 'editors'],
+    ['tools', 'themes'],
+    ['editors', 'themes'],
+  ])('refuses moving %p under its own subtree (%p)', (categoryId, parentId) => {
+    expect(parentIssue(categoryId, parentId)).toBe('A category cannot be moved under itself or its subcategories');
+  });
+
+  test('refuses unknown parents', () => {
+    expect(parentIssue('media', 'missing')).toBe('Parent category not found');
+  });
+
+  test('stops at a cycle already in the table', () => {
+    const cyclic = [...categories, { id: 'a', parentId: 'b' }, { id: 'b', parentId: 'a' }];
+
+    expect(parentIssue('media', 'a', cyclic)).toBeUndefined();
+    expect(parentIssue('b', 'a', cyclic)).toBe('A category cannot be moved under itself or its subcategories');
+  });
+});
@@ -0,0 +1,251 @@
+import { and, asc, count, eq, inArray, isNotNull, isNull, max, ne, sql } from 'drizzle-orm';
+import { db } from '../db/connection.js';
+import { extensionCategories, extensions } from '../db/schema.js';
+import { toValidationError } from './endpoints.js';
+
+// Extension categories. Extensions store the slug of their category.
+// Categories nest through `parentId` and siblings are ordered by `sortOrder`.
+// The table is small, so trees are built in memory.
+
+export type CategoryRow = typeof extensionCategories.$inferSelect;
+
+export type CategoryNode = CategoryRow & {
+  extensionCount: number; // Published extensions in this category itself
+  totalCount: number; // Including subcategories
+  children: CategoryNode[];
+};
+
+export async function listCategories(includeInactive = false): Promise<CategoryRow[]> {
+  return db
+    .select()
+    .from(extensionCategories)
+    .where(includeInactive ? undefined : eq(extensionCategories.isActive, true))
+    .orderBy(asc(extensionCategories.sortOrder), asc(extensionCategories.name));
+}
+
+export async function getCategory(id: string): Promise<CategoryRow | undefined> {
+  const result = await db
+    .select()
+    .from(extensionCategories)
+    .where(eq(extensionCategories.id, id))
+    .limit(1);
+  return result[0];
+}
+
+// Published, public extensions per category slug
+async function countPublishedByCategory(): Promise<Map<string, number>> {
+  const rows = await db
+    .select({ category: extensions.category, count: count() })
+    .from(extensions)
+    .where(and(
+      eq(extensions.status, 'published'),
+      eq(extensions.isPublic, true),
+      isNotNull(extensions.category)
+    ))
+    .groupBy(extensions.category);
+  return new Map(rows.map((row) => [row.category!, row.count]));
+}
+
+function buildTree(categories: CategoryRow[], counts: Map<string, number>, parentId: string | null): CategoryNode[] {
+  return categories
+    .filter((category) => category.parentId === parentId)
+    .map((category) => {
+      const children = buildTree(categories, counts, category.id);
+      const extensionCount = counts.get(category.slug) ?? 0;
+      return {
+        ...category,
+        extensionCount,
+        totalCount: children.reduce((total, child) => total + child.totalCount, extensionCount),
+        children,
+      };
+    });
+}
+
+// Top-level categories with their subcategories nested and extension counts.
+// Without inactive categories, the subcategories of an inactive one are left
+// out with it.
+export async function getCategoryTree(includeInactive = false): Promise<CategoryNode[]> {
+  const [categories, counts] = await Promise.all([listCategories(includeInactive), countPublishedByCategory()]);
+  return buildTree(categories, counts, null);
+}
+
+// Slugs of an active category and its active subcategories, so filtering by
+// a category includes everything filed below it. Other values match exactly.
+export async function getCategorySlugs(slug: string): Promise<string[]> {
+  const categories = await listCategories();
+  const root = categories.find((category) => category.slug === slug);
+  if (!root) {
+    return [slug];
+  }
+
+  const slugs: string[] = [];
+  const collect = (category: CategoryRow) => {
+    slugs.push(category.slug);
+    categories.filter((child) => child.parentId === category.id).forEach(collect);
+  };
+  collect(root);
+  return slugs;
+}
+
+// Extensions may only be filed under an active category
+export async function assertActiveCategory(slug: string): Promise<void> {
+  const result = await db
+    .select({ isActive: extensionCategories.isActive })
+    .from(extensionCategories)
+    .where(eq(extensionCategories.slug, slug))
+    .limit(1);
+
+  const category = result[0];
+  if (!category?.isActive) {
+    throw toValidationError([{
+      path: ['category'],
+      message: category ? `Category "${slug}" is not active` : `Unknown category "${slug}"`,
+    }]);
+  }
+}
+
+// A parent must exist and must not be the category itself or one of its
+// subcategories
+export async function assertValidParent(categoryId: string | null, parentId: string): Promise<void> {
+  checkParent(await listCategories(true), categoryId, parentId);
+}
+
+// Check a parent against every category, active or not. The walk up from the
+// parent stops at a repeated category, so a cycle already in the table cannot
+// hang it.
+export function checkParent(
+  categories: Pick<CategoryRow, 'id' | 'parentId'>[],
+  categoryId: string | null,
+  parentId: string
+): void {
+  const byId = new Map(categories.map((category) => [category.id, category]));
+
+  if (!byId.has(parentId)) {
+    throw toValidationError([{ path: ['parentId'], message: 'Parent category not found' }]);
+  }
+  const seen = new Set<string>();
+  for (
+    let current = byId.get(parentId);
+    current && !seen.has(current.id);
+    current = current.parentId ? byId.get(current.parentId) : undefined
+  ) {
+    if (current.id === categoryId) {
+      throw toValidationError([{ path: ['parentId'], message: 'A category cannot be moved under itself or its subcategories' }]);
+    }
+    seen.add(current.id);
+  }
+}
+
+function siblingsOf(parentId: string | null) {
+  return parentId ? eq(extensionCategories.parentId, parentId) : isNull(extensionCategories.parentId);
+}
+
+// Sort order that places a new category after its siblings
+export async function getNextSortOrder(parentId: string | null): Promise<number> {
+  const result = await db
+    .select({ sortOrder: max(extensionCategories.sortOrder) })
+    .from(extensionCategories)
+    .where(siblingsOf(parentId));
+  const last = result[0]?.sortOrder;
+  return last === null || last === undefined ? 0 : last + 1;
+}
+
+// Another category with the same name or slug
+export async function findConflictingCategory(
+  values: { name?: string; slug?: string },
+  exceptId?: string
+): Promise<CategoryRow | undefined> {
+  const categories = await listCategories(true);
+  return categories.find((category) =>
+    category.id !== exceptId &&
+    ((values.name !== undefined && category.name.toLowerCase() === values.name.toLowerCase()) ||
+      (values.slug !== undefined && category.slug === values.slug))
+  );
+}
+
+// Update a category. When its slug or name changes, extensions filed under the
+// old slug (or, from before slugs, the old name) move to the new slug in the
+// same transaction.
+export async function updateCategory(
+  category: CategoryRow,
+  changes: Partial<Omit<CategoryRow, 'id' | 'createdAt' | 'updatedAt'>>
+): Promise<{ category: CategoryRow; extensionsUpdated: number }> {
+  return db.transaction(async (tx) => {
+    const [updated] = await tx
+      .update(extensionCategories)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(extensionCategories.id, category.id))
+      .returning();
+
+    let extensionsUpdated = 0;
+    if (updated!.slug !== category.slug || updated!.name !== category.name) {
+      const moved = await tx
+        .update(extensions)
+        .set({ category: updated!.slug })
+        .where(and(
+          inArray(extensions.category, [category.slug, category.name]),
+          ne(extensions.category, updated!.slug)
+        ))
+        .returning({ id: extensions.id });
+      extensionsUpdated = moved.length;
+    }
+
+    return { category: updated!, extensionsUpdated };
+  });
+}
+
+// Set the order of a parent's subcategories. The ids must be exactly the
+// current subcategories.
+export async function reorderCategories(parentId: string | null, categoryIds: string[]): Promise<void> {
+  const siblings = await db
+    .select({ id: extensionCategories.id })
+    .from(extensionCategories)
+    .where(siblingsOf(parentId));
+
+  const siblingIds = new Set(siblings.map((sibling) => sibling.id));
+  if (
+    new Set(categoryIds).size !== categoryIds.length ||
+    categoryIds.length !== siblingIds.size ||
+    !categoryIds.every((id) => siblingIds.has(id))
+  ) {
+    throw toValidationError([{
+      path: ['categoryIds'],
+      message: parentId
+        ? 'categoryIds must list every subcategory of the parent exactly once'
+        : 'categoryIds must list every top-level category exactly once',
+    }]);
+  }
+
+  await db.transaction(async (tx) => {
+    for (const [sortOrder, id] of categoryIds.entries()) {
+      await tx
+        .update(extensionCategories)
+        .set({ sortOrder, updatedAt: new Date() })
+        .where(eq(extensionCategories.id, id));
+    }
+  });
+}
+
+// Extensions of any status filed under a category, which keep it from being
+// deleted
+export async function countCategoryExtensions(slug: string): Promise<number> {
+  const result = await db
+    .select({ count: count() })
+    .from(extensions)
+    .where(eq(extensions.category, slug));
+  return result[0]?.count || 0;
+}
+
+// Move extensions that store a category's name (from before categories were
+// referenced by slug) to its slug
+export async function migrateCategoryNames(): Promise<{ updated: number }> {
+  const result = await db.execute<{ id: string }>(sql`
+    UPDATE ${extensions}
+    SET category = ${extensionCategories.slug}
+    FROM ${extensionCategories}
+    WHERE lower(${extensions.category}) = lower(${extensionCategories.name})
+      AND ${extensions.category} <> ${extensionCategories.slug}
+    RETURNING ${extensions.id}
+  `);
+  return { updated: result.length };
+}
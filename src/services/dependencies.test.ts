@@ -0,0 +1,126 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  planDependencies,
+  type ActiveInstallation,
+  type DependencyCandidate,
+} from './dependencies.js';
+import type { RequiredExtension } from '../types/index.js';
+
+// Published extensions by slug: version => its required extensions
+type Registry = Record<string, Record<string, RequiredExtension[]>>;
+
+function createLookup(registry: Registry) {
+  const lookups: string[] = [];
+  const lookup = async (name: string): Promise<DependencyCandidate | null> => {
+    lookups.push(name);
+    const versions = registry[name];
+    return versions
+      ? {
+          extensionId: `${name}-id`,
+          slug: name,
+          versions: Object.entries(versions).map(([version, requiredExtensions]) => ({
+            id: `${name}@${version}-id`,
+            version,
+            requiredExtensions,
+          })),
+        }
+      : null;
+  };
+  return { lookup, lookups };
+}
+
+function installation(slug: string, version: string, requiredExtensions: RequiredExtension[] = []): ActiveInstallation {
+  return { id: `${slug}-installation`, extensionId: `${slug}-id`, slug, name: slug, version, requiredExtensions };
+}
+
+async function plan(requiredExtensions: RequiredExtension[], registry: Registry, installed: ActiveInstallation[] = []) {
+  const { lookup } = createLookup(registry);
+  return planDependencies({ slug: 'app', version: { version: '1.0.0', requiredExtensions } }, installed, lookup);
+}
+
+describe('planDependencies', () => {
+  test('installs the highest satisfying versions, dependencies first', async () => {
+    const resolution = await plan([{ name: 'ui', version: '^1.0.0' }], {
+      ui: { '1.0.0': [], '1.4.0': [{ name: 'core', version: '~2.1.0' }], '2.0.0': [] },
+      core: { '2.1.3': [], '2.1.9': [], '2.2.0': [] },
+    });
+
+    expect(resolution.install.map(({ name, version, requiredBy }) => [name, version, requiredBy])).toEqual([
+      ['core', '2.1.9', ['ui@1.4.0']],
+      ['ui', '1.4.0', ['app@1.0.0']],
+    ]);
+    expect(resolution.conflicts).toEqual([]);
+  });
+
+  test('uses installed extensions that satisfy the range', async () => {
+    const resolution = await plan(
+      [{ name: 'ui', version: '^1.0.0' }, { name: 'core', version: '>=3.0.0' }],
+      { ui: { '1.5.0': [] } },
+      [installation('ui', '1.2.0'), installation('core', '2.0.0')]
+    );
+
+    expect(resolution.install).toEqual([]);
+    expect(resolution.satisfied).toEqual([{ name: 'ui', installationId: 'ui-installation', version: '1.2.0' }]);
+    expect(resolution.conflicts).toMatchObject([{ type: 'INSTALLED_VERSION_MISMATCH', name: 'core', installedVersion: '2.0.0' }]);
+  });
+
+  test('shares a planned version between dependents and reports incompatible ranges', async () => {
+    const resolution = await plan(
+      [{ name: 'a', version: '1.0.0' }, { name: 'b', version: '1.0.0' }, { name: 'c', version: '1.0.0' }],
+      {
+        a: { '1.0.0': [{ name: 'core', version: '^1.0.0' }] },
+        b: { '1.0.0': [{ name: 'core', version: '^1.2.0' }] },
+        c: { '1.0.0': [{ name: 'core', version: '^2.0.0' }] },
+        core: { '1.3.0': [], '2.0.0': [] },
+      }
+    );
+
+    expect(resolution.install.find((entry) => entry.name === 'core')).toMatchObject({
+      version: '1.3.0',
+      requiredBy: ['a@1.0.0', 'b@1.0.0'],
+    });
+    expect(resolution.conflicts).toMatchObject([{ type: 'RANGE_CONFLICT', requiredBy: 'c@1.0.0', resolvedVersion: '1.3.0' }]);
+  });
+
+  test('reports cycles', async () => {
+    const resolution = await plan([{ name: 'a', version: '*' }], {
+      a: { '1.0.0': [{ name: 'b', version: '*' }] },
+      b: { '1.0.0': [{ name: 'a', version: '*' }] },
+    });
+
+    expect(resolution.conflicts).toMatchObject([{ type: 'CYCLE', cycle: ['a', 'b', 'a'] }]);
+  });
+
+  test('reports missing extensions, invalid ranges and unsatisfiable ranges', async () => {
+    const resolution = await plan(
+      [{ name: 'missing', version: '*' }, { name: 'ui', version: 'not a range' }, { name: 'ui', version: '^3.0.0' }],
+      { ui: { '1.0.0': [], '2.0.0': [] } }
+    );
+
+    expect(resolution.conflicts.map(({ type }) => type)).toEqual(['NOT_FOUND', 'NO_MATCHING_VERSION', 'NO_MATCHING_VERSION']);
+    expect(resolution.conflicts[2]).toMatchObject({ availableVersions: ['2.0.0', '1.0.0'] });
+  });
+
+  test('skips optional dependencies that cannot be resolved', async () => {
+    const resolution = await plan([{ name: 'missing', version: '*', optional: true }], {});
+
+    expect(resolution.conflicts).toEqual([]);
+    expect(resolution.skipped).toEqual([{ name: 'missing', range: '*', reason: 'Extension "missing" is not available.' }]);
+  });
+
+  test('looks up each dependency name once', async () => {
+    const { lookup, lookups } = createLookup({
+      a: { '1.0.0': [{ name: 'core', version: '*' }] },
+      b: { '1.0.0': [{ name: 'core', version: '*' }] },
+      core: { '1.0.0': [] },
+    });
+
+    await planDependencies(
+      { slug: 'app', version: { version: '1.0.0', requiredExtensions: [{ name: 'a', version: '*' }, { name: 'b', version: '*' }] } },
+      [],
+      lookup
+    );
+
+    expect(lookups).toEqual(['a', 'core', 'b']);
+  });
+});
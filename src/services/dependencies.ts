@@ -0,0 +1,304 @@
+import semver from 'semver';
+import { and, eq, inArray, isNull, or } from 'drizzle-orm';
+import { db } from '../db/connection.js';
+import { extensionInstallations, extensions, extensionVersions } from '../db/schema.js';
+import type {
+  DependencyConflict,
+  DependencyResolution,
+  RequiredExtension,
+  ResolvedDependency,
+} from '../types/index.js';
+
+// Dependency resolution for `extensionVersions.requiredExtensions`. Names refer
+// to extension slugs (or names); versions are semver ranges.
+
+// Installation states that count as "the user has this extension"
+const ACTIVE_STATUSES = ['installed', 'pending'] as const;
+
+export interface ResolvableVersion {
+  version: string;
+  requiredExtensions?: RequiredExtension[] | null;
+}
+
+export interface ActiveInstallation {
+  id: string;
+  extensionId: string;
+  slug: string;
+  name: string;
+  version: string;
+  requiredExtensions: RequiredExtension[];
+}
+
+// Extension candidate for a dependency name, with its installable versions
+export interface DependencyCandidate {
+  extensionId: string;
+  slug: string;
+  versions: { id: string; version: string; requiredExtensions: RequiredExtension[] }[];
+}
+
+function label(name: string, version: string): string {
+  return `${name}@${version}`;
+}
+
+function matchesName(installation: { slug: string; name: string }, name: string): boolean {
+  return installation.slug === name || installation.name === name;
+}
+
+// Load the user's active installations with the data needed for resolution
+export async function getActiveInstallations(userId: string): Promise<ActiveInstallation[]> {
+  const rows = await db
+    .select({
+      id: extensionInstallations.id,
+      extensionId: extensionInstallations.extensionId,
+      slug: extensions.slug,
+      name: extensions.name,
+      version: extensionVersions.version,
+      requiredExtensions: extensionVersions.requiredExtensions,
+    })
+    .from(extensionInstallations)
+    .innerJoin(extensions, eq(extensionInstallations.extensionId, extensions.id))
+    .innerJoin(extensionVersions, eq(extensionInstallations.versionId, extensionVersions.id))
+    .where(
+      and(
+        eq(extensionInstallations.userId, userId),
+        inArray(extensionInstallations.status, [...ACTIVE_STATUSES])
+      )
+    );
+
+  return rows.map((row) => ({ ...row, requiredExtensions: row.requiredExtensions || [] }));
+}
+
+// Find the published extension a dependency name refers to, together with its
+// published versions that are neither deprecated nor yanked
+async function findCandidate(name: string): Promise<DependencyCandidate | null> {
+  const matches = await db
+    .select({
+      id: extensions.id,
+      slug: extensions.slug,
+      name: extensions.name,
+    })
+    .from(extensions)
+    .where(
+      and(
+        or(eq(extensions.slug, name), eq(extensions.name, name)),
+        eq(extensions.status, 'published'),
+        eq(extensions.isPublic, true)
+      )
+    );
+
+  // Prefer an exact slug match over a display name match
+  const extension = matches.find((match) => match.slug === name) || matches[0];
+  if (!extension) {
+    return null;
+  }
+
+  const versions = await db
+    .select({
+      id: extensionVersions.id,
+      version: extensionVersions.version,
+      requiredExtensions: extensionVersions.requiredExtensions,
+      publishedAt: extensionVersions.publishedAt,
+    })
+    .from(extensionVersions)
+    .where(
+      and(
+        eq(extensionVersions.extensionId, extension.id),
+        eq(extensionVersions.isDeprecated, false),
+        isNull(extensionVersions.yankedAt)
+      )
+    );
+
+  return {
+    extensionId: extension.id,
+    slug: extension.slug,
+    versions: versions
+      .filter((version) => version.publishedAt && semver.valid(version.version))
+      .map((version) => ({
+        id: version.id,
+        version: version.version,
+        requiredExtensions: version.requiredExtensions || [],
+      })),
+  };
+}
+
+// Walk the dependency graph of a version and work out which dependencies are
+// already satisfied by the user's installations and which must be installed.
+// The highest satisfying version is picked for each missing dependency; every
+// problem found is collected as a conflict instead of stopping at the first.
+export async function resolveDependencies(
+  userId: string,
+  root: { slug: string; version: ResolvableVersion }
+): Promise<DependencyResolution> {
+  return planDependencies(root, await getActiveInstallations(userId), findCandidate);
+}
+
+// Resolve a version's dependencies against the given installations, looking
+// up each dependency name at most once
+export async function planDependencies(
+  root: { slug: string; version: ResolvableVersion },
+  installed: ActiveInstallation[],
+  lookup: (name: string) => Promise<DependencyCandidate | null>
+): Promise<DependencyResolution> {
+  const candidates = new Map<string, DependencyCandidate | null>();
+  const planned = new Map<string, ResolvedDependency>();
+  const order: ResolvedDependency[] = [];
+  const resolution: DependencyResolution = { install: [], satisfied: [], skipped: [], conflicts: [] };
+
+  const getCandidate = async (name: string) => {
+    if (!candidates.has(name)) {
+      candidates.set(name, await lookup(name));
+    }
+    return candidates.get(name)!;
+  };
+
+  const conflict = (entry: DependencyConflict, dependency: RequiredExtension) => {
+    if (dependency.optional && entry.type !== 'CYCLE') {
+      resolution.skipped.push({ name: dependency.name, range: dependency.version, reason: entry.message });
+    } else {
+      resolution.conflicts.push(entry);
+    }
+  };
+
+  // `path` holds the slugs from the root down to the version being visited
+  const visit = async (requiredBy: string, requirements: RequiredExtension[], path: string[]) => {
+    for (const dependency of requirements) {
+      const { name, version: range } = dependency;
+      const base = { name, range, requiredBy };
+
+      if (!semver.validRange(range)) {
+        conflict({ ...base, type: 'NO_MATCHING_VERSION', message: `Invalid version range "${range}".` }, dependency);
+        continue;
+      }
+
+      const existing = installed.find((installation) => matchesName(installation, name));
+      if (existing) {
+        if (semver.satisfies(existing.version, range, { includePrerelease: true })) {
+          if (!resolution.satisfied.some((entry) => entry.installationId === existing.id)) {
+            resolution.satisfied.push({ name, installationId: existing.id, version: existing.version });
+          }
+        } else {
+          conflict({
+            ...base,
+            type: 'INSTALLED_VERSION_MISMATCH',
+            installedVersion: existing.version,
+            message: `${requiredBy} requires ${name}@${range}, but ${existing.version} is installed.`,
+          }, dependency);
+        }
+        continue;
+      }
+
+      const candidate = await getCandidate(name);
+      if (!candidate) {
+        conflict({ ...base, type: 'NOT_FOUND', message: `Extension "${name}" is not available.` }, dependency);
+        continue;
+      }
+
+      if (path.includes(candidate.slug)) {
+        const cycle = [...path.slice(path.indexOf(candidate.slug)), candidate.slug];
+        conflict({ ...base, type: 'CYCLE', cycle, message: `Circular dependency: ${cycle.join(' → ')}.` }, dependency);
+        continue;
+      }
+
+      const chosen = planned.get(candidate.slug);
+      if (chosen) {
+        if (semver.satisfies(chosen.version, range, { includePrerelease: true })) {
+          chosen.requiredBy.push(requiredBy);
+        } else {
+          conflict({
+            ...base,
+            type: 'RANGE_CONFLICT',
+            resolvedVersion: chosen.version,
+            message: `${requiredBy} requires ${name}@${range}, but ${chosen.requiredBy.join(', ')} resolved ${chosen.version}.`,
+          }, dependency);
+        }
+        continue;
+      }
+
+      const best = semver.maxSatisfying(candidate.versions.map((version) => version.version), range);
+      const version = candidate.versions.find((entry) => entry.version === best);
+      if (!version) {
+        conflict({
+          ...base,
+          type: 'NO_MATCHING_VERSION',
+          availableVersions: semver.rsort(candidate.versions.map((entry) => entry.version)),
+          message: `No published version of ${name} satisfies ${range}.`,
+        }, dependency);
+        continue;
+      }
+
+      const resolved: ResolvedDependency = {
+        name: candidate.slug,
+        extensionId: candidate.extensionId,
+        versionId: version.id,
+        version: version.version,
+        requiredBy: [requiredBy],
+      };
+      planned.set(candidate.slug, resolved);
+
+      await visit(label(candidate.slug, version.version), version.requiredExtensions, [...path, candidate.slug]);
+
+      // Post-order: a dependency is listed after everything it depends on
+      order.push(resolved);
+    }
+  };
+
+  await visit(label(root.slug, root.version.version), root.version.requiredExtensions || [], [root.slug]);
+
+  resolution.install = order;
+  return resolution;
+}
+
+// Find the active installations that (transitively) depend on an installation,
+// ordered so that every dependent comes before the installations it needs
+export async function findDependents(userId: string, installationId: string): Promise<ActiveInstallation[]> {
+  const installed = await getActiveInstallations(userId);
+  const ordered: ActiveInstallation[] = [];
+  const visited = new Set<string>();
+
+  const visit = (target: ActiveInstallation) => {
+    if (visited.has(target.id)) {
+      return;
+    }
+    visited.add(target.id);
+
+    const dependents = installed.filter((installation) =>
+      installation.id !== target.id &&
+      installation.requiredExtensions.some((dependency) => !dependency.optional && matchesName(target, dependency.name))
+    );
+    dependents.forEach(visit);
+    ordered.push(target);
+  };
+
+  const target = installed.find((installation) => installation.id === installationId);
+  if (!target) {
+    return [];
+  }
+
+  visit(target);
+  return ordered.filter((installation) => installation.id !== installationId);
+}
+
+// Ranges that other active installations require of an installation's
+// extension, used to keep version changes compatible with dependents
+export async function getRequiredRanges(
+  userId: string,
+  installationId: string
+): Promise<{ installationId: string; requiredBy: string; range: string }[]> {
+  const installed = await getActiveInstallations(userId);
+  const target = installed.find((installation) => installation.id === installationId);
+  if (!target) {
+    return [];
+  }
+
+  return installed
+    .filter((installation) => installation.id !== installationId)
+    .flatMap((installation) =>
+      installation.requiredExtensions
+        .filter((dependency) => matchesName(target, dependency.name))
+        .map((dependency) => ({
+          installationId: installation.id,
+          requiredBy: label(installation.slug, installation.version),
+          range: dependency.version,
+        }))
+    );
+}
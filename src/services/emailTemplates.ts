@@ -0,0 +1,114 @@
+import type { MailMessage } from './mailer.js';
+
+// Email templates. `{{name}}` placeholders are replaced with the given
+// variables; values are HTML-escaped in the HTML part.
+
+export type EmailTemplateName = 'verifyEmail' | 'passwordReset' | 'passwordChanged' | 'versionNotice';
+
+interface EmailTemplate {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+const layout = (body: string) => `<!DOCTYPE html>
+<html>
+  <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; color: #1f2937; line-height: 1.5;">
+    <div style="max-width: 560px; margin: 0 auto; padding: 24px;">
+      ${body}
+      <p style="color: #6b7280; font-size: 12px; margin-top: 32px;">{{registryName}}</p>
+    </div>
+  </body>
+</html>`;
+
+const templates: Record<EmailTemplateName, EmailTemplate> = {
+  verifyEmail: {
+    subject: 'Verify your email address',
+    text: `Hi {{name}},
+
+Please confirm your email address by opening the link below:
+
+{{url}}
+
+The link expires in {{expiresIn}}. If you did not create an account, you can ignore this email.`,
+    html: layout(`<p>Hi {{name}},</p>
+      <p>Please confirm your email address by clicking the button below.</p>
+      <p><a href="{{url}}" style="display: inline-block; padding: 10px 16px; background: #2563eb; color: #ffffff; text-decoration: none; border-radius: 6px;">Verify email</a></p>
+      <p>The link expires in {{expiresIn}}. If you did not create an account, you can ignore this email.</p>`),
+  },
+  passwordReset: {
+    subject: 'Reset your password',
+    text: `Hi {{name}},
+
+We received a request to reset your password. Open the link below to choose a new one:
+
+{{url}}
+
+The link expires in {{expiresIn}} and can only be used once. If you did not request a reset, you can ignore this email.`,
+    html: layout(`<p>Hi {{name}},</p>
+      <p>We received a request to reset your password. Click the button below to choose a new one.</p>
+      <p><a href="{{url}}" style="display: inline-block; padding: 10px 16px; background: #2563eb; color: #ffffff; text-decoration: none; border-radius: 6px;">Reset password</a></p>
+      <p>The link expires in {{expiresIn}} and can only be used once. If you did not request a reset, you can ignore this email.</p>`),
+  },
+  passwordChanged: {
+    subject: 'Your password was changed',
+    text: `Hi {{name}},
+
+The password for your account was just changed and you have been signed out everywhere.
+
+If this was not you, reset your password immediately and contact support.`,
+    html: layout(`<p>Hi {{name}},</p>
+      <p>The password for your account was just changed and you have been signed out everywhere.</p>
+      <p>If this was not you, reset your password immediately and contact support.</p>`),
+  },
+  versionNotice: {
+    subject: '{{extension}} {{version}} has been {{action}}',
+    text: `Hi {{name}},
+
+Version {{version}} of {{extension}}, which you have installed, has been {{action}} by its publisher.
+
+{{note}}
+
+{{advice}}`,
+    html: layout(`<p>Hi {{name}},</p>
+      <p>Version <strong>{{version}}</strong> of <strong>{{extension}}</strong>, which you have installed, has been {{action}} by its publisher.</p>
+      <p>{{note}}</p>
+      <p>{{advice}}</p>`),
+  },
+};
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function interpolate(template: string, variables: Record<string, string>, escape: boolean): string {
+  return template.replace(/\{\{(\w+)\}\}/g, (_, key: string) => {
+    const value = variables[key] ?? '';
+    return escape ? escapeHtml(value) : value;
+  });
+}
+
+// Render a template into a message for `to`
+export function renderEmail(
+  name: EmailTemplateName,
+  to: string,
+  variables: Record<string, string>
+): MailMessage {
+  const template = templates[name];
+  const values = {
+    registryName: process.env.REGISTRY_NAME || 'Acacia Extension Store',
+    ...variables,
+  };
+
+  return {
+    to,
+    subject: interpolate(template.subject, values, false),
+    text: interpolate(template.text, values, false),
+    html: interpolate(template.html, values, true),
+  };
+}
@@ -0,0 +1,150 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  matchEndpointPath,
+  normalizeHandlerResponse,
+  resolveEndpoint,
+  resolveHandlerSource,
+  validateParameters,
+} from './endpoints.js';
+import type { EndpointConfig } from '../types/index.js';
+
+const endpoints: EndpointConfig[] = [
+  { path: '/items', method: 'GET', handler: 'listItems' },
+  { path: '/items/:id', method: 'GET', handler: 'getItem' },
+  { path: '/items/latest', method: 'GET', handler: 'getLatest' },
+  { path: '/items', method: 'POST', handler: 'createItem' },
+];
+
+describe('matchEndpointPath', () => {
+  test('extracts and decodes path parameters', () => {
+    expect(matchEndpointPath('/items/:id', '/items/a%20b')).toEqual({ id: 'a b' });
+  });
+
+  test('ignores repeated and trailing slashes', () => {
+    expect(matchEndpointPath('/items/:id', '//items/42/')).toEqual({ id: '42' });
+  });
+
+  test.each([
+    ['/items/:id', '/items'],
+    ['/items/:id', '/items/1/extra'],
+    ['/items/:id', '/other/1'],
+  ])('does not match %p against %p', (pattern, path) => {
+    expect(matchEndpointPath(pattern, path)).toBeNull();
+  });
+
+  test('does not match a malformed percent-escape', () => {
+    expect(matchEndpointPath('/items/:id', '/items/%E0%A4%A')).toBeNull();
+  });
+});
+
+describe('resolveEndpoint', () => {
+  test('resolves an action by handler name', () => {
+    expect(resolveEndpoint(endpoints, { action: 'createItem' })?.endpoint.handler).toBe('createItem');
+  });
+
+  test('resolves a "METHOD /path" action', () => {
+    const resolved = resolveEndpoint(endpoints, { action: 'get /items/7' });
+    expect(resolved?.endpoint.handler).toBe('getItem');
+    expect(resolved?.pathParams).toEqual({ id: '7' });
+  });
+
+  test('prefers exact paths over parameterised ones', () => {
+    expect(resolveEndpoint(endpoints, { method: 'GET', path: '/items/latest' })?.endpoint.handler).toBe('getLatest');
+  });
+
+  test('returns null for unknown targets', () => {
+    expect(resolveEndpoint(endpoints, { method: 'DELETE', path: '/items/7' })).toBeNull();
+    expect(resolveEndpoint(endpoints, { action: 'missing' })).toBeNull();
+  });
+});
+
+describe('validateParameters', () => {
+  const endpoint: EndpointConfig = {
+    path: '/items/:id',
+    method: 'GET',
+    handler: 'getItem',
+    parameters: [
+      { name: 'id', type: 'path', dataType: 'integer', required: true },
+      { name: 'verbose', type: 'query', dataType: 'boolean' },
+      { name: 'filter', type: 'query', dataType: 'object' },
+      { name: 'X-Trace', type: 'header', dataType: 'string' },
+    ],
+  };
+
+  test('coerces raw strings to the declared data types', () => {
+    const { values, issues } = validateParameters(endpoint, {
+      path: { id: '42' },
+      query: { verbose: 'true', filter: '{"tag":"a"}' },
+      header: { 'x-trace': 'abc' },
+    });
+
+    expect(issues).toEqual([]);
+    expect(values).toEqual({ id: 42, verbose: true, filter: { tag: 'a' }, 'X-Trace': 'abc' });
+  });
+
+  test('reports values that do not coerce', () => {
+    const { issues } = validateParameters(endpoint, {
+      path: { id: '4.5' },
+      query: { verbose: 'yes' },
+    });
+
+    expect(issues.map((issue) => issue.path)).toEqual([
+      ['path', 'id'],
+      ['query', 'verbose'],
+    ]);
+  });
+
+  test('reports missing required parameters', () => {
+    const { issues } = validateParameters(endpoint, { path: { id: '' } });
+    expect(issues).toEqual([{ path: ['path', 'id'], message: 'id is required (path parameter)' }]);
+  });
+});
+
+describe('normalizeHandlerResponse', () => {
+  test('sends plain values as a 200 response', () => {
+    expect(normalizeHandlerResponse({ ok: true })).toEqual({
+      status: 200,
+      headers: {},
+      body: { ok: true },
+      isBase64Encoded: false,
+    });
+  });
+
+  test('drops blocked headers and out-of-range statuses', () => {
+    const response = normalizeHandlerResponse({
+      statusCode: 700,
+      headers: { 'Set-Cookie': 'a=b', 'cache-control': 'no-store' },
+      body: 'x',
+    });
+
+    expect(response.status).toBe(502);
+    expect(response.headers).toEqual({ 'cache-control': 'no-store' });
+  });
+});
+
+describe('resolveHandlerSource', () => {
+  test('resolves an export of the serverless code', () => {
+    expect(resolveHandlerSource({ serverlessCode: 'exports.run = () => 1;' }, 'run')).toEqual({
+      code: 'exports.run = () => 1;',
+      handler: 'run',
+    });
+  });
+
+  test('resolves an export of a base64-encoded serverless file', () => {
+    const files = [{
+      path: './api/items.js',
+      type: 'serverless' as const,
+      encoding: 'base64' as const,
+      content: Buffer.from('exports.list = () => [];').toString('base64'),
+    }];
+
+    expect(resolveHandlerSource({ files }, 'api/items#list')).toEqual({
+      code: 'exports.list = () => [];',
+      handler: 'list',
+    });
+  });
+
+  test('returns null without a matching file or serverless code', () => {
+    expect(resolveHandlerSource({ files: [] }, 'api/items#list')).toBeNull();
+  });
+});
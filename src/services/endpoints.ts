@@ -0,0 +1,291 @@
+import { ZodError } from 'zod';
+import { getJsonType, validateJsonSchema, type SchemaIssue } from './jsonSchema.js';
+import type {
+  EndpointConfig,
+  ExtensionFile,
+  ExtensionManifest,
+  HandlerResponse,
+  ParameterConfig,
+} from '../types/index.js';
+
+// Dispatch helpers mapping execute calls onto the endpoints declared in an
+// extension manifest (`extensionConfig.endpoints`).
+
+export interface EndpointTarget {
+  action?: string;
+  method?: string;
+  path?: string;
+}
+
+export interface ResolvedEndpoint {
+  endpoint: EndpointConfig;
+  pathParams: Record<string, string>;
+}
+
+// Parameter values grouped by where the manifest says they are read from
+export type ParameterSources = Partial<Record<ParameterConfig['type'], Record<string, any>>>;
+
+export interface HandlerSource {
+  code: string;
+  handler?: string;
+}
+
+// Get the declared endpoints from a stored manifest
+export function getManifestEndpoints(manifest: unknown): EndpointConfig[] {
+  const endpoints = (manifest as ExtensionManifest | null)?.extensionConfig?.endpoints;
+  return Array.isArray(endpoints) ? endpoints : [];
+}
+
+function normalizePath(path: string): string {
+  const trimmed = path.trim().replace(/\/+/g, '/').replace(/\/$/, '');
+  return trimmed.startsWith('/') ? trimmed : `/${trimmed}`;
+}
+
+// Match a request path against an endpoint path pattern such as `/items/:id`
+export function matchEndpointPath(pattern: string, path: string): Record<string, string> | null {
+  const patternSegments = normalizePath(pattern).split('/');
+  const pathSegments = normalizePath(path).split('/');
+
+  if (patternSegments.length !== pathSegments.length) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < patternSegments.length; i++) {
+    const expected = patternSegments[i]!;
+    const actual = pathSegments[i]!;
+
+    if (expected.startsWith(':')) {
+      if (!actual) {
+        return null;
+      }
+      // A malformed escape can't name anything, so the path doesn't match
+      try {
+        params[expected.slice(1)] = decodeURIComponent(actual);
+      } catch {
+        return null;
+      }
+    } else if (expected !== actual) {
+      return null;
+    }
+  }
+
+  return params;
+}
+
+// Resolve an action name, a "METHOD /path" action or a method+path pair to
+// the declared endpoint. Exact paths win over parameterised ones.
+export function resolveEndpoint(endpoints: EndpointConfig[], target: EndpointTarget): ResolvedEndpoint | null {
+  let { action, method, path } = target;
+
+  if (action && !method && !path) {
+    const byHandler = endpoints.find((endpoint) => endpoint.handler === action);
+    if (byHandler) {
+      return { endpoint: byHandler, pathParams: {} };
+    }
+
+    const match = action.match(/^(GET|POST|PUT|DELETE|PATCH)\s+(\S+)$/i);
+    if (!match) {
+      return null;
+    }
+    method = match[1];
+    path = match[2];
+  }
+
+  if (!method || !path) {
+    return null;
+  }
+
+  const candidates = endpoints
+    .filter((endpoint) => endpoint.method.toUpperCase() === method!.toUpperCase())
+    .map((endpoint) => ({ endpoint, pathParams: matchEndpointPath(endpoint.path, path!) }))
+    .filter((candidate): candidate is ResolvedEndpoint => candidate.pathParams !== null)
+    .sort((a, b) => Object.keys(a.pathParams).length - Object.keys(b.pathParams).length);
+
+  return candidates[0] || null;
+}
+
+// Coerce a raw string (query, path or header value) to the declared data type
+function coerceValue(value: any, dataType: string): any {
+  if (typeof value !== 'string') {
+    return value;
+  }
+
+  switch (dataType) {
+    case 'number':
+    case 'integer':
+      return value.trim() !== '' && !isNaN(Number(value)) ? Number(value) : value;
+    case 'boolean':
+      return value === 'true' ? true : value === 'false' ? false : value;
+    case 'object':
+    case 'array':
+      try {
+        return JSON.parse(value);
+      } catch {
+        return value;
+      }
+    default:
+      return value;
+  }
+}
+
+function matchesDataType(value: any, dataType: string): boolean {
+  const normalized = dataType.toLowerCase();
+  if (normalized === 'any') {
+    return true;
+  }
+  const actual = getJsonType(value);
+  if (normalized === 'number') {
+    return actual === 'number' || actual === 'integer';
+  }
+  return actual === normalized;
+}
+
+function readParameter(sources: ParameterSources, parameter: ParameterConfig): any {
+  const source = sources[parameter.type];
+  if (!source) {
+    return undefined;
+  }
+
+  if (parameter.type === 'header') {
+    const name = parameter.name.toLowerCase();
+    const key = Object.keys(source).find((header) => header.toLowerCase() === name);
+    return key !== undefined ? source[key] : undefined;
+  }
+
+  return source[parameter.name];
+}
+
+// Validate parameters against the endpoint's ParameterConfig list and return
+// the coerced values keyed by parameter name
+export function validateParameters(
+  endpoint: EndpointConfig,
+  sources: ParameterSources
+): { values: Record<string, any>; issues: SchemaIssue[] } {
+  const values: Record<string, any> = {};
+  const issues: SchemaIssue[] = [];
+
+  for (const parameter of endpoint.parameters || []) {
+    const raw = readParameter(sources, parameter);
+    const path = [parameter.type, parameter.name];
+
+    if (raw === undefined || raw === null || raw === '') {
+      if (parameter.required) {
+        issues.push({ path, message: `${parameter.name} is required (${parameter.type} parameter)` });
+      }
+      continue;
+    }
+
+    const value = parameter.type === 'body' ? raw : coerceValue(raw, parameter.dataType);
+    if (!matchesDataType(value, parameter.dataType)) {
+      issues.push({ path, message: `Expected ${parameter.dataType}, received ${getJsonType(value)}` });
+      continue;
+    }
+
+    values[parameter.name] = value;
+  }
+
+  return { values, issues };
+}
+
+// Validate a handler result against the declared response schema for a status
+export function validateResponse(endpoint: EndpointConfig, status: number, body: unknown): SchemaIssue[] {
+  const response = (endpoint.responses || []).find((candidate) => candidate.status === status);
+  if (!response || response.schema === undefined) {
+    return [];
+  }
+  return validateJsonSchema(response.schema, body, ['response']);
+}
+
+// Headers a handler may not set on a proxied response
+const BLOCKED_RESPONSE_HEADERS = [
+  'connection',
+  'content-length',
+  'keep-alive',
+  'set-cookie',
+  'transfer-encoding',
+  'upgrade',
+];
+
+// Detect a `{ statusCode, headers, body }` envelope returned by a handler
+export function isHandlerResponse(result: unknown): result is HandlerResponse {
+  return (
+    typeof result === 'object' &&
+    result !== null &&
+    !Array.isArray(result) &&
+    Number.isInteger((result as HandlerResponse).statusCode)
+  );
+}
+
+// Normalize a handler result into the status, headers and body to send back.
+// Plain return values are sent as a 200 JSON response.
+export function normalizeHandlerResponse(result: unknown): {
+  status: number;
+  headers: Record<string, string>;
+  body: unknown;
+  isBase64Encoded: boolean;
+} {
+  if (!isHandlerResponse(result)) {
+    return { status: 200, headers: {}, body: result, isBase64Encoded: false };
+  }
+
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(result.headers || {})) {
+    if (!BLOCKED_RESPONSE_HEADERS.includes(name.toLowerCase()) && value !== undefined && value !== null) {
+      headers[name] = String(value);
+    }
+  }
+
+  const status = result.statusCode >= 200 && result.statusCode <= 599 ? result.statusCode : 502;
+
+  return {
+    status,
+    headers,
+    body: result.body,
+    isBase64Encoded: result.isBase64Encoded === true,
+  };
+}
+
+// Convert collected issues into the ZodError the global error handler reports
+// in the standard ValidationError format
+export function toValidationError(issues: SchemaIssue[]): ZodError {
+  return new ZodError(
+    issues.map((issue) => ({
+      code: 'custom' as const,
+      path: issue.path,
+      message: issue.message,
+      input: undefined,
+    }))
+  );
+}
+
+// Resolve the code to run for an endpoint handler. Handlers are either an
+// export name of the version's serverless code (`handleRequest`) or a
+// serverless file with an optional export (`api/items.js#list`).
+export function resolveHandlerSource(
+  version: { serverlessCode?: string | null; files?: ExtensionFile[] | null },
+  handler: string
+): HandlerSource | null {
+  const [file, exportName] = handler.split('#', 2) as [string, string | undefined];
+  const normalized = file.replace(/^\.?\//, '');
+
+  const sourceFile = (version.files || []).find(
+    (candidate) =>
+      candidate.type === 'serverless' &&
+      (candidate.path.replace(/^\.?\//, '') === normalized ||
+        candidate.path.replace(/^\.?\//, '').replace(/\.[jt]s$/, '') === normalized)
+  );
+
+  if (sourceFile) {
+    const code = sourceFile.encoding === 'base64'
+      ? Buffer.from(sourceFile.content, 'base64').toString('utf8')
+      : sourceFile.content;
+    return { code, handler: exportName };
+  }
+
+  if (!version.serverlessCode) {
+    return null;
+  }
+
+  return { code: version.serverlessCode, handler: exportName || file };
+}
@@ -0,0 +1,116 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import crypto from 'crypto';
+import {
+  decryptEnvironment,
+  encryptEnvironment,
+  EnvironmentKeyError,
+  findMissingEnvironment,
+  maskEnvironment,
+  MASKED_VALUE,
+  mergeEnvironment,
+} from './environment.js';
+
+const originalKeys = process.env.ENV_ENCRYPTION_KEYS;
+const oldKey = `old:${crypto.randomBytes(32).toString('base64')}`;
+const newKey = `new:${crypto.randomBytes(32).toString('base64')}`;
+
+afterEach(() => {
+  if (originalKeys === undefined) {
+    delete process.env.ENV_ENCRYPTION_KEYS;
+  } else {
+    process.env.ENV_ENCRYPTION_KEYS = originalKeys;
+  }
+});
+
+describe('encryptEnvironment', () => {
+  test('encrypts each value under the first master key', () => {
+    process.env.ENV_ENCRYPTION_KEYS = `${newKey},${oldKey}`;
+
+    const stored = encryptEnvironment({ API_KEY: 'secret', REGION: 'eu' });
+
+    expect(stored.keyId).toBe('new');
+    expect(Object.keys(stored.values)).toEqual(['API_KEY', 'REGION']);
+    expect(JSON.stringify(stored)).not.toContain('secret');
+    expect(decryptEnvironment(stored)).toEqual({ API_KEY: 'secret', REGION: 'eu' });
+  });
+
+  test('uses a fresh data key and IV every time', () => {
+    const first = encryptEnvironment({ API_KEY: 'secret' });
+    const second = encryptEnvironment({ API_KEY: 'secret' });
+
+    expect(first.dataKey).not.toBe(second.dataKey);
+    expect(first.values.API_KEY).not.toBe(second.values.API_KEY);
+  });
+
+  test('refuses malformed master keys', () => {
+    process.env.ENV_ENCRYPTION_KEYS = 'nokey';
+    expect(() => encryptEnvironment({})).toThrow(EnvironmentKeyError);
+
+    process.env.ENV_ENCRYPTION_KEYS = `short:${crypto.randomBytes(16).toString('base64')}`;
+    expect(() => encryptEnvironment({})).toThrow(EnvironmentKeyError);
+  });
+});
+
+describe('decryptEnvironment', () => {
+  test('binds each value to its variable name', () => {
+    const stored = encryptEnvironment({ API_KEY: 'secret', REGION: 'eu' });
+    const swapped = { ...stored, values: { API_KEY: stored.values.REGION!, REGION: stored.values.API_KEY! } };
+
+    expect(() => decryptEnvironment(swapped)).toThrow();
+  });
+
+  test('returns values stored before encryption as they are', () => {
+    expect(decryptEnvironment({ API_KEY: 'plain' })).toEqual({ API_KEY: 'plain' });
+    expect(decryptEnvironment(null)).toEqual({});
+  });
+
+  test('keeps decrypting with an older master key after a new one is added', () => {
+    process.env.ENV_ENCRYPTION_KEYS = oldKey;
+    const stored = encryptEnvironment({ API_KEY: 'secret' });
+
+    process.env.ENV_ENCRYPTION_KEYS = `${newKey},${oldKey}`;
+    expect(decryptEnvironment(stored)).toEqual({ API_KEY: 'secret' });
+    expect(encryptEnvironment({}).keyId).toBe('new');
+
+    process.env.ENV_ENCRYPTION_KEYS = newKey;
+    expect(() => decryptEnvironment(stored)).toThrow('Master key "old" is not configured.');
+  });
+});
+
+describe('maskEnvironment', () => {
+  test('returns names with masked values', () => {
+    expect(maskEnvironment(encryptEnvironment({ API_KEY: 'secret' }))).toEqual({ API_KEY: MASKED_VALUE });
+    expect(maskEnvironment({ REGION: 'eu' })).toEqual({ REGION: MASKED_VALUE });
+  });
+});
+
+describe('mergeEnvironment', () => {
+  test('sets, removes and keeps variables', () => {
+    const stored = encryptEnvironment({ API_KEY: 'secret', REGION: 'eu', DEBUG: '1' });
+
+    expect(mergeEnvironment(stored, { REGION: 'us', DEBUG: null, TOKEN: 't' })).toEqual({
+      API_KEY: 'secret',
+      REGION: 'us',
+      TOKEN: 't',
+    });
+  });
+});
+
+describe('findMissingEnvironment', () => {
+  test('reports required variables that are missing or empty', () => {
+    const manifest = {
+      extensionConfig: {
+        environment: [
+          { name: 'API_KEY', description: 'Key', required: true },
+          { name: 'TOKEN', description: 'Token', required: true },
+          { name: 'REGION', description: 'Region' },
+        ],
+      },
+    };
+
+    expect(findMissingEnvironment(manifest, { API_KEY: '' }).map((variable) => variable.name)).toEqual([
+      'API_KEY',
+      'TOKEN',
+    ]);
+  });
+});
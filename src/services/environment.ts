@@ -0,0 +1,191 @@
+import crypto from 'crypto';
+import { eq, isNotNull } from 'drizzle-orm';
+import { db } from '../db/connection.js';
+import { extensionInstallations } from '../db/schema.js';
+import type { EncryptedEnvironment, EnvironmentVariableConfig, ExtensionManifest } from '../types/index.js';
+
+// Installation environment variables. Values are encrypted at rest with
+// AES-256-GCM using a random data key per installation; the data key is stored
+// wrapped by a master key from ENV_ENCRYPTION_KEYS. Rotating the master key
+// only rewraps data keys. The API never returns values, only masks.
+
+export const MASKED_VALUE = '********';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const KEY_LENGTH = 32;
+
+// Master key used when none is configured outside production
+const DEVELOPMENT_KEY_ID = 'development';
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+export class EnvironmentKeyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EnvironmentKeyError';
+  }
+}
+
+// Master keys from ENV_ENCRYPTION_KEYS (`id:base64key,...`). The first key
+// encrypts; the others stay available to decrypt until data keys are rotated.
+function getMasterKeys(): MasterKey[] {
+  const configured = (process.env.ENV_ENCRYPTION_KEYS || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf(':');
+      const id = entry.slice(0, separator);
+      const key = Buffer.from(entry.slice(separator + 1), 'base64');
+      if (separator < 1 || key.length !== KEY_LENGTH) {
+        throw new EnvironmentKeyError(`ENV_ENCRYPTION_KEYS entries must be "<id>:<base64 of ${KEY_LENGTH} bytes>".`);
+      }
+      return { id, key };
+    });
+
+  if (configured.length > 0) {
+    return configured;
+  }
+  if (process.env.NODE_ENV === 'production') {
+    throw new EnvironmentKeyError('ENV_ENCRYPTION_KEYS must be set in production.');
+  }
+  return [{ id: DEVELOPMENT_KEY_ID, key: crypto.createHash('sha256').update('extension-store-development-key').digest() }];
+}
+
+function getMasterKey(id: string): MasterKey {
+  const masterKey = getMasterKeys().find((candidate) => candidate.id === id);
+  if (!masterKey) {
+    throw new EnvironmentKeyError(`Master key "${id}" is not configured.`);
+  }
+  return masterKey;
+}
+
+// AES-GCM with the associated data bound in, so a value cannot be moved to
+// another variable (or a data key to another master key) undetected
+function seal(key: Buffer, plaintext: Buffer, associatedData: string): string {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(Buffer.from(associatedData));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+}
+
+function unseal(key: Buffer, sealed: string, associatedData: string): Buffer {
+  const data = Buffer.from(sealed, 'base64');
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, data.subarray(0, IV_LENGTH));
+  decipher.setAAD(Buffer.from(associatedData));
+  decipher.setAuthTag(data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+  return Buffer.concat([decipher.update(data.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+}
+
+export function isEncryptedEnvironment(stored: unknown): stored is EncryptedEnvironment {
+  const candidate = stored as EncryptedEnvironment | null;
+  return typeof candidate?.keyId === 'string' &&
+    typeof candidate.dataKey === 'string' &&
+    typeof candidate.values === 'object' && candidate.values !== null;
+}
+
+// Encrypt variables under a new data key wrapped by the current master key
+export function encryptEnvironment(values: Record<string, string>): EncryptedEnvironment {
+  const masterKey = getMasterKeys()[0]!;
+  const dataKey = crypto.randomBytes(KEY_LENGTH);
+
+  return {
+    keyId: masterKey.id,
+    dataKey: seal(masterKey.key, dataKey, masterKey.id),
+    values: Object.fromEntries(
+      Object.entries(values).map(([name, value]) => [name, seal(dataKey, Buffer.from(value), name)])
+    ),
+  };
+}
+
+// Decrypt stored variables. Plain objects from before encryption are
+// returned as they are.
+export function decryptEnvironment(stored: unknown): Record<string, string> {
+  if (!stored) {
+    return {};
+  }
+  if (!isEncryptedEnvironment(stored)) {
+    return { ...(stored as Record<string, string>) };
+  }
+
+  const masterKey = getMasterKey(stored.keyId);
+  const dataKey = unseal(masterKey.key, stored.dataKey, masterKey.id);
+  return Object.fromEntries(
+    Object.entries(stored.values).map(([name, value]) => [name, unseal(dataKey, value, name).toString()])
+  );
+}
+
+// Variable names with their values masked, for API responses
+export function maskEnvironment(stored: unknown): Record<string, string> {
+  if (!stored) {
+    return {};
+  }
+  const values = isEncryptedEnvironment(stored) ? stored.values : stored as Record<string, string>;
+  return Object.fromEntries(Object.keys(values).map((name) => [name, MASKED_VALUE]));
+}
+
+// Apply a write-only update: strings set variables, null removes them and
+// variables that are not mentioned keep their values
+export function mergeEnvironment(stored: unknown, updates: Record<string, string | null>): Record<string, string> {
+  const values = decryptEnvironment(stored);
+  for (const [name, value] of Object.entries(updates)) {
+    if (value === null) {
+      delete values[name];
+    } else {
+      values[name] = value;
+    }
+  }
+  return values;
+}
+
+// Environment variables a version's manifest declares
+export function getDeclaredEnvironment(manifest: unknown): EnvironmentVariableConfig[] {
+  const environment = (manifest as ExtensionManifest | null)?.extensionConfig?.environment;
+  return Array.isArray(environment) ? environment : [];
+}
+
+// Required variables of a manifest that are missing or empty
+export function findMissingEnvironment(manifest: unknown, values: Record<string, string>): EnvironmentVariableConfig[] {
+  return getDeclaredEnvironment(manifest).filter((variable) => variable.required && !values[variable.name]);
+}
+
+// Rewrap every installation's data key with the current master key and
+// encrypt any variables still stored in plain text. Values stay encrypted
+// under their data keys.
+export async function rotateEnvironmentKeys(): Promise<{ checked: number; rotated: number }> {
+  const masterKey = getMasterKeys()[0]!;
+  const installations = await db
+    .select({ id: extensionInstallations.id, environmentVariables: extensionInstallations.environmentVariables })
+    .from(extensionInstallations)
+    .where(isNotNull(extensionInstallations.environmentVariables));
+
+  let rotated = 0;
+  for (const installation of installations) {
+    const stored = installation.environmentVariables;
+    if (isEncryptedEnvironment(stored) && stored.keyId === masterKey.id) {
+      continue;
+    }
+
+    const environmentVariables = isEncryptedEnvironment(stored)
+      ? {
+          ...stored,
+          keyId: masterKey.id,
+          dataKey: seal(masterKey.key, unseal(getMasterKey(stored.keyId).key, stored.dataKey, stored.keyId), masterKey.id),
+        }
+      : encryptEnvironment(stored as Record<string, string>);
+
+    await db
+      .update(extensionInstallations)
+      .set({ environmentVariables })
+      .where(eq(extensionInstallations.id, installation.id));
+    rotated += 1;
+  }
+
+  return { checked: installations.length, rotated };
+}
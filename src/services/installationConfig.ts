@@ -0,0 +1,136 @@
+import { getJsonType, validateJsonSchema, type SchemaIssue } from './jsonSchema.js';
+import type { ConfigMigration, ExtensionManifest } from '../types/index.js';
+
+// Installation configuration typed by the manifest's
+// `extensionConfig.configSchema` (JSON Schema). Config is stored with the
+// schema's defaults applied. Upgrades run each crossed version's
+// `configMigration` before the config is checked against the target schema.
+
+type JsonSchema = Record<string, any>;
+
+export function getConfigSchema(manifest: unknown): JsonSchema | undefined {
+  return (manifest as ExtensionManifest | null)?.extensionConfig?.configSchema;
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+// Fill in `default` values for missing properties, recursing into objects
+// that are present or get a default themselves
+export function applyConfigDefaults(schema: JsonSchema | undefined, value: unknown): unknown {
+  if (!schema || typeof schema !== 'object') {
+    return value;
+  }
+
+  const result = value === undefined ? clone(schema.default) : value;
+  if (getJsonType(result) !== 'object' || !schema.properties) {
+    return result;
+  }
+
+  const object = { ...(result as Record<string, unknown>) };
+  for (const [key, propertySchema] of Object.entries<JsonSchema>(schema.properties)) {
+    const property = applyConfigDefaults(propertySchema, object[key]);
+    if (property !== undefined) {
+      object[key] = property;
+    }
+  }
+  return object;
+}
+
+// Defaults that do not satisfy the schema they are declared in, with paths
+// rooted at `manifest.extensionConfig.configSchema`
+export function findInvalidDefaults(
+  schema: unknown,
+  path: (string | number)[] = ['manifest', 'extensionConfig', 'configSchema']
+): SchemaIssue[] {
+  if (getJsonType(schema) !== 'object') {
+    return [];
+  }
+
+  const node = schema as JsonSchema;
+  const issues: SchemaIssue[] = [];
+  if (node.default !== undefined) {
+    issues.push(
+      ...validateJsonSchema(node, node.default).map((issue) => ({
+        path: [...path, 'default', ...issue.path],
+        message: issue.message,
+      }))
+    );
+  }
+  for (const [key, propertySchema] of Object.entries(node.properties || {})) {
+    issues.push(...findInvalidDefaults(propertySchema, [...path, 'properties', key]));
+  }
+  if (node.items !== undefined) {
+    issues.push(...findInvalidDefaults(node.items, [...path, 'items']));
+  }
+  return issues;
+}
+
+// Apply the schema's defaults to a config and validate it. Versions without a
+// schema accept any config. Issues are rooted at `config`.
+export function resolveConfig(manifest: unknown, config: unknown): { config: unknown; issues: SchemaIssue[] } {
+  const schema = getConfigSchema(manifest);
+  if (!schema) {
+    return { config: config ?? {}, issues: [] };
+  }
+
+  const resolved = applyConfigDefaults(schema, config ?? {});
+  return { config: resolved, issues: validateJsonSchema(schema, resolved, ['config']) };
+}
+
+function getPath(object: Record<string, any>, path: string): unknown {
+  return path.split('.').reduce<any>((current, key) => (getJsonType(current) === 'object' ? current[key] : undefined), object);
+}
+
+function setPath(object: Record<string, any>, path: string, value: unknown) {
+  const keys = path.split('.');
+  const last = keys.pop()!;
+  let current = object;
+  for (const key of keys) {
+    if (getJsonType(current[key]) !== 'object') {
+      current[key] = {};
+    }
+    current = current[key];
+  }
+  current[last] = value;
+}
+
+function removePath(object: Record<string, any>, path: string) {
+  const keys = path.split('.');
+  const last = keys.pop()!;
+  const parent = keys.length > 0 ? getPath(object, keys.join('.')) : object;
+  if (getJsonType(parent) === 'object') {
+    delete (parent as Record<string, unknown>)[last];
+  }
+}
+
+// Run one version's config migration: renames first, then removals, then
+// assignments. Paths are dotted (`display.theme`).
+export function applyConfigMigration(config: unknown, migration: ConfigMigration | undefined): unknown {
+  if (!migration || getJsonType(config) !== 'object') {
+    return config;
+  }
+
+  const result = clone(config) as Record<string, any>;
+  for (const [from, to] of Object.entries(migration.rename || {})) {
+    const value = getPath(result, from);
+    if (value !== undefined) {
+      removePath(result, from);
+      setPath(result, to, value);
+    }
+  }
+  (migration.remove || []).forEach((path) => removePath(result, path));
+  for (const [path, value] of Object.entries(migration.set || {})) {
+    setPath(result, path, clone(value));
+  }
+  return result;
+}
+
+// Migrate a config through the versions an upgrade crosses, oldest first
+export function migrateConfig(config: unknown, versions: { manifest?: unknown }[]): unknown {
+  return versions.reduce(
+    (current, version) => applyConfigMigration(current, (version.manifest as ExtensionManifest | null)?.extensionConfig?.configMigration),
+    config
+  );
+}
@@ -0,0 +1,49 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+
+// Runs against a real database when TEST_DATABASE_URL names one whose user
+// owns the database and has CREATEROLE
+const databaseUrl = process.env.TEST_DATABASE_URL;
+const schemaName = 'ext_test_isolation';
+
+describe.skipIf(!databaseUrl)('installation database isolation', () => {
+  let installationDatabase: typeof import('./installationDatabase.js');
+  let db: typeof import('../db/connection.js').db;
+
+  const query = (text: string, options: { readOnly: boolean }) =>
+    installationDatabase.queryAsInstallation(schemaName, text, [], { ...options, timeout: 1000 });
+
+  beforeAll(async () => {
+    installationDatabase = await import('./installationDatabase.js');
+    ({ db } = await import('../db/connection.js'));
+
+    await db.$client.unsafe('CREATE TABLE IF NOT EXISTS public.isolation_check (value text)');
+    await db.$client.unsafe('REVOKE ALL ON SCHEMA public FROM PUBLIC');
+    await db.$client.begin(async (sql) => {
+      await installationDatabase.dropInstallationSchema(sql, schemaName);
+      await installationDatabase.provisionInstallationSchema(sql, schemaName);
+      await installationDatabase.runAsInstallation(sql, schemaName, 'CREATE TABLE items (id int); INSERT INTO items VALUES (1);');
+    });
+  });
+
+  afterAll(async () => {
+    await db.$client.begin((sql) => installationDatabase.dropInstallationSchema(sql, schemaName));
+    await db.$client.unsafe('DROP TABLE IF EXISTS public.isolation_check');
+  });
+
+  test('does not let a read-only query commit its transaction and write', async () => {
+    await expect(query('COMMIT; DELETE FROM items', { readOnly: true })).rejects.toThrow();
+    await expect(query('DELETE FROM items', { readOnly: true })).rejects.toThrow(/read-only/);
+    expect(await query('SELECT count(*)::int AS count FROM items', { readOnly: true })).toEqual([{ count: 1 }]);
+  });
+
+  test('keeps queries out of the store schema and within the timeout', async () => {
+    await expect(query('SELECT * FROM public.isolation_check', { readOnly: true })).rejects.toThrow(/permission denied/);
+    await expect(query('SELECT pg_sleep(3)', { readOnly: true })).rejects.toThrow(/statement timeout/);
+  });
+
+  test('does not let migrations switch back to the store role', async () => {
+    await expect(
+      db.$client.begin((sql) => installationDatabase.runAsInstallation(sql, schemaName, 'RESET ROLE; SELECT * FROM public.isolation_check'))
+    ).rejects.toThrow();
+  });
+});
@@ -0,0 +1,231 @@
+import crypto from 'crypto';
+import type { Sql, TransactionSql } from 'postgres';
+import { createRoleClient, db } from '../db/connection.js';
+
+// Database isolation for installations. Every installation gets a Postgres
+// role with the name of its schema. The role owns the schema and everything in
+// it, has no privileges on the store's tables and cannot create anything
+// outside its schema, so extension SQL runs as that role and Postgres, not a
+// scan of the SQL, keeps it out of the rest of the database: migrations through
+// runAsInstallation(), handler queries over a connection logged in as the role.
+// The store's own role needs CREATEROLE to manage these roles.
+
+// Connections one installation role may hold open
+const ROLE_CONNECTION_LIMIT = 5;
+
+// Installation roles with an open client, least recently used first
+const MAX_ROLE_CLIENTS = 50;
+const ROLE_CLIENT_IDLE_TIMEOUT = 30; // Seconds
+
+// Temporary function extension SQL is run through, see runAsInstallation()
+const RUNNER_FUNCTION = 'acacia_run_sql';
+
+// Relation kinds a schema owner can be changed for, by their ALTER statement
+const RELATION_KINDS: Record<string, string> = {
+  r: 'TABLE',
+  p: 'TABLE',
+  v: 'VIEW',
+  m: 'MATERIALIZED VIEW',
+  f: 'FOREIGN TABLE',
+  S: 'SEQUENCE',
+};
+
+export function quoteIdentifier(identifier: string): string {
+  return `"${identifier.replace(/"/g, '""')}"`;
+}
+
+function quoteLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+// Password of an installation role, derived so every server instance agrees on
+// it without storing it
+function getRolePassword(roleName: string): string {
+  let secret = process.env.EXTENSION_DB_ROLE_SECRET;
+  if (!secret) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('EXTENSION_DB_ROLE_SECRET must be set in production.');
+    }
+    secret = 'extension-store-development-role-secret';
+  }
+  return crypto.createHmac('sha256', secret).update(roleName).digest('base64url');
+}
+
+// Hand a schema that was created before installations had their own role, and
+// the objects in it, to the installation role. Sequences and types that belong
+// to a table follow the table.
+async function adoptSchema(sql: TransactionSql, schemaName: string) {
+  const role = quoteIdentifier(schemaName);
+  await sql.unsafe(`ALTER SCHEMA ${role} OWNER TO ${role}`);
+
+  const relations = await sql<{ name: string; kind: string }[]>`
+    SELECT c.relname AS name, c.relkind AS kind
+    FROM pg_class c
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE n.nspname = ${schemaName}
+      AND c.relkind IN ('r', 'p', 'v', 'm', 'f', 'S')
+      AND NOT EXISTS (
+        SELECT 1 FROM pg_depend d
+        WHERE d.classid = 'pg_class'::regclass AND d.objid = c.oid AND d.deptype IN ('a', 'i')
+      )
+  `;
+  for (const relation of relations) {
+    await sql.unsafe(`ALTER ${RELATION_KINDS[relation.kind]} ${role}.${quoteIdentifier(relation.name)} OWNER TO ${role}`);
+  }
+
+  const routines = await sql<{ signature: string }[]>`
+    SELECT p.oid::regprocedure::text AS signature
+    FROM pg_proc p
+    JOIN pg_namespace n ON n.oid = p.pronamespace
+    WHERE n.nspname = ${schemaName}
+  `;
+  for (const routine of routines) {
+    await sql.unsafe(`ALTER ROUTINE ${routine.signature} OWNER TO ${role}`);
+  }
+
+  const types = await sql<{ name: string }[]>`
+    SELECT t.oid::regtype::text AS name
+    FROM pg_type t
+    JOIN pg_namespace n ON n.oid = t.typnamespace
+    LEFT JOIN pg_class c ON c.oid = t.typrelid
+    WHERE n.nspname = ${schemaName}
+      AND (t.typtype IN ('e', 'd', 'r') OR (t.typtype = 'c' AND c.relkind = 'c'))
+  `;
+  for (const type of types) {
+    await sql.unsafe(`ALTER TYPE ${type.name} OWNER TO ${role}`);
+  }
+}
+
+// Create the installation's role and schema, or bring existing ones up to
+// date. Runs in the caller's transaction as the store's role.
+export async function provisionInstallationSchema(sql: TransactionSql, schemaName: string) {
+  const role = quoteIdentifier(schemaName);
+
+  const password = quoteLiteral(getRolePassword(schemaName));
+
+  const existingRole = await sql`SELECT 1 FROM pg_roles WHERE rolname = ${schemaName}`;
+  if (existingRole.length === 0) {
+    await sql.unsafe(
+      `CREATE ROLE ${role} LOGIN NOSUPERUSER NOCREATEDB NOCREATEROLE NOINHERIT NOREPLICATION NOBYPASSRLS ` +
+      `CONNECTION LIMIT ${ROLE_CONNECTION_LIMIT} PASSWORD ${password}`
+    );
+    // Lets the store's role act as the installation role and give it objects
+    await sql.unsafe(`GRANT ${role} TO CURRENT_USER`);
+  } else {
+    await sql.unsafe(`ALTER ROLE ${role} LOGIN CONNECTION LIMIT ${ROLE_CONNECTION_LIMIT} PASSWORD ${password}`);
+  }
+  await sql.unsafe(`ALTER ROLE ${role} SET search_path TO ${role}`);
+
+  const schema = await sql<{ owner: string }[]>`
+    SELECT pg_get_userbyid(nspowner) AS owner FROM pg_namespace WHERE nspname = ${schemaName}
+  `;
+  if (schema.length === 0) {
+    await sql.unsafe(`CREATE SCHEMA ${role} AUTHORIZATION ${role}`);
+  } else if (schema[0]!.owner !== schemaName) {
+    await adoptSchema(sql, schemaName);
+  }
+}
+
+// Run extension SQL (a script of any number of statements) as the
+// installation role, with only its schema on the search path. The script runs
+// inside a SECURITY DEFINER function owned by the role: Postgres refuses SET
+// ROLE and SET SESSION AUTHORIZATION there, so the script cannot switch back
+// to the store's role. The function restores the search path when it
+// returns, and RESET ALL drops any other setting the script changed for the
+// session.
+export async function runAsInstallation(sql: TransactionSql, schemaName: string, script: string) {
+  const role = quoteIdentifier(schemaName);
+  const runner = `${role}.${quoteIdentifier(RUNNER_FUNCTION)}`;
+
+  await sql.unsafe(`SET LOCAL ROLE ${role}`);
+  await sql.unsafe(
+    `CREATE OR REPLACE FUNCTION ${runner}(script text) RETURNS void ` +
+    `LANGUAGE plpgsql SECURITY DEFINER SET search_path TO ${role} ` +
+    `AS $runner$ BEGIN EXECUTE script; END $runner$`
+  );
+  await sql.unsafe(`SELECT ${runner}($1)`, [script]);
+  await sql.unsafe(`DROP FUNCTION IF EXISTS ${runner}(text)`);
+  await sql.unsafe('RESET ROLE');
+  await sql.unsafe('RESET ALL');
+}
+
+// Remove the installation's schema, everything in it and its role
+export async function dropInstallationSchema(sql: TransactionSql, schemaName: string) {
+  const role = quoteIdentifier(schemaName);
+  await closeRoleClient(schemaName);
+  await sql.unsafe(`DROP SCHEMA IF EXISTS ${role} CASCADE`);
+
+  const existingRole = await sql`SELECT 1 FROM pg_roles WHERE rolname = ${schemaName}`;
+  if (existingRole.length > 0) {
+    await sql.unsafe(`DROP OWNED BY ${role}`);
+    await sql.unsafe(`DROP ROLE ${role}`);
+  }
+}
+
+// unsafe() sends queries without parameters over the simple protocol, which
+// runs any number of statements. The extended protocol runs exactly one, so a
+// query cannot end the transaction it is given. (`simple` is missing from
+// postgres' types.)
+const EXTENDED_PROTOCOL = { prepare: false, simple: false };
+
+const roleClients = new Map<string, Sql>();
+
+// Roles provisioned since the server started. Installations from before
+// installation roles existed get theirs on their first query.
+const provisionedRoles = new Set<string>();
+
+async function closeRoleClient(schemaName: string) {
+  const client = roleClients.get(schemaName);
+  roleClients.delete(schemaName);
+  provisionedRoles.delete(schemaName);
+  await client?.end({ timeout: 5 });
+}
+
+async function getRoleClient(schemaName: string): Promise<Sql> {
+  const client = roleClients.get(schemaName);
+  if (client) {
+    roleClients.delete(schemaName);
+    roleClients.set(schemaName, client);
+    return client;
+  }
+
+  if (!provisionedRoles.has(schemaName)) {
+    await db.$client.begin((sql) => provisionInstallationSchema(sql, schemaName));
+    provisionedRoles.add(schemaName);
+  }
+
+  const oldest = roleClients.keys().next();
+  if (!oldest.done && roleClients.size >= MAX_ROLE_CLIENTS) {
+    const evicted = roleClients.get(oldest.value)!;
+    roleClients.delete(oldest.value);
+    evicted.end({ timeout: 5 }).catch((error) => console.error('Failed to close installation client:', error));
+  }
+
+  const created = createRoleClient(schemaName, getRolePassword(schemaName), {
+    max: 1,
+    idle_timeout: ROLE_CLIENT_IDLE_TIMEOUT,
+  });
+  roleClients.set(schemaName, created);
+  return created;
+}
+
+// Run a handler query (a single statement) logged in as the installation
+// role. `readOnly` runs it in a read-only transaction.
+export async function queryAsInstallation(
+  schemaName: string,
+  text: string,
+  params: unknown[],
+  options: { readOnly: boolean; timeout: number }
+): Promise<Record<string, unknown>[]> {
+  const client = await getRoleClient(schemaName);
+  return client.begin(async (sql) => {
+    if (options.readOnly) {
+      await sql.unsafe('SET TRANSACTION READ ONLY');
+    }
+    await sql.unsafe(`SET LOCAL search_path TO ${quoteIdentifier(schemaName)}`);
+    await sql.unsafe(`SET LOCAL statement_timeout = ${options.timeout}`);
+
+    const rows = await sql.unsafe(text, params as any[], EXTENDED_PROTOCOL);
+    return [...rows];
+  });
+}
@@ -0,0 +1,553 @@
+import semver from 'semver';
+import { and, eq } from 'drizzle-orm';
+import { db } from '../db/connection.js';
+import { extensionInstallations, extensionVersions } from '../db/schema.js';
+import { getManifestEndpoints, resolveHandlerSource } from './endpoints.js';
+import { encryptEnvironment } from './environment.js';
+import {
+  dropInstallationSchema,
+  provisionInstallationSchema,
+  queryAsInstallation,
+  runAsInstallation,
+} from './installationDatabase.js';
+import { resolveConfig } from './installationConfig.js';
+import { getRequestedPermissions } from './permissions.js';
+import { scanQuery } from './scanner.js';
+import type {
+  ExtensionFile,
+  ExtensionManifest,
+  InstallationProgress,
+  InstallationStep,
+  MigrationPlan,
+  ResolvedDependency,
+} from '../types/index.js';
+
+// Installation pipeline: every installation gets its own Postgres schema and
+// role, and the version's migrations run in that schema as that role (see
+// installationDatabase.ts). Schema creation and migrations share one
+// transaction, so a failed install leaves nothing behind.
+
+// Version fields the pipeline needs
+export interface InstallableVersion {
+  version: string;
+  migrationUp?: string | null;
+  migrationDown?: string | null;
+  serverlessCode?: string | null;
+  files?: ExtensionFile[] | null;
+  manifest?: unknown;
+}
+
+// Version fields needed to move an installation between versions
+export interface ChainVersion extends InstallableVersion {
+  id: string;
+  isPrerelease?: boolean | null;
+}
+
+export interface InstallOutcome {
+  success: boolean;
+  schemaName: string;
+  progress: InstallationProgress;
+  error?: {
+    step: InstallationStep;
+    message: string;
+    details: Record<string, any>;
+  };
+}
+
+// Raised when a pipeline step fails; carries the step for error reporting
+export class InstallationError extends Error {
+  constructor(
+    public step: InstallationStep,
+    message: string,
+    public details: Record<string, any> = {}
+  ) {
+    super(message);
+    this.name = 'InstallationError';
+  }
+}
+
+// Schema name for an installation, e.g. `ext_3f2a...` (at most 36 characters)
+export function getInstallationSchemaName(installationId: string): string {
+  return `ext_${installationId.replace(/-/g, '').toLowerCase()}`;
+}
+
+// Get the up/down migration scripts, preferring the version columns over the
+// manifest's `extensionConfig.database.migrations`
+export function getMigrationScripts(version: InstallableVersion): { up?: string; down?: string } {
+  const migrations = (version.manifest as ExtensionManifest | null)?.extensionConfig?.database?.migrations;
+  return {
+    up: version.migrationUp?.trim() || migrations?.up?.trim() || undefined,
+    down: version.migrationDown?.trim() || migrations?.down?.trim() || undefined,
+  };
+}
+
+// Pick the fields worth reporting from a thrown error (Postgres errors carry
+// code, detail, hint and position). Migrations run through a function, so
+// their errors report the position within the script as `internal_position`.
+function describeError(error: any): Record<string, any> {
+  const details: Record<string, any> = {
+    message: error?.message || String(error),
+  };
+  for (const key of ['code', 'detail', 'hint', 'position', 'where']) {
+    if (error?.[key] !== undefined) {
+      details[key] = error[key];
+    }
+  }
+  if (error?.internal_position !== undefined && details.position === undefined) {
+    details.position = error.internal_position;
+  }
+  return details;
+}
+
+async function recordProgress(installationId: string, progress: InstallationProgress) {
+  await db
+    .update(extensionInstallations)
+    .set({
+      progress,
+      updatedAt: new Date(),
+    })
+    .where(eq(extensionInstallations.id, installationId));
+}
+
+// Check that every declared endpoint handler can be resolved to code
+function verifyHandlers(version: InstallableVersion) {
+  const missing = getManifestEndpoints(version.manifest)
+    .filter((endpoint) => !resolveHandlerSource(version, endpoint.handler))
+    .map((endpoint) => `${endpoint.method} ${endpoint.path} → ${endpoint.handler}`);
+
+  if (missing.length > 0) {
+    throw new InstallationError('verify_handlers', 'Endpoint handlers are missing from the package.', {
+      missing,
+    });
+  }
+}
+
+// Provision an installation that is in the `pending` state. Progress is
+// recorded after every step; the installation ends up `installed`, or
+// `failed` with the error message and details of the step that failed.
+export async function runInstallPipeline(
+  installationId: string,
+  version: InstallableVersion,
+  previousSteps: InstallationStep[] = []
+): Promise<InstallOutcome> {
+  const schemaName = getInstallationSchemaName(installationId);
+  const completedSteps: InstallationStep[] = [...previousSteps];
+  let step: InstallationStep = 'verify_handlers';
+
+  const advance = async (next: InstallationStep) => {
+    completedSteps.push(step);
+    step = next;
+    await recordProgress(installationId, { step, completedSteps: [...completedSteps], updatedAt: new Date().toISOString() });
+  };
+
+  try {
+    await recordProgress(installationId, { step, completedSteps: [...completedSteps], updatedAt: new Date().toISOString() });
+    verifyHandlers(version);
+
+    await advance('create_schema');
+    const { up } = getMigrationScripts(version);
+
+    await db.$client.begin(async (sql) => {
+      await provisionInstallationSchema(sql, schemaName);
+
+      await advance('run_migrations');
+      if (up) {
+        try {
+          await runAsInstallation(sql, schemaName, up);
+        } catch (error) {
+          throw new InstallationError('run_migrations', `Migration failed: ${(error as any)?.message || error}`, describeError(error));
+        }
+      }
+    });
+
+    await advance('finalize');
+    completedSteps.push(step);
+    const progress: InstallationProgress = { step, completedSteps, updatedAt: new Date().toISOString() };
+
+    await db
+      .update(extensionInstallations)
+      .set({
+        status: 'installed',
+        schemaName,
+        progress,
+        errorMessage: null,
+        errorDetails: null,
+        installedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(extensionInstallations.id, installationId));
+
+    return { success: true, schemaName, progress };
+
+  } catch (error) {
+    const failure = error instanceof InstallationError
+      ? error
+      : new InstallationError(step, (error as any)?.message || 'Installation failed.', describeError(error));
+    return markInstallationFailed(installationId, version, failure, completedSteps);
+  }
+}
+
+// Set an installation to `failed` with the message and details of the step
+// that failed
+async function markInstallationFailed(
+  installationId: string,
+  version: InstallableVersion,
+  failure: InstallationError,
+  completedSteps: InstallationStep[]
+): Promise<InstallOutcome> {
+  const progress: InstallationProgress = { step: failure.step, completedSteps, updatedAt: new Date().toISOString() };
+  const errorDetails = { step: failure.step, version: version.version, ...failure.details };
+
+  await db
+    .update(extensionInstallations)
+    .set({
+      status: 'failed',
+      progress,
+      errorMessage: failure.message,
+      errorDetails,
+      updatedAt: new Date(),
+    })
+    .where(eq(extensionInstallations.id, installationId));
+
+  return {
+    success: false,
+    schemaName: getInstallationSchemaName(installationId),
+    progress,
+    error: { step: failure.step, message: failure.message, details: errorDetails },
+  };
+}
+
+// Remove an installation's database footprint: run the down migration in the
+// installation schema, then drop the schema and role. Both happen in one
+// transaction.
+export async function runUninstallPipeline(
+  installation: { id: string; schemaName?: string | null },
+  version: InstallableVersion
+): Promise<void> {
+  const schemaName = installation.schemaName || getInstallationSchemaName(installation.id);
+  const { down } = getMigrationScripts(version);
+
+  try {
+    await db.$client.begin(async (sql) => {
+      const existing = await sql`SELECT 1 FROM information_schema.schemata WHERE schema_name = ${schemaName}`;
+      if (existing.length === 0) {
+        return;
+      }
+      if (down) {
+        await provisionInstallationSchema(sql, schemaName);
+        await runAsInstallation(sql, schemaName, down);
+      }
+      await dropInstallationSchema(sql, schemaName);
+    });
+  } catch (error) {
+    throw new InstallationError('run_migrations', `Down migration failed: ${(error as any)?.message || error}`, describeError(error));
+  }
+}
+
+// Create the `pending` record for an installation. A failed or uninstalled
+// record of the same extension is reused so the extension can be installed
+// again.
+export async function createPendingInstallation(values: {
+  userId: string;
+  extensionId: string;
+  versionId: string;
+  config?: any;
+  environmentVariables?: Record<string, string>;
+  grantedPermissions?: string[];
+}) {
+  const existingResult = await db
+    .select({ id: extensionInstallations.id })
+    .from(extensionInstallations)
+    .where(
+      and(
+        eq(extensionInstallations.userId, values.userId),
+        eq(extensionInstallations.extensionId, values.extensionId)
+      )
+    )
+    .limit(1);
+
+  const pendingValues = {
+    versionId: values.versionId,
+    status: 'pending' as const,
+    config: values.config || {},
+    environmentVariables: encryptEnvironment(values.environmentVariables || {}),
+    grantedPermissions: values.grantedPermissions || [],
+    permissionsGrantedAt: new Date(),
+    schemaName: null,
+    progress: null,
+    errorMessage: null,
+    errorDetails: null,
+    installedAt: null,
+    uninstalledAt: null,
+    updatedAt: new Date(),
+  };
+
+  const existing = existingResult[0];
+  const result = existing
+    ? await db
+        .update(extensionInstallations)
+        .set(pendingValues)
+        .where(eq(extensionInstallations.id, existing.id))
+        .returning()
+    : await db
+        .insert(extensionInstallations)
+        .values({
+          ...pendingValues,
+          userId: values.userId,
+          extensionId: values.extensionId,
+          createdAt: new Date(),
+        })
+        .returning();
+
+  const installation = result[0];
+  if (!installation) {
+    throw new Error('Failed to create installation record.');
+  }
+  return installation;
+}
+
+// Uninstall an installation: run its down migration, drop its schema and mark
+// the record `uninstalled`
+export async function uninstallInstallation(installationId: string): Promise<void> {
+  const result = await db
+    .select({
+      id: extensionInstallations.id,
+      schemaName: extensionInstallations.schemaName,
+      version: extensionVersions.version,
+      migrationDown: extensionVersions.migrationDown,
+      manifest: extensionVersions.manifest,
+    })
+    .from(extensionInstallations)
+    .innerJoin(extensionVersions, eq(extensionInstallations.versionId, extensionVersions.id))
+    .where(eq(extensionInstallations.id, installationId))
+    .limit(1);
+
+  const installation = result[0];
+  if (!installation) {
+    return;
+  }
+
+  await runUninstallPipeline(installation, installation);
+
+  await db
+    .update(extensionInstallations)
+    .set({
+      status: 'uninstalled',
+      schemaName: null,
+      progress: null,
+      uninstalledAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .where(eq(extensionInstallations.id, installationId));
+}
+
+// Install the missing dependencies of a pending installation (dependencies
+// first), then the installation itself. If any step fails, the dependencies
+// installed so far are uninstalled again and the installation is marked
+// `failed`, so the request either installs everything or nothing.
+export async function runInstallWithDependencies(
+  userId: string,
+  installationId: string,
+  version: InstallableVersion,
+  dependencies: ResolvedDependency[]
+): Promise<InstallOutcome & { dependencies: { name: string; version: string; installationId: string }[] }> {
+  const installed: { name: string; version: string; installationId: string }[] = [];
+
+  const rollback = async () => {
+    for (const dependency of [...installed].reverse()) {
+      try {
+        await uninstallInstallation(dependency.installationId);
+      } catch (error) {
+        console.error(`Failed to roll back dependency ${dependency.name}:`, error);
+      }
+    }
+  };
+
+  if (dependencies.length === 0) {
+    return { ...(await runInstallPipeline(installationId, version)), dependencies: installed };
+  }
+
+  await recordProgress(installationId, { step: 'install_dependencies', completedSteps: [], updatedAt: new Date().toISOString() });
+
+  for (const dependency of dependencies) {
+    let outcome: InstallOutcome;
+    let installation: { id: string } | undefined;
+    try {
+      const versionResult = await db
+        .select()
+        .from(extensionVersions)
+        .where(eq(extensionVersions.id, dependency.versionId))
+        .limit(1);
+      // Dependencies get their schema's defaults as config, which must be
+      // enough to satisfy the schema
+      const resolvedConfig = resolveConfig(versionResult[0]!.manifest, {});
+      if (resolvedConfig.issues.length > 0) {
+        throw new InstallationError('install_dependencies', 'Config defaults do not satisfy the config schema.', {
+          issues: resolvedConfig.issues,
+        });
+      }
+      // Consent for dependencies is given with the installing request
+      installation = await createPendingInstallation({
+        userId,
+        extensionId: dependency.extensionId,
+        versionId: dependency.versionId,
+        config: resolvedConfig.config,
+        grantedPermissions: getRequestedPermissions(versionResult[0]!.manifest),
+      });
+      outcome = await runInstallPipeline(installation.id, versionResult[0]!);
+    } catch (error) {
+      outcome = {
+        success: false,
+        schemaName: '',
+        progress: { step: 'install_dependencies', completedSteps: [], updatedAt: new Date().toISOString() },
+        error: {
+          step: 'install_dependencies',
+          message: (error as any)?.message || String(error),
+          details: error instanceof InstallationError ? error.details : describeError(error),
+        },
+      };
+    }
+
+    if (!outcome.success || !installation) {
+      await rollback();
+      const failure = new InstallationError(
+        'install_dependencies',
+        `Dependency ${dependency.name}@${dependency.version} failed to install: ${outcome.error?.message}`,
+        {
+          dependency: {
+            name: dependency.name,
+            version: dependency.version,
+            installationId: installation?.id,
+            ...outcome.error?.details,
+          },
+          rolledBack: installed,
+        }
+      );
+      return { ...(await markInstallationFailed(installationId, version, failure, [])), dependencies: [] };
+    }
+
+    installed.push({ name: dependency.name, version: dependency.version, installationId: installation.id });
+  }
+
+  const outcome = await runInstallPipeline(installationId, version, ['install_dependencies']);
+  if (!outcome.success) {
+    await rollback();
+    return { ...outcome, dependencies: [] };
+  }
+
+  return { ...outcome, dependencies: installed };
+}
+
+// Build the migrations that move an installation from one version to another.
+// An upgrade runs the up migration of every version after `from` up to and
+// including `to`, oldest first; a downgrade runs the down migration of every
+// version from `from` down to, but excluding, `to`. Intermediate prereleases
+// are skipped unless they are the target.
+export function buildMigrationPlan(
+  installationId: string,
+  versions: ChainVersion[],
+  from: string,
+  to: string
+): MigrationPlan {
+  const comparison = semver.compare(to, from);
+  const direction = comparison > 0 ? 'upgrade' : comparison < 0 ? 'downgrade' : 'none';
+  const [low, high] = comparison > 0 ? [from, to] : [to, from];
+
+  const chain = versions
+    .filter((version) => semver.valid(version.version))
+    .filter((version) => semver.gt(version.version, low) && semver.lte(version.version, high))
+    .filter((version) => version.version === to || version.version === from || !semver.prerelease(version.version))
+    .sort((a, b) => semver.compare(a.version, b.version));
+
+  if (direction === 'downgrade') {
+    chain.reverse();
+  }
+
+  return {
+    installationId,
+    fromVersion: from,
+    toVersion: to,
+    direction,
+    steps: chain.map((version) => {
+      const scripts = getMigrationScripts(version);
+      const stepDirection = direction === 'downgrade' ? 'down' as const : 'up' as const;
+      return {
+        version: version.version,
+        direction: stepDirection,
+        hasMigration: Boolean(stepDirection === 'up' ? scripts.up : scripts.down),
+      };
+    }),
+  };
+}
+
+// Apply a migration plan. The migrations run as the installation's role, like
+// install migrations. All migrations and the switch to the target version
+// run in one transaction, so a failing step leaves the installation on its
+// original version with its schema untouched. The installation switches to
+// the migrated config and to the permissions the target requests;
+// environment variables are kept as they are.
+export async function runVersionChange(
+  installation: { id: string; schemaName?: string | null },
+  plan: MigrationPlan,
+  versions: ChainVersion[],
+  target: ChainVersion,
+  changes: { config: unknown; grantedPermissions: string[] }
+): Promise<void> {
+  verifyHandlers(target);
+
+  const schemaName = installation.schemaName || getInstallationSchemaName(installation.id);
+
+  await db.$client.begin(async (sql) => {
+    await provisionInstallationSchema(sql, schemaName);
+
+    for (const step of plan.steps) {
+      const version = versions.find((candidate) => candidate.version === step.version)!;
+      const script = getMigrationScripts(version)[step.direction];
+      if (!script) {
+        continue;
+      }
+
+      try {
+        await runAsInstallation(sql, schemaName, script);
+      } catch (error) {
+        throw new InstallationError(
+          'run_migrations',
+          `Migration ${step.direction} for ${step.version} failed: ${(error as any)?.message || error}`,
+          { version: step.version, direction: step.direction, ...describeError(error) }
+        );
+      }
+    }
+
+    // Switch versions in the same transaction as the migrations, back on the
+    // store's role
+    await sql`
+      UPDATE extension_installations
+      SET version_id = ${target.id}, schema_name = ${schemaName}, config = ${JSON.stringify(changes.config)}::jsonb,
+        granted_permissions = ${JSON.stringify(changes.grantedPermissions)}::jsonb, permissions_granted_at = NOW(),
+        updated_at = NOW()
+      WHERE id = ${installation.id}
+    `;
+  });
+}
+
+// Longest a query from an extension handler may run
+const QUERY_TIMEOUT = parseInt(process.env.EXTENSION_QUERY_TIMEOUT || '5000');
+
+// Run a query for an extension handler (`context.db.query`) as the
+// installation's role, which can only reach the installation's schema.
+// Installations without `database:write` query in a read-only transaction.
+// The scanner's schema checks run first as a lint with a clearer error than
+// Postgres would give.
+export async function runInstallationQuery(
+  schemaName: string,
+  text: string,
+  params: unknown[],
+  options: { readOnly: boolean }
+): Promise<Record<string, unknown>[]> {
+  const findings = scanQuery(text);
+  if (findings.length > 0) {
+    throw new Error(`Query refused: ${findings[0]!.message}`);
+  }
+
+  return queryAsInstallation(schemaName, text, params, { readOnly: options.readOnly, timeout: QUERY_TIMEOUT });
+}
@@ -0,0 +1,133 @@
+// Minimal JSON Schema validator covering the subset of keywords extension
+// manifests use to describe payloads: type, enum, const, properties, required,
+// additionalProperties, items, min/max constraints, pattern and anyOf/oneOf.
+
+export interface SchemaIssue {
+  path: (string | number)[];
+  message: string;
+}
+
+type JsonSchema = Record<string, any>;
+
+// Resolve the JSON Schema type name of a value
+export function getJsonType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = getJsonType(value);
+  if (type === 'number') {
+    return actual === 'number' || actual === 'integer';
+  }
+  return actual === type;
+}
+
+function formatPath(path: (string | number)[]): string {
+  return path.length > 0 ? path.join('.') : 'value';
+}
+
+// Validate a value against a schema, collecting every issue found
+export function validateJsonSchema(
+  schema: JsonSchema | boolean | undefined,
+  value: unknown,
+  path: (string | number)[] = []
+): SchemaIssue[] {
+  if (schema === undefined || schema === true) {
+    return [];
+  }
+  if (schema === false) {
+    return [{ path, message: `${formatPath(path)} is not allowed` }];
+  }
+
+  const issues: SchemaIssue[] = [];
+
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      return [{ path, message: `Expected ${types.join(' or ')}, received ${getJsonType(value)}` }];
+    }
+  }
+
+  if (schema.const !== undefined && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+    issues.push({ path, message: `Must equal ${JSON.stringify(schema.const)}` });
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some((option: unknown) => JSON.stringify(option) === JSON.stringify(value))) {
+    issues.push({ path, message: `Must be one of: ${schema.enum.map((option: unknown) => JSON.stringify(option)).join(', ')}` });
+  }
+
+  if (Array.isArray(schema.anyOf) && !schema.anyOf.some((option: JsonSchema) => validateJsonSchema(option, value, path).length === 0)) {
+    issues.push({ path, message: 'Does not match any of the allowed schemas' });
+  }
+
+  if (Array.isArray(schema.oneOf)) {
+    const matches = schema.oneOf.filter((option: JsonSchema) => validateJsonSchema(option, value, path).length === 0).length;
+    if (matches !== 1) {
+      issues.push({ path, message: 'Must match exactly one of the allowed schemas' });
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+      issues.push({ path, message: `Must be at least ${schema.minLength} characters` });
+    }
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+      issues.push({ path, message: `Must be at most ${schema.maxLength} characters` });
+    }
+    if (typeof schema.pattern === 'string' && !new RegExp(schema.pattern).test(value)) {
+      issues.push({ path, message: `Must match pattern ${schema.pattern}` });
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) {
+      issues.push({ path, message: `Must be greater than or equal to ${schema.minimum}` });
+    }
+    if (typeof schema.maximum === 'number' && value > schema.maximum) {
+      issues.push({ path, message: `Must be less than or equal to ${schema.maximum}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      issues.push({ path, message: `Must contain at least ${schema.minItems} items` });
+    }
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      issues.push({ path, message: `Must contain at most ${schema.maxItems} items` });
+    }
+    if (schema.items !== undefined) {
+      value.forEach((item, index) => {
+        issues.push(...validateJsonSchema(schema.items, item, [...path, index]));
+      });
+    }
+  }
+
+  if (getJsonType(value) === 'object') {
+    const object = value as Record<string, unknown>;
+    const properties: Record<string, JsonSchema> = schema.properties || {};
+
+    if (Array.isArray(schema.required)) {
+      for (const key of schema.required) {
+        if (object[key] === undefined) {
+          issues.push({ path: [...path, key], message: `${key} is required` });
+        }
+      }
+    }
+
+    for (const [key, propertyValue] of Object.entries(object)) {
+      if (propertyValue === undefined) {
+        continue;
+      }
+      if (properties[key] !== undefined) {
+        issues.push(...validateJsonSchema(properties[key], propertyValue, [...path, key]));
+      } else if (schema.additionalProperties !== undefined) {
+        issues.push(...validateJsonSchema(schema.additionalProperties, propertyValue, [...path, key]));
+      }
+    }
+  }
+
+  return issues;
+}
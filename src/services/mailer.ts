@@ -0,0 +1,109 @@
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import nodemailer from 'nodemailer';
+
+// Outgoing email. Messages are handed to a transport chosen by MAIL_TRANSPORT:
+// `smtp` for real delivery, `file` to write each message to MAIL_DIR and
+// `console` to log it (the default, for local development).
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+export type MailTransportType = 'smtp' | 'file' | 'console';
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+}
+
+const MAIL_FROM = process.env.MAIL_FROM || 'Acacia Extension Store <no-reply@acacia.dev>';
+
+// Deliver messages through an SMTP server
+export function createSmtpTransport(options: SmtpOptions): MailTransport {
+  const transporter = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.secure,
+    auth: options.user ? { user: options.user, pass: options.password } : undefined,
+  });
+
+  return {
+    async send(message) {
+      await transporter.sendMail(message);
+    },
+  };
+}
+
+// Write each message to a JSON file, so tests and local setups can read the
+// links that would have been emailed
+export function createFileTransport(directory: string): MailTransport {
+  return {
+    async send(message) {
+      await mkdir(directory, { recursive: true });
+      const recipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+      const fileName = `${Date.now()}-${recipient}-${Math.random().toString(36).slice(2, 8)}.json`;
+      await writeFile(
+        path.join(directory, fileName),
+        JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+      );
+    },
+  };
+}
+
+// Log each message instead of sending it
+export function createConsoleTransport(): MailTransport {
+  return {
+    async send(message) {
+      console.log(`📧 Email to ${message.to}: ${message.subject}\n${message.text}`);
+    },
+  };
+}
+
+function createTransportFromEnv(): MailTransport {
+  const type = (process.env.MAIL_TRANSPORT || 'console') as MailTransportType;
+
+  switch (type) {
+    case 'smtp':
+      if (!process.env.SMTP_HOST) {
+        throw new Error('SMTP_HOST must be set when MAIL_TRANSPORT is "smtp".');
+      }
+      return createSmtpTransport({
+        host: process.env.SMTP_HOST,
+        port: parseInt(process.env.SMTP_PORT || '587'),
+        secure: process.env.SMTP_SECURE === 'true',
+        user: process.env.SMTP_USER,
+        password: process.env.SMTP_PASSWORD,
+      });
+    case 'file':
+      return createFileTransport(process.env.MAIL_DIR || './mail');
+    case 'console':
+      return createConsoleTransport();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${type}".`);
+  }
+}
+
+let transport: MailTransport | null = null;
+
+// Replace the transport used by sendMail (e.g. with a recording transport)
+export function setMailTransport(next: MailTransport | null): void {
+  transport = next;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  if (!transport) {
+    transport = createTransportFromEnv();
+  }
+  await transport.send({ from: MAIL_FROM, ...message });
+}
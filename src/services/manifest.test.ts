@@ -0,0 +1,117 @@
+import { describe, expect, test } from 'bun:test';
+import { validateManifest, type ManifestContext } from './manifest.js';
+
+function createManifest(extensionConfig: Record<string, unknown> = {}) {
+  return {
+    name: 'hello',
+    version: '1.0.0',
+    description: 'Says hello',
+    author: 'Jane',
+    license: 'MIT',
+    keywords: [],
+    extensionConfig: {
+      category: 'tools',
+      tags: [],
+      permissions: [],
+      endpoints: [{ path: '/items', method: 'GET', handler: 'api/items.js#list' }],
+      components: [{ name: 'Hello', file: './components/Hello.jsx' }],
+      ...extensionConfig,
+    },
+  };
+}
+
+const context: ManifestContext = {
+  version: '1.0.0',
+  extension: { name: 'hello', slug: 'hello' },
+  files: [
+    { path: 'components/Hello.jsx', content: 'export default () => null;', type: 'component' },
+    { path: 'api/items.js', content: 'exports.list = () => [];', type: 'serverless' },
+  ],
+  serverlessCode: 'exports.handleRequest = () => null;',
+};
+
+function messages(manifest: unknown, overrides: Partial<ManifestContext> = {}): string[] {
+  return validateManifest(manifest, { ...context, ...overrides }).map((issue) => issue.message);
+}
+
+describe('validateManifest', () => {
+  test('accepts a manifest describing the published version', () => {
+    expect(validateManifest(createManifest(), context)).toEqual([]);
+  });
+
+  test('reports shape errors with paths rooted at the manifest', () => {
+    const manifest = createManifest();
+    delete (manifest as Record<string, unknown>).license;
+
+    expect(validateManifest(manifest, context).map((issue) => issue.path)).toEqual([['manifest', 'license']]);
+  });
+
+  test('requires the name and version of the published version', () => {
+    expect(messages(createManifest(), { version: '1.0.1', extension: { name: 'other', slug: 'other' } })).toEqual([
+      'Manifest version 1.0.0 does not match the published version 1.0.1',
+      'Manifest name "hello" does not match the extension "other"',
+    ]);
+  });
+
+  test('refuses unknown permissions and duplicate environment variables', () => {
+    const manifest = createManifest({
+      permissions: ['network:api.example.com', 'root'],
+      environment: [
+        { name: 'API_KEY', description: 'Key' },
+        { name: 'API_KEY', description: 'Again' },
+      ],
+    });
+
+    expect(messages(manifest)).toEqual(['Unknown permission "root"', 'Duplicate environment variable "API_KEY"']);
+  });
+
+  test('requires component files to be in the package', () => {
+    const manifest = createManifest({ components: [{ name: 'Missing', file: 'components/Missing.jsx' }] });
+
+    expect(messages(manifest)).toEqual(['Component file components/Missing.jsx is not included in the package files']);
+  });
+
+  test('refuses duplicate components and endpoints', () => {
+    const manifest = createManifest({
+      components: [
+        { name: 'Hello', file: 'components/Hello.jsx' },
+        { name: 'Hello', file: 'components/Hello.jsx' },
+      ],
+      endpoints: [
+        { path: '/items', method: 'GET', handler: 'api/items.js#list' },
+        { path: '/items', method: 'GET', handler: 'api/items.js#list' },
+      ],
+    });
+
+    expect(messages(manifest)).toEqual(['Duplicate component name "Hello"', 'Duplicate endpoint GET /items']);
+  });
+
+  test.each([
+    ['api/missing.js#list', 'Handler file api/missing.js is not included in the package\'s serverless files'],
+    ['api/items#remove', 'Handler export "remove" was not found in the serverless code'],
+    ['handleRequest', undefined],
+    ['missingExport', 'Handler export "missingExport" was not found in the serverless code'],
+  ])('checks the handler %p', (handler, message) => {
+    const manifest = createManifest({ endpoints: [{ path: '/items', method: 'GET', handler }] });
+
+    expect(messages(manifest)).toEqual(message ? [message] : []);
+  });
+
+  test('requires serverless code for bare export names', () => {
+    const manifest = createManifest({ endpoints: [{ path: '/items', method: 'GET', handler: 'handleRequest' }] });
+
+    expect(messages(manifest, { serverlessCode: null })).toEqual([
+      'Handler handleRequest does not match a serverless file or the serverless entry point',
+    ]);
+  });
+
+  test('checks config defaults against their schema', () => {
+    const manifest = createManifest({
+      configSchema: { type: 'object', properties: { limit: { type: 'integer', default: 'ten' } } },
+    });
+
+    expect(validateManifest(manifest, context).map((issue) => issue.path)).toEqual([
+      ['manifest', 'extensionConfig', 'configSchema', 'properties', 'limit', 'default'],
+    ]);
+  });
+});
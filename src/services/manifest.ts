@@ -0,0 +1,134 @@
+import { resolveHandlerSource } from './endpoints.js';
+import { findInvalidDefaults } from './installationConfig.js';
+import { isKnownPermission } from './permissions.js';
+import type { SchemaIssue } from './jsonSchema.js';
+import { extensionManifestSchema, type ExtensionFile, type ExtensionManifest } from '../types/index.js';
+
+// Validation of a manifest against the version being published. Issues are
+// reported with paths rooted at `manifest`, ready for toValidationError().
+
+export interface ManifestContext {
+  version: string;
+  extension: { name: string; slug: string };
+  files: ExtensionFile[];
+  serverlessCode?: string | null;
+}
+
+function normalizeFilePath(filePath: string): string {
+  return filePath.replace(/^\.?\//, '');
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Check the manifest's shape, then that it describes this version: matching
+// name and version, component files present, and every endpoint handler
+// resolvable to serverless code that mentions its export
+export function validateManifest(manifest: unknown, context: ManifestContext): SchemaIssue[] {
+  const parsed = extensionManifestSchema.safeParse(manifest);
+  if (!parsed.success) {
+    return parsed.error.issues.map((issue) => ({
+      path: ['manifest', ...issue.path.map((segment) => (typeof segment === 'symbol' ? String(segment) : segment))],
+      message: issue.message,
+    }));
+  }
+
+  const { name, version, extensionConfig } = parsed.data as ExtensionManifest;
+  const issues: SchemaIssue[] = [];
+
+  if (version !== context.version) {
+    issues.push({
+      path: ['manifest', 'version'],
+      message: `Manifest version ${version} does not match the published version ${context.version}`,
+    });
+  }
+
+  if (name !== context.extension.name && name !== context.extension.slug) {
+    issues.push({
+      path: ['manifest', 'name'],
+      message: `Manifest name "${name}" does not match the extension "${context.extension.name}"`,
+    });
+  }
+
+  extensionConfig.permissions.forEach((permission, index) => {
+    if (!isKnownPermission(permission)) {
+      issues.push({
+        path: ['manifest', 'extensionConfig', 'permissions', index],
+        message: `Unknown permission "${permission}"`,
+      });
+    }
+  });
+
+  const variableNames = new Set<string>();
+  extensionConfig.environment?.forEach((variable, index) => {
+    if (variableNames.has(variable.name)) {
+      issues.push({
+        path: ['manifest', 'extensionConfig', 'environment', index, 'name'],
+        message: `Duplicate environment variable "${variable.name}"`,
+      });
+    }
+    variableNames.add(variable.name);
+  });
+
+  issues.push(...findInvalidDefaults(extensionConfig.configSchema));
+
+  const filePaths = new Set(context.files.map((file) => normalizeFilePath(file.path)));
+
+  const componentNames = new Set<string>();
+  extensionConfig.components.forEach((component, index) => {
+    const path = ['manifest', 'extensionConfig', 'components', index];
+
+    if (componentNames.has(component.name)) {
+      issues.push({ path: [...path, 'name'], message: `Duplicate component name "${component.name}"` });
+    }
+    componentNames.add(component.name);
+
+    if (!filePaths.has(normalizeFilePath(component.file))) {
+      issues.push({ path: [...path, 'file'], message: `Component file ${component.file} is not included in the package files` });
+    }
+  });
+
+  const serverlessFiles = context.files
+    .filter((file) => file.type === 'serverless')
+    .map((file) => normalizeFilePath(file.path));
+
+  const routes = new Set<string>();
+  extensionConfig.endpoints.forEach((endpoint, index) => {
+    const path = ['manifest', 'extensionConfig', 'endpoints', index];
+
+    const route = `${endpoint.method} ${endpoint.path}`;
+    if (routes.has(route)) {
+      issues.push({ path: [...path, 'path'], message: `Duplicate endpoint ${route}` });
+    }
+    routes.add(route);
+
+    // `file#export` and path-like handlers must name a file in the package
+    const [handlerFile] = endpoint.handler.split('#', 1) as [string];
+    const namesFile = endpoint.handler.includes('#') || /[/.]/.test(handlerFile);
+    const normalizedHandlerFile = normalizeFilePath(handlerFile);
+
+    const source = resolveHandlerSource(context, endpoint.handler);
+    if (
+      namesFile &&
+      !serverlessFiles.some((file) => file === normalizedHandlerFile || file.replace(/\.[jt]s$/, '') === normalizedHandlerFile)
+    ) {
+      issues.push({
+        path: [...path, 'handler'],
+        message: `Handler file ${handlerFile} is not included in the package's serverless files`,
+      });
+    } else if (!source) {
+      issues.push({
+        path: [...path, 'handler'],
+        message: `Handler ${endpoint.handler} does not match a serverless file or the serverless entry point`,
+      });
+    } else if (source.handler && !new RegExp(`\\b${escapeRegExp(source.handler)}\\b`).test(source.code)) {
+      issues.push({
+        path: [...path, 'handler'],
+        message: `Handler export "${source.handler}" was not found in the serverless code`,
+      });
+    }
+  });
+
+  return issues;
+}
@@ -0,0 +1,63 @@
+import { and, eq, inArray } from 'drizzle-orm';
+import { db } from '../db/connection.js';
+import { extensionInstallations, users } from '../db/schema.js';
+import { renderEmail } from './emailTemplates.js';
+import { sendMail } from './mailer.js';
+
+// Notifications to users about extensions they have installed
+
+export type VersionNoticeAction = 'deprecated' | 'yanked' | 'unpublished';
+
+export interface VersionNotice {
+  extension: string;
+  version: string;
+  action: VersionNoticeAction;
+  message?: string | null;
+}
+
+const VERSION_NOTICE_ADVICE: Record<VersionNoticeAction, string> = {
+  deprecated: 'Your installation keeps working, but you should upgrade to a supported version.',
+  yanked: 'Your installation keeps working, but this version will no longer be picked for new installs or upgrades. Upgrade to another version when you can.',
+  unpublished: 'Your installation keeps working, but this version can no longer be installed.',
+};
+
+// Email every user with an active installation of a version. Delivery
+// failures are logged and do not fail the caller. Returns the number of users
+// notified.
+export async function notifyVersionUsers(versionId: string, notice: VersionNotice): Promise<number> {
+  const recipients = await db
+    .selectDistinct({
+      email: users.email,
+      username: users.username,
+      displayName: users.displayName,
+    })
+    .from(extensionInstallations)
+    .innerJoin(users, eq(extensionInstallations.userId, users.id))
+    .where(
+      and(
+        eq(extensionInstallations.versionId, versionId),
+        inArray(extensionInstallations.status, ['installed', 'pending'])
+      )
+    );
+
+  const results = await Promise.allSettled(
+    recipients.map((recipient) =>
+      sendMail(renderEmail('versionNotice', recipient.email, {
+        name: recipient.displayName || recipient.username,
+        extension: notice.extension,
+        version: notice.version,
+        action: notice.action,
+        note: notice.message ? `Publisher's note: ${notice.message}` : '',
+        advice: VERSION_NOTICE_ADVICE[notice.action],
+      }))
+    )
+  );
+
+  results.forEach((result) => {
+    if (result.status === 'rejected') {
+      console.error('Version notice delivery error:', result.reason);
+    }
+  });
+
+  return recipients.length;
+}
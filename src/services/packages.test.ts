@@ -0,0 +1,172 @@
+import { describe, expect, test } from 'bun:test';
+import { gzipSync } from 'zlib';
+import { Header } from 'tar';
+import { strToU8, zipSync, type Zippable } from 'fflate';
+import {
+  detectPackageFormat,
+  extractPackage,
+  PackageError,
+  readExtensionPackage,
+  type PackageLimits,
+} from './packages.js';
+
+interface TarEntry {
+  path: string;
+  content?: string;
+  type?: 'File' | 'Directory' | 'SymbolicLink' | 'Link';
+  linkpath?: string;
+}
+
+// Build a gzipped tar archive in memory
+function tarball(entries: TarEntry[]): Buffer {
+  const blocks: Buffer[] = [];
+
+  for (const entry of entries) {
+    const data = Buffer.from(entry.content ?? '');
+    const header = new Header({
+      path: entry.path,
+      type: entry.type ?? 'File',
+      linkpath: entry.linkpath,
+      mode: 0o644,
+      size: entry.type && entry.type !== 'File' ? 0 : data.length,
+      mtime: new Date(0),
+    });
+    header.encode();
+    blocks.push(header.block!);
+
+    if (!entry.type || entry.type === 'File') {
+      blocks.push(data, Buffer.alloc((512 - (data.length % 512)) % 512));
+    }
+  }
+
+  blocks.push(Buffer.alloc(1024));
+  return gzipSync(Buffer.concat(blocks));
+}
+
+// Build a zip archive; a mode marks the entry as written on Unix
+function zip(entries: Record<string, string | { content: string; mode: number }>): Buffer {
+  const files: Zippable = {};
+  for (const [name, entry] of Object.entries(entries)) {
+    files[name] = typeof entry === 'string'
+      ? strToU8(entry)
+      : [strToU8(entry.content), { os: 3, attrs: entry.mode << 16 }];
+  }
+  return Buffer.from(zipSync(files));
+}
+
+const packageJson = JSON.stringify({
+  name: 'hello',
+  version: '1.0.0',
+  extensionConfig: {
+    components: [{ name: 'Hello', file: 'components/Hello.jsx' }],
+    endpoints: [{ path: '/items', method: 'GET', handler: 'api/items.js#list' }],
+  },
+});
+
+async function readFailure(buffer: Buffer, limits?: PackageLimits): Promise<PackageError> {
+  try {
+    await extractPackage(buffer, limits);
+  } catch (error) {
+    expect(error).toBeInstanceOf(PackageError);
+    return error as PackageError;
+  }
+  throw new Error('Expected the package to be refused');
+}
+
+describe('detectPackageFormat', () => {
+  test('detects gzipped tar and zip archives', () => {
+    expect(detectPackageFormat(tarball([{ path: 'a.txt', content: 'a' }]))).toBe('tar');
+    expect(detectPackageFormat(zip({ 'a.txt': 'a' }))).toBe('zip');
+    expect(detectPackageFormat(Buffer.from('not an archive'))).toBeNull();
+  });
+});
+
+describe('extractPackage', () => {
+  test('strips the common npm pack root', async () => {
+    const entries = await extractPackage(tarball([
+      { path: 'package/', type: 'Directory' },
+      { path: 'package/package.json', content: '{}' },
+      { path: 'package/lib/index.js', content: 'x' },
+    ]));
+
+    expect([...entries.keys()].sort()).toEqual(['lib/index.js', 'package.json']);
+  });
+
+  test.each([
+    ['../escape.js', 'Path traversal'],
+    ['lib/../../escape.js', 'Path traversal'],
+    ['/etc/passwd', 'Absolute paths'],
+  ])('refuses the tar entry %p', async (entryPath, message) => {
+    const error = await readFailure(tarball([{ path: entryPath, content: 'x' }]));
+    expect(error.message).toContain(message);
+  });
+
+  test('refuses traversal in zip entries', async () => {
+    const error = await readFailure(zip({ '../escape.js': 'x' }));
+    expect(error.message).toContain('Path traversal');
+  });
+
+  test.each(['SymbolicLink', 'Link'] as const)('refuses %s tar entries', async (type) => {
+    const error = await readFailure(tarball([
+      { path: 'package.json', content: '{}' },
+      { path: 'secret', type, linkpath: '/etc/passwd' },
+    ]));
+    expect(error.message).toContain(`${type} entries are not allowed`);
+  });
+
+  test('refuses symlinks in zip archives', async () => {
+    const error = await readFailure(zip({
+      'package.json': '{}',
+      secret: { content: '/etc/passwd', mode: 0o120777 },
+    }));
+    expect(error.message).toContain('Links and special files are not allowed');
+  });
+
+  test.each([
+    ['tar', (files: Record<string, string>) => tarball(Object.entries(files).map(([path, content]) => ({ path, content })))],
+    ['zip', zip],
+  ] as const)('enforces entry and size limits in %s archives', async (_format, build) => {
+    const limits = { maxEntries: 2, maxFileSize: 10, maxUnpackedSize: 15 };
+
+    expect((await readFailure(build({ a: '1', b: '2', c: '3' }), limits)).message).toContain('more than 2 entries');
+    expect((await readFailure(build({ a: 'x'.repeat(11) }), limits)).message).toContain('maximum file size');
+    expect((await readFailure(build({ a: 'x'.repeat(8), b: 'x'.repeat(8) }), limits)).message).toContain(
+      'maximum unpacked size'
+    );
+  });
+
+  test('refuses empty and unknown archives', async () => {
+    expect((await readFailure(tarball([{ path: 'package/', type: 'Directory' }]))).message).toBe('Package is empty.');
+    expect((await readFailure(Buffer.from('plain text'))).message).toContain('Unsupported package format');
+  });
+});
+
+describe('readExtensionPackage', () => {
+  test('classifies files and reads the code the installer runs', async () => {
+    const extension = await readExtensionPackage(zip({
+      'package.json': packageJson,
+      'components/Hello.jsx': 'export default () => null;',
+      'api/items.js': 'exports.list = () => [];',
+      'migrations/up.sql': 'CREATE TABLE items (id int);',
+      'icon.png': '\0PNG',
+    }));
+
+    expect(Object.fromEntries(extension.files.map((file) => [file.path, [file.type, file.encoding]]))).toEqual({
+      'api/items.js': ['serverless', 'utf8'],
+      'components/Hello.jsx': ['component', 'utf8'],
+      'icon.png': ['asset', 'base64'],
+      'migrations/up.sql': ['migration', 'utf8'],
+      'package.json': ['config', 'utf8'],
+    });
+    expect(extension.componentCode).toBe('export default () => null;');
+    expect(extension.serverlessCode).toBeNull();
+    expect(extension.migrationUp).toBe('CREATE TABLE items (id int);');
+    expect(extension.checksum).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  test('requires a manifest with extensionConfig', async () => {
+    await expect(readExtensionPackage(zip({ 'package.json': '{"name":"hello"}' }))).rejects.toThrow(
+      'missing extensionConfig'
+    );
+  });
+});
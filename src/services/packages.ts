@@ -0,0 +1,415 @@
+import crypto from 'crypto';
+import path from 'path';
+import { Parser, type ReadEntry } from 'tar';
+import { unzipSync } from 'fflate';
+import type { ExtensionFile, ExtensionManifest } from '../types/index.js';
+
+// Reading published extension packages (.tgz/.tar or .zip). Archives are
+// unpacked in memory and never written to disk; every entry path is checked
+// for traversal, links and special files are rejected, and entry counts and
+// sizes are capped before any data is decompressed.
+
+export type PackageFormat = 'tar' | 'zip';
+
+export interface PackageLimits {
+  maxEntries: number;
+  maxFileSize: number;
+  maxUnpackedSize: number;
+}
+
+export const DEFAULT_PACKAGE_LIMITS: PackageLimits = {
+  maxEntries: parseInt(process.env.MAX_PACKAGE_ENTRIES || '1000'),
+  maxFileSize: 10 * 1024 * 1024, // 10MB per file
+  maxUnpackedSize: parseInt(process.env.MAX_UNPACKED_PACKAGE_SIZE || '52428800'), // 50MB
+};
+
+export interface ExtensionPackage {
+  packageJson: Record<string, any>;
+  manifest: ExtensionManifest;
+  files: ExtensionFile[];
+  componentCode: string | null;
+  serverlessCode: string | null;
+  migrationUp: string | null;
+  migrationDown: string | null;
+  packageSize: number;
+  checksum: string;
+}
+
+export class PackageError extends Error {
+  constructor(message: string, public details: Record<string, any> = {}) {
+    super(message);
+    this.name = 'PackageError';
+  }
+}
+
+// Files holding migrations, relative to the package root
+const MIGRATION_UP_FILE = 'migrations/up.sql';
+const MIGRATION_DOWN_FILE = 'migrations/down.sql';
+
+// Directories whose files are treated as serverless code
+const SERVERLESS_DIRS = ['api/', 'functions/', 'server/'];
+
+// Unix file type bits stored in a zip entry's external attributes
+const S_IFMT = 0o170000;
+const S_IFREG = 0o100000;
+const S_IFDIR = 0o040000;
+
+// Detect the archive format from its leading bytes. Gzipped and plain tar
+// archives are both handled by the tar parser.
+export function detectPackageFormat(buffer: Buffer): PackageFormat | null {
+  if (buffer.length >= 2 && buffer[0] === 0x1f && buffer[1] === 0x8b) {
+    return 'tar';
+  }
+  if (buffer.length >= 4 && buffer.readUInt32LE(0) === 0x04034b50) {
+    return 'zip';
+  }
+  if (buffer.length >= 262 && buffer.toString('ascii', 257, 262) === 'ustar') {
+    return 'tar';
+  }
+  return null;
+}
+
+// Normalize an archive entry path, rejecting anything that could escape the
+// package root
+function normalizeEntryPath(rawPath: string): string {
+  if (rawPath.includes('\0') || rawPath.includes('\\')) {
+    throw new PackageError(`Invalid path in package: ${rawPath}`, { path: rawPath });
+  }
+
+  if (rawPath.startsWith('/') || /^[a-zA-Z]:/.test(rawPath)) {
+    throw new PackageError(`Absolute paths are not allowed in packages: ${rawPath}`, { path: rawPath });
+  }
+
+  const normalized = path.posix.normalize(rawPath).replace(/^(\.\/)+/, '').replace(/\/$/, '');
+  if (normalized === '..' || normalized.startsWith('../') || rawPath.split('/').includes('..')) {
+    throw new PackageError(`Path traversal is not allowed in packages: ${rawPath}`, { path: rawPath });
+  }
+
+  return normalized;
+}
+
+// Tracks entry counts and sizes while an archive is read
+function createBudget(limits: PackageLimits) {
+  let entries = 0;
+  let total = 0;
+
+  return (entryPath: string, size: number) => {
+    entries += 1;
+    total += size;
+
+    if (entries > limits.maxEntries) {
+      throw new PackageError(`Package contains more than ${limits.maxEntries} entries.`);
+    }
+    if (size > limits.maxFileSize) {
+      throw new PackageError(`${entryPath} exceeds the maximum file size of ${limits.maxFileSize} bytes.`, {
+        path: entryPath,
+        size,
+      });
+    }
+    if (total > limits.maxUnpackedSize) {
+      throw new PackageError(`Package exceeds the maximum unpacked size of ${limits.maxUnpackedSize} bytes.`);
+    }
+  };
+}
+
+async function readTarEntries(buffer: Buffer, limits: PackageLimits): Promise<Map<string, Buffer>> {
+  const entries = new Map<string, Buffer>();
+  const charge = createBudget(limits);
+  let failure: Error | null = null;
+
+  const parser = new Parser({
+    strict: true,
+    onReadEntry: (entry: ReadEntry) => {
+      if (failure) {
+        entry.resume();
+        return;
+      }
+
+      try {
+        if (entry.type === 'Directory') {
+          normalizeEntryPath(entry.path);
+          entry.resume();
+          return;
+        }
+
+        // pax/GNU metadata headers are consumed by the parser itself; any
+        // other non-file entry (links, devices, FIFOs) is refused
+        if (entry.type !== 'File' && entry.type !== 'OldFile' && entry.type !== 'ContiguousFile') {
+          throw new PackageError(`${entry.type} entries are not allowed in packages: ${entry.path}`, {
+            path: entry.path,
+            type: entry.type,
+          });
+        }
+
+        const entryPath = normalizeEntryPath(entry.path);
+        charge(entryPath, entry.size);
+
+        const chunks: Buffer[] = [];
+        entry.on('data', (chunk: Buffer) => chunks.push(chunk));
+        entry.on('end', () => entries.set(entryPath, Buffer.concat(chunks)));
+      } catch (error) {
+        failure = error as Error;
+        entry.resume();
+      }
+    },
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    parser.on('error', reject);
+    parser.on('end', resolve);
+    parser.end(buffer);
+  }).catch((error) => {
+    throw failure || new PackageError(`Failed to read package archive: ${error.message}`);
+  });
+
+  if (failure) {
+    throw failure;
+  }
+
+  return entries;
+}
+
+// Read the Unix mode of each zip entry from the central directory, so links
+// and special files can be refused (fflate does not expose it)
+function readZipModes(buffer: Buffer): Map<string, number> {
+  const modes = new Map<string, number>();
+
+  // End of central directory record: at least 22 bytes, followed by a comment
+  // of up to 64KB
+  let eocd = -1;
+  for (let offset = buffer.length - 22; offset >= Math.max(0, buffer.length - 22 - 0xffff); offset--) {
+    if (buffer.readUInt32LE(offset) === 0x06054b50) {
+      eocd = offset;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new PackageError('Failed to read package archive: invalid zip file.');
+  }
+
+  const count = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== 0x02014b50) {
+      throw new PackageError('Failed to read package archive: corrupt zip central directory.');
+    }
+
+    const madeBy = buffer.readUInt8(offset + 5); // 3 = Unix
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const externalAttributes = buffer.readUInt32LE(offset + 38);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    if (madeBy === 3) {
+      modes.set(name, externalAttributes >>> 16);
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return modes;
+}
+
+function readZipEntries(buffer: Buffer, limits: PackageLimits): Map<string, Buffer> {
+  const modes = readZipModes(buffer);
+  const charge = createBudget(limits);
+  const names = new Map<string, string>();
+
+  let unzipped: Record<string, Uint8Array>;
+  try {
+    unzipped = unzipSync(new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.byteLength), {
+      filter: (file) => {
+        const mode = modes.get(file.name);
+        const fileType = mode ? mode & S_IFMT : 0;
+        const isDirectory = file.name.endsWith('/') || fileType === S_IFDIR;
+
+        if (fileType && fileType !== S_IFREG && fileType !== S_IFDIR) {
+          throw new PackageError(`Links and special files are not allowed in packages: ${file.name}`, {
+            path: file.name,
+          });
+        }
+
+        const entryPath = normalizeEntryPath(file.name);
+        if (isDirectory) {
+          return false;
+        }
+
+        // Sizes come from the entry headers, before anything is inflated
+        charge(entryPath, file.originalSize);
+        names.set(file.name, entryPath);
+        return true;
+      },
+    });
+  } catch (error) {
+    if (error instanceof PackageError) {
+      throw error;
+    }
+    throw new PackageError(`Failed to read package archive: ${(error as Error).message}`);
+  }
+
+  const entries = new Map<string, Buffer>();
+  for (const [name, data] of Object.entries(unzipped)) {
+    if (data.length > limits.maxFileSize) {
+      throw new PackageError(`${name} exceeds the maximum file size of ${limits.maxFileSize} bytes.`, { path: name });
+    }
+    entries.set(names.get(name) || normalizeEntryPath(name), Buffer.from(data));
+  }
+
+  return entries;
+}
+
+// Drop a directory shared by every entry, such as the `package/` prefix
+// written by `npm pack`
+function stripCommonRoot(entries: Map<string, Buffer>): Map<string, Buffer> {
+  const paths = [...entries.keys()];
+  const root = paths[0]?.split('/')[0];
+
+  if (!root || !paths.every((entryPath) => entryPath.startsWith(`${root}/`))) {
+    return entries;
+  }
+
+  return new Map([...entries].map(([entryPath, data]) => [entryPath.slice(root.length + 1), data]));
+}
+
+// Unpack an archive into a map of normalized paths to file contents
+export async function extractPackage(
+  buffer: Buffer,
+  limits: PackageLimits = DEFAULT_PACKAGE_LIMITS
+): Promise<Map<string, Buffer>> {
+  const format = detectPackageFormat(buffer);
+  if (!format) {
+    throw new PackageError('Unsupported package format. Upload a .tgz, .tar.gz or .zip archive.');
+  }
+
+  const entries = format === 'zip' ? readZipEntries(buffer, limits) : await readTarEntries(buffer, limits);
+  if (entries.size === 0) {
+    throw new PackageError('Package is empty.');
+  }
+
+  return stripCommonRoot(entries);
+}
+
+function decodeText(data: Buffer): string | null {
+  if (data.includes(0)) {
+    return null;
+  }
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(data);
+  } catch {
+    return null;
+  }
+}
+
+function parseJsonFile(entries: Map<string, Buffer>, fileName: string): Record<string, any> | null {
+  const data = entries.get(fileName);
+  if (!data) {
+    return null;
+  }
+
+  try {
+    const parsed = JSON.parse(data.toString('utf8'));
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      throw new Error('expected an object');
+    }
+    return parsed;
+  } catch (error) {
+    throw new PackageError(`${fileName} is not valid JSON: ${(error as Error).message}`, { path: fileName });
+  }
+}
+
+function stripLeadingDot(filePath: string): string {
+  return filePath.replace(/^\.?\//, '');
+}
+
+// Work out what each file in a package is for
+function classifyFile(
+  filePath: string,
+  componentFiles: Set<string>,
+  serverlessFiles: Set<string>
+): ExtensionFile['type'] {
+  if (filePath === 'package.json' || filePath === 'manifest.json') {
+    return 'config';
+  }
+  if (componentFiles.has(filePath)) {
+    return 'component';
+  }
+  if (serverlessFiles.has(filePath) || SERVERLESS_DIRS.some((dir) => filePath.startsWith(dir))) {
+    return 'serverless';
+  }
+  if (filePath.startsWith('migrations/')) {
+    return 'migration';
+  }
+  return 'asset';
+}
+
+// Read an uploaded extension package: its package.json, manifest (manifest.json,
+// or package.json when it carries `extensionConfig`), files and the code the
+// installer and sandbox run
+export async function readExtensionPackage(
+  buffer: Buffer,
+  limits: PackageLimits = DEFAULT_PACKAGE_LIMITS
+): Promise<ExtensionPackage> {
+  const entries = await extractPackage(buffer, limits);
+
+  const packageJson = parseJsonFile(entries, 'package.json');
+  if (!packageJson) {
+    throw new PackageError('Package is missing package.json.');
+  }
+
+  const manifest = (parseJsonFile(entries, 'manifest.json') || packageJson) as ExtensionManifest;
+  if (!manifest.extensionConfig || typeof manifest.extensionConfig !== 'object') {
+    throw new PackageError('Package manifest is missing extensionConfig. Add it to package.json or manifest.json.');
+  }
+
+  const componentFiles = new Set(
+    (manifest.extensionConfig.components || [])
+      .filter((component) => typeof component?.file === 'string')
+      .map((component) => stripLeadingDot(component.file))
+  );
+
+  // Endpoint handlers may name a file (`api/items.js#list`); bare export
+  // names refer to the serverless entry point, `main` (default index.js)
+  const serverlessEntry = stripLeadingDot(manifest.main || packageJson.main || 'index.js');
+  const serverlessFiles = new Set(
+    (manifest.extensionConfig.endpoints || [])
+      .map((endpoint) => (typeof endpoint?.handler === 'string' ? endpoint.handler.split('#')[0]! : ''))
+      .map(stripLeadingDot)
+      .filter((file) => entries.has(file))
+  );
+  if (entries.has(serverlessEntry) && !componentFiles.has(serverlessEntry)) {
+    serverlessFiles.add(serverlessEntry);
+  }
+
+  const files: ExtensionFile[] = [...entries]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([filePath, data]) => {
+      const text = decodeText(data);
+      return {
+        path: filePath,
+        content: text ?? data.toString('base64'),
+        type: classifyFile(filePath, componentFiles, serverlessFiles),
+        encoding: text === null ? 'base64' : 'utf8',
+      };
+    });
+
+  const readText = (filePath: string | undefined) => {
+    const data = filePath ? entries.get(filePath) : undefined;
+    return data ? decodeText(data) : null;
+  };
+
+  const firstComponent = [...componentFiles].find((file) => entries.has(file));
+
+  return {
+    packageJson,
+    manifest,
+    files,
+    componentCode: readText(firstComponent),
+    serverlessCode: serverlessFiles.has(serverlessEntry) ? readText(serverlessEntry) : null,
+    migrationUp: readText(MIGRATION_UP_FILE),
+    migrationDown: readText(MIGRATION_DOWN_FILE),
+    packageSize: buffer.length,
+    checksum: crypto.createHash('sha256').update(buffer).digest('hex'),
+  };
+}
@@ -0,0 +1,103 @@
+import { describe, expect, test } from 'bun:test';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import { extensions } from '../db/schema.js';
+import { getPaging, toPage, type Paging, type SortKey } from './pagination.js';
+
+const dialect = new PgDialect();
+
+const keys: SortKey[] = [
+  { field: 'downloadCount', expression: extensions.downloadCount, direction: 'desc' },
+  { field: 'updatedAt', expression: extensions.updatedAt, direction: 'asc' },
+  { field: 'id', expression: extensions.id, direction: 'asc' },
+];
+
+const rows = [
+  { id: 'a', downloadCount: 10, updatedAt: new Date('2024-01-01T00:00:00.123Z') },
+  { id: 'b', downloadCount: 5, updatedAt: new Date('2024-01-02T00:00:00.000Z') },
+  { id: 'c', downloadCount: null, updatedAt: new Date('2024-01-03T00:00:00.000Z') },
+];
+
+function nextPaging(pageRows: typeof rows, sortKeys = keys): Paging {
+  const { pagination } = toPage(pageRows, getPaging({ limit: 1 }, sortKeys));
+  return getPaging({ limit: 1, cursor: pagination.nextCursor! }, sortKeys);
+}
+
+function readError(run: () => unknown): { status: number; code?: string } {
+  try {
+    run();
+  } catch (error) {
+    return error as { status: number; code?: string };
+  }
+  throw new Error('Expected an error');
+}
+
+describe('getPaging', () => {
+  test('plans offset pages', () => {
+    const paging = getPaging({ page: 3, limit: 10 }, keys);
+
+    expect(paging).toMatchObject({ limit: 10, take: 11, offset: 20, page: 3, withTotal: true });
+    expect(paging.where).toBeUndefined();
+    expect(getPaging({ count: false }, keys)).toMatchObject({ limit: 20, offset: 0, page: 1, withTotal: false });
+  });
+
+  test('orders timestamps at millisecond precision', () => {
+    const { sql } = dialect.sqlToQuery(getPaging({}, keys).orderBy[1]!);
+    expect(sql).toBe(`date_trunc('milliseconds', "extensions"."updated_at") asc`);
+  });
+
+  test('starts cursor pages strictly after the last row', () => {
+    const paging = nextPaging(rows);
+    const { sql, params } = dialect.sqlToQuery(paging.where!);
+
+    expect(paging).toMatchObject({ offset: 0, take: 2 });
+    expect(paging.page).toBeUndefined();
+    expect(sql).toBe(
+      '("extensions"."download_count" < $1 or ("extensions"."download_count" = $2 and ' +
+        `date_trunc('milliseconds', "extensions"."updated_at") > $3) or ("extensions"."download_count" = $4 and ` +
+        `date_trunc('milliseconds', "extensions"."updated_at") = $5 and "extensions"."id" > $6))`
+    );
+    expect(params).toEqual([10, 10, '2024-01-01T00:00:00.123Z', 10, '2024-01-01T00:00:00.123Z', 'a']);
+  });
+
+  test('continues past null sort values', () => {
+    const { sql } = dialect.sqlToQuery(nextPaging([rows[2]!, ...rows]).where!);
+
+    expect(sql).toStartWith('("extensions"."download_count" is not null or ("extensions"."download_count" is null and');
+  });
+
+  test('includes nulls after ascending values of nullable columns', () => {
+    const ascending: SortKey[] = [
+      { field: 'downloadCount', expression: extensions.downloadCount, direction: 'asc' },
+      { field: 'id', expression: extensions.id, direction: 'asc' },
+    ];
+    const { sql } = dialect.sqlToQuery(nextPaging(rows, ascending).where!);
+
+    expect(sql).toStartWith('(("extensions"."download_count" > $1 or "extensions"."download_count" is null) or');
+  });
+
+  test.each([
+    ['garbage', 'not a cursor'],
+    ['a cursor for another sort', toPage(rows, getPaging({ limit: 1 }, keys.slice(1))).pagination.nextCursor!],
+    ['the wrong number of values', Buffer.from(JSON.stringify({ s: 'downloadCount:desc,updatedAt:asc,id:asc', v: [1] })).toString('base64url')],
+    ['non-scalar values', Buffer.from(JSON.stringify({ s: 'downloadCount:desc,updatedAt:asc,id:asc', v: [{}, 1, 'a'] })).toString('base64url')],
+  ])('refuses %s', (_name, cursor) => {
+    expect(readError(() => getPaging({ cursor }, keys))).toMatchObject({ status: 400, code: 'INVALID_CURSOR' });
+  });
+});
+
+describe('toPage', () => {
+  test('trims the extra row and describes the page', () => {
+    const paging = getPaging({ page: 2, limit: 2 }, keys);
+    const { data, pagination } = toPage(rows, paging, 7);
+
+    expect(data).toEqual(rows.slice(0, 2));
+    expect(pagination).toMatchObject({ page: 2, limit: 2, total: 7, pages: 4, hasNext: true, hasPrev: true });
+    expect(pagination.nextCursor).toEqual(expect.any(String));
+  });
+
+  test('ends without a next cursor', () => {
+    const { pagination } = toPage(rows, getPaging({ limit: 5, count: false }, keys));
+
+    expect(pagination).toEqual({ page: 1, limit: 5, hasNext: false, hasPrev: false, nextCursor: null });
+  });
+});
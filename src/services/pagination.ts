@@ -0,0 +1,150 @@
+import { and, asc, desc, is, isNotNull, isNull, or, sql, Column, type SQL } from 'drizzle-orm';
+import { createError } from '../middleware/errorHandler.js';
+import type { Pagination } from '../types/index.js';
+
+// Offset and cursor pagination for list routes. A cursor is an opaque token
+// holding the sort values of the last row of a page; the next page starts
+// strictly after those values (keyset pagination), so rows written in the
+// meantime do not shift pages or show up twice. Every sort ends with a unique
+// column so the order is total.
+
+export interface SortKey {
+  field: string; // Property of the selected row that holds the value
+  expression: Column | SQL;
+  direction: 'asc' | 'desc';
+}
+
+export interface PageQuery {
+  page?: number;
+  limit?: number;
+  cursor?: string;
+  count?: boolean; // false skips the total count
+}
+
+export interface Paging {
+  keys: SortKey[];
+  limit: number;
+  take: number; // One extra row tells whether there is a next page
+  offset: number;
+  page?: number; // Offset mode only
+  cursor?: string;
+  where?: SQL; // Rows after the cursor
+  orderBy: SQL[];
+  withTotal: boolean;
+}
+
+type CursorValue = string | number | boolean | null;
+
+// Timestamps are sorted and compared at millisecond precision, the precision
+// of the values a cursor carries. Values are bound untyped so Postgres reads
+// them as the type of the expression.
+function sortExpression(key: SortKey): Column | SQL {
+  if (is(key.expression, Column) && key.expression.dataType === 'date') {
+    return sql`date_trunc('milliseconds', ${key.expression})`;
+  }
+  return key.expression;
+}
+
+// Postgres sorts nulls last ascending and first descending
+function isAfter(key: SortKey, value: CursorValue): SQL {
+  const expression = sortExpression(key);
+  if (value === null) {
+    return key.direction === 'asc' ? sql`false` : isNotNull(expression);
+  }
+  if (key.direction === 'desc') {
+    return sql`${expression} < ${value}`;
+  }
+  const nullable = !is(key.expression, Column) || !key.expression.notNull;
+  return nullable ? or(sql`${expression} > ${value}`, isNull(expression))! : sql`${expression} > ${value}`;
+}
+
+function isEqual(key: SortKey, value: CursorValue): SQL {
+  const expression = sortExpression(key);
+  return value === null ? isNull(expression) : sql`${expression} = ${value}`;
+}
+
+// Rows that sort after the given values: greater on some key, equal on all
+// keys before it
+function afterValues(keys: SortKey[], values: CursorValue[]): SQL {
+  return or(
+    ...keys.map((key, index) => and(
+      ...keys.slice(0, index).map((previous, previousIndex) => isEqual(previous, values[previousIndex]!)),
+      isAfter(key, values[index]!)
+    ))
+  )!;
+}
+
+// Cursors only fit the sort they were created for
+function sortSignature(keys: SortKey[]): string {
+  return keys.map((key) => `${key.field}:${key.direction}`).join(',');
+}
+
+function encodeCursor(keys: SortKey[], row: unknown): string {
+  const values = keys.map((key) => {
+    const value = (row as Record<string, unknown>)[key.field];
+    return value instanceof Date ? value.toISOString() : value ?? null;
+  });
+  return Buffer.from(JSON.stringify({ s: sortSignature(keys), v: values })).toString('base64url');
+}
+
+function decodeCursor(cursor: string, keys: SortKey[]): CursorValue[] {
+  let payload: { s?: unknown; v?: unknown };
+  try {
+    payload = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+  } catch {
+    payload = {};
+  }
+
+  const values = payload?.v;
+  if (
+    payload?.s !== sortSignature(keys) ||
+    !Array.isArray(values) ||
+    values.length !== keys.length ||
+    !values.every((value) => value === null || ['string', 'number', 'boolean'].includes(typeof value))
+  ) {
+    throw createError(400, 'Invalid cursor. Cursors only work with the sort they were returned for.', 'INVALID_CURSOR');
+  }
+  return values;
+}
+
+// Plan a page from the query: after `cursor` when one is given, otherwise
+// by `page`
+export function getPaging(query: PageQuery, keys: SortKey[], defaultLimit = 20): Paging {
+  const limit = query.limit ?? defaultLimit;
+  const orderBy = keys.map((key) => (key.direction === 'asc' ? asc(sortExpression(key)) : desc(sortExpression(key))));
+  const withTotal = query.count !== false;
+
+  if (query.cursor) {
+    return {
+      keys,
+      limit,
+      take: limit + 1,
+      offset: 0,
+      cursor: query.cursor,
+      where: afterValues(keys, decodeCursor(query.cursor, keys)),
+      orderBy,
+      withTotal,
+    };
+  }
+
+  const page = query.page ?? 1;
+  return { keys, limit, take: limit + 1, offset: (page - 1) * limit, page, orderBy, withTotal };
+}
+
+// Trim the extra row and describe the page
+export function toPage<T>(rows: T[], paging: Paging, total?: number): { data: T[]; pagination: Pagination } {
+  const data = rows.slice(0, paging.limit);
+  const hasNext = rows.length > paging.limit;
+
+  return {
+    data,
+    pagination: {
+      ...(paging.page !== undefined ? { page: paging.page } : {}),
+      limit: paging.limit,
+      ...(total !== undefined ? { total, pages: Math.ceil(total / paging.limit) } : {}),
+      hasNext,
+      hasPrev: paging.cursor !== undefined || paging.offset > 0,
+      nextCursor: hasNext ? encodeCursor(paging.keys, data[data.length - 1]) : null,
+    },
+  };
+}
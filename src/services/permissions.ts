@@ -0,0 +1,163 @@
+import { isIP } from 'net';
+import type { ExtensionManifest, PermissionDescriptor, PermissionRisk } from '../types/index.js';
+
+// Permission catalog for `extensionConfig.permissions`. Users consent to the
+// permissions a version requests when they install it, and again when an
+// upgrade requests new ones; the sandbox only exposes what was granted. This
+// module has no database access so the sandbox runner can use it too.
+
+interface PermissionDefinition {
+  description: string;
+  risk: PermissionRisk;
+}
+
+export const PERMISSION_CATALOG: Record<string, PermissionDefinition> = {
+  'network': {
+    description: 'Make HTTP requests to any public host',
+    risk: 'high',
+  },
+  'network:<host>': {
+    description: 'Make HTTP requests to the named host (`*.example.com` matches its subdomains)',
+    risk: 'medium',
+  },
+  'database:read': {
+    description: "Read data in the installation's own database schema",
+    risk: 'low',
+  },
+  'database:write': {
+    description: "Read and change data in the installation's own database schema",
+    risk: 'medium',
+  },
+  'secrets:read': {
+    description: "Read the installation's environment variables",
+    risk: 'medium',
+  },
+  'user:profile': {
+    description: "Read the installing user's public profile (ID, username, display name, avatar)",
+    risk: 'low',
+  },
+  'user:email': {
+    description: "Read the installing user's public profile and email address",
+    risk: 'medium',
+  },
+};
+
+export const NETWORK_PERMISSION = 'network';
+
+const NETWORK_HOST_PERMISSION = /^network:((\*\.)?[a-z0-9]([a-z0-9-]*[a-z0-9])?(\.[a-z0-9]([a-z0-9-]*[a-z0-9])?)*)(:\d{1,5})?$/;
+
+// Permissions that include another one
+const IMPLIED_PERMISSIONS: Record<string, string[]> = {
+  'database:write': ['database:read'],
+  'user:email': ['user:profile'],
+};
+
+export function isKnownPermission(permission: string): boolean {
+  return (permission in PERMISSION_CATALOG && !permission.includes('<')) || NETWORK_HOST_PERMISSION.test(permission);
+}
+
+export function describePermission(permission: string): PermissionDescriptor {
+  const hostMatch = NETWORK_HOST_PERMISSION.exec(permission);
+  if (hostMatch) {
+    return {
+      permission,
+      description: `Make HTTP requests to ${permission.slice('network:'.length)}`,
+      risk: PERMISSION_CATALOG['network:<host>']!.risk,
+    };
+  }
+
+  const definition = PERMISSION_CATALOG[permission];
+  return {
+    permission,
+    description: definition?.description ?? 'Unknown permission',
+    risk: definition?.risk ?? 'high',
+  };
+}
+
+// The permissions a version's manifest requests, deduplicated and sorted
+export function getRequestedPermissions(manifest: unknown): string[] {
+  const permissions = (manifest as ExtensionManifest | null)?.extensionConfig?.permissions;
+  return Array.isArray(permissions)
+    ? [...new Set(permissions.filter((permission) => typeof permission === 'string'))].sort()
+    : [];
+}
+
+// Permissions an installation holds. Installations made before consent was
+// required keep what their version requests.
+export function getGrantedPermissions(installation: { grantedPermissions?: string[] | null; manifest?: unknown }): string[] {
+  return installation.grantedPermissions ?? getRequestedPermissions(installation.manifest);
+}
+
+// Whether the granted permissions cover a permission, directly or through a
+// broader one (`network` covers every `network:<host>`)
+export function hasPermission(granted: string[], permission: string): boolean {
+  if (granted.includes(permission)) {
+    return true;
+  }
+  if (permission.startsWith('network:') && granted.includes(NETWORK_PERMISSION)) {
+    return true;
+  }
+  return granted.some((grantedPermission) => IMPLIED_PERMISSIONS[grantedPermission]?.includes(permission));
+}
+
+// Requested permissions the granted ones do not cover
+export function findMissingPermissions(requested: string[], granted: string[]): string[] {
+  return requested.filter((permission) => !hasPermission(granted, permission));
+}
+
+export function hasNetworkPermission(granted: string[]): boolean {
+  return granted.some((permission) => permission === NETWORK_PERMISSION || permission.startsWith('network:'));
+}
+
+// Loopback, private, link-local and unspecified IP addresses
+export function isPrivateAddress(address: string): boolean {
+  const host = address.replace(/^\[|\]$/g, '').toLowerCase();
+  const version = isIP(host);
+  if (version === 4) {
+    const [a, b] = host.split('.').map(Number) as [number, number];
+    return a === 0 || a === 10 || a === 127 || (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) || (a === 192 && b === 168) || (a === 100 && b >= 64 && b <= 127);
+  }
+  if (version === 6) {
+    return host === '::' || host === '::1' || /^f[cd]/.test(host) || /^fe[89ab]/.test(host) || host.startsWith('::ffff:');
+  }
+  return false;
+}
+
+// Host names and IP addresses that are private on their face. Names that
+// resolve to private addresses are caught when the request is made.
+function isPrivateHost(hostname: string): boolean {
+  const host = hostname.replace(/\.$/, '').toLowerCase();
+  return host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.internal') || isPrivateAddress(host);
+}
+
+// Whether a URL's host is granted by name (`network:<host>`)
+export function isHostGranted(url: URL, granted: string[]): boolean {
+  const hostname = url.hostname.toLowerCase();
+  const port = url.port;
+
+  return granted.some((permission) => {
+    const match = NETWORK_HOST_PERMISSION.exec(permission);
+    if (!match) {
+      return false;
+    }
+    const pattern = match[1]!;
+    const patternPort = match[6]?.slice(1);
+    if (patternPort && patternPort !== port) {
+      return false;
+    }
+    return pattern.startsWith('*.') ? hostname.endsWith(pattern.slice(1)) : hostname === pattern;
+  });
+}
+
+// Whether the granted permissions allow a request to a URL. `network` allows
+// any public host; private addresses must be granted by name. Hosts allowed
+// only through `network` must also resolve to public addresses, which the
+// sandbox checks when it connects.
+export function isNetworkAllowed(url: URL, granted: string[]): boolean {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return false;
+  }
+
+  return isHostGranted(url, granted) || (granted.includes(NETWORK_PERMISSION) && !isPrivateHost(url.hostname));
+}
@@ -0,0 +1,33 @@
+import { afterAll, expect, test } from 'bun:test';
+import { spawnSync } from 'child_process';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import packageJson from '../../package.json';
+
+const outdir = mkdtempSync(path.join(tmpdir(), 'acacia-build-'));
+
+afterAll(() => {
+  rmSync(outdir, { recursive: true, force: true });
+});
+
+// Builds with the options of the `build` script, with the sandbox module as
+// the entry point in place of the server, and runs a handler from the output
+test('the build output starts the sandbox runner', async () => {
+  const [, command, ...args] = packageJson.scripts.build
+    .split(/\s+/)
+    .map((arg) => arg.replace(/^'(.*)'$/, '$1'))
+    .map((arg) => (arg === 'src/index.ts' ? 'src/services/sandbox.ts' : arg === 'dist' ? outdir : arg));
+
+  const build = spawnSync(process.execPath, [command!, ...args], { encoding: 'utf8' });
+  expect(build.status).toBe(0);
+
+  const { executeInSandbox } = await import(path.join(outdir, 'sandbox.js'));
+  const result = await executeInSandbox(
+    { code: 'module.exports = () => 40 + 2;' },
+    { timeout: 5000, cpuTime: 4000, memoryLimit: 256 }
+  );
+
+  expect(result.error).toBeUndefined();
+  expect(result.result).toBe(42);
+});
@@ -0,0 +1,167 @@
+import { afterAll, describe, expect, test } from 'bun:test';
+import dns from 'dns';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import os from 'os';
+import { isPrivateAddress } from './permissions.js';
+import { executeInSandbox } from './sandbox.js';
+
+const limits = { timeout: 5000, cpuTime: 4000, memoryLimit: 256 };
+
+// Runs `expression` in a handler and reports whether it reached the host's
+// `process`
+function escapeAttempt(expression: string): string {
+  return `
+    module.exports = async (parameters, context) => {
+      try {
+        const target = await (${expression});
+        const found = target.constructor.constructor('return process')();
+        return found && typeof found.pid === 'number' ? 'escaped' : 'contained';
+      } catch (error) {
+        return 'contained';
+      }
+    };
+  `;
+}
+
+describe('executeInSandbox', () => {
+  test.each([
+    ['the global object', 'this'],
+    ['a timer function', 'setTimeout'],
+    ['the console', 'console.log'],
+    ['a URL', "new URL('https://example.com/')"],
+    ['a database query', "context.db.query('SELECT 1')"],
+    ['a database error', "context.db.query('SELECT 1').then(() => ({}), (error) => error)"],
+    ['a fetch error', "fetch('http://127.0.0.1:1/').catch((error) => error)"],
+  ])('keeps %s from reaching the host realm', async (_name, expression) => {
+    const result = await executeInSandbox(
+      { code: escapeAttempt(expression), permissions: ['database:read', 'network:example.com'] },
+      limits,
+      { query: async () => [{ value: 1 }] }
+    );
+
+    expect(result.error).toBeUndefined();
+    expect(result.result).toBe('contained');
+  });
+
+  test('gives handlers only functions of the context realm', async () => {
+    const result = await executeInSandbox(
+      {
+        code: `
+          module.exports = () => [this, setTimeout, console.log, URL, TextEncoder, fetch, Headers, Response]
+            .every((value) => value.constructor.constructor === Function);
+        `,
+        permissions: ['network'],
+      },
+      limits
+    );
+
+    expect(result.result).toBe(true);
+  });
+
+  test.each([
+    ['arrays made synchronously', 'const a = []; for (let i = 0; i < 40; i++) a.push(new Array(1e6).fill(i)); return a.length;'],
+    ['one large buffer', 'return new Uint8Array(300 * 1024 * 1024).fill(1).length;'],
+    ['an allocation error it catches', 'const a = []; try { for (;;) a.push(new Array(1e6).fill(1)); } catch { a.length = 0; return "recovered"; }'],
+  ])('stops handlers that go over the memory limit with %s', async (_name, body) => {
+    const result = await executeInSandbox(
+      { code: `module.exports = () => { ${body} };` },
+      { ...limits, memoryLimit: 64 }
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe('MEMORY_LIMIT_EXCEEDED');
+  });
+
+  test('lets handlers use memory within the limit', async () => {
+    const result = await executeInSandbox(
+      { code: 'module.exports = () => new Uint8Array(32 * 1024 * 1024).fill(1).length;' },
+      limits
+    );
+
+    expect(result.result).toBe(32 * 1024 * 1024);
+  });
+
+  test('stops handlers whose result is over the size limit', async () => {
+    const result = await executeInSandbox(
+      { code: `module.exports = () => 'x'.repeat(6000000);` },
+      limits
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe('RESPONSE_TOO_LARGE');
+  });
+
+  test('runs handlers with timers, logs and database access', async () => {
+    const result = await executeInSandbox(
+      {
+        code: `
+          exports.list = async (parameters, { db }) => {
+            console.log('listing %s', parameters.owner);
+            await new Promise((resolve) => setTimeout(resolve, 5));
+            return db.query('SELECT * FROM items WHERE owner = $1', [parameters.owner]);
+          };
+        `,
+        handler: 'list',
+        parameters: { owner: 'ada' },
+        permissions: ['database:read'],
+      },
+      limits,
+      { query: async (text, params) => [{ text, params }] }
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.result).toEqual([{ text: 'SELECT * FROM items WHERE owner = $1', params: ['ada'] }]);
+    expect(result.logs.stdout).toEqual(['listing ada']);
+  });
+});
+
+// A server on loopback, redirecting `/redirect` to `redirectTarget`
+let redirectTarget = '';
+const server = http.createServer((request, response) => {
+  if (request.url === '/redirect') {
+    response.writeHead(302, { location: redirectTarget }).end();
+  } else {
+    response.end('private');
+  }
+});
+await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+const { port } = server.address() as AddressInfo;
+
+// A name that is not private on its face but resolves to a private address:
+// the machine's own host name, where it resolves to one
+const hostname = os.hostname();
+const hostAddresses = await dns.promises.lookup(hostname, { all: true }).catch(() => []);
+const resolvesPrivately = hostAddresses.length > 0 && hostAddresses.every((address) => isPrivateAddress(address.address));
+
+describe('executeInSandbox network access', () => {
+  afterAll(() => {
+    server.close();
+  });
+
+  const fetchFrom = (url: string, permissions: string[]) =>
+    executeInSandbox(
+      {
+        code: `module.exports = () => fetch(${JSON.stringify(url)}).then((response) => response.text(), (error) => error.message);`,
+        permissions,
+      },
+      limits
+    );
+
+  test('reaches private hosts granted by name', async () => {
+    const result = await fetchFrom(`http://127.0.0.1:${port}/`, [`network:127.0.0.1:${port}`]);
+    expect(result.result).toBe('private');
+  });
+
+  test.skipIf(!resolvesPrivately)('refuses names that resolve to private addresses', async () => {
+    const result = await fetchFrom(`http://${hostname}:${port}/`, ['network']);
+    expect(result.result).toMatch(/not permitted/);
+  });
+
+  test.skipIf(!resolvesPrivately)('checks the addresses of every redirect hop', async () => {
+    redirectTarget = `http://${hostname}:${port}/`;
+    const result = await fetchFrom(`http://127.0.0.1:${port}/redirect`, [`network:127.0.0.1:${port}`, 'network']);
+    expect(result.result).toMatch(/not permitted/);
+  });
+});
+
@@ -0,0 +1,252 @@
+import { spawn } from 'child_process';
+import { fileURLToPath } from 'url';
+import type {
+  ExecutionErrorCode,
+  ExecutionLimits,
+  ExecutionLogEntry,
+  ExecutionRequest,
+  ExecutionResult,
+  ServerConfig,
+} from '../types/index.js';
+
+// Sandbox runner entry point, executed in a separate process per invocation.
+// The build bundles it as its own entry point next to the server bundle.
+const RUNNER_PATH = fileURLToPath(
+  new URL(import.meta.url.endsWith('.ts') ? './sandboxRunner.ts' : './sandboxRunner.js', import.meta.url)
+);
+
+// Cap on the amount of log output kept from a single execution
+const MAX_LOG_ENTRIES = 1000;
+
+// Cap on a single message from the runner, in characters. Results arrive as
+// one message and are held in memory in full, so this bounds the size of a
+// handler's response.
+const MAX_MESSAGE_SIZE = parseInt(process.env.EXTENSION_MAX_RESPONSE_SIZE || '5000000');
+
+// Messages emitted by the runner on stdout, one JSON document per line
+type RunnerMessage =
+  | { type: 'log'; entry: ExecutionLogEntry }
+  | { type: 'query'; id: number; text: string; params?: any[] }
+  | {
+      type: 'result';
+      success: boolean;
+      result?: any;
+      error?: ExecutionResult['error'];
+      cpuTime?: number;
+    };
+
+// Services the parent provides to sandboxed code. The runner has no database
+// credentials, so `context.db.query()` calls are sent to the parent, which
+// runs them with the installation's permissions.
+export interface SandboxHost {
+  query?: (text: string, params: any[]) => Promise<any[]>;
+}
+
+// Derive sandbox limits from the server configuration. The CPU budget is kept
+// slightly below the wall-clock budget so CPU-bound handlers are stopped by the
+// runner with a precise error before the parent has to kill the process.
+export function getExecutionLimits(
+  config: Pick<ServerConfig, 'extensionTimeout' | 'extensionMemoryLimit'>
+): ExecutionLimits {
+  return {
+    timeout: config.extensionTimeout,
+    cpuTime: Math.max(1, Math.floor(config.extensionTimeout * 0.8)),
+    memoryLimit: config.extensionMemoryLimit,
+  };
+}
+
+// Address space the runtime reserves for itself at startup, in MB. Bun
+// reserves its allocator arenas up front and later serves the heap from them.
+const RUNTIME_RESERVED_MEMORY = process.versions.bun ? 320 : 64;
+
+// Runtime flags that bound the child's heap where the runtime supports it
+function getRuntimeArgs(limits: ExecutionLimits): string[] {
+  if (process.versions.bun) {
+    return ['--smol'];
+  }
+  return [`--max-old-space-size=${limits.memoryLimit}`];
+}
+
+// Command that starts the runner with an OS limit on its data segment
+// (RLIMIT_DATA), set before the runtime starts so allocations past it fail
+// however the memory is used. The runner also checks its peak memory against
+// the exact limit before reporting a result.
+function getRunnerCommand(limits: ExecutionLimits): [string, string[]] {
+  const dataLimit = (limits.memoryLimit + RUNTIME_RESERVED_MEMORY) * 1024; // KB
+  return [
+    '/bin/sh',
+    ['-c', 'ulimit -d "$1" && shift && exec "$@"', 'sandbox', String(dataLimit), process.execPath, ...getRuntimeArgs(limits), RUNNER_PATH],
+  ];
+}
+
+// Execute extension serverless code in an isolated subprocess.
+//
+// The child process is the isolation boundary: it starts with an empty
+// environment, receives only the payload it needs on stdin and is killed once
+// the wall-clock limit elapses. Its data segment is capped by the OS (see
+// getRunnerCommand()). Inside the child the code runs in a `vm` context that
+// enforces the CPU and memory limits and captures console output.
+// The context shares no objects with the child, so handler code cannot reach
+// its `process` (see sandboxContext.ts).
+export function executeInSandbox(
+  request: ExecutionRequest,
+  limits: ExecutionLimits,
+  host: SandboxHost = {}
+): Promise<ExecutionResult> {
+  const startedAt = performance.now();
+
+  return new Promise((resolve) => {
+    const logs: ExecutionResult['logs'] = { stdout: [], stderr: [], entries: [] };
+    let settled = false;
+    let timedOut = false;
+    let outcome: Extract<RunnerMessage, { type: 'result' }> | null = null;
+    let stdoutBuffer = '';
+    let rawStderr = '';
+
+    const addLog = (entry: ExecutionLogEntry) => {
+      if (logs.entries.length >= MAX_LOG_ENTRIES) {
+        return;
+      }
+      logs.entries.push(entry);
+      logs[entry.stream].push(entry.message);
+    };
+
+    const finish = (result: Omit<ExecutionResult, 'logs' | 'duration'>) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      clearTimeout(timer);
+      child.stdin.end();
+      resolve({
+        ...result,
+        logs,
+        duration: Math.round((performance.now() - startedAt) * 100) / 100,
+      });
+    };
+
+    const fail = (code: ExecutionErrorCode, message: string) => {
+      finish({ success: false, error: { code, message } });
+    };
+
+    const handleLine = (line: string) => {
+      if (!line.trim()) {
+        return;
+      }
+
+      let message: RunnerMessage;
+      try {
+        message = JSON.parse(line);
+      } catch {
+        addLog({ stream: 'stdout', message: line, timestamp: new Date().toISOString() });
+        return;
+      }
+
+      if (message.type === 'log') {
+        addLog(message.entry);
+      } else if (message.type === 'query') {
+        handleQuery(message);
+      } else if (message.type === 'result') {
+        outcome = message;
+      }
+    };
+
+    // Run a query for the sandboxed code and send the rows (or the error)
+    // back on the runner's stdin
+    const handleQuery = async ({ id, text, params }: Extract<RunnerMessage, { type: 'query' }>) => {
+      let reply: Record<string, any>;
+      try {
+        if (!host.query) {
+          throw new Error('Database access is not available to this extension.');
+        }
+        reply = { type: 'reply', id, result: await host.query(String(text), Array.isArray(params) ? params : []) };
+      } catch (error) {
+        reply = { type: 'reply', id, error: (error as any)?.message || String(error) };
+      }
+
+      if (!settled && child.stdin.writable) {
+        child.stdin.write(JSON.stringify(reply) + '\n');
+      }
+    };
+
+    const [command, args] = getRunnerCommand(limits);
+    const child = spawn(command, args, {
+      env: { NODE_ENV: 'production' },
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      child.kill('SIGKILL');
+    }, limits.timeout);
+
+    child.stdout.setEncoding('utf8');
+    child.stdout.on('data', (chunk: string) => {
+      if (settled) {
+        return;
+      }
+      stdoutBuffer += chunk;
+      let newline = stdoutBuffer.indexOf('\n');
+      while (newline !== -1) {
+        handleLine(stdoutBuffer.slice(0, newline));
+        stdoutBuffer = stdoutBuffer.slice(newline + 1);
+        newline = stdoutBuffer.indexOf('\n');
+      }
+
+      if (stdoutBuffer.length > MAX_MESSAGE_SIZE) {
+        stdoutBuffer = '';
+        child.kill('SIGKILL');
+        fail('RESPONSE_TOO_LARGE', `Execution output exceeded the limit of ${MAX_MESSAGE_SIZE} characters.`);
+      }
+    });
+
+    child.stderr.setEncoding('utf8');
+    child.stderr.on('data', (chunk: string) => {
+      rawStderr += chunk;
+    });
+
+    child.on('error', (error) => {
+      console.error('Sandbox process error:', error);
+      fail('SANDBOX_ERROR', 'Failed to start the extension sandbox.');
+    });
+
+    child.on('close', (code, signal) => {
+      handleLine(stdoutBuffer);
+
+      if (rawStderr.trim()) {
+        addLog({ stream: 'stderr', message: rawStderr.trim(), timestamp: new Date().toISOString() });
+      }
+
+      if (timedOut) {
+        fail('EXECUTION_TIMEOUT', `Execution exceeded the time limit of ${limits.timeout}ms.`);
+        return;
+      }
+
+      const result = outcome as Extract<RunnerMessage, { type: 'result' }> | null;
+      if (result) {
+        finish({
+          success: result.success,
+          result: result.result,
+          error: result.error,
+          cpuTime: result.cpuTime,
+        });
+        return;
+      }
+
+      // The runner exits without a result when the runtime itself aborts,
+      // which in practice means the heap limit was hit.
+      if (signal === 'SIGKILL' || signal === 'SIGABRT' || code === 134) {
+        fail('MEMORY_LIMIT_EXCEEDED', `Execution exceeded the memory limit of ${limits.memoryLimit}MB.`);
+        return;
+      }
+
+      fail('SANDBOX_ERROR', `Sandbox exited unexpectedly (code ${code ?? 'null'}, signal ${signal ?? 'none'}).`);
+    });
+
+    child.stdin.on('error', () => {
+      // The child may exit before reading its payload; the close handler reports it
+    });
+    // The payload is the first line; query replies follow on later lines
+    child.stdin.write(JSON.stringify({ request, limits }) + '\n');
+  });
+}
@@ -0,0 +1,924 @@
+import type { ExecutionHttpRequest, ExecutionUser } from '../types/index.js';
+
+// Globals for extension code, built inside the sandbox's vm context. The
+// runner injects `bootstrapSandbox` by its source text, so it must not refer to
+// anything outside its own body: every object a handler can reach, down to its
+// prototypes and constructors, belongs to the context's realm. The host is
+// reached through `host`, which takes and returns strings only, and answers
+// asynchronously through the returned `dispatch` with strings and numbers. No
+// host object, and with it the host's `Function` constructor, ever enters the
+// context.
+
+// Synchronous call into the runner: a JSON payload in, `{ result }` or
+// `{ error }` as JSON out. Never throws.
+export type SandboxHostCall = (operation: string, payload: string) => string;
+
+// Events from the runner: `timer` fires a timer, `settle` completes a
+// database query or fetch with a `{ result }` or `{ error }` JSON payload
+export type SandboxDispatch = (event: 'timer' | 'settle', id: number, payload: string) => void;
+
+export interface SandboxSetup {
+  handler?: string;
+  parameters: Record<string, any>;
+  context: {
+    installationId?: string;
+    action?: string;
+    config: any;
+    env: Record<string, string>;
+    request?: ExecutionHttpRequest;
+    user?: ExecutionUser;
+  };
+  database: boolean; // `context.db` is provided
+  network: boolean; // `fetch` and its classes are provided
+}
+
+export interface SandboxEntryPoints {
+  dispatch: SandboxDispatch;
+  invoke: () => void; // Runs the handler; the outcome is reported to the host
+}
+
+export function bootstrapSandbox(host: SandboxHostCall, setupJson: string): SandboxEntryPoints {
+  // Captured before extension code can replace them
+  const { parse, stringify } = JSON;
+  const SandboxError = Error;
+  const SandboxTypeError = TypeError;
+  const fromCharCode = String.fromCharCode;
+
+  function call(operation: string, payload: unknown = null): any {
+    const body = stringify(payload);
+    let reply: string;
+    try {
+      reply = host(operation, body);
+    } catch {
+      throw new SandboxError(`Sandbox operation "${operation}" failed.`);
+    }
+    const message = parse(reply);
+    if (message.error !== undefined) {
+      throw new SandboxError(String(message.error));
+    }
+    return message.result;
+  }
+
+  function describeError(error: any) {
+    return {
+      name: error && typeof error === 'object' && typeof error.name === 'string' ? error.name : undefined,
+      message: error && typeof error === 'object' && 'message' in error ? String(error.message) : String(error),
+      stack: error && typeof error.stack === 'string' ? error.stack : undefined,
+    };
+  }
+
+  function report(outcome: { success: boolean; result?: unknown; error?: { code?: string; message: string; stack?: string } }) {
+    try {
+      call('result', outcome);
+    } catch {
+      call('result', {
+        success: false,
+        error: { message: 'Handler returned a value that is not JSON serializable.' },
+      });
+    }
+  }
+
+  // Bytes cross the host boundary as binary strings, one character per byte
+  function toBinary(bytes: Uint8Array): string {
+    let binary = '';
+    for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+      binary += fromCharCode(...bytes.subarray(offset, offset + 0x8000));
+    }
+    return binary;
+  }
+
+  function fromBinary(binary: string): Uint8Array {
+    const bytes = new Uint8Array(binary.length);
+    for (let index = 0; index < binary.length; index++) {
+      bytes[index] = binary.charCodeAt(index);
+    }
+    return bytes;
+  }
+
+  function toBytes(data: unknown): Uint8Array {
+    if (data instanceof ArrayBuffer) {
+      return new Uint8Array(data);
+    }
+    if (ArrayBuffer.isView(data)) {
+      return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+    }
+    throw new SandboxTypeError('Expected an ArrayBuffer or a typed array.');
+  }
+
+  const encodeText = (text: string) => fromBinary(call('encode', text));
+  const decodeText = (bytes: Uint8Array, fatal = false, ignoreBOM = false): string =>
+    call('decode', { bytes: toBinary(bytes), fatal, ignoreBOM });
+
+  // Console
+
+  function describe(value: unknown): string {
+    if (typeof value === 'string') {
+      return value;
+    }
+    if (value instanceof SandboxError) {
+      return value.stack || `${value.name}: ${value.message}`;
+    }
+    if (typeof value === 'function') {
+      return `[Function: ${value.name || '(anonymous)'}]`;
+    }
+    if (typeof value === 'bigint') {
+      return `${value}n`;
+    }
+    if (value === undefined || typeof value === 'symbol') {
+      return String(value);
+    }
+    try {
+      return stringify(value) ?? String(value);
+    } catch {
+      return String(value);
+    }
+  }
+
+  // printf-style placeholders as in Node's console
+  function format(args: unknown[]): string {
+    if (typeof args[0] !== 'string' || args.length < 2) {
+      return args.map(describe).join(' ');
+    }
+    let index = 1;
+    const message = args[0].replace(/%[sdifjoO%]/g, (token) => {
+      if (token === '%%') {
+        return '%';
+      }
+      if (index >= args.length) {
+        return token;
+      }
+      const value = args[index++];
+      switch (token) {
+        case '%d':
+          return String(Number(value));
+        case '%i':
+          return String(parseInt(String(value), 10));
+        case '%f':
+          return String(parseFloat(String(value)));
+        default:
+          return describe(value);
+      }
+    });
+    return [message, ...args.slice(index).map(describe)].join(' ');
+  }
+
+  const write = (stream: 'stdout' | 'stderr') => (...args: unknown[]) => {
+    call('log', { stream, message: format(args) });
+  };
+
+  const console = {
+    log: write('stdout'),
+    info: write('stdout'),
+    debug: write('stdout'),
+    warn: write('stderr'),
+    error: write('stderr'),
+  };
+
+  // Timers and host callbacks
+
+  let nextId = 1;
+  const timers = new Map<number, { callback: (...args: unknown[]) => void; args: unknown[]; repeat: boolean }>();
+  const pending = new Map<number, { resolve: (result: any) => void; reject: (error: Error) => void }>();
+
+  function startTimer(callback: unknown, delay: unknown, args: unknown[], repeat: boolean): number {
+    if (typeof callback !== 'function') {
+      throw new SandboxTypeError('The callback must be a function.');
+    }
+    const id = nextId++;
+    timers.set(id, { callback: callback as (...args: unknown[]) => void, args, repeat });
+    call('timer', { id, delay: Math.max(0, Number(delay) || 0), repeat });
+    return id;
+  }
+
+  function clearTimer(id: unknown) {
+    if (timers.delete(Number(id))) {
+      call('clearTimer', { id: Number(id) });
+    }
+  }
+
+  // Start an asynchronous host operation, completed by a `settle` event
+  function request(operation: string, payload: Record<string, unknown>): Promise<any> {
+    const id = nextId++;
+    return new Promise((resolve, reject) => {
+      pending.set(id, { resolve, reject });
+      try {
+        call(operation, { ...payload, id });
+      } catch (error) {
+        pending.delete(id);
+        reject(error);
+      }
+    });
+  }
+
+  function dispatch(event: 'timer' | 'settle', id: number, payload: string) {
+    try {
+      if (event === 'timer') {
+        const timer = timers.get(id);
+        if (timer) {
+          if (!timer.repeat) {
+            timers.delete(id);
+          }
+          timer.callback(...timer.args);
+        }
+      } else if (event === 'settle') {
+        const waiting = pending.get(id);
+        if (waiting) {
+          pending.delete(id);
+          const { result, error } = parse(payload);
+          if (error !== undefined) {
+            waiting.reject(new SandboxError(String(error)));
+          } else {
+            waiting.resolve(result);
+          }
+        }
+      }
+    } catch (error) {
+      // An exception escaping a callback ends the execution, as it would
+      // crash a Node process
+      report({ success: false, error: describeError(error) });
+    }
+  }
+
+  function structuredClone(value: any, seen = new Map<unknown, unknown>()): any {
+    if (typeof value === 'function' || typeof value === 'symbol') {
+      throw new SandboxError(`${describe(value)} could not be cloned.`);
+    }
+    if (typeof value !== 'object' || value === null) {
+      return value;
+    }
+    if (seen.has(value)) {
+      return seen.get(value);
+    }
+
+    let copy: any;
+    if (value instanceof Date) {
+      copy = new Date(value.getTime());
+    } else if (value instanceof RegExp) {
+      copy = new RegExp(value.source, value.flags);
+    } else if (value instanceof ArrayBuffer) {
+      copy = value.slice(0);
+    } else if (ArrayBuffer.isView(value)) {
+      const bytes = toBytes(value).slice();
+      copy = value instanceof DataView ? new DataView(bytes.buffer) : new (value.constructor as any)(bytes.buffer);
+    } else if (value instanceof Error) {
+      copy = new SandboxError(value.message);
+      copy.name = value.name;
+    } else if (value instanceof Map) {
+      copy = new Map();
+      seen.set(value, copy);
+      value.forEach((item, key) => copy.set(structuredClone(key, seen), structuredClone(item, seen)));
+      return copy;
+    } else if (value instanceof Set) {
+      copy = new Set();
+      seen.set(value, copy);
+      value.forEach((item) => copy.add(structuredClone(item, seen)));
+      return copy;
+    } else {
+      copy = Array.isArray(value) ? [] : {};
+      seen.set(value, copy);
+      for (const key of Object.keys(value)) {
+        copy[key] = structuredClone(value[key], seen);
+      }
+      return copy;
+    }
+    seen.set(value, copy);
+    return copy;
+  }
+
+  // Encoding
+
+  class TextEncoder {
+    get encoding() {
+      return 'utf-8';
+    }
+
+    encode(input: unknown = ''): Uint8Array {
+      return encodeText(String(input));
+    }
+  }
+
+  class TextDecoder {
+    readonly encoding = 'utf-8';
+    readonly fatal: boolean;
+    readonly ignoreBOM: boolean;
+
+    constructor(label: unknown = 'utf-8', options: { fatal?: boolean; ignoreBOM?: boolean } = {}) {
+      if (!['utf-8', 'utf8', 'unicode-1-1-utf-8'].includes(String(label).trim().toLowerCase())) {
+        throw new RangeError(`The "${String(label)}" encoding is not supported.`);
+      }
+      this.fatal = Boolean(options.fatal);
+      this.ignoreBOM = Boolean(options.ignoreBOM);
+    }
+
+    decode(input?: unknown): string {
+      return input === undefined ? '' : decodeText(toBytes(input), this.fatal, this.ignoreBOM);
+    }
+  }
+
+  const atob = (data: unknown): string => call('atob', String(data));
+  const btoa = (data: unknown): string => call('btoa', String(data));
+
+  // URLs. Parsing happens in the host; the context keeps the parsed parts.
+
+  function parseQuery(query: string): [string, string][] {
+    const decode = (text: string) => {
+      try {
+        return decodeURIComponent(text.replace(/\+/g, ' '));
+      } catch {
+        return text;
+      }
+    };
+    return query
+      .replace(/^\?/, '')
+      .split('&')
+      .filter((pair) => pair !== '')
+      .map((pair) => {
+        const separator = pair.indexOf('=');
+        return separator === -1
+          ? [decode(pair), '']
+          : [decode(pair.slice(0, separator)), decode(pair.slice(separator + 1))];
+      });
+  }
+
+  const encodeQueryComponent = (text: string) =>
+    encodeURIComponent(text)
+      .replace(/[!'()~]/g, (character) => `%${character.charCodeAt(0).toString(16).toUpperCase()}`)
+      .replace(/%20/g, '+');
+
+  // URLSearchParams owned by a URL report their changes to it
+  const searchParamsOwners = new WeakMap<URLSearchParams, (search: string) => void>();
+
+  class URLSearchParams {
+    #list: [string, string][] = [];
+
+    constructor(init: unknown = '') {
+      if (init instanceof URLSearchParams) {
+        this.#list = [...init];
+      } else if (typeof init === 'object' && init !== null && Symbol.iterator in init) {
+        for (const pair of init as Iterable<unknown>) {
+          const [name, value, ...rest] = [...(pair as Iterable<unknown>)];
+          if (rest.length > 0 || value === undefined) {
+            throw new SandboxTypeError('Each query pair must be a name and a value.');
+          }
+          this.#list.push([String(name), String(value)]);
+        }
+      } else if (typeof init === 'object' && init !== null) {
+        for (const [name, value] of Object.entries(init)) {
+          this.#list.push([name, String(value)]);
+        }
+      } else {
+        this.#list = parseQuery(String(init));
+      }
+    }
+
+    #changed() {
+      searchParamsOwners.get(this)?.(this.toString());
+    }
+
+    // Replace the pairs without notifying the owning URL
+    static reset(params: URLSearchParams, search: string) {
+      params.#list = parseQuery(search);
+    }
+
+    get size() {
+      return this.#list.length;
+    }
+
+    append(name: unknown, value: unknown) {
+      this.#list.push([String(name), String(value)]);
+      this.#changed();
+    }
+
+    delete(name: unknown, value?: unknown) {
+      this.#list = this.#list.filter(([key, item]) => key !== String(name) || (value !== undefined && item !== String(value)));
+      this.#changed();
+    }
+
+    get(name: unknown): string | null {
+      return this.#list.find(([key]) => key === String(name))?.[1] ?? null;
+    }
+
+    getAll(name: unknown): string[] {
+      return this.#list.filter(([key]) => key === String(name)).map(([, value]) => value);
+    }
+
+    has(name: unknown, value?: unknown): boolean {
+      return this.#list.some(([key, item]) => key === String(name) && (value === undefined || item === String(value)));
+    }
+
+    set(name: unknown, value: unknown) {
+      const index = this.#list.findIndex(([key]) => key === String(name));
+      if (index === -1) {
+        this.#list.push([String(name), String(value)]);
+      } else {
+        this.#list[index] = [String(name), String(value)];
+        this.#list = this.#list.filter(([key], position) => key !== String(name) || position <= index);
+      }
+      this.#changed();
+    }
+
+    sort() {
+      this.#list.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+      this.#changed();
+    }
+
+    forEach(callback: (value: string, name: string, params: URLSearchParams) => void, thisArg?: unknown) {
+      for (const [name, value] of this.#list) {
+        callback.call(thisArg, value, name, this);
+      }
+    }
+
+    keys() {
+      return this.#list.map(([name]) => name)[Symbol.iterator]();
+    }
+
+    values() {
+      return this.#list.map(([, value]) => value)[Symbol.iterator]();
+    }
+
+    entries() {
+      return this.#list.map(([name, value]): [string, string] => [name, value])[Symbol.iterator]();
+    }
+
+    [Symbol.iterator]() {
+      return this.entries();
+    }
+
+    toString() {
+      return this.#list.map(([name, value]) => `${encodeQueryComponent(name)}=${encodeQueryComponent(value)}`).join('&');
+    }
+  }
+
+  const URL_PARTS = ['href', 'origin', 'protocol', 'username', 'password', 'host', 'hostname', 'port', 'pathname', 'search', 'hash'];
+
+  function parseUrl(url: unknown, base?: unknown, property?: string, value?: unknown): Record<string, string> {
+    try {
+      return call('url', {
+        url: String(url),
+        base: base === undefined ? undefined : String(base),
+        property,
+        value: value === undefined ? undefined : String(value),
+      });
+    } catch (error) {
+      throw new SandboxTypeError(describeError(error).message);
+    }
+  }
+
+  class URL {
+    #parts: Record<string, string>;
+    #searchParams: URLSearchParams;
+
+    constructor(url: unknown, base?: unknown) {
+      this.#parts = parseUrl(url, base);
+      this.#searchParams = new URLSearchParams(this.#parts.search);
+      searchParamsOwners.set(this.#searchParams, (search) => {
+        this.#parts = parseUrl(this.#parts.href, undefined, 'search', search);
+      });
+    }
+
+    static canParse(url: unknown, base?: unknown): boolean {
+      try {
+        parseUrl(url, base);
+        return true;
+      } catch {
+        return false;
+      }
+    }
+
+    get searchParams() {
+      return this.#searchParams;
+    }
+
+    // Backs the part accessors defined below
+    static part(url: URL, name: string, value?: unknown): string {
+      if (value !== undefined) {
+        url.#parts = parseUrl(url.#parts.href, undefined, name, value);
+        if (name === 'href' || name === 'search') {
+          URLSearchParams.reset(url.#searchParams, url.#parts.search ?? '');
+        }
+      }
+      return url.#parts[name] ?? '';
+    }
+
+    toString() {
+      return this.href;
+    }
+
+    toJSON() {
+      return this.href;
+    }
+  }
+  interface URL extends Record<string, any> {}
+
+  for (const name of URL_PARTS) {
+    Object.defineProperty(URL.prototype, name, {
+      get(this: URL) {
+        return URL.part(this, name);
+      },
+      set: name === 'origin' ? undefined : function (this: URL, value: unknown) {
+        URL.part(this, name, value);
+      },
+      enumerable: true,
+      configurable: true,
+    });
+  }
+
+  // Fetch
+
+  class AbortSignal {
+    aborted = false;
+    reason: unknown = undefined;
+    onabort: ((event: { type: string }) => void) | null = null;
+    #listeners = new Set<(event: { type: string }) => void>();
+
+    static abort(reason?: unknown) {
+      const controller = new AbortController();
+      controller.abort(reason);
+      return controller.signal;
+    }
+
+    static timeout(delay: number) {
+      const controller = new AbortController();
+      const error = new SandboxError('The operation timed out.');
+      error.name = 'TimeoutError';
+      startTimer(() => controller.abort(error), delay, [], false);
+      return controller.signal;
+    }
+
+    // Backs AbortController.abort()
+    static trigger(signal: AbortSignal, reason: unknown) {
+      if (signal.aborted) {
+        return;
+      }
+      signal.aborted = true;
+      signal.reason = reason;
+      const event = { type: 'abort' };
+      signal.onabort?.(event);
+      for (const listener of signal.#listeners) {
+        listener(event);
+      }
+    }
+
+    addEventListener(type: string, listener: (event: { type: string }) => void) {
+      if (type === 'abort' && typeof listener === 'function') {
+        this.#listeners.add(listener);
+      }
+    }
+
+    removeEventListener(type: string, listener: (event: { type: string }) => void) {
+      this.#listeners.delete(listener);
+    }
+
+    throwIfAborted() {
+      if (this.aborted) {
+        throw this.reason;
+      }
+    }
+  }
+
+  class AbortController {
+    readonly signal = new AbortSignal();
+
+    abort(reason?: unknown) {
+      if (reason === undefined) {
+        reason = new SandboxError('This operation was aborted');
+        (reason as Error).name = 'AbortError';
+      }
+      AbortSignal.trigger(this.signal, reason);
+    }
+  }
+
+  class Headers {
+    #entries = new Map<string, string>();
+
+    constructor(init?: unknown) {
+      if (init instanceof Headers) {
+        init.forEach((value, name) => this.append(name, value));
+      } else if (typeof init === 'object' && init !== null && Symbol.iterator in init) {
+        for (const pair of init as Iterable<unknown>) {
+          const [name, value] = [...(pair as Iterable<unknown>)];
+          this.append(name, value);
+        }
+      } else if (typeof init === 'object' && init !== null) {
+        for (const [name, value] of Object.entries(init)) {
+          this.append(name, value);
+        }
+      }
+    }
+
+    append(name: unknown, value: unknown) {
+      const key = String(name).toLowerCase();
+      const existing = this.#entries.get(key);
+      this.#entries.set(key, existing === undefined ? String(value) : `${existing}, ${String(value)}`);
+    }
+
+    set(name: unknown, value: unknown) {
+      this.#entries.set(String(name).toLowerCase(), String(value));
+    }
+
+    get(name: unknown): string | null {
+      return this.#entries.get(String(name).toLowerCase()) ?? null;
+    }
+
+    has(name: unknown): boolean {
+      return this.#entries.has(String(name).toLowerCase());
+    }
+
+    delete(name: unknown) {
+      this.#entries.delete(String(name).toLowerCase());
+    }
+
+    forEach(callback: (value: string, name: string, headers: Headers) => void, thisArg?: unknown) {
+      for (const [name, value] of this.entries()) {
+        callback.call(thisArg, value, name, this);
+      }
+    }
+
+    entries() {
+      return [...this.#entries.entries()].sort(([a], [b]) => (a < b ? -1 : 1))[Symbol.iterator]();
+    }
+
+    keys() {
+      return [...this.entries()].map(([name]) => name)[Symbol.iterator]();
+    }
+
+    values() {
+      return [...this.entries()].map(([, value]) => value)[Symbol.iterator]();
+    }
+
+    [Symbol.iterator]() {
+      return this.entries();
+    }
+  }
+
+  // Request and response bodies are held in full
+  class Body {
+    #bytes: Uint8Array | null;
+    bodyUsed = false;
+
+    constructor(body: unknown, headers: Headers) {
+      if (body === undefined || body === null) {
+        this.#bytes = null;
+      } else if (body instanceof URLSearchParams) {
+        if (!headers.has('content-type')) {
+          headers.set('content-type', 'application/x-www-form-urlencoded;charset=UTF-8');
+        }
+        this.#bytes = encodeText(body.toString());
+      } else if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) {
+        this.#bytes = toBytes(body).slice();
+      } else {
+        if (!headers.has('content-type')) {
+          headers.set('content-type', 'text/plain;charset=UTF-8');
+        }
+        this.#bytes = encodeText(String(body));
+      }
+    }
+
+    // Body bytes without consuming them
+    static peek(body: Body): Uint8Array | null {
+      return body.#bytes;
+    }
+
+    #consume(): Uint8Array {
+      if (this.bodyUsed) {
+        throw new SandboxTypeError('Body has already been used.');
+      }
+      this.bodyUsed = true;
+      return this.#bytes ?? new Uint8Array(0);
+    }
+
+    async arrayBuffer(): Promise<ArrayBuffer> {
+      return this.#consume().slice().buffer;
+    }
+
+    async bytes(): Promise<Uint8Array> {
+      return this.#consume().slice();
+    }
+
+    async text(): Promise<string> {
+      return decodeText(this.#consume());
+    }
+
+    async json(): Promise<any> {
+      return parse(await this.text());
+    }
+  }
+
+  interface RequestOptions {
+    method?: string;
+    headers?: unknown;
+    body?: unknown;
+    redirect?: string;
+    signal?: AbortSignal | null;
+  }
+
+  class Request extends Body {
+    readonly url: string;
+    readonly method: string;
+    readonly headers: Headers;
+    readonly redirect: string;
+    readonly signal: AbortSignal | null;
+
+    constructor(input: unknown, init: RequestOptions = {}) {
+      const source = input instanceof Request ? input : null;
+      const headers = new Headers(init.headers ?? source?.headers);
+      super(init.body !== undefined ? init.body : source ? Body.peek(source) : null, headers);
+      this.url = source ? source.url : new URL(input).href;
+      this.method = String(init.method ?? source?.method ?? 'GET').toUpperCase();
+      this.headers = headers;
+      this.redirect = String(init.redirect ?? source?.redirect ?? 'follow');
+      this.signal = init.signal ?? source?.signal ?? null;
+    }
+
+    clone() {
+      return new Request(this);
+    }
+  }
+
+  interface ResponseOptions {
+    status?: number;
+    statusText?: string;
+    headers?: unknown;
+  }
+
+  class Response extends Body {
+    readonly status: number;
+    readonly statusText: string;
+    readonly headers: Headers;
+    url = '';
+    redirected = false;
+
+    constructor(body: unknown = null, init: ResponseOptions = {}) {
+      const headers = new Headers(init.headers);
+      super(body, headers);
+      this.status = init.status ?? 200;
+      this.statusText = init.statusText ?? '';
+      this.headers = headers;
+    }
+
+    static json(data: unknown, init: ResponseOptions = {}) {
+      const headers = new Headers(init.headers);
+      if (!headers.has('content-type')) {
+        headers.set('content-type', 'application/json');
+      }
+      return new Response(stringify(data), { ...init, headers });
+    }
+
+    get ok() {
+      return this.status >= 200 && this.status < 300;
+    }
+
+    clone() {
+      const copy = new Response(Body.peek(this), this);
+      copy.url = this.url;
+      copy.redirected = this.redirected;
+      return copy;
+    }
+  }
+
+  function fetch(input: unknown, init: RequestOptions = {}): Promise<Response> {
+    let prepared: Request;
+    try {
+      prepared = new Request(input, init);
+    } catch (error) {
+      return Promise.reject(error);
+    }
+
+    const signal = prepared.signal;
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+
+    const body = Body.peek(prepared);
+    const id = nextId++;
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        if (pending.delete(id)) {
+          call('abortFetch', { id });
+          reject(signal?.reason);
+        }
+      };
+      pending.set(id, {
+        resolve: (reply) => {
+          signal?.removeEventListener('abort', onAbort);
+          const response = new Response(fromBinary(reply.body), {
+            status: reply.status,
+            statusText: reply.statusText,
+            headers: reply.headers,
+          });
+          response.url = reply.url;
+          response.redirected = reply.redirected;
+          resolve(response);
+        },
+        reject: (error) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(new SandboxTypeError(error.message));
+        },
+      });
+      signal?.addEventListener('abort', onAbort);
+
+      try {
+        call('fetch', {
+          id,
+          url: prepared.url,
+          method: prepared.method,
+          headers: [...prepared.headers],
+          body: body === null ? null : toBinary(body),
+          redirect: prepared.redirect,
+        });
+      } catch (error) {
+        pending.delete(id);
+        reject(error);
+      }
+    });
+  }
+
+  // Module and handler
+
+  const setup: SandboxSetup = parse(setupJson);
+  const module: { exports: any } = { exports: {} };
+
+  Object.assign(globalThis, {
+    console,
+    module,
+    exports: module.exports,
+    setTimeout: (callback: unknown, delay?: unknown, ...args: unknown[]) => startTimer(callback, delay, args, false),
+    setInterval: (callback: unknown, delay?: unknown, ...args: unknown[]) => startTimer(callback, delay, args, true),
+    clearTimeout: clearTimer,
+    clearInterval: clearTimer,
+    queueMicrotask: (callback: () => void) => {
+      Promise.resolve().then(() => callback());
+    },
+    structuredClone: (value: unknown) => structuredClone(value),
+    URL,
+    URLSearchParams,
+    TextEncoder,
+    TextDecoder,
+    atob,
+    btoa,
+    ...(setup.network ? { fetch, Headers, Request, Response, AbortController, AbortSignal } : {}),
+  });
+
+  // Pick the function to invoke from the module's exports. A named handler
+  // must be exported explicitly; otherwise the module's default function is
+  // used.
+  function resolveHandler(moduleExports: any, name?: string): ((...args: any[]) => any) | null {
+    if (name) {
+      return moduleExports && typeof moduleExports[name] === 'function' ? moduleExports[name] : null;
+    }
+    if (typeof moduleExports === 'function') {
+      return moduleExports;
+    }
+    if (moduleExports && typeof moduleExports.default === 'function') {
+      return moduleExports.default;
+    }
+    if (moduleExports && typeof moduleExports.handler === 'function') {
+      return moduleExports.handler;
+    }
+    return null;
+  }
+
+  function invoke() {
+    const handler = resolveHandler(module.exports, setup.handler);
+    if (!handler) {
+      report({
+        success: false,
+        error: {
+          code: 'HANDLER_NOT_FOUND',
+          message: setup.handler
+            ? `Handler "${setup.handler}" is not exported by the extension.`
+            : 'The extension does not export a handler function.',
+        },
+      });
+      return;
+    }
+
+    const context = {
+      ...setup.context,
+      db: setup.database
+        ? {
+            query(text: unknown, params: unknown = []): Promise<any[]> {
+              if (typeof text !== 'string') {
+                return Promise.reject(new SandboxTypeError('Query text must be a string.'));
+              }
+              return request('query', { text, params: Array.isArray(params) ? params : [] });
+            },
+          }
+        : undefined,
+    };
+
+    let result: unknown;
+    try {
+      result = handler(setup.parameters, context);
+    } catch (error) {
+      report({ success: false, error: describeError(error) });
+      return;
+    }
+    Promise.resolve(result).then(
+      (value) => report({ success: true, result: value }),
+      (error) => report({ success: false, error: describeError(error) })
+    );
+  }
+
+  return { dispatch, invoke };
+}
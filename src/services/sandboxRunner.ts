@@ -0,0 +1,523 @@
+import dns, { type LookupAddress } from 'dns';
+import { readFileSync } from 'fs';
+import http from 'http';
+import https from 'https';
+import vm from 'vm';
+import zlib from 'zlib';
+import {
+  hasNetworkPermission,
+  hasPermission,
+  isHostGranted,
+  isNetworkAllowed,
+  isPrivateAddress,
+} from './permissions.js';
+import { bootstrapSandbox, type SandboxEntryPoints, type SandboxSetup } from './sandboxContext.js';
+import type {
+  ExecutionErrorCode,
+  ExecutionLimits,
+  ExecutionLogEntry,
+  ExecutionRequest,
+} from '../types/index.js';
+
+// Child-process side of the extension sandbox. Reads a JSON payload from the
+// first line of stdin, runs the extension code in a fresh vm context and
+// reports log lines and the final result as JSON lines on stdout. Database
+// queries are sent to the parent the same way, and their replies arrive as
+// further lines on stdin. Capabilities beyond plain computation are only
+// exposed when the installation was granted the matching permission.
+//
+// The vm context shares no objects with this process: its globals are built
+// inside it by `bootstrapSandbox` and reach the operations below through
+// strings only (see sandboxContext.ts).
+
+interface RunnerPayload {
+  request: ExecutionRequest;
+  limits: ExecutionLimits;
+}
+
+// Maximum length of a single captured log message
+const MAX_LOG_LENGTH = 10000;
+
+// How often the CPU and memory watchdog runs
+const WATCHDOG_INTERVAL_MS = 25;
+
+// Redirects followed by the sandboxed fetch, each checked against the
+// network permissions
+const MAX_REDIRECTS = 5;
+
+let finished = false;
+
+// Memory limit of this execution in MB, set once the payload is read
+let memoryLimit = Infinity;
+
+// Peak resident memory of this process in MB. Unlike the current RSS it
+// also catches allocations made and dropped between two watchdog runs, which
+// cannot run while synchronous handler code does.
+function peakMemory(): number {
+  try {
+    const peak = /^VmHWM:\s+(\d+) kB/m.exec(readFileSync('/proc/self/status', 'utf8'));
+    if (peak) {
+      return Number(peak[1]) / 1024;
+    }
+  } catch {
+    // No procfs; fall back to the current RSS
+  }
+  return process.memoryUsage().rss / 1024 / 1024;
+}
+
+// Allocations past the data segment limit fail with a RangeError, which may
+// come from the context's realm or be described by it
+function isOutOfMemory(error: any): boolean {
+  return !!error && typeof error === 'object' && error.name === 'RangeError' && /out of memory/i.test(String(error.message));
+}
+
+function memoryLimitError(): { code: ExecutionErrorCode; message: string } {
+  return { code: 'MEMORY_LIMIT_EXCEEDED', message: `Execution exceeded the memory limit of ${memoryLimit}MB.` };
+}
+
+function send(message: Record<string, any>, callback?: () => void) {
+  process.stdout.write(JSON.stringify(message) + '\n', callback);
+}
+
+function finish(
+  message: { success: boolean; result?: any; error?: { code: ExecutionErrorCode; message: string; stack?: string } },
+  cpuTime: number
+) {
+  if (finished) {
+    return;
+  }
+  finished = true;
+
+  if (peakMemory() > memoryLimit) {
+    message = { success: false, error: memoryLimitError() };
+  }
+
+  let payload: Record<string, any>;
+  try {
+    payload = { type: 'result', ...message, cpuTime };
+    JSON.stringify(payload);
+  } catch {
+    payload = {
+      type: 'result',
+      success: false,
+      error: { code: 'EXECUTION_FAILED', message: 'Handler returned a value that is not JSON serializable.' },
+      cpuTime,
+    };
+  }
+
+  send(payload, () => process.exit(message.success ? 0 : 1));
+}
+
+function toError(code: ExecutionErrorCode, error: unknown) {
+  if (isOutOfMemory(error)) {
+    return memoryLimitError();
+  }
+  if (error && typeof error === 'object' && 'message' in error) {
+    return {
+      code,
+      message: String((error as Error).message),
+      stack: typeof (error as Error).stack === 'string' ? (error as Error).stack : undefined,
+    };
+  }
+  return { code, message: String(error) };
+}
+
+// Replies to queries sent to the parent, by query ID
+const pendingQueries = new Map<number, { resolve: (rows: any[]) => void; reject: (error: Error) => void }>();
+let nextQueryId = 1;
+
+// Read stdin line by line: the first line is the payload, later lines are
+// query replies. Stdin is paused while no query is waiting, so it does not
+// keep the process alive.
+function readStdin(): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let buffer = '';
+    let payloadRead = false;
+
+    process.stdin.setEncoding('utf8');
+    process.stdin.on('data', (chunk) => {
+      buffer += chunk;
+      let newline = buffer.indexOf('\n');
+      while (newline !== -1) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 1);
+        newline = buffer.indexOf('\n');
+
+        if (!payloadRead) {
+          payloadRead = true;
+          process.stdin.pause();
+          resolve(line);
+          continue;
+        }
+
+        const reply = JSON.parse(line);
+        const pending = pendingQueries.get(reply.id);
+        if (pending) {
+          pendingQueries.delete(reply.id);
+          if (reply.error) {
+            pending.reject(new Error(reply.error));
+          } else {
+            pending.resolve(reply.result);
+          }
+        }
+        if (pendingQueries.size === 0) {
+          process.stdin.pause();
+        }
+      }
+    });
+    process.stdin.on('end', () => resolve(buffer));
+    process.stdin.on('error', reject);
+  });
+}
+
+// Send a query to the parent, which runs it in the installation's own schema
+function sendQuery(text: string, params: any[]): Promise<any[]> {
+  const id = nextQueryId++;
+  return new Promise((resolve, reject) => {
+    pendingQueries.set(id, { resolve, reject });
+    process.stdin.resume();
+    send({ type: 'query', id, text, params });
+  });
+}
+
+// Resolve a host and refuse it when any of its addresses is private, so a
+// public name cannot lead into the server's network
+async function resolvePublicAddress(url: URL): Promise<LookupAddress> {
+  const addresses = await dns.promises.lookup(url.hostname.replace(/^\[|\]$/g, ''), { all: true });
+  if (addresses.length === 0 || addresses.some((address) => isPrivateAddress(address.address))) {
+    throw new Error(`Network access to ${url.host} is not permitted for this extension.`);
+  }
+  return addresses[0]!;
+}
+
+// Decode a response body the way fetch() would
+function decodeBody(body: Buffer, encoding: string | undefined): Buffer {
+  switch (encoding?.trim().toLowerCase()) {
+    case 'gzip':
+    case 'x-gzip': return zlib.gunzipSync(body);
+    case 'deflate': return zlib.inflateSync(body);
+    case 'br': return zlib.brotliDecompressSync(body);
+    default: return body;
+  }
+}
+
+// Send a request over a connection to an address that was already checked.
+// The URL's host name is still used for the Host header and TLS.
+function requestAt(url: URL, init: RequestInit, address: LookupAddress): Promise<Response> {
+  const transport = url.protocol === 'https:' ? https : http;
+  const method = (init.method || 'GET').toUpperCase();
+
+  return new Promise((resolve, reject) => {
+    const request = transport.request(url, {
+      method,
+      headers: Object.fromEntries(new Headers(init.headers)),
+      signal: init.signal ?? undefined,
+      lookup: (_hostname, options, callback: (...args: any[]) => void) =>
+        options.all ? callback(null, [address]) : callback(null, address.address, address.family),
+    }, (message) => {
+      const chunks: Buffer[] = [];
+      message.on('data', (chunk: Buffer) => chunks.push(chunk));
+      message.on('error', reject);
+      message.on('end', () => {
+        const status = message.statusCode || 502;
+        const headers = new Headers();
+        for (let i = 0; i + 1 < message.rawHeaders.length; i += 2) {
+          headers.append(message.rawHeaders[i]!, message.rawHeaders[i + 1]!);
+        }
+
+        let body: Buffer | null = null;
+        if (method !== 'HEAD' && ![101, 204, 205, 304].includes(status)) {
+          try {
+            body = decodeBody(Buffer.concat(chunks), headers.get('content-encoding') || undefined);
+          } catch (error) {
+            reject(error);
+            return;
+          }
+          headers.delete('content-encoding');
+          headers.delete('content-length');
+        }
+        resolve(new Response(body, { status, statusText: message.statusMessage, headers }));
+      });
+    });
+    request.on('error', reject);
+    request.end(init.body as Buffer | undefined);
+  });
+}
+
+// fetch() limited to the hosts the installation may reach. Redirects are
+// followed by hand so every hop is checked. Hosts reached through the bare
+// `network` permission are resolved first, and the request goes to the
+// address that was checked. Resolves with the response and its final URL.
+function createFetch(permissions: string[]) {
+  return async (input: string, init: RequestInit = {}): Promise<{ response: Response; url: string }> => {
+    let url = new URL(input);
+    let options: RequestInit = { ...init, redirect: 'manual' };
+
+    for (let redirects = 0; ; redirects++) {
+      if (!isNetworkAllowed(url, permissions)) {
+        throw new Error(`Network access to ${url.host} is not permitted for this extension.`);
+      }
+
+      const response = isHostGranted(url, permissions)
+        ? await fetch(url, options)
+        : await requestAt(url, options, await resolvePublicAddress(url));
+      const location = response.headers.get('location');
+      if (response.status < 300 || response.status >= 400 || !location || init.redirect === 'manual') {
+        return { response, url: url.href };
+      }
+      if (redirects >= MAX_REDIRECTS) {
+        throw new Error('Too many redirects.');
+      }
+
+      url = new URL(location, url);
+      if (response.status === 303 || ((response.status === 301 || response.status === 302) && options.method?.toUpperCase() === 'POST')) {
+        options = { ...options, method: 'GET', body: undefined };
+      }
+    }
+  };
+}
+
+type HostOperation = (payload: any) => unknown;
+
+// Operations the context may call. Payloads come from untrusted code, so they
+// are checked here and not in the context.
+function createOperations(
+  request: ExecutionRequest,
+  deliver: SandboxEntryPoints['dispatch'],
+  report: (message: Parameters<typeof finish>[0]) => void
+): Record<string, HostOperation> {
+  const permissions = request.permissions || [];
+  const networkFetch = hasNetworkPermission(permissions) ? createFetch(permissions) : null;
+  const timers = new Map<number, ReturnType<typeof setTimeout>>();
+  const fetches = new Map<number, AbortController>();
+
+  const settle = (id: number, promise: Promise<unknown>) => {
+    promise.then(
+      (result) => deliver('settle', id, JSON.stringify({ result })),
+      (error) => deliver('settle', id, JSON.stringify({ error: error?.message || String(error) }))
+    );
+  };
+
+  return {
+    log: ({ stream, message }) => {
+      const entry: ExecutionLogEntry = {
+        stream: stream === 'stderr' ? 'stderr' : 'stdout',
+        message: String(message).slice(0, MAX_LOG_LENGTH),
+        timestamp: new Date().toISOString(),
+      };
+      send({ type: 'log', entry });
+    },
+
+    timer: ({ id, delay, repeat }) => {
+      const fire = () => {
+        if (!repeat) {
+          timers.delete(id);
+        }
+        deliver('timer', id, '');
+      };
+      timers.set(id, repeat ? setInterval(fire, Number(delay)) : setTimeout(fire, Number(delay)));
+    },
+
+    clearTimer: ({ id }) => {
+      clearTimeout(timers.get(id));
+      clearInterval(timers.get(id));
+      timers.delete(id);
+    },
+
+    query: ({ id, text, params }) => {
+      if (!hasPermission(permissions, 'database:read')) {
+        throw new Error('Database access is not permitted for this extension.');
+      }
+      settle(id, sendQuery(String(text), Array.isArray(params) ? params : []));
+    },
+
+    fetch: ({ id, url, method, headers, body, redirect }) => {
+      if (!networkFetch) {
+        throw new Error('Network access is not permitted for this extension.');
+      }
+      const controller = new AbortController();
+      fetches.set(id, controller);
+      const response = networkFetch(String(url), {
+        method: String(method),
+        headers: Array.isArray(headers) ? headers.map(([name, value]) => [String(name), String(value)]) : [],
+        body: typeof body === 'string' ? Buffer.from(body, 'latin1') : undefined,
+        redirect: redirect === 'manual' || redirect === 'error' ? redirect : 'follow',
+        signal: controller.signal,
+      }).then(async ({ response, url: finalUrl }) => ({
+        status: response.status,
+        statusText: response.statusText,
+        url: finalUrl,
+        redirected: finalUrl !== new URL(String(url)).href,
+        headers: [...response.headers],
+        body: Buffer.from(await response.arrayBuffer()).toString('latin1'),
+      }));
+      settle(id, response.finally(() => fetches.delete(id)));
+    },
+
+    abortFetch: ({ id }) => {
+      fetches.get(id)?.abort();
+    },
+
+    url: ({ url, base, property, value }) => {
+      const parsed = new URL(String(url), base === undefined ? undefined : String(base));
+      if (property !== undefined) {
+        if (!URL_SETTERS.includes(property)) {
+          throw new Error(`URL property "${String(property)}" cannot be set.`);
+        }
+        (parsed as any)[property] = String(value);
+      }
+      return Object.fromEntries(URL_PARTS.map((part) => [part, String((parsed as any)[part])]));
+    },
+
+    encode: (text) => Buffer.from(String(text), 'utf8').toString('latin1'),
+
+    decode: ({ bytes, fatal, ignoreBOM }) =>
+      new TextDecoder('utf-8', { fatal: Boolean(fatal), ignoreBOM: Boolean(ignoreBOM) }).decode(Buffer.from(String(bytes), 'latin1')),
+
+    atob: (data) => atob(String(data)),
+
+    btoa: (data) => btoa(String(data)),
+
+    result: ({ success, result, error }) => {
+      report(
+        success === true
+          ? { success: true, result }
+          : {
+              success: false,
+              error: isOutOfMemory(error)
+                ? memoryLimitError()
+                : {
+                    code: error?.code === 'HANDLER_NOT_FOUND' ? 'HANDLER_NOT_FOUND' : 'EXECUTION_FAILED',
+                    message: String(error?.message ?? 'Execution failed.'),
+                    stack: typeof error?.stack === 'string' ? error.stack : undefined,
+                  },
+            }
+      );
+    },
+  };
+}
+
+const URL_PARTS = ['href', 'origin', 'protocol', 'username', 'password', 'host', 'hostname', 'port', 'pathname', 'search', 'hash'];
+const URL_SETTERS = URL_PARTS.filter((part) => part !== 'origin');
+
+async function main() {
+  const { request, limits } = JSON.parse(await readStdin()) as RunnerPayload;
+  memoryLimit = limits.memoryLimit;
+
+  const cpuStart = process.cpuUsage();
+  const cpuElapsed = () => {
+    const usage = process.cpuUsage(cpuStart);
+    return Math.round((usage.user + usage.system) / 1000);
+  };
+
+  // Watchdog for asynchronous work; synchronous work is bounded by the vm timeout
+  const watchdog = setInterval(() => {
+    if (cpuElapsed() > limits.cpuTime) {
+      finish({
+        success: false,
+        error: { code: 'CPU_LIMIT_EXCEEDED', message: `Execution exceeded the CPU time limit of ${limits.cpuTime}ms.` },
+      }, cpuElapsed());
+    } else if (process.memoryUsage().rss / 1024 / 1024 > limits.memoryLimit) {
+      finish({ success: false, error: memoryLimitError() }, cpuElapsed());
+    }
+  }, WATCHDOG_INTERVAL_MS);
+  watchdog.unref();
+
+  // The sandbox object has no prototype, so no host-realm object is reachable
+  // through the context's global
+  const context = vm.createContext(Object.create(null), {
+    name: 'extension',
+    codeGeneration: { strings: false, wasm: false },
+  });
+
+  let sandbox: SandboxEntryPoints | null = null;
+
+  // Events into the context. An exception escaping here ends the execution.
+  const deliver: SandboxEntryPoints['dispatch'] = (event, id, payload) => {
+    if (finished || !sandbox) {
+      return;
+    }
+    try {
+      sandbox.dispatch(event, id, payload);
+    } catch (error) {
+      finish({ success: false, error: toError('EXECUTION_FAILED', error) }, cpuElapsed());
+    }
+  };
+
+  const operations = createOperations(request, deliver, (message) => finish(message, cpuElapsed()));
+
+  // Never throws and only exchanges strings, see SandboxHostCall
+  const hostCall = (operation: string, payload: string): string => {
+    try {
+      const handle = typeof operation === 'string' && Object.hasOwn(operations, operation) ? operations[operation] : undefined;
+      if (!handle || typeof payload !== 'string') {
+        throw new Error('Unknown sandbox operation.');
+      }
+      return JSON.stringify({ result: handle(JSON.parse(payload)) ?? null });
+    } catch (error) {
+      return JSON.stringify({ error: error instanceof Error ? error.message : 'Sandbox operation failed.' });
+    }
+  };
+
+  const permissions = request.permissions || [];
+  const setup: SandboxSetup = {
+    handler: request.handler,
+    parameters: request.parameters || {},
+    context: {
+      installationId: request.installationId,
+      action: request.action,
+      config: request.config || {},
+      env: { ...(request.environmentVariables || {}) },
+      request: request.request,
+      user: request.user,
+    },
+    database: hasPermission(permissions, 'database:read'),
+    network: hasNetworkPermission(permissions),
+  };
+
+  // Evaluated from source so the bootstrap and everything it creates belong to
+  // the context's realm. Strict mode keeps `caller` from leading back here.
+  const bootstrap = vm.runInContext(`'use strict';(${bootstrapSandbox.toString()})`, context) as typeof bootstrapSandbox;
+  sandbox = bootstrap(hostCall, JSON.stringify(setup));
+
+  const runOptions = { timeout: limits.cpuTime, filename: 'extension.js' };
+
+  try {
+    vm.runInContext(request.code, context, runOptions);
+  } catch (error) {
+    const code = (error as any)?.code === 'ERR_SCRIPT_EXECUTION_TIMEOUT' ? 'CPU_LIMIT_EXCEEDED' : 'EXECUTION_FAILED';
+    finish({ success: false, error: toError(code, error) }, cpuElapsed());
+    return;
+  }
+
+  // Invoke through the context so the synchronous part of the handler is
+  // also subject to the vm timeout. The outcome arrives as a `result`
+  // operation.
+  context.__invoke = sandbox.invoke;
+  try {
+    vm.runInContext('__invoke()', context, runOptions);
+  } catch (error) {
+    const code = (error as any)?.code === 'ERR_SCRIPT_EXECUTION_TIMEOUT' ? 'CPU_LIMIT_EXCEEDED' : 'EXECUTION_FAILED';
+    finish({ success: false, error: toError(code, error) }, cpuElapsed());
+  }
+}
+
+process.on('uncaughtException', (error) => {
+  finish({ success: false, error: toError('EXECUTION_FAILED', error) }, 0);
+});
+
+process.on('unhandledRejection', (reason) => {
+  finish({ success: false, error: toError('EXECUTION_FAILED', reason) }, 0);
+});
+
+// The event loop drained while the handler's promise was still pending
+process.on('beforeExit', () => {
+  finish({
+    success: false,
+    error: { code: 'EXECUTION_FAILED', message: 'Handler finished without settling its result.' },
+  }, 0);
+});
+
+main().catch((error) => {
+  finish({ success: false, error: toError('SANDBOX_ERROR', error) }, 0);
+});
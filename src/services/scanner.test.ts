@@ -0,0 +1,115 @@
+import { describe, expect, test } from 'bun:test';
+import { hasBlockingFindings, scanQuery, scanVersion } from './scanner.js';
+import type { ExtensionFile } from '../types/index.js';
+
+function serverless(content: string, path = 'api/index.js'): ExtensionFile {
+  return { path, content, type: 'serverless' };
+}
+
+function rulesOf(files: ExtensionFile[], permissions: string[] = []): string[] {
+  return scanVersion({ permissions, files }).findings.map((finding) => `${finding.rule}:${finding.severity}`);
+}
+
+describe('scanVersion', () => {
+  test('reports nothing for self-contained code', () => {
+    const report = scanVersion({
+      permissions: [],
+      files: [serverless('exports.list = async ({ db }) => db.query("SELECT * FROM items");')],
+    });
+
+    expect(report.findings).toEqual([]);
+    expect(report.summary).toEqual({ high: 0, medium: 0, low: 0 });
+    expect(hasBlockingFindings(report)).toBe(false);
+  });
+
+  test.each([
+    ['forbidden modules', "const cp = require('node:child_process');", 'FORBIDDEN_MODULE:high'],
+    ['eval', 'eval(input);', 'DYNAMIC_CODE:high'],
+    ['constructor calls', "[].map.constructor('return process')();", 'DYNAMIC_CODE:high'],
+    ['string timers', "setTimeout('run()', 10);", 'DYNAMIC_CODE:high'],
+    ['computed requires', 'require(name);', 'DYNAMIC_IMPORT:medium'],
+    ['native bindings', "process.binding('fs');", 'PROCESS_ACCESS:high'],
+    ['fetch without permission', "fetch('https://example.com');", 'NETWORK_WITHOUT_PERMISSION:high'],
+    ['network modules without permission', "import http from 'http';", 'NETWORK_WITHOUT_PERMISSION:high'],
+    ['unparsable code', 'exports.run = (', 'PARSE_ERROR:high'],
+  ])('reports %s', (_name, code, rule) => {
+    expect(rulesOf([serverless(code)])).toContain(rule);
+  });
+
+  test('allows network access with the network permission', () => {
+    expect(rulesOf([serverless("fetch('https://example.com');")], ['network'])).toEqual([]);
+  });
+
+  test('checks paths given to fs functions', () => {
+    const code = [
+      "const { readFileSync } = require('fs');",
+      "readFileSync('./data.json');",
+      "readFileSync('/tmp/cache.json');",
+      "readFileSync('/etc/passwd');",
+      "readFileSync('../secret');",
+      'readFileSync(name);',
+    ].join('\n');
+
+    expect(scanVersion({ permissions: [], files: [serverless(code)] }).findings.map((finding) => [finding.severity, finding.line])).toEqual([
+      ['high', 4],
+      ['high', 5],
+      ['medium', 6],
+      ['low', 1],
+    ]);
+  });
+
+  test('scans base64 files decoded', () => {
+    const file: ExtensionFile = {
+      ...serverless(Buffer.from("require('child_process').exec('id');").toString('base64')),
+      encoding: 'base64',
+    };
+
+    expect(rulesOf([file])).toContain('FORBIDDEN_MODULE:high');
+  });
+
+  test('scans migration SQL with line numbers', () => {
+    const report = scanVersion({
+      permissions: [],
+      files: [],
+      migrationUp: 'CREATE TABLE items (id int);\nINSERT INTO public.users VALUES (1);\nCREATE ROLE admin;',
+    });
+
+    expect(report.findings.map((finding) => [finding.rule, finding.file, finding.line])).toEqual([
+      ['FOREIGN_SCHEMA', 'migrationUp', 2],
+      ['PRIVILEGED_SQL', 'migrationUp', 3],
+    ]);
+    expect(hasBlockingFindings(report)).toBe(true);
+  });
+
+  test('scans each distinct source once', () => {
+    const code = 'eval(input);';
+    const report = scanVersion({ permissions: [], files: [serverless(code)], serverlessCode: code });
+
+    expect(report.findings.map((finding) => finding.file)).toEqual(['api/index.js']);
+  });
+});
+
+
+describe('scanQuery', () => {
+  test('accepts a single statement on the installation schema', () => {
+    expect(scanQuery('SELECT * FROM items WHERE owner = $1')).toEqual([]);
+  });
+
+  test.each([
+    ['COMMIT; DELETE FROM items'],
+    ['ROLLBACK'],
+    ['BEGIN'],
+    ['SET statement_timeout = 0'],
+    ['RESET ALL'],
+  ])('refuses transaction and session control in %p', (query) => {
+    expect(scanQuery(query).map((finding) => finding.rule)).toContain('SESSION_CONTROL');
+  });
+
+  test('refuses more than one statement', () => {
+    expect(scanQuery('SELECT 1; DELETE FROM items').map((finding) => finding.rule)).toContain('MULTIPLE_STATEMENTS');
+  });
+
+  test('ignores semicolons inside strings', () => {
+    expect(scanQuery("SELECT 'a; COMMIT' AS text")).toEqual([]);
+  });
+});
@@ -0,0 +1,500 @@
+import ts from 'typescript';
+import { NETWORK_PERMISSION, hasNetworkPermission } from './permissions.js';
+import type {
+  ExtensionFile,
+  ScanFinding,
+  ScanMode,
+  ScanReport,
+  ScanRule,
+  ScanSeverity,
+} from '../types/index.js';
+
+// Static analysis of the code a version ships. Component and serverless code
+// is parsed with the TypeScript compiler and checked for forbidden modules,
+// dynamic code, filesystem, process and network access; migration SQL is
+// checked for privileged statements and references to other schemas. The
+// scan never runs any of the code.
+
+export interface ScanInput {
+  // Permissions declared in the manifest's extensionConfig
+  permissions: string[];
+  files: ExtensionFile[];
+  componentCode?: string | null;
+  serverlessCode?: string | null;
+  migrationUp?: string | null;
+  migrationDown?: string | null;
+  manifestMigrations?: { up?: string; down?: string } | null;
+}
+
+const SCAN_MODES: ScanMode[] = ['block', 'quarantine', 'report'];
+
+// Server setting for versions with high-severity findings
+export function getScanMode(): ScanMode {
+  const mode = process.env.SECURITY_SCAN_MODE || 'quarantine';
+  return SCAN_MODES.includes(mode as ScanMode) ? (mode as ScanMode) : 'quarantine';
+}
+
+// Absolute paths extension code may use with fs, besides package-relative ones
+function getAllowedFsPaths(): string[] {
+  return (process.env.SCAN_ALLOWED_FS_PATHS || '/tmp')
+    .split(',')
+    .map((entry) => entry.trim().replace(/\/+$/, ''))
+    .filter(Boolean);
+}
+
+// Modules that give code control over the host process or a new one
+const FORBIDDEN_MODULES = new Set([
+  'child_process', 'cluster', 'worker_threads', 'vm', 'v8', 'inspector', 'module', 'repl', 'wasi',
+]);
+
+const NETWORK_MODULES = new Set([
+  'net', 'http', 'https', 'http2', 'dgram', 'dns', 'tls', 'undici', 'node-fetch', 'axios', 'got', 'ws',
+]);
+
+const NETWORK_GLOBALS = new Set(['fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource']);
+
+// fs functions whose first argument is a file descriptor rather than a path
+const FD_FUNCTIONS = new Set([
+  'close', 'closeSync', 'read', 'readSync', 'write', 'writeSync', 'fstat', 'fstatSync', 'fsync', 'fsyncSync',
+  'fdatasync', 'fdatasyncSync', 'ftruncate', 'ftruncateSync', 'fchmod', 'fchmodSync', 'fchown', 'fchownSync',
+  'futimes', 'futimesSync',
+]);
+
+const PROCESS_MEMBERS: Record<string, ScanSeverity> = {
+  binding: 'high',
+  _linkedBinding: 'high',
+  dlopen: 'high',
+  kill: 'medium',
+  exit: 'medium',
+  abort: 'medium',
+  chdir: 'medium',
+  setuid: 'medium',
+  setgid: 'medium',
+  env: 'low',
+};
+
+const SCRIPT_FILE = /\.(m|c)?[jt]sx?$/;
+
+type Finder = (rule: ScanRule, severity: ScanSeverity, message: string, line?: number) => void;
+
+function isStringLiteral(node: ts.Node | undefined): node is ts.StringLiteral | ts.NoSubstitutionTemplateLiteral {
+  return !!node && (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node));
+}
+
+function getScriptKind(file: string): ts.ScriptKind {
+  if (/\.tsx$/.test(file)) return ts.ScriptKind.TSX;
+  if (/\.(m|c)?ts$/.test(file)) return ts.ScriptKind.TS;
+  return ts.ScriptKind.JSX;
+}
+
+// Check a path given to an fs function: package-relative paths and the
+// allowed absolute paths are fine
+function checkFsPath(node: ts.Expression | undefined, line: number, report: Finder) {
+  if (!node) {
+    return;
+  }
+
+  const allowed = getAllowedFsPaths();
+  const isAllowedAbsolute = (path: string) =>
+    allowed.some((prefix) => path === prefix || path.startsWith(`${prefix}/`));
+
+  if (isStringLiteral(node)) {
+    const path = node.text;
+    if (path.startsWith('/') ? !isAllowedAbsolute(path) : path.split(/[\\/]/).includes('..')) {
+      report('FILESYSTEM_ACCESS', 'high', `Filesystem access outside the allowed paths: ${path}`, line);
+    }
+    return;
+  }
+
+  if (ts.isTemplateExpression(node) && node.head.text.startsWith('/') && isAllowedAbsolute(node.head.text.replace(/\/[^/]*$/, ''))) {
+    return;
+  }
+
+  report('FILESYSTEM_ACCESS', 'medium', 'Filesystem access with a computed path', line);
+}
+
+// Scan one JavaScript or TypeScript source
+function scanScript(file: string, code: string, permissions: string[], findings: ScanFinding[]) {
+  const report: Finder = (rule, severity, message, line) => findings.push({ rule, severity, message, file, line });
+
+  const { diagnostics = [] } = ts.transpileModule(code, {
+    fileName: file,
+    reportDiagnostics: true,
+    compilerOptions: { jsx: ts.JsxEmit.Preserve, allowJs: true },
+  });
+  const syntaxError = diagnostics.find((diagnostic) => diagnostic.category === ts.DiagnosticCategory.Error);
+  if (syntaxError) {
+    const line = syntaxError.file && syntaxError.start !== undefined
+      ? syntaxError.file.getLineAndCharacterOfPosition(syntaxError.start).line + 1
+      : undefined;
+    report('PARSE_ERROR', 'high', `Code could not be parsed: ${ts.flattenDiagnosticMessageText(syntaxError.messageText, ' ')}`, line);
+    return;
+  }
+
+  const source = ts.createSourceFile(file, code, ts.ScriptTarget.Latest, true, getScriptKind(file));
+  const lineOf = (node: ts.Node) => source.getLineAndCharacterOfPosition(node.getStart(source)).line + 1;
+  const hasNetwork = hasNetworkPermission(permissions);
+
+  // Names bound to the fs module, and to functions imported from it
+  const fsModules = new Set<string>();
+  const fsFunctions = new Set<string>();
+  const calls: ts.CallExpression[] = [];
+
+  const checkModule = (specifier: string, node: ts.Node): boolean => {
+    const name = specifier.replace(/^node:/, '');
+    const base = name.startsWith('@') ? name : name.split('/')[0]!;
+
+    if (FORBIDDEN_MODULES.has(base)) {
+      report('FORBIDDEN_MODULE', 'high', `Uses the forbidden module ${specifier}`, lineOf(node));
+    } else if (NETWORK_MODULES.has(base) && !hasNetwork) {
+      report('NETWORK_WITHOUT_PERMISSION', 'high', `Uses the network module ${specifier} without the "${NETWORK_PERMISSION}" permission`, lineOf(node));
+    } else if (base === 'fs') {
+      report('FILESYSTEM_ACCESS', 'low', `Imports ${specifier}`, lineOf(node));
+      return true;
+    }
+    return false;
+  };
+
+  // Record the names a `require('fs')` result is bound to
+  const bindRequire = (name: ts.BindingName | undefined) => {
+    if (!name) return;
+    if (ts.isIdentifier(name)) {
+      fsModules.add(name.text);
+    } else if (ts.isObjectBindingPattern(name)) {
+      name.elements.forEach((element) => {
+        if (ts.isIdentifier(element.name)) {
+          const imported = element.propertyName && ts.isIdentifier(element.propertyName) ? element.propertyName.text : element.name.text;
+          (imported === 'promises' ? fsModules : fsFunctions).add(element.name.text);
+        }
+      });
+    }
+  };
+
+  const visit = (node: ts.Node) => {
+    if (ts.isImportDeclaration(node) && isStringLiteral(node.moduleSpecifier)) {
+      const isFs = checkModule(node.moduleSpecifier.text, node);
+      const clause = node.importClause;
+      if (isFs && clause) {
+        if (clause.name) fsModules.add(clause.name.text);
+        if (clause.namedBindings && ts.isNamespaceImport(clause.namedBindings)) {
+          fsModules.add(clause.namedBindings.name.text);
+        } else if (clause.namedBindings) {
+          clause.namedBindings.elements.forEach((element) => {
+            const imported = (element.propertyName ?? element.name).text;
+            (imported === 'promises' || imported === 'default' ? fsModules : fsFunctions).add(element.name.text);
+          });
+        }
+      }
+    } else if (ts.isExportDeclaration(node) && isStringLiteral(node.moduleSpecifier)) {
+      checkModule(node.moduleSpecifier.text, node);
+    } else if (
+      ts.isImportEqualsDeclaration(node) &&
+      ts.isExternalModuleReference(node.moduleReference) &&
+      isStringLiteral(node.moduleReference.expression)
+    ) {
+      if (checkModule(node.moduleReference.expression.text, node)) {
+        fsModules.add(node.name.text);
+      }
+    } else if (ts.isCallExpression(node)) {
+      const callee = node.expression;
+      const [firstArgument] = node.arguments;
+      const isRequire = ts.isIdentifier(callee) && callee.text === 'require';
+
+      if (isRequire || callee.kind === ts.SyntaxKind.ImportKeyword) {
+        if (!isStringLiteral(firstArgument)) {
+          report('DYNAMIC_IMPORT', 'medium', 'Loads a module whose name is computed at runtime', lineOf(node));
+        } else if (checkModule(firstArgument.text, node) && isRequire) {
+          let parent = node.parent;
+          while (ts.isAsExpression(parent) || ts.isParenthesizedExpression(parent)) parent = parent.parent;
+          if (ts.isVariableDeclaration(parent)) bindRequire(parent.name);
+          if (ts.isPropertyAccessExpression(parent) && ts.isVariableDeclaration(parent.parent) && ts.isIdentifier(parent.parent.name)) {
+            (parent.name.text === 'promises' ? fsModules : fsFunctions).add(parent.parent.name.text);
+          }
+        }
+      } else if (ts.isIdentifier(callee) && (callee.text === 'eval' || callee.text === 'Function')) {
+        report('DYNAMIC_CODE', 'high', `Evaluates code at runtime with ${callee.text}()`, lineOf(node));
+      } else if (
+        ts.isIdentifier(callee) &&
+        ['setTimeout', 'setInterval', 'setImmediate'].includes(callee.text) &&
+        firstArgument &&
+        (isStringLiteral(firstArgument) || ts.isTemplateExpression(firstArgument))
+      ) {
+        report('DYNAMIC_CODE', 'high', `Evaluates a string as code with ${callee.text}()`, lineOf(node));
+      } else if (ts.isPropertyAccessExpression(callee) && callee.name.text === 'constructor') {
+        report('DYNAMIC_CODE', 'high', 'Calls a constructor reached through .constructor, which can evaluate code', lineOf(node));
+      } else if (
+        ts.isPropertyAccessExpression(callee) &&
+        ts.isIdentifier(callee.expression) &&
+        callee.expression.text === 'WebAssembly'
+      ) {
+        report('DYNAMIC_CODE', 'medium', `Compiles WebAssembly with WebAssembly.${callee.name.text}()`, lineOf(node));
+      }
+
+      calls.push(node);
+    } else if (ts.isNewExpression(node) && ts.isIdentifier(node.expression) && node.expression.text === 'Function') {
+      report('DYNAMIC_CODE', 'high', 'Evaluates code at runtime with new Function()', lineOf(node));
+    } else if (
+      ts.isPropertyAccessExpression(node) &&
+      ts.isIdentifier(node.expression) &&
+      node.expression.text === 'process' &&
+      Object.hasOwn(PROCESS_MEMBERS, node.name.text)
+    ) {
+      report('PROCESS_ACCESS', PROCESS_MEMBERS[node.name.text]!, `Uses process.${node.name.text}`, lineOf(node));
+    }
+
+    // Network globals, called directly or through globalThis/window/self
+    if (!hasNetwork && (ts.isCallExpression(node) || ts.isNewExpression(node))) {
+      const callee = node.expression;
+      const name = ts.isIdentifier(callee)
+        ? callee.text
+        : ts.isPropertyAccessExpression(callee) &&
+            ts.isIdentifier(callee.expression) &&
+            ['globalThis', 'window', 'self'].includes(callee.expression.text)
+          ? callee.name.text
+          : ts.isPropertyAccessExpression(callee) &&
+              ts.isIdentifier(callee.expression) &&
+              callee.expression.text === 'navigator' &&
+              callee.name.text === 'sendBeacon'
+            ? 'navigator.sendBeacon'
+            : null;
+      if (name && (NETWORK_GLOBALS.has(name) || name === 'navigator.sendBeacon')) {
+        report('NETWORK_WITHOUT_PERMISSION', 'high', `Uses ${name} without the "${NETWORK_PERMISSION}" permission`, lineOf(node));
+      }
+    }
+
+    ts.forEachChild(node, visit);
+  };
+
+  visit(source);
+
+  // fs calls are checked once every binding is known
+  calls.forEach((call) => {
+    const callee = call.expression;
+    let functionName: string | null = null;
+
+    if (ts.isIdentifier(callee) && fsFunctions.has(callee.text)) {
+      functionName = callee.text;
+    } else if (ts.isPropertyAccessExpression(callee)) {
+      let root: ts.Expression = callee.expression;
+      // fs.promises.readFile(...)
+      if (ts.isPropertyAccessExpression(root) && root.name.text === 'promises') root = root.expression;
+      if (ts.isIdentifier(root) && fsModules.has(root.text)) functionName = callee.name.text;
+    }
+
+    if (functionName && !FD_FUNCTIONS.has(functionName)) {
+      checkFsPath(call.arguments[0], lineOf(call), report);
+    }
+  });
+}
+
+// Blank out SQL comments and the contents of string literals, keeping every
+// character's offset so line numbers still match the original
+function blankSql(sql: string): string {
+  let result = '';
+  let index = 0;
+
+  while (index < sql.length) {
+    const rest = sql.slice(index);
+    const match = rest.startsWith('--')
+      ? /^--[^\n]*/.exec(rest)
+      : rest.startsWith('/*')
+        ? /^\/\*[\s\S]*?(\*\/|$)/.exec(rest)
+        : rest.startsWith("'")
+          ? /^'(?:[^']|'')*('|$)/.exec(rest)
+          : null;
+
+    if (!match) {
+      result += sql[index];
+      index += 1;
+      continue;
+    }
+
+    const text = match[0];
+    const blanked = text.replace(/[^\n]/g, ' ');
+    // Keep the quotes so statements can still tell a string was there
+    result += text.startsWith("'") ? `'${blanked.slice(1, -1)}${text.length > 1 ? "'" : ''}` : blanked;
+    index += text.length;
+  }
+
+  return result;
+}
+
+const IDENTIFIER = String.raw`(?:"[^"]+"|[A-Za-z_][\w$]*)`;
+
+const PRIVILEGED_SQL: { pattern: RegExp; message: string }[] = [
+  {
+    pattern: /\b(CREATE|ALTER|DROP)\s+(SCHEMA|DATABASE|ROLE|USER|GROUP|EXTENSION|TABLESPACE|SERVER|FOREIGN\s+DATA\s+WRAPPER|EVENT\s+TRIGGER|PUBLICATION|SUBSCRIPTION|LANGUAGE)\b/i,
+    message: 'Creates or changes database-level objects',
+  },
+  { pattern: /^\s*(GRANT|REVOKE)\b/i, message: 'Changes privileges' },
+  { pattern: /^\s*(SET|RESET)\s+(SESSION\s+|LOCAL\s+)?(search_path|ROLE|SESSION\s+AUTHORIZATION)\b/i, message: 'Changes the search path or role' },
+  { pattern: /\bALTER\s+SYSTEM\b/i, message: 'Changes server configuration' },
+  { pattern: /^\s*LOAD\b/i, message: 'Loads a shared library' },
+  { pattern: /\bCOPY\b[\s\S]*?\b(FROM|TO)\s+(PROGRAM\b|')/i, message: 'Copies data to or from a server file or program' },
+  {
+    pattern: /\b(pg_read_file|pg_read_binary_file|pg_ls_dir|pg_stat_file|lo_import|lo_export|dblink\w*|pg_terminate_backend|pg_cancel_backend|pg_reload_conf|set_config)\s*\(/i,
+    message: 'Calls a privileged server function',
+  },
+  { pattern: /\bLANGUAGE\s+(c|internal|plpythonu|plpython3u|plperlu|pltclu)\b/i, message: 'Defines a function in an untrusted language' },
+];
+
+// Keywords followed by the name of a table or other schema object
+const OBJECT_REFERENCE = new RegExp(
+  String.raw`\b(FROM|JOIN|INTO|UPDATE|TABLE|REFERENCES|ON|INDEX|VIEW|SEQUENCE|FUNCTION|PROCEDURE|TRIGGER|TYPE|DOMAIN|EXISTS|ONLY|TRUNCATE)\s+(${IDENTIFIER})\s*\.\s*(${IDENTIFIER})`,
+  'gi'
+);
+
+// Names a statement declares itself: tables and their aliases, and CTEs
+const DECLARED_NAME = new RegExp(
+  String.raw`\b(?:FROM|JOIN|UPDATE|INTO|TABLE|EXISTS|ONLY)\s+(?:${IDENTIFIER}\s*\.\s*)?(${IDENTIFIER})(?:\s+(?:AS\s+)?(${IDENTIFIER}))?|(${IDENTIFIER})\s+AS\s*\(`,
+  'gi'
+);
+
+const SQL_KEYWORDS = new Set(['where', 'on', 'using', 'set', 'join', 'left', 'right', 'inner', 'outer', 'full', 'cross', 'values', 'select', 'group', 'order', 'limit', 'returning', 'as']);
+
+function unquote(identifier: string): string {
+  return identifier.startsWith('"') ? identifier.slice(1, -1) : identifier.toLowerCase();
+}
+
+// Scan one SQL script. Migrations run as the installation's role with only its
+// schema on the search path, so they should only use unqualified names. The
+// role's permissions are what keep them there; this is a lint that reports
+// SQL that would fail or reach further than intended.
+function scanSql(file: string, sql: string, findings: ScanFinding[]) {
+  const blanked = blankSql(sql);
+  const lineAt = (offset: number) => sql.slice(0, offset).split('\n').length;
+
+  let offset = 0;
+  for (const statement of blanked.split(';')) {
+    const start = offset + (statement.length - statement.trimStart().length);
+    offset += statement.length + 1;
+    if (!statement.trim()) {
+      continue;
+    }
+
+    const report = (rule: ScanRule, severity: ScanSeverity, message: string, index = 0) =>
+      findings.push({ rule, severity, message, file, line: lineAt(start + index) });
+    const text = statement.trimStart();
+
+    PRIVILEGED_SQL.forEach(({ pattern, message }) => {
+      const match = pattern.exec(text);
+      if (match) {
+        report('PRIVILEGED_SQL', 'high', `${message}: ${match[0].trim().replace(/\s+/g, ' ').replace(/\s*'$/, '')}`, match.index);
+      }
+    });
+
+    const dynamic = /\bDO\s*(\$\w*\$|LANGUAGE\b)|\bEXECUTE\b(?!\s+(FUNCTION|PROCEDURE)\b)/i.exec(text);
+    if (dynamic) {
+      report('DYNAMIC_SQL', 'medium', 'Runs dynamically built SQL, which cannot be checked', dynamic.index);
+    }
+
+    const declared = new Set<string>();
+    for (const match of text.matchAll(DECLARED_NAME)) {
+      [match[1], match[2], match[3]]
+        .filter((name): name is string => !!name && !SQL_KEYWORDS.has(name.toLowerCase()))
+        .forEach((name) => declared.add(unquote(name)));
+    }
+
+    // In queries ON introduces join conditions, which use table aliases
+    const isQuery = /^(SELECT|INSERT|UPDATE|DELETE|WITH)\b/i.test(text);
+    for (const match of text.matchAll(OBJECT_REFERENCE)) {
+      const keyword = match[1]!.toUpperCase();
+      const schema = unquote(match[2]!);
+      if ((keyword === 'ON' && isQuery) || declared.has(schema)) {
+        continue;
+      }
+      report(
+        'FOREIGN_SCHEMA',
+        'high',
+        `References ${schema}.${unquote(match[3]!)} outside the extension's own schema`,
+        match.index
+      );
+    }
+  }
+}
+
+function summarize(findings: ScanFinding[]): ScanReport['summary'] {
+  return findings.reduce(
+    (summary, finding) => ({ ...summary, [finding.severity]: summary[finding.severity] + 1 }),
+    { high: 0, medium: 0, low: 0 }
+  );
+}
+
+// Scan everything a version would run. Each distinct source is scanned once,
+// under the first name it appears with.
+export function scanVersion(input: ScanInput): ScanReport {
+  const scripts = new Map<string, string>();
+  const sqlSources = new Map<string, string>();
+
+  // Base64 files are scanned decoded, since that is how they are run
+  input.files
+    .filter((file) => typeof file.content === 'string')
+    .forEach((file) => {
+      const content = file.encoding === 'base64' ? Buffer.from(file.content, 'base64').toString('utf8') : file.content;
+      if ((file.type === 'component' || file.type === 'serverless') && SCRIPT_FILE.test(file.path)) {
+        if (!scripts.has(content)) scripts.set(content, file.path);
+      } else if (file.type === 'migration' || file.path.endsWith('.sql')) {
+        if (!sqlSources.has(content)) sqlSources.set(content, file.path);
+      }
+    });
+
+  const addSource = (sources: Map<string, string>, name: string, code?: string | null) => {
+    if (code?.trim() && !sources.has(code)) sources.set(code, name);
+  };
+  addSource(scripts, 'componentCode.tsx', input.componentCode);
+  addSource(scripts, 'serverlessCode.ts', input.serverlessCode);
+  addSource(sqlSources, 'migrationUp', input.migrationUp);
+  addSource(sqlSources, 'migrationDown', input.migrationDown);
+  addSource(sqlSources, 'manifest.extensionConfig.database.migrations.up', input.manifestMigrations?.up);
+  addSource(sqlSources, 'manifest.extensionConfig.database.migrations.down', input.manifestMigrations?.down);
+
+  const findings: ScanFinding[] = [];
+  scripts.forEach((file, code) => scanScript(file, code, input.permissions, findings));
+  sqlSources.forEach((file, sql) => scanSql(file, sql, findings));
+
+  const severityOrder: ScanSeverity[] = ['high', 'medium', 'low'];
+  findings.sort((a, b) => severityOrder.indexOf(a.severity) - severityOrder.indexOf(b.severity));
+
+  return {
+    scannedAt: new Date().toISOString(),
+    findings,
+    summary: summarize(findings),
+  };
+}
+
+// Statements that end the query's transaction or change its settings
+const SESSION_CONTROL = /^\s*(BEGIN|START\s+TRANSACTION|COMMIT|END|ROLLBACK|ABORT|SAVEPOINT|RELEASE|PREPARE\s+TRANSACTION|SET|RESET|DISCARD)\b/i;
+
+// Check a query an extension handler runs through `context.db`. Queries are
+// held to the migration rules, and dynamic SQL is refused as well. A query is
+// a single statement that may not control its transaction or session, since
+// those carry the read-only mode and timeout. Like scanSql() this is a lint:
+// the query runs as the installation's role, one statement at a time, either
+// way.
+export function scanQuery(sql: string): ScanFinding[] {
+  const findings: ScanFinding[] = [];
+  scanSql('query', sql, findings);
+
+  const statements = blankSql(sql).split(';').filter((statement) => statement.trim());
+  if (statements.length > 1) {
+    findings.push({ rule: 'MULTIPLE_STATEMENTS', severity: 'high', message: 'Runs more than one statement', file: 'query' });
+  }
+  statements.forEach((statement) => {
+    const match = SESSION_CONTROL.exec(statement);
+    if (match) {
+      findings.push({
+        rule: 'SESSION_CONTROL',
+        severity: 'high',
+        message: `Controls the transaction or session: ${match[1]!.replace(/\s+/g, ' ').toUpperCase()}`,
+        file: 'query',
+      });
+    }
+  });
+
+  return findings.filter((finding) => finding.severity === 'high' || finding.rule === 'DYNAMIC_SQL');
+}
+
+// Whether a report has findings that keep a version from being published
+export function hasBlockingFindings(report: ScanReport): boolean {
+  return report.summary.high > 0;
+}
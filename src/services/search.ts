@@ -0,0 +1,304 @@
+import { and, asc, count, desc, eq, inArray, isNotNull, or, sql, type SQL } from 'drizzle-orm';
+import { db } from '../db/connection.js';
+import { extensions, extensionSearchDocument, users } from '../db/schema.js';
+import type { ExtensionFacet, ExtensionFacets, FacetBucket, Suggestion } from '../types/index.js';
+
+// Full-text search over extensions. Queries are parsed with
+// websearch_to_tsquery (quoted phrases, `or`, `-term`) and matched against
+// the weighted document the GIN index is built on, so searches use the index
+// and Postgres keeps it current on every write. Suggestions are typo-tolerant
+// instead, matching by trigram word similarity (pg_trgm).
+
+const SEARCH_INDEX = 'extensions_search_idx';
+
+// Most frequent values returned per facet
+const FACET_LIMIT = 20;
+
+// Minimum star ratings counted by the rating facet
+const RATING_BUCKETS = [4, 3, 2, 1];
+
+// Suggestions are the same for every caller, so they are cached in memory
+export const SUGGEST_CACHE_SECONDS = 60;
+const SUGGEST_CACHE_SIZE = 1000;
+
+// Order of suggestion types with the same score
+const SUGGESTION_TYPES: Suggestion['type'][] = ['extension', 'tag', 'author'];
+
+// ts_headline options for snippets. Source text is escaped afterwards, so
+// only these markers end up as markup.
+const HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "';
+
+export const searchDocument = extensionSearchDocument(extensions);
+
+export function toSearchQuery(query: string): SQL {
+  return sql`websearch_to_tsquery('english', ${query})`;
+}
+
+export function matchesSearch(query: string): SQL {
+  return sql`${searchDocument} @@ ${toSearchQuery(query)}`;
+}
+
+// Cover density rank, normalized by document length so long descriptions do
+// not win by repetition
+export function searchRank(query: string): SQL<number> {
+  return sql<number>`ts_rank_cd(${searchDocument}, ${toSearchQuery(query)}, 1)`;
+}
+
+// Highlighted name and description snippet of a matching extension
+export function searchHighlights(query: string) {
+  return {
+    name: sql<string>`ts_headline('english', coalesce(${extensions.displayName}, ${extensions.name}), ${toSearchQuery(query)}, 'HighlightAll=true, StartSel=<mark>, StopSel=</mark>')`,
+    snippet: sql<string>`ts_headline('english', concat_ws(' ', ${extensions.description}, ${extensions.longDescription}), ${toSearchQuery(query)}, ${HEADLINE_OPTIONS})`,
+  };
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// HTML-escape a headline, keeping only its <mark> highlights as markup
+export function formatHighlight(headline: string | null): string | null {
+  if (headline === null) {
+    return null;
+  }
+  return escapeHtml(headline).replace(/&lt;(\/?)mark&gt;/g, '<$1mark>');
+}
+
+// Filter conditions that have a facet of their own, keyed by that facet
+export type FacetFilters = Partial<Record<ExtensionFacet, SQL>>;
+
+async function countFacet(facet: ExtensionFacet, where: SQL): Promise<FacetBucket[]> {
+  switch (facet) {
+    case 'category':
+    case 'license': {
+      const column = facet === 'category' ? extensions.category : extensions.license;
+      const rows = await db
+        .select({ value: column, count: count() })
+        .from(extensions)
+        .where(and(where, isNotNull(column)))
+        .groupBy(column)
+        .orderBy(desc(count()), asc(column))
+        .limit(FACET_LIMIT);
+      return rows.map((row) => ({ value: row.value!, count: row.count }));
+    }
+    case 'tag': {
+      const rows = await db.execute<{ value: string; count: number }>(sql`
+        SELECT tag AS value, count(*)::int AS count
+        FROM ${extensions}
+        CROSS JOIN LATERAL jsonb_array_elements_text(coalesce(${extensions.tags}, '[]'::jsonb)) AS tag
+        WHERE ${where}
+        GROUP BY tag
+        ORDER BY count DESC, tag
+        LIMIT ${FACET_LIMIT}
+      `);
+      return rows.map((row) => ({ value: row.value, count: row.count }));
+    }
+    case 'author': {
+      const rows = await db
+        .select({ value: users.username, label: users.displayName, count: count() })
+        .from(extensions)
+        .innerJoin(users, eq(extensions.authorId, users.id))
+        .where(where)
+        .groupBy(users.id)
+        .orderBy(desc(count()), asc(users.username))
+        .limit(FACET_LIMIT);
+      return rows.map((row) => ({ value: row.value, label: row.label || row.value, count: row.count }));
+    }
+    case 'rating': {
+      // Buckets are cumulative: "4" counts everything rated 4 stars and up
+      const [row] = await db
+        .select(Object.fromEntries(RATING_BUCKETS.map((stars) => [
+          stars,
+          sql<number>`(count(*) filter (where ${extensions.rating} >= ${stars * 100}))::int`,
+        ])))
+        .from(extensions)
+        .where(where);
+      return RATING_BUCKETS.map((stars) => ({ value: String(stars), count: Number(row?.[stars] ?? 0) }));
+    }
+  }
+}
+
+// Counts for each requested facet under the current filters. A facet ignores
+// its own filter, so the other values stay visible once one is selected.
+export async function getExtensionFacets(
+  requested: ExtensionFacet[],
+  conditions: SQL[],
+  filters: FacetFilters
+): Promise<ExtensionFacets> {
+  const facets = [...new Set(requested)];
+  const buckets = await Promise.all(
+    facets.map((facet) => {
+      const otherFilters = Object.entries(filters)
+        .filter(([name, filter]) => name !== facet && filter)
+        .map(([, filter]) => filter!);
+      return countFacet(facet, and(...conditions, ...otherFilters) ?? sql`true`);
+    })
+  );
+  return Object.fromEntries(facets.map((facet, index) => [facet, buckets[index]]));
+}
+
+// Longest run of characters the text and word share, case-insensitively
+function longestCommonSubstring(text: string, word: string): { start: number; length: number } {
+  let best = { start: 0, length: 0 };
+  let previous = new Array<number>(word.length + 1).fill(0);
+  for (let i = 1; i <= text.length; i++) {
+    const current = new Array<number>(word.length + 1).fill(0);
+    for (let j = 1; j <= word.length; j++) {
+      if (text[i - 1]!.toLowerCase() === word[j - 1]!.toLowerCase()) {
+        current[j] = previous[j - 1]! + 1;
+        if (current[j]! > best.length) {
+          best = { start: i - current[j]!, length: current[j]! };
+        }
+      }
+    }
+    previous = current;
+  }
+  return best;
+}
+
+// HTML-escape a label and wrap what each query word matches in <mark>. A word
+// marks the longest part it shares with the label, so a typo still highlights
+// what was typed right.
+export function highlightMatch(label: string, query: string): string {
+  const marked = new Array<boolean>(label.length).fill(false);
+  for (const word of query.split(/\s+/).filter(Boolean)) {
+    const match = longestCommonSubstring(label, word);
+    if (match.length >= 2) {
+      marked.fill(true, match.start, match.start + match.length);
+    }
+  }
+
+  let highlighted = '';
+  let inMark = false;
+  for (let i = 0; i < label.length; i++) {
+    if (marked[i] !== inMark) {
+      inMark = marked[i]!;
+      highlighted += inMark ? '<mark>' : '</mark>';
+    }
+    highlighted += escapeHtml(label[i]!);
+  }
+  return inMark ? `${highlighted}</mark>` : highlighted;
+}
+
+// Suggestions only ever cover published, public extensions
+const isListed = and(eq(extensions.status, 'published'), eq(extensions.isPublic, true))!;
+
+async function suggestExtensions(query: string, limit: number): Promise<Suggestion[]> {
+  const score = sql<number>`greatest(word_similarity(${query}, ${extensions.name}), word_similarity(${query}, coalesce(${extensions.displayName}, '')))`;
+  const rows = await db
+    .select({
+      id: extensions.id,
+      slug: extensions.slug,
+      name: extensions.name,
+      displayName: extensions.displayName,
+      score,
+    })
+    .from(extensions)
+    .where(and(isListed, or(sql`${query} <% ${extensions.name}`, sql`${query} <% ${extensions.displayName}`)))
+    .orderBy(desc(score), desc(extensions.downloadCount))
+    .limit(limit);
+
+  return rows.map((row) => ({
+    type: 'extension',
+    value: row.slug,
+    label: row.displayName || row.name,
+    highlight: highlightMatch(row.displayName || row.name, query),
+    score: Number(row.score),
+    extensionId: row.id,
+  }));
+}
+
+async function suggestTags(query: string, limit: number): Promise<Suggestion[]> {
+  const rows = await db.execute<{ tag: string; score: number }>(sql`
+    SELECT tag, word_similarity(${query}, tag) AS score
+    FROM ${extensions}
+    CROSS JOIN LATERAL jsonb_array_elements_text(coalesce(${extensions.tags}, '[]'::jsonb)) AS tag
+    WHERE ${isListed} AND ${query} <% tag
+    GROUP BY tag
+    ORDER BY score DESC, count(*) DESC
+    LIMIT ${limit}
+  `);
+
+  return rows.map((row) => ({
+    type: 'tag',
+    value: row.tag,
+    label: row.tag,
+    highlight: highlightMatch(row.tag, query),
+    score: Number(row.score),
+  }));
+}
+
+async function suggestAuthors(query: string, limit: number): Promise<Suggestion[]> {
+  const score = sql<number>`word_similarity(${query}, ${users.username})`;
+  const rows = await db
+    .select({ username: users.username, score })
+    .from(users)
+    .where(and(
+      sql`${query} <% ${users.username}`,
+      eq(users.isActive, true),
+      inArray(users.id, db.select({ id: extensions.authorId }).from(extensions).where(isListed))
+    ))
+    .orderBy(desc(score), asc(users.username))
+    .limit(limit);
+
+  return rows.map((row) => ({
+    type: 'author',
+    value: row.username,
+    label: row.username,
+    highlight: highlightMatch(row.username, query),
+    score: Number(row.score),
+  }));
+}
+
+const suggestionCache = new Map<string, { expiresAt: number; suggestions: Suggestion[] }>();
+
+// Extension, tag and author suggestions for a partial query, best match first
+export async function getSuggestions(query: string, limit: number): Promise<Suggestion[]> {
+  const normalized = query.trim().replace(/\s+/g, ' ').toLowerCase();
+  const key = `${limit}:${normalized}`;
+
+  const cached = suggestionCache.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.suggestions;
+  }
+
+  const groups = await Promise.all([
+    suggestExtensions(normalized, limit),
+    suggestTags(normalized, limit),
+    suggestAuthors(normalized, limit),
+  ]);
+  const suggestions = groups
+    .flat()
+    .map((suggestion) => ({ ...suggestion, score: Math.round(suggestion.score * 1000) / 1000 }))
+    .sort((a, b) => b.score - a.score || SUGGESTION_TYPES.indexOf(a.type) - SUGGESTION_TYPES.indexOf(b.type))
+    .slice(0, limit);
+
+  // Drop the oldest entry once full; Maps iterate in insertion order
+  suggestionCache.delete(key);
+  if (suggestionCache.size >= SUGGEST_CACHE_SIZE) {
+    suggestionCache.delete(suggestionCache.keys().next().value!);
+  }
+  suggestionCache.set(key, { expiresAt: Date.now() + SUGGEST_CACHE_SECONDS * 1000, suggestions });
+
+  return suggestions;
+}
+
+// Rebuild the search index from the current rows and refresh the planner
+// statistics for it
+export async function rebuildSearchIndex(): Promise<{ index: string; documents: number; durationMs: number }> {
+  const startedAt = performance.now();
+
+  await db.execute(sql.raw(`REINDEX INDEX CONCURRENTLY ${SEARCH_INDEX}`));
+  await db.execute(sql`ANALYZE extensions`);
+  const result = await db.execute<{ documents: number }>(sql`SELECT count(*)::int AS documents FROM extensions`);
+
+  return {
+    index: SEARCH_INDEX,
+    documents: result[0]?.documents ?? 0,
+    durationMs: Math.round(performance.now() - startedAt),
+  };
+}
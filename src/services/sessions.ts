@@ -0,0 +1,215 @@
+import { createHash, randomBytes } from 'crypto';
+import { and, desc, eq, gt, isNull, ne } from 'drizzle-orm';
+import { db } from '../db/connection.js';
+import { refreshTokens, userSessions } from '../db/schema.js';
+
+// Server-side login sessions. A session owns a family of opaque refresh
+// tokens: every refresh rotates the token, and presenting a token that was
+// already rotated revokes the whole session, since either the client or an
+// attacker holds a stolen copy.
+
+export type UserSession = typeof userSessions.$inferSelect;
+
+export interface SessionMetadata {
+  userAgent?: string | null;
+  ipAddress?: string | null;
+  deviceName?: string | null;
+}
+
+export type SessionRevokeReason = 'logout' | 'user_revoked' | 'token_reuse' | 'password_reset';
+
+export type SessionErrorCode =
+  | 'INVALID_REFRESH_TOKEN'
+  | 'REFRESH_TOKEN_REUSED'
+  | 'SESSION_REVOKED'
+  | 'SESSION_EXPIRED';
+
+export class SessionError extends Error {
+  constructor(public code: SessionErrorCode, message: string) {
+    super(message);
+    this.name = 'SessionError';
+  }
+}
+
+// Refresh tokens (and their sessions) stay valid for this long after last use
+export const REFRESH_TOKEN_TTL = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30') * 24 * 60 * 60 * 1000;
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+async function addRefreshToken(sessionId: string): Promise<string> {
+  const token = randomBytes(32).toString('base64url');
+  await db.insert(refreshTokens).values({ sessionId, tokenHash: hashToken(token) });
+  return token;
+}
+
+function cleanMetadata(metadata: SessionMetadata) {
+  return {
+    userAgent: metadata.userAgent?.slice(0, 500) || null,
+    ipAddress: metadata.ipAddress?.slice(0, 45) || null,
+  };
+}
+
+// Start a session for a user and issue its first refresh token
+export async function createSession(
+  userId: string,
+  metadata: SessionMetadata
+): Promise<{ session: UserSession; refreshToken: string }> {
+  const [session] = await db
+    .insert(userSessions)
+    .values({
+      userId,
+      ...cleanMetadata(metadata),
+      deviceName: metadata.deviceName?.slice(0, 100) || null,
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL),
+    })
+    .returning();
+
+  if (!session) {
+    throw new Error('Failed to create session');
+  }
+
+  return { session, refreshToken: await addRefreshToken(session.id) };
+}
+
+// Exchange a refresh token for a new one. The presented token is marked as
+// rotated in a single conditional update, so two concurrent refreshes with
+// the same token cannot both succeed.
+export async function rotateRefreshToken(
+  token: string,
+  metadata: SessionMetadata
+): Promise<{ session: UserSession; refreshToken: string }> {
+  const tokenHash = hashToken(token);
+
+  const [rotated] = await db
+    .update(refreshTokens)
+    .set({ rotatedAt: new Date() })
+    .where(and(eq(refreshTokens.tokenHash, tokenHash), isNull(refreshTokens.rotatedAt)))
+    .returning({ sessionId: refreshTokens.sessionId });
+
+  if (!rotated) {
+    const [existing] = await db
+      .select({ sessionId: refreshTokens.sessionId })
+      .from(refreshTokens)
+      .where(eq(refreshTokens.tokenHash, tokenHash))
+      .limit(1);
+
+    if (existing) {
+      await revokeSession(existing.sessionId, 'token_reuse');
+      throw new SessionError(
+        'REFRESH_TOKEN_REUSED',
+        'Refresh token has already been used. The session has been revoked; please log in again.'
+      );
+    }
+
+    throw new SessionError('INVALID_REFRESH_TOKEN', 'Invalid refresh token.');
+  }
+
+  const [session] = await db
+    .select()
+    .from(userSessions)
+    .where(eq(userSessions.id, rotated.sessionId))
+    .limit(1);
+
+  if (!session || session.revokedAt) {
+    throw new SessionError('SESSION_REVOKED', 'Session has been revoked. Please log in again.');
+  }
+  if (session.expiresAt.getTime() <= Date.now()) {
+    throw new SessionError('SESSION_EXPIRED', 'Session has expired. Please log in again.');
+  }
+
+  const [updated] = await db
+    .update(userSessions)
+    .set({
+      ...cleanMetadata(metadata),
+      lastUsedAt: new Date(),
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL),
+    })
+    .where(eq(userSessions.id, session.id))
+    .returning();
+
+  return { session: updated || session, refreshToken: await addRefreshToken(session.id) };
+}
+
+// Check that a session referenced by an access token is still usable
+export async function isSessionActive(sessionId: string): Promise<boolean> {
+  const [session] = await db
+    .select({ id: userSessions.id })
+    .from(userSessions)
+    .where(
+      and(
+        eq(userSessions.id, sessionId),
+        isNull(userSessions.revokedAt),
+        gt(userSessions.expiresAt, new Date())
+      )
+    )
+    .limit(1);
+
+  return Boolean(session);
+}
+
+// Revoke a session. Returns false when it does not exist or is already revoked.
+export async function revokeSession(
+  sessionId: string,
+  reason: SessionRevokeReason,
+  userId?: string
+): Promise<boolean> {
+  const revoked = await db
+    .update(userSessions)
+    .set({ revokedAt: new Date(), revokedReason: reason })
+    .where(
+      and(
+        eq(userSessions.id, sessionId),
+        isNull(userSessions.revokedAt),
+        userId ? eq(userSessions.userId, userId) : undefined
+      )
+    )
+    .returning({ id: userSessions.id });
+
+  return revoked.length > 0;
+}
+
+// Revoke all of a user's sessions, optionally keeping one (the caller's own)
+export async function revokeUserSessions(
+  userId: string,
+  reason: SessionRevokeReason,
+  exceptSessionId?: string
+): Promise<number> {
+  const revoked = await db
+    .update(userSessions)
+    .set({ revokedAt: new Date(), revokedReason: reason })
+    .where(
+      and(
+        eq(userSessions.userId, userId),
+        isNull(userSessions.revokedAt),
+        exceptSessionId ? ne(userSessions.id, exceptSessionId) : undefined
+      )
+    )
+    .returning({ id: userSessions.id });
+
+  return revoked.length;
+}
+
+// A user's sessions that can still be refreshed, most recently used first
+export async function listActiveSessions(userId: string) {
+  return db
+    .select({
+      id: userSessions.id,
+      userAgent: userSessions.userAgent,
+      ipAddress: userSessions.ipAddress,
+      deviceName: userSessions.deviceName,
+      lastUsedAt: userSessions.lastUsedAt,
+      expiresAt: userSessions.expiresAt,
+      createdAt: userSessions.createdAt,
+    })
+    .from(userSessions)
+    .where(
+      and(
+        eq(userSessions.userId, userId),
+        isNull(userSessions.revokedAt),
+        gt(userSessions.expiresAt, new Date())
+      )
+    )
+    .orderBy(desc(userSessions.lastUsedAt));
+}
@@ -0,0 +1,113 @@
+import { describe, expect, test } from 'bun:test';
+import { generateKeyPairSync, sign } from 'crypto';
+import {
+  computeContentDigest,
+  getSignatureStatus,
+  getStoredContentDigest,
+  isAllowedByPolicy,
+  parsePublicKey,
+  SigningError,
+  verifyDigestSignature,
+} from './signing.js';
+
+const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+const publicKeyPem = publicKey.export({ format: 'pem', type: 'spki' }).toString();
+
+const content = {
+  version: '1.0.0',
+  files: [{ path: 'index.js', content: 'exports.run = () => 1;', type: 'serverless' }],
+  manifest: { name: 'hello', version: '1.0.0' },
+};
+const digest = computeContentDigest(content);
+
+function signDigest(hexDigest: string): string {
+  return sign(null, Buffer.from(hexDigest, 'hex'), privateKey).toString('base64');
+}
+
+describe('parsePublicKey', () => {
+  test('accepts PEM and raw base64 keys with the same fingerprint', () => {
+    const raw = publicKey.export({ format: 'der', type: 'spki' }).subarray(-32).toString('base64');
+
+    const fromPem = parsePublicKey(publicKeyPem);
+    const fromRaw = parsePublicKey(raw);
+
+    expect(fromRaw).toEqual(fromPem);
+    expect(fromPem.fingerprint).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  test.each([
+    ['garbage', 'not a key'],
+    ['a short raw key', Buffer.alloc(16).toString('base64')],
+    ['an RSA key', generateKeyPairSync('rsa', { modulusLength: 1024 }).publicKey.export({ format: 'pem', type: 'spki' }).toString()],
+  ])('refuses %s', (_name, input) => {
+    expect(() => parsePublicKey(input)).toThrow(SigningError);
+  });
+});
+
+describe('computeContentDigest', () => {
+  test('does not depend on key order or undefined fields', () => {
+    const reordered = {
+      manifest: { version: '1.0.0', name: 'hello', homepage: undefined },
+      files: [{ type: 'serverless', content: 'exports.run = () => 1;', path: 'index.js' }],
+      version: '1.0.0',
+    };
+
+    expect(computeContentDigest(reordered)).toBe(digest);
+  });
+
+  test('changes with the content', () => {
+    expect(computeContentDigest({ ...content, version: '1.0.1' })).not.toBe(digest);
+  });
+
+  test('is only recomputed for versions published without an archive', () => {
+    expect(getStoredContentDigest({ ...content, packageSize: null })).toBe(digest);
+    expect(getStoredContentDigest({ ...content, packageSize: 1024 })).toBeNull();
+  });
+});
+
+describe('verifyDigestSignature', () => {
+  test('verifies a signature of the raw digest', () => {
+    expect(verifyDigestSignature(publicKeyPem, digest, signDigest(digest))).toBe(true);
+  });
+
+  test('refuses signatures of other digests and malformed input', () => {
+    const other = computeContentDigest({ ...content, version: '2.0.0' });
+
+    expect(verifyDigestSignature(publicKeyPem, digest, signDigest(other))).toBe(false);
+    expect(verifyDigestSignature(publicKeyPem, 'not-hex', signDigest(digest))).toBe(false);
+    expect(verifyDigestSignature(publicKeyPem, digest, 'c2hvcnQ=')).toBe(false);
+  });
+});
+
+describe('getSignatureStatus', () => {
+  const signed = { checksum: digest, signature: signDigest(digest), publicKey: publicKeyPem, keyRevokedAt: null };
+
+  test('verifies a signed version against its checksum or recomputed digest', () => {
+    expect(getSignatureStatus(signed)).toEqual({ signed: true, verified: true });
+    expect(getSignatureStatus({ ...signed, contentDigest: digest })).toEqual({ signed: true, verified: true });
+  });
+
+  test.each([
+    ['UNSIGNED', { signature: null }],
+    ['KEY_NOT_FOUND', { publicKey: null }],
+    ['KEY_REVOKED', { keyRevokedAt: new Date() }],
+    ['CHECKSUM_MISMATCH', { contentDigest: computeContentDigest({ ...content, version: '1.0.1' }) }],
+    ['SIGNATURE_MISMATCH', { signature: signDigest(computeContentDigest({ ...content, version: '1.0.1' })) }],
+  ] as const)('reports %s', (reason, overrides) => {
+    expect(getSignatureStatus({ ...signed, ...overrides }).reason).toBe(reason);
+  });
+});
+
+describe('isAllowedByPolicy', () => {
+  const verified = { signed: true, verified: true };
+  const invalid = { signed: true, verified: false, reason: 'SIGNATURE_MISMATCH' as const };
+  const unsigned = { signed: false, verified: false, reason: 'UNSIGNED' as const };
+
+  test.each([
+    ['off', [true, true, true]],
+    ['reject-invalid', [true, false, true]],
+    ['require-signed', [true, false, false]],
+  ] as const)('applies the %s policy', (policy, allowed) => {
+    expect([verified, invalid, unsigned].map((status) => isAllowedByPolicy(status, policy))).toEqual([...allowed]);
+  });
+});
@@ -0,0 +1,220 @@
+import { createHash, createPublicKey, verify, type KeyObject } from 'crypto';
+import { and, eq, inArray, isNull } from 'drizzle-orm';
+import { db } from '../db/connection.js';
+import { extensionVersions, publisherKeys } from '../db/schema.js';
+import type { SignaturePolicy, SignatureStatus } from '../types/index.js';
+
+// Package signing. A version's digest is the SHA-256 of its uploaded archive,
+// or of its canonical JSON content when it was published without one.
+// Publishers sign the raw 32-byte digest with an Ed25519 key registered on
+// their account; the server verifies the signature before storing it.
+
+export type SigningErrorCode = 'INVALID_PUBLIC_KEY' | 'INVALID_SIGNATURE' | 'SIGNING_KEY_NOT_FOUND';
+
+export class SigningError extends Error {
+  constructor(public code: SigningErrorCode, message: string) {
+    super(message);
+    this.name = 'SigningError';
+  }
+}
+
+// DER prefix of an Ed25519 SubjectPublicKeyInfo; the raw key follows it
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+const SIGNATURE_POLICIES: SignaturePolicy[] = ['off', 'reject-invalid', 'require-signed'];
+
+// Server policy for installing unsigned or invalidly signed versions
+export function getSignaturePolicy(): SignaturePolicy {
+  const policy = process.env.PACKAGE_SIGNATURE_POLICY || 'off';
+  return SIGNATURE_POLICIES.includes(policy as SignaturePolicy) ? (policy as SignaturePolicy) : 'off';
+}
+
+// Parse a public key given as SPKI PEM or as base64 of the raw 32-byte key.
+// Returns the key as PEM together with its fingerprint.
+export function parsePublicKey(input: string): { publicKey: string; fingerprint: string } {
+  const trimmed = input.trim();
+
+  let key: KeyObject;
+  try {
+    if (trimmed.startsWith('-----BEGIN')) {
+      key = createPublicKey(trimmed);
+    } else {
+      const raw = Buffer.from(trimmed, 'base64');
+      if (raw.length !== 32) {
+        throw new Error('Raw Ed25519 keys are 32 bytes');
+      }
+      key = createPublicKey({ key: Buffer.concat([ED25519_SPKI_PREFIX, raw]), format: 'der', type: 'spki' });
+    }
+  } catch {
+    throw new SigningError('INVALID_PUBLIC_KEY', 'Public key must be an Ed25519 key in PEM or base64 format.');
+  }
+
+  if (key.asymmetricKeyType !== 'ed25519') {
+    throw new SigningError('INVALID_PUBLIC_KEY', 'Only Ed25519 public keys are supported.');
+  }
+
+  const der = key.export({ format: 'der', type: 'spki' });
+  return {
+    publicKey: key.export({ format: 'pem', type: 'spki' }).toString(),
+    fingerprint: createHash('sha256').update(der.subarray(ED25519_SPKI_PREFIX.length)).digest('hex'),
+  };
+}
+
+// JSON with object keys sorted, so equal content always hashes the same
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalJson(item ?? null)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+// Digest of a version published as JSON: SHA-256 of the canonical JSON of
+// `{ files, manifest, version }`
+export function computeContentDigest(content: { version: string; files: unknown; manifest: unknown }): string {
+  return createHash('sha256')
+    .update(canonicalJson({ files: content.files, manifest: content.manifest, version: content.version }))
+    .digest('hex');
+}
+
+// Recompute the content digest of a stored version. Archives are not kept, so
+// only versions published as JSON (no package size) have one.
+export function getStoredContentDigest(version: {
+  version: string;
+  files: unknown;
+  manifest: unknown;
+  packageSize: number | null;
+}): string | null {
+  return version.packageSize === null ? computeContentDigest(version) : null;
+}
+
+// Check a base64 Ed25519 signature of a hex digest
+export function verifyDigestSignature(publicKey: string, digest: string, signature: string): boolean {
+  const signatureBytes = Buffer.from(signature, 'base64');
+  if (signatureBytes.length !== 64 || !/^[0-9a-f]{64}$/.test(digest)) {
+    return false;
+  }
+
+  try {
+    return verify(null, Buffer.from(digest, 'hex'), publicKey, signatureBytes);
+  } catch {
+    return false;
+  }
+}
+
+// Find the publisher's active key that made a signature: the given key, or
+// any of their keys when none is named
+export async function findSigningKey(
+  userId: string,
+  digest: string,
+  signature: string,
+  keyId?: string
+): Promise<{ id: string; fingerprint: string }> {
+  const keys = await db
+    .select({ id: publisherKeys.id, publicKey: publisherKeys.publicKey, fingerprint: publisherKeys.fingerprint })
+    .from(publisherKeys)
+    .where(
+      and(
+        eq(publisherKeys.userId, userId),
+        isNull(publisherKeys.revokedAt),
+        keyId ? eq(publisherKeys.id, keyId) : undefined
+      )
+    );
+
+  if (keys.length === 0) {
+    throw new SigningError(
+      'SIGNING_KEY_NOT_FOUND',
+      keyId ? 'Signing key not found or revoked.' : 'No active signing keys are registered for this account.'
+    );
+  }
+
+  const key = keys.find((candidate) => verifyDigestSignature(candidate.publicKey, digest, signature));
+  if (!key) {
+    throw new SigningError('INVALID_SIGNATURE', 'Signature does not match the package digest.');
+  }
+
+  await db.update(publisherKeys).set({ lastUsedAt: new Date() }).where(eq(publisherKeys.id, key.id));
+
+  return { id: key.id, fingerprint: key.fingerprint };
+}
+
+// Version fields needed to check a stored signature
+export interface SignedVersion {
+  checksum: string | null;
+  signature: string | null;
+  publicKey: string | null;
+  keyRevokedAt: Date | null;
+  // Set when the digest can be recomputed from stored content
+  contentDigest?: string | null;
+}
+
+// Check a version's stored signature and signing key. The signature is
+// checked against the digest recomputed from the stored content when there is
+// one, so content changed after publishing fails, and against the stored
+// checksum otherwise.
+export function getSignatureStatus(version: SignedVersion): SignatureStatus {
+  if (!version.signature || !version.checksum) {
+    return { signed: false, verified: false, reason: 'UNSIGNED' };
+  }
+  if (!version.publicKey) {
+    return { signed: true, verified: false, reason: 'KEY_NOT_FOUND' };
+  }
+  if (version.keyRevokedAt) {
+    return { signed: true, verified: false, reason: 'KEY_REVOKED' };
+  }
+  if (version.contentDigest && version.contentDigest !== version.checksum) {
+    return { signed: true, verified: false, reason: 'CHECKSUM_MISMATCH' };
+  }
+  if (!verifyDigestSignature(version.publicKey, version.contentDigest ?? version.checksum, version.signature)) {
+    return { signed: true, verified: false, reason: 'SIGNATURE_MISMATCH' };
+  }
+  return { signed: true, verified: true };
+}
+
+// Whether the policy allows installing a version with this signature status
+export function isAllowedByPolicy(status: SignatureStatus, policy: SignaturePolicy = getSignaturePolicy()): boolean {
+  switch (policy) {
+    case 'require-signed': return status.verified;
+    case 'reject-invalid': return !status.signed || status.verified;
+    default: return true;
+  }
+}
+
+// Versions among the given IDs that the signature policy refuses to install
+export async function findPolicyViolations(
+  versionIds: string[]
+): Promise<{ versionId: string; version: string; reason: SignatureStatus['reason'] }[]> {
+  const policy = getSignaturePolicy();
+  if (policy === 'off' || versionIds.length === 0) {
+    return [];
+  }
+
+  const versions = await db
+    .select({
+      id: extensionVersions.id,
+      version: extensionVersions.version,
+      files: extensionVersions.files,
+      manifest: extensionVersions.manifest,
+      packageSize: extensionVersions.packageSize,
+      checksum: extensionVersions.checksum,
+      signature: extensionVersions.signature,
+      publicKey: publisherKeys.publicKey,
+      keyRevokedAt: publisherKeys.revokedAt,
+    })
+    .from(extensionVersions)
+    .leftJoin(publisherKeys, eq(extensionVersions.signingKeyId, publisherKeys.id))
+    .where(inArray(extensionVersions.id, versionIds));
+
+  return versions.flatMap((version) => {
+    const status = getSignatureStatus({ ...version, contentDigest: getStoredContentDigest(version) });
+    return isAllowedByPolicy(status, policy)
+      ? []
+      : [{ versionId: version.id, version: version.version, reason: status.reason }];
+  });
+}
@@ -0,0 +1,66 @@
+import { createHash, randomBytes } from 'crypto';
+import { and, eq, gt, isNull } from 'drizzle-orm';
+import { db } from '../db/connection.js';
+import { userTokens } from '../db/schema.js';
+
+// Single-use tokens sent by email. Only a SHA-256 hash is stored, so a leaked
+// database does not expose usable links.
+
+export type UserTokenType = (typeof userTokens.type.enumValues)[number];
+
+// How long each kind of token stays valid
+export const USER_TOKEN_TTL: Record<UserTokenType, number> = {
+  email_verification: 24 * 60 * 60 * 1000, // 24 hours
+  password_reset: 60 * 60 * 1000, // 1 hour
+};
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+// Issue a new token and return its plain value. Earlier unused tokens of the
+// same type are discarded, so only the most recent email works.
+export async function issueUserToken(userId: string, type: UserTokenType): Promise<string> {
+  const token = randomBytes(32).toString('base64url');
+
+  await db
+    .delete(userTokens)
+    .where(and(eq(userTokens.userId, userId), eq(userTokens.type, type), isNull(userTokens.usedAt)));
+
+  await db.insert(userTokens).values({
+    userId,
+    type,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + USER_TOKEN_TTL[type]),
+  });
+
+  return token;
+}
+
+// Mark a token as used and return its user ID. Returns null when the token is
+// unknown, expired or already used; the update is atomic, so concurrent
+// requests cannot both consume the same token.
+export async function consumeUserToken(token: string, type: UserTokenType): Promise<string | null> {
+  const now = new Date();
+
+  const result = await db
+    .update(userTokens)
+    .set({ usedAt: now })
+    .where(
+      and(
+        eq(userTokens.tokenHash, hashToken(token)),
+        eq(userTokens.type, type),
+        isNull(userTokens.usedAt),
+        gt(userTokens.expiresAt, now)
+      )
+    )
+    .returning({ userId: userTokens.userId });
+
+  return result[0]?.userId ?? null;
+}
+
+// Format a TTL for use in email copy
+export function describeTokenTtl(type: UserTokenType): string {
+  const hours = USER_TOKEN_TTL[type] / (60 * 60 * 1000);
+  return hours === 1 ? '1 hour' : `${hours} hours`;
+}
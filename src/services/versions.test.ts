@@ -0,0 +1,103 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  checkPublishVersion,
+  isValidDistTag,
+  pickLatestVersion,
+  sortVersionsDesc,
+  VersionPolicyError,
+} from './versions.js';
+
+function policyError(version: string, existing: string[], options?: { backport?: boolean }): VersionPolicyError {
+  try {
+    checkPublishVersion(version, existing, options);
+  } catch (error) {
+    expect(error).toBeInstanceOf(VersionPolicyError);
+    return error as VersionPolicyError;
+  }
+  throw new Error(`Expected ${version} to be refused`);
+}
+
+describe('checkPublishVersion', () => {
+  const existing = ['1.0.0', '1.2.0', '2.0.0', '2.1.0-beta.1'];
+
+  test('accepts versions greater than the latest stable version', () => {
+    expect(() => checkPublishVersion('2.0.1', existing)).not.toThrow();
+    expect(() => checkPublishVersion('2.1.0-beta.2', existing)).not.toThrow();
+    expect(() => checkPublishVersion('0.1.0', [])).not.toThrow();
+  });
+
+  test.each(['v1.0.0', '1.0', '01.0.0', ' 1.0.0', '1.0.0-aaaaaaaaaaaaaaaa'])('refuses the version %p', (version) => {
+    expect(policyError(version, existing).code).toBe('INVALID_VERSION');
+  });
+
+  test('refuses versions not greater than the latest stable version', () => {
+    const error = policyError('1.3.0', existing);
+    expect(error.code).toBe('VERSION_NOT_GREATER');
+    expect(error.details).toEqual({ latest: '2.0.0' });
+  });
+
+  test('accepts backports to an older major line', () => {
+    expect(() => checkPublishVersion('1.2.1', existing, { backport: true })).not.toThrow();
+    expect(() => checkPublishVersion('0.9.0', existing, { backport: true })).not.toThrow();
+  });
+
+  test('refuses backports that are not greater than their line', () => {
+    const error = policyError('1.1.0', existing, { backport: true });
+    expect(error.code).toBe('VERSION_NOT_GREATER');
+    expect(error.details).toEqual({ latest: '2.0.0', lineLatest: '1.2.0' });
+  });
+
+  test('refuses backports to the latest major line or without a stable version', () => {
+    expect(policyError('2.0.1', existing, { backport: true }).code).toBe('INVALID_BACKPORT');
+    expect(policyError('1.0.0', [], { backport: true }).code).toBe('INVALID_BACKPORT');
+  });
+});
+
+describe('isValidDistTag', () => {
+  test.each(['latest', 'next', 'beta-2'])('accepts %p', (tag) => {
+    expect(isValidDistTag(tag)).toBe(true);
+  });
+
+  test.each(['Beta', '2x', 'x', 'v1', '-next', 'a'.repeat(51)])('refuses %p', (tag) => {
+    expect(isValidDistTag(tag)).toBe(false);
+  });
+});
+
+describe('sortVersionsDesc', () => {
+  test('orders by semver precedence with invalid versions last', () => {
+    const versions = ['1.10.0', 'invalid', '1.2.0', '2.0.0-rc.1', '2.0.0'].map((version) => ({ version }));
+
+    expect(sortVersionsDesc(versions).map(({ version }) => version)).toEqual([
+      '2.0.0',
+      '2.0.0-rc.1',
+      '1.10.0',
+      '1.2.0',
+      'invalid',
+    ]);
+  });
+});
+
+describe('pickLatestVersion', () => {
+  const publishedAt = new Date();
+  const versions = [
+    { version: '1.0.0', publishedAt },
+    { version: '1.1.0', publishedAt },
+    { version: '1.2.0', publishedAt, yankedAt: new Date() },
+    { version: '1.3.0', publishedAt: null },
+    { version: '2.0.0-beta.1', publishedAt },
+  ];
+
+  test('follows the latest tag when it points at an installable version', () => {
+    expect(pickLatestVersion(versions, '1.0.0')?.version).toBe('1.0.0');
+  });
+
+  test('falls back to the highest published, unyanked stable version', () => {
+    expect(pickLatestVersion(versions, '1.2.0')?.version).toBe('1.1.0');
+    expect(pickLatestVersion(versions)?.version).toBe('1.1.0');
+  });
+
+  test('falls back to the highest prerelease', () => {
+    expect(pickLatestVersion(versions.slice(2))?.version).toBe('2.0.0-beta.1');
+    expect(pickLatestVersion([])).toBeUndefined();
+  });
+});
@@ -0,0 +1,202 @@
+import semver from 'semver';
+import { and, eq } from 'drizzle-orm';
+import { db } from '../db/connection.js';
+import { extensionDistTags, extensionVersions } from '../db/schema.js';
+
+// Version ordering, the publish-time version policy and dist-tags. Versions
+// are ordered by semver precedence; dist-tags are named pointers (`latest`,
+// `beta`, `next`, ...) that publishers move between versions. Installs that
+// do not name a version follow `latest`.
+
+export const LATEST_TAG = 'latest';
+
+// Tag moved by a prerelease published without an explicit tag
+export const PRERELEASE_TAG = 'next';
+
+// How long after publishing a version can still be unpublished by its
+// publisher
+export const UNPUBLISH_GRACE_PERIOD = parseInt(process.env.UNPUBLISH_GRACE_HOURS || '72') * 60 * 60 * 1000;
+
+// Longest version string the versions table accepts
+const MAX_VERSION_LENGTH = 20;
+
+export type VersionPolicyErrorCode = 'INVALID_VERSION' | 'VERSION_NOT_GREATER' | 'INVALID_BACKPORT' | 'INVALID_DIST_TAG';
+
+export class VersionPolicyError extends Error {
+  constructor(
+    public code: VersionPolicyErrorCode,
+    message: string,
+    public details: Record<string, any> = {}
+  ) {
+    super(message);
+    this.name = 'VersionPolicyError';
+  }
+}
+
+// Newest first by semver precedence; invalid versions sort last
+export function compareVersionsDesc(a: string, b: string): number {
+  const validA = semver.valid(a);
+  const validB = semver.valid(b);
+  if (validA && validB) {
+    return semver.rcompare(validA, validB);
+  }
+  return validA ? -1 : validB ? 1 : 0;
+}
+
+export function sortVersionsDesc<T extends { version: string }>(versions: T[]): T[] {
+  return [...versions].sort((a, b) => compareVersionsDesc(a.version, b.version));
+}
+
+// Tag names are lowercase words that cannot be mistaken for a version or range
+export function isValidDistTag(tag: string): boolean {
+  return /^[a-z][a-z0-9-]{0,49}$/.test(tag) && !semver.validRange(tag);
+}
+
+// Check a version about to be published against the extension's existing
+// versions. It must be greater than the latest stable version or, when
+// backporting, belong to an older major line and be greater than every
+// version already in that line.
+export function checkPublishVersion(version: string, existing: string[], options: { backport?: boolean } = {}): void {
+  if (!semver.valid(version) || semver.clean(version) !== version) {
+    throw new VersionPolicyError('INVALID_VERSION', `${version} is not a valid semantic version.`);
+  }
+  if (version.length > MAX_VERSION_LENGTH) {
+    throw new VersionPolicyError(
+      'INVALID_VERSION',
+      `Versions can be at most ${MAX_VERSION_LENGTH} characters long.`
+    );
+  }
+
+  const valid = existing.filter((entry) => semver.valid(entry));
+  const latestStable = semver.maxSatisfying(valid, '*');
+
+  if (!options.backport) {
+    if (latestStable && !semver.gt(version, latestStable)) {
+      throw new VersionPolicyError(
+        'VERSION_NOT_GREATER',
+        `Version ${version} must be greater than the latest version ${latestStable}. Set backport to publish to an older major line.`,
+        { latest: latestStable }
+      );
+    }
+    return;
+  }
+
+  const major = semver.major(version);
+  if (!latestStable || major >= semver.major(latestStable)) {
+    throw new VersionPolicyError(
+      'INVALID_BACKPORT',
+      'Backports must target a major line older than the latest version.',
+      { latest: latestStable }
+    );
+  }
+
+  const lineLatest = semver.rsort(valid.filter((entry) => semver.major(entry) === major))[0];
+  if (lineLatest && !semver.gt(version, lineLatest)) {
+    throw new VersionPolicyError(
+      'VERSION_NOT_GREATER',
+      `Version ${version} must be greater than ${lineLatest}, the latest version in the ${major}.x line.`,
+      { latest: latestStable, lineLatest }
+    );
+  }
+}
+
+// Dist-tags of an extension as `{ tag: version }`
+export async function getDistTags(extensionId: string): Promise<Record<string, string>> {
+  const tags = await db
+    .select({ tag: extensionDistTags.tag, version: extensionVersions.version })
+    .from(extensionDistTags)
+    .innerJoin(extensionVersions, eq(extensionDistTags.versionId, extensionVersions.id))
+    .where(eq(extensionDistTags.extensionId, extensionId))
+    .orderBy(extensionDistTags.tag);
+
+  return Object.fromEntries(tags.map(({ tag, version }) => [tag, version]));
+}
+
+// Point a tag at a version, creating the tag if needed
+export async function setDistTag(extensionId: string, tag: string, versionId: string): Promise<void> {
+  if (!isValidDistTag(tag)) {
+    throw new VersionPolicyError('INVALID_DIST_TAG', `"${tag}" is not a valid dist-tag name.`);
+  }
+
+  await db
+    .insert(extensionDistTags)
+    .values({ extensionId, tag, versionId })
+    .onConflictDoUpdate({
+      target: [extensionDistTags.extensionId, extensionDistTags.tag],
+      set: { versionId, updatedAt: new Date() },
+    });
+}
+
+// Remove a tag. Returns false when the extension does not have it.
+export async function removeDistTag(extensionId: string, tag: string): Promise<boolean> {
+  const removed = await db
+    .delete(extensionDistTags)
+    .where(and(eq(extensionDistTags.extensionId, extensionId), eq(extensionDistTags.tag, tag)))
+    .returning({ id: extensionDistTags.id });
+
+  return removed.length > 0;
+}
+
+// Pick the version installs get by default: the `latest` tag when it points
+// at a published, unyanked version, otherwise the highest such stable
+// version, otherwise the highest prerelease
+export function pickLatestVersion<T extends { version: string; yankedAt?: Date | null; publishedAt?: Date | null }>(
+  versions: T[],
+  latestTag?: string | null
+): T | undefined {
+  const installable = sortVersionsDesc(versions.filter((version) => !version.yankedAt && version.publishedAt));
+
+  return installable.find((version) => version.version === latestTag) ||
+    installable.find((version) => semver.valid(version.version) && !semver.prerelease(version.version)) ||
+    installable[0];
+}
+
+// Load the fields of an extension's versions needed to pick one
+async function getVersionSummaries(extensionId: string) {
+  return db
+    .select({
+      id: extensionVersions.id,
+      version: extensionVersions.version,
+      yankedAt: extensionVersions.yankedAt,
+      publishedAt: extensionVersions.publishedAt,
+    })
+    .from(extensionVersions)
+    .where(eq(extensionVersions.extensionId, extensionId));
+}
+
+// Move `latest` off a version that can no longer be resolved (yanked or
+// unpublished) onto the next best version, or drop it when there is none
+export async function repointLatestTag(extensionId: string): Promise<void> {
+  const versions = await getVersionSummaries(extensionId);
+  const latest = pickLatestVersion(versions);
+  const distTags = await getDistTags(extensionId);
+  const tagged = versions.find((version) => version.version === distTags[LATEST_TAG]);
+
+  if (tagged && !tagged.yankedAt && tagged.publishedAt) {
+    return;
+  }
+  if (latest) {
+    await setDistTag(extensionId, LATEST_TAG, latest.id);
+  } else {
+    await removeDistTag(extensionId, LATEST_TAG);
+  }
+}
+
+// Find the ID of the version an install request refers to: an exact version
+// (yanked versions included), a dist-tag, or the latest version when none is
+// given. Unpublished versions are never returned.
+export async function resolveVersionSpecifier(extensionId: string, specifier?: string): Promise<string | null> {
+  const versions = (await getVersionSummaries(extensionId)).filter((version) => version.publishedAt);
+
+  const exact = specifier ? versions.find((version) => version.version === specifier) : undefined;
+  if (exact || (specifier && !isValidDistTag(specifier))) {
+    return exact?.id ?? null;
+  }
+
+  const distTags = await getDistTags(extensionId);
+  if (specifier) {
+    return versions.find((version) => version.version === distTags[specifier])?.id ?? null;
+  }
+
+  return pickLatestVersion(versions, distTags[LATEST_TAG])?.id ?? null;
+}
@@ -0,0 +1,6 @@
+// Loaded before every test file (see bunfig.toml). The database connection is
+// created when src/db/connection.ts is first imported, so the test database
+// must be configured before any test imports a module that uses it.
+if (process.env.TEST_DATABASE_URL) {
+  process.env.DATABASE_URL = process.env.TEST_DATABASE_URL;
+}
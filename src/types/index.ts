@@ -10,16 +10,16 @@ export interface User {
   id: string;
   email: string;
   username: string;
-  displayName?: string;
+  displayName: string | null;
   role: UserRole;
-  avatar?: string;
-  bio?: string;
-  website?: string;
-  github?: string;
-  twitter?: string;
-  isVerified: boolean;
-  isActive: boolean;
-  lastLoginAt?: Date;
+  avatar: string | null;
+  bio: string | null;
+  website: string | null;
+  github: string | null;
+  twitter: string | null;
+  isVerified: boolean | null;
+  isActive: boolean | null;
+  lastLoginAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -34,12 +34,28 @@ export interface CreateUserRequest {
 export interface LoginRequest {
   email: string;
   password: string;
+  deviceName?: string;
+}
+
+export interface RefreshTokenRequest {
+  refreshToken: string;
+}
+
+export interface ForgotPasswordRequest {
+  email: string;
+}
+
+export interface ResetPasswordRequest {
+  token: string;
+  password: string;
 }
 
 export interface AuthResponse {
   user: Omit<User, 'passwordHash'>;
   token: string;
   expiresIn: string;
+  refreshToken: string;
+  refreshTokenExpiresAt: Date;
 }
 
 // Extension types
@@ -47,33 +63,50 @@ export interface Extension {
   id: string;
   name: string;
   slug: string;
-  displayName?: string;
-  description?: string;
-  longDescription?: string;
+  displayName: string | null;
+  description: string | null;
+  longDescription: string | null;
   authorId: string;
-  category?: string;
-  tags?: string[];
-  icon?: string;
-  banner?: string;
-  screenshots?: string[];
-  homepage?: string;
-  repository?: string;
-  documentation?: string;
-  license?: string;
-  keywords?: string[];
+  category: string | null;
+  tags: string[] | null;
+  icon: string | null;
+  banner: string | null;
+  screenshots: string[] | null;
+  homepage: string | null;
+  repository: string | null;
+  documentation: string | null;
+  license: string | null;
+  keywords: string[] | null;
   status: ExtensionStatus;
-  isPublic: boolean;
-  isFeatured: boolean;
-  downloadCount: number;
-  rating: number;
-  ratingCount: number;
-  lastPublishedAt?: Date;
+  isPublic: boolean | null;
+  isFeatured: boolean | null;
+  downloadCount: number | null;
+  rating: number | null;
+  ratingCount: number | null;
+  lastPublishedAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
 export interface ExtensionWithAuthor extends Extension {
-  author: Pick<User, 'id' | 'username' | 'displayName' | 'avatar'>;
+  author: ExtensionAuthor | null; // Left-joined, so typed as nullable
+  // Set on search results
+  relevance?: number;
+  highlight?: SearchHighlight;
+}
+
+// Author columns joined onto extension listings; profile fields may be unset
+export interface ExtensionAuthor {
+  id: string;
+  username: string;
+  displayName: string | null;
+  avatar: string | null;
+}
+
+// Search matches wrapped in <mark>; the rest of the text is HTML-escaped
+export interface SearchHighlight {
+  name: string | null;
+  snippet: string | null;
 }
 
 export interface ExtensionVersion {
@@ -96,6 +129,7 @@ export interface ExtensionVersion {
   files?: ExtensionFile[];
   checksum?: string;
   signature?: string;
+  signingKeyId?: string;
   minNodeVersion?: string;
   maxNodeVersion?: string;
   requiredExtensions?: RequiredExtension[];
@@ -103,6 +137,13 @@ export interface ExtensionVersion {
   bundleSize?: number;
   isPrerelease: boolean;
   isDeprecated: boolean;
+  deprecationMessage?: string;
+  deprecatedAt?: Date;
+  yankedAt?: Date;
+  yankReason?: string;
+  unpublishedAt?: Date;
+  scanStatus?: ScanStatus;
+  scanReport?: ScanReport;
   downloadCount: number;
   publishedAt?: Date;
   createdAt: Date;
@@ -150,9 +191,28 @@ export interface ExtensionManifest {
     endpoints: EndpointConfig[];
     components: ComponentConfig[];
     database?: DatabaseConfig;
+    environment?: EnvironmentVariableConfig[];
+    configSchema?: Record<string, any>; // JSON Schema of the installation config
+    configMigration?: ConfigMigration; // Turns the previous version's config into this one's
   };
 }
 
+// Config changes applied when upgrading to a version. Paths are dotted
+// (`display.theme`); renames run first, then removals, then assignments.
+export interface ConfigMigration {
+  rename?: Record<string, string>;
+  remove?: string[];
+  set?: Record<string, any>;
+}
+
+// An environment variable the extension reads; required ones must be set on
+// install
+export interface EnvironmentVariableConfig {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
 export interface EndpointConfig {
   path: string;
   method: 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
@@ -219,6 +279,14 @@ export interface IndexConfig {
   unique?: boolean;
 }
 
+// Installation environment variables as stored: each value is encrypted with
+// a per-installation data key, which is stored wrapped by a master key
+export interface EncryptedEnvironment {
+  keyId: string; // Master key that wraps the data key
+  dataKey: string; // base64 of iv, auth tag and wrapped key
+  values: Record<string, string>; // base64 of iv, auth tag and ciphertext
+}
+
 // Installation types
 export interface ExtensionInstallation {
   id: string;
@@ -227,21 +295,196 @@ export interface ExtensionInstallation {
   versionId: string;
   status: InstallationStatus;
   config?: any;
-  environmentVariables?: Record<string, string>;
+  environmentVariables?: Record<string, string>; // Values are masked
+  grantedPermissions?: string[];
+  permissionsGrantedAt?: Date;
   installedAt?: Date;
   lastUsedAt?: Date;
   uninstalledAt?: Date;
   errorMessage?: string;
   errorDetails?: any;
+  schemaName?: string;
+  progress?: InstallationProgress;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export type InstallationStep =
+  | 'install_dependencies'
+  | 'create_schema'
+  | 'run_migrations'
+  | 'verify_handlers'
+  | 'finalize';
+
+export interface InstallationProgress {
+  step: InstallationStep;
+  completedSteps: InstallationStep[];
+  updatedAt: string;
+}
+
+// Dependency resolution types
+export type DependencyConflictType =
+  | 'NOT_FOUND'
+  | 'NO_MATCHING_VERSION'
+  | 'INSTALLED_VERSION_MISMATCH'
+  | 'RANGE_CONFLICT'
+  | 'CYCLE';
+
+export interface DependencyConflict {
+  type: DependencyConflictType;
+  name: string;
+  range: string;
+  requiredBy: string; // "name@version" of the requiring extension
+  message: string;
+  installedVersion?: string;
+  resolvedVersion?: string;
+  availableVersions?: string[];
+  cycle?: string[];
+}
+
+export interface ResolvedDependency {
+  name: string;
+  extensionId: string;
+  versionId: string;
+  version: string;
+  requiredBy: string[];
+}
+
+export interface DependencyResolution {
+  install: ResolvedDependency[]; // Missing dependencies, dependencies first
+  satisfied: { name: string; installationId: string; version: string }[];
+  skipped: { name: string; range: string; reason: string }[]; // Unresolvable optional dependencies
+  conflicts: DependencyConflict[];
+}
+
 export interface InstallExtensionRequest {
   extensionId: string;
   version?: string;
   config?: any;
   environmentVariables?: Record<string, string>;
+  acceptedPermissions?: string[]; // Must cover every permission the version and new dependencies request
+}
+
+// Environment variables are write-only: a string sets a variable, null
+// removes it and unmentioned variables are kept
+export interface UpdateInstallationRequest {
+  config?: any;
+  environmentVariables?: Record<string, string | null>;
+}
+
+export interface UpgradeInstallationRequest {
+  version?: string; // Defaults to the latest compatible version
+  dryRun?: boolean;
+  config?: Record<string, any>; // Replaces the migrated config
+  acceptedPermissions?: string[]; // Must cover permissions the target adds
+}
+
+// Permission types
+export type PermissionRisk = 'low' | 'medium' | 'high';
+
+export interface PermissionDescriptor {
+  permission: string;
+  description: string;
+  risk: PermissionRisk;
+}
+
+// Permission changes between the installed version and an upgrade target
+export interface PermissionChanges {
+  granted: string[];
+  requested: string[];
+  added: string[]; // Need consent
+  removed: string[];
+}
+
+export interface MigrationPlanStep {
+  version: string;
+  direction: 'up' | 'down';
+  hasMigration: boolean;
+}
+
+export interface MigrationPlan {
+  installationId: string;
+  fromVersion: string;
+  toVersion: string;
+  direction: 'upgrade' | 'downgrade' | 'none';
+  steps: MigrationPlanStep[];
+}
+
+// Execution types
+export type ExecutionErrorCode =
+  | 'EXECUTION_FAILED'
+  | 'EXECUTION_TIMEOUT'
+  | 'CPU_LIMIT_EXCEEDED'
+  | 'MEMORY_LIMIT_EXCEEDED'
+  | 'HANDLER_NOT_FOUND'
+  | 'RESPONSE_TOO_LARGE'
+  | 'SANDBOX_ERROR';
+
+export interface ExecutionLimits {
+  timeout: number; // Wall-clock limit in ms
+  cpuTime: number; // CPU time limit in ms
+  memoryLimit: number; // Heap/RSS limit in MB
+}
+
+export interface ExecutionHttpRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  headers: Record<string, string>;
+  body?: any;
+}
+
+export interface ExecutionRequest {
+  code: string;
+  handler?: string;
+  parameters?: Record<string, any>;
+  config?: any;
+  environmentVariables?: Record<string, string>;
+  installationId?: string;
+  action?: string;
+  request?: ExecutionHttpRequest; // Set when invoked through the HTTP proxy routes
+  permissions?: string[]; // Granted to the installation
+  user?: ExecutionUser; // Set when `user:profile` is granted
+}
+
+// The installing user as seen by a handler
+export interface ExecutionUser {
+  id: string;
+  username: string;
+  displayName?: string | null;
+  avatar?: string | null;
+  email?: string; // Requires `user:email`
+}
+
+// Response envelope a handler may return to control the proxied HTTP response
+export interface HandlerResponse {
+  statusCode: number;
+  headers?: Record<string, string>;
+  body?: any;
+  isBase64Encoded?: boolean;
+}
+
+export interface ExecutionLogEntry {
+  stream: 'stdout' | 'stderr';
+  message: string;
+  timestamp: string;
+}
+
+export interface ExecutionResult {
+  success: boolean;
+  result?: any;
+  error?: {
+    code: ExecutionErrorCode;
+    message: string;
+    stack?: string;
+  };
+  logs: {
+    stdout: string[];
+    stderr: string[];
+    entries: ExecutionLogEntry[];
+  };
+  duration: number; // Measured wall-clock time in ms
+  cpuTime?: number; // CPU time consumed by the sandbox in ms
 }
 
 // Review types
@@ -296,7 +539,10 @@ export interface PublishVersionRequest {
   changelog?: string;
   files: ExtensionFile[];
   manifest: ExtensionManifest;
-  isPrerelease?: boolean;
+  backport?: boolean; // Publish below the latest version, on an older major line
+  tag?: string; // Dist-tag to move; defaults to `latest`, or `next` for prereleases
+  signature?: string; // Base64 Ed25519 signature of the package digest
+  signingKeyId?: string;
 }
 
 export interface SearchExtensionsQuery {
@@ -306,25 +552,80 @@ export interface SearchExtensionsQuery {
   author?: string;
   status?: ExtensionStatus;
   featured?: boolean;
-  sortBy?: 'name' | 'downloads' | 'rating' | 'updated' | 'created';
+  license?: string;
+  rating?: number; // Minimum average rating in stars
+  sortBy?: 'relevance' | 'name' | 'downloads' | 'rating' | 'updated' | 'created'; // relevance is the default with a query
   sortOrder?: 'asc' | 'desc';
   page?: number;
   limit?: number;
+  cursor?: string;
+  count?: boolean; // false skips the total count
+  facets?: ExtensionFacet | ExtensionFacet[];
+}
+
+// Facets the extension list can count results by
+export const EXTENSION_FACETS = ['category', 'tag', 'license', 'author', 'rating'] as const;
+
+export type ExtensionFacet = (typeof EXTENSION_FACETS)[number];
+
+export interface FacetBucket {
+  value: string; // For `rating`, the minimum number of stars
+  label?: string; // Display name, for `author`
+  count: number;
+}
+
+export type ExtensionFacets = Partial<Record<ExtensionFacet, FacetBucket[]>>;
+
+export interface SuggestExtensionsQuery {
+  q: string;
+  limit?: number;
+}
+
+export interface Suggestion {
+  type: 'extension' | 'tag' | 'author';
+  value: string; // Extension slug, tag or username
+  label: string;
+  highlight: string; // Label with matches wrapped in <mark>, otherwise HTML-escaped
+  score: number; // Trigram word similarity, 0-1
+  extensionId?: string;
+}
+
+export interface Pagination {
+  page?: number; // Offset pagination only
+  limit: number;
+  total?: number; // Omitted with count=false
+  pages?: number;
+  hasNext: boolean;
+  hasPrev: boolean;
+  nextCursor: string | null; // Pass as `cursor` for the next page
 }
 
 export interface PaginatedResponse<T> {
   data: T[];
-  pagination: {
-    page: number;
-    limit: number;
-    total: number;
-    pages: number;
-    hasNext: boolean;
-    hasPrev: boolean;
-  };
+  pagination: Pagination;
+  facets?: ExtensionFacets; // Only when requested
 }
 
 // API Key types
+// Permissions that can be granted to an API key. Requests authenticated with a
+// JWT are not restricted by scopes.
+export const API_KEY_SCOPES = [
+  'extensions:read',
+  'extensions:write',
+  'extensions:publish',
+  'installations:read',
+  'installations:write',
+  'installations:execute',
+  'reviews:read',
+  'reviews:write',
+  'uploads:write',
+  'users:read',
+  'users:write',
+  'admin',
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
 export interface ApiKey {
   id: string;
   userId: string;
@@ -339,10 +640,158 @@ export interface ApiKey {
 
 export interface CreateApiKeyRequest {
   name: string;
-  permissions: string[];
+  permissions: ApiKeyScope[];
   expiresAt?: Date;
 }
 
+// Security scan types
+export type ScanStatus = 'passed' | 'quarantined' | 'approved' | 'rejected';
+
+// What publishing does with a version that has high-severity findings
+export type ScanMode = 'block' | 'quarantine' | 'report';
+
+export type ScanSeverity = 'high' | 'medium' | 'low';
+
+export type ScanRule =
+  | 'PARSE_ERROR'
+  | 'FORBIDDEN_MODULE'
+  | 'DYNAMIC_CODE'
+  | 'DYNAMIC_IMPORT'
+  | 'FILESYSTEM_ACCESS'
+  | 'NETWORK_WITHOUT_PERMISSION'
+  | 'PROCESS_ACCESS'
+  | 'FOREIGN_SCHEMA'
+  | 'PRIVILEGED_SQL'
+  | 'DYNAMIC_SQL'
+  | 'SESSION_CONTROL'
+  | 'MULTIPLE_STATEMENTS';
+
+export interface ScanFinding {
+  rule: ScanRule;
+  severity: ScanSeverity;
+  message: string;
+  file: string; // Package file path, or the version field the code came from
+  line?: number;
+}
+
+export interface ScanReport {
+  scannedAt: string;
+  findings: ScanFinding[];
+  summary: Record<ScanSeverity, number>;
+}
+
+export interface ReviewVersionRequest {
+  notes?: string;
+}
+
+// Component bundle types
+export interface ComponentBundle {
+  name: string;
+  url: string; // Path of the bundle under the API prefix
+  integrity: string; // Subresource Integrity hash, e.g. "sha384-..."
+  size: number;
+}
+
+// Audit types
+export type AuditAction =
+  | 'version.deprecate'
+  | 'version.undeprecate'
+  | 'version.yank'
+  | 'version.unyank'
+  | 'version.unpublish'
+  | 'version.approve'
+  | 'version.reject';
+
+export interface AuditLogEntry {
+  id: string;
+  actorId?: string;
+  action: AuditAction;
+  extensionId?: string;
+  versionId?: string;
+  details?: Record<string, any>;
+  createdAt: Date;
+}
+
+export interface DeprecateVersionRequest {
+  message: string;
+}
+
+export interface YankVersionRequest {
+  reason?: string;
+}
+
+// Package signing types
+// Which versions may be installed: anything, anything not carrying a broken
+// signature, or only versions with a valid signature
+export type SignaturePolicy = 'off' | 'reject-invalid' | 'require-signed';
+
+export type SignatureFailureReason =
+  | 'UNSIGNED'
+  | 'KEY_NOT_FOUND'
+  | 'KEY_REVOKED'
+  | 'CHECKSUM_MISMATCH'
+  | 'SIGNATURE_MISMATCH';
+
+export interface SignatureStatus {
+  signed: boolean;
+  verified: boolean;
+  reason?: SignatureFailureReason;
+}
+
+export interface PublisherKey {
+  id: string;
+  userId: string;
+  name: string;
+  publicKey: string;
+  fingerprint: string;
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+}
+
+export interface CreatePublisherKeyRequest {
+  name: string;
+  publicKey: string; // SPKI PEM or base64 of the raw 32-byte key
+}
+
+// Category types
+// Category slugs: lowercase words joined by single hyphens
+export const CATEGORY_SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+export interface ExtensionCategory {
+  id: string;
+  name: string;
+  slug: string; // What extensions store as their `category`
+  description?: string;
+  icon?: string;
+  color?: string;
+  parentId?: string; // Unset for top-level categories
+  sortOrder: number; // Among siblings
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateCategoryRequest {
+  name: string;
+  slug: string;
+  description?: string;
+  icon?: string;
+  color?: string;
+  parentId?: string;
+  sortOrder?: number;
+  isActive?: boolean;
+}
+
+export interface UpdateCategoryRequest extends Partial<Omit<CreateCategoryRequest, 'parentId'>> {
+  parentId?: string | null; // null moves the category to the top level
+}
+
+export interface ReorderCategoriesRequest {
+  parentId?: string | null; // The siblings' parent; top level when unset
+  categoryIds: string[]; // Every sibling, in the new order
+}
+
 // Configuration types
 export interface ServerConfig {
   port: number;
@@ -358,6 +807,7 @@ export interface ServerConfig {
   rateLimitMaxRequests: number;
   bcryptSaltRounds: number;
   extensionTimeout: number;
+  extensionMemoryLimit: number;
   maxExtensionSize: number;
 }
 
@@ -407,7 +857,7 @@ export const createExtensionSchema = z.object({
   displayName: z.string().max(150, 'Display name must be less than 150 characters').optional(),
   description: z.string().max(500, 'Description must be less than 500 characters').optional(),
   longDescription: z.string().max(5000, 'Long description must be less than 5000 characters').optional(),
-  category: z.string().max(50, 'Category must be less than 50 characters').optional(),
+  category: z.string().max(50, 'Category must be less than 50 characters').regex(CATEGORY_SLUG_PATTERN, 'Category must be a category slug').optional(), // Must name an active category
   tags: z.array(z.string().max(30, 'Tag must be less than 30 characters')).max(10, 'Maximum 10 tags allowed').optional(),
   homepage: z.string().url('Invalid homepage URL').optional(),
   repository: z.string().url('Invalid repository URL').optional(),
@@ -421,24 +871,148 @@ export const updateExtensionSchema = createExtensionSchema.partial().extend({
   isPublic: z.boolean().optional(),
 });
 
+// Extension manifest schemas, mirroring ExtensionManifest and its parts
+export const parameterConfigSchema = z.object({
+  name: z.string().min(1, 'Parameter name is required'),
+  type: z.enum(['query', 'path', 'body', 'header']),
+  dataType: z.enum(['string', 'number', 'integer', 'boolean', 'object', 'array', 'any']),
+  required: z.boolean().optional(),
+  description: z.string().optional(),
+});
+
+export const responseConfigSchema = z.object({
+  status: z.number().int().min(100, 'Status must be a valid HTTP status').max(599, 'Status must be a valid HTTP status'),
+  description: z.string(),
+  schema: z.any().optional(),
+});
+
+export const endpointConfigSchema = z.object({
+  path: z.string().regex(/^\/[^\s]*$/, 'Endpoint path must start with "/" and contain no spaces'),
+  method: z.enum(['GET', 'POST', 'PUT', 'DELETE', 'PATCH']),
+  handler: z.string().min(1, 'Handler is required'),
+  description: z.string().optional(),
+  parameters: z.array(parameterConfigSchema).optional(),
+  responses: z.array(responseConfigSchema).optional(),
+});
+
+export const propConfigSchema = z.object({
+  type: z.string().min(1, 'Prop type is required'),
+  required: z.boolean().optional(),
+  default: z.any().optional(),
+  description: z.string().optional(),
+});
+
+export const componentConfigSchema = z.object({
+  name: z.string().regex(/^[A-Za-z_$][A-Za-z0-9_$]*$/, 'Component name must be a valid identifier'),
+  file: z.string().min(1, 'Component file is required'),
+  props: z.record(z.string(), propConfigSchema).optional(),
+  description: z.string().optional(),
+});
+
+export const columnConfigSchema = z.object({
+  name: z.string().min(1, 'Column name is required'),
+  type: z.string().min(1, 'Column type is required'),
+  nullable: z.boolean().optional(),
+  default: z.any().optional(),
+  unique: z.boolean().optional(),
+  primaryKey: z.boolean().optional(),
+});
+
+export const indexConfigSchema = z.object({
+  name: z.string().min(1, 'Index name is required'),
+  columns: z.array(z.string().min(1)).min(1, 'An index needs at least one column'),
+  unique: z.boolean().optional(),
+});
+
+export const tableConfigSchema = z.object({
+  name: z.string().min(1, 'Table name is required'),
+  columns: z.array(columnConfigSchema).min(1, 'A table needs at least one column'),
+  indexes: z.array(indexConfigSchema).optional(),
+});
+
+export const databaseConfigSchema = z.object({
+  tables: z.array(tableConfigSchema),
+  migrations: z.object({
+    up: z.string(),
+    down: z.string(),
+  }),
+});
+
+export const environmentVariableConfigSchema = z.object({
+  name: z.string().regex(/^[A-Z_][A-Z0-9_]*$/, 'Environment variable names must be uppercase letters, digits and underscores'),
+  description: z.string().min(1, 'Description is required'),
+  required: z.boolean().optional(),
+});
+
+export const configMigrationSchema = z.object({
+  rename: z.record(z.string().min(1), z.string().min(1)).optional(),
+  remove: z.array(z.string().min(1)).optional(),
+  set: z.record(z.string().min(1), z.any()).optional(),
+});
+
+const personSchema = z.union([
+  z.string().min(1),
+  z.object({ name: z.string().min(1), email: z.string().optional(), url: z.string().optional() }),
+]);
+
+export const extensionManifestSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(214, 'Name must be at most 214 characters'),
+  version: z.string().regex(/^\d+\.\d+\.\d+(-[a-zA-Z0-9-]+(\.[a-zA-Z0-9-]+)*)?(\+[a-zA-Z0-9-]+(\.[a-zA-Z0-9-]+)*)?$/, 'Invalid semantic version'),
+  description: z.string(),
+  author: personSchema,
+  license: z.string().min(1, 'License is required'),
+  keywords: z.array(z.string()),
+  homepage: z.string().optional(),
+  repository: z.union([z.string(), z.object({ type: z.string(), url: z.string() })]).optional(),
+  bugs: z.union([z.string(), z.object({ url: z.string(), email: z.string().optional() })]).optional(),
+  main: z.string().optional(),
+  exports: z.record(z.string(), z.string()).optional(),
+  scripts: z.record(z.string(), z.string()).optional(),
+  dependencies: z.record(z.string(), z.string()).optional(),
+  devDependencies: z.record(z.string(), z.string()).optional(),
+  peerDependencies: z.record(z.string(), z.string()).optional(),
+  engines: z.object({ node: z.string().optional(), npm: z.string().optional() }).optional(),
+  os: z.array(z.string()).optional(),
+  cpu: z.array(z.string()).optional(),
+  extensionConfig: z.object({
+    category: z.string().min(1, 'Category is required'),
+    tags: z.array(z.string()),
+    permissions: z.array(z.string()),
+    endpoints: z.array(endpointConfigSchema),
+    components: z.array(componentConfigSchema),
+    database: databaseConfigSchema.optional(),
+    environment: z.array(environmentVariableConfigSchema).optional(),
+    configSchema: z.record(z.string(), z.any())
+      .refine((schema) => schema.type === undefined || schema.type === 'object', 'Config schema must describe an object')
+      .optional(),
+    configMigration: configMigrationSchema.optional(),
+  }),
+});
+
+export const extensionFileSchema = z.object({
+  path: z.string().min(1, 'File path is required'),
+  content: z.string().min(1, 'File content is required'),
+  type: z.enum(['component', 'serverless', 'migration', 'asset', 'config']),
+  encoding: z.enum(['utf8', 'base64']).optional(),
+});
+
 export const publishVersionSchema = z.object({
   version: z.string().regex(/^\d+\.\d+\.\d+(-[a-zA-Z0-9-]+(\.[a-zA-Z0-9-]+)*)?(\+[a-zA-Z0-9-]+(\.[a-zA-Z0-9-]+)*)?$/, 'Invalid semantic version'),
   changelog: z.string().max(2000, 'Changelog must be less than 2000 characters').optional(),
-  files: z.array(z.object({
-    path: z.string().min(1, 'File path is required'),
-    content: z.string().min(1, 'File content is required'),
-    type: z.enum(['component', 'serverless', 'migration', 'asset', 'config']),
-    encoding: z.enum(['utf8', 'base64']).optional(),
-  })).min(1, 'At least one file is required'),
-  manifest: z.any(), // Complex validation for manifest
-  isPrerelease: z.boolean().optional(),
+  files: z.array(extensionFileSchema).min(1, 'At least one file is required'),
+  manifest: extensionManifestSchema,
+  backport: z.boolean().optional(),
+  tag: z.string().regex(/^[a-z][a-z0-9-]{0,49}$/, 'Invalid dist-tag').optional(),
+  signature: z.string().min(1).max(200).optional(),
+  signingKeyId: z.string().uuid('Invalid signing key ID').optional(),
 });
 
 export const installExtensionSchema = z.object({
   extensionId: z.string().uuid('Invalid extension ID'),
   version: z.string().optional(),
-  config: z.any().optional(),
+  config: z.record(z.string(), z.any()).optional(), // Checked against the version's configSchema
   environmentVariables: z.record(z.string(), z.string()).optional(),
+  acceptedPermissions: z.array(z.string().max(300)).max(100).optional(),
 });
 
 export const createReviewSchema = z.object({
@@ -455,7 +1029,7 @@ export const searchExtensionsSchema = z.object({
   author: z.string().max(50, 'Author must be less than 50 characters').optional(),
   status: z.enum(['draft', 'published', 'deprecated', 'suspended']).optional(),
   featured: z.boolean().optional(),
-  sortBy: z.enum(['name', 'downloads', 'rating', 'updated', 'created']).optional(),
+  sortBy: z.enum(['relevance', 'name', 'downloads', 'rating', 'updated', 'created']).optional(),
   sortOrder: z.enum(['asc', 'desc']).optional(),
   page: z.number().int().min(1, 'Page must be at least 1').optional(),
   limit: z.number().int().min(1, 'Limit must be at least 1').max(100, 'Limit must be at most 100').optional(),
@@ -463,6 +1037,31 @@ export const searchExtensionsSchema = z.object({
 
 export const createApiKeySchema = z.object({
   name: z.string().min(1, 'Name is required').max(100, 'Name must be less than 100 characters'),
-  permissions: z.array(z.string()).min(1, 'At least one permission is required'),
+  permissions: z.array(z.enum(API_KEY_SCOPES)).min(1, 'At least one permission is required'),
   expiresAt: z.date().optional(),
 });
+
+export const createPublisherKeySchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100, 'Name must be less than 100 characters'),
+  publicKey: z.string().min(1, 'Public key is required').max(1000, 'Public key is too long'),
+});
+
+export const createCategorySchema = z.object({
+  name: z.string().min(1, 'Name is required').max(50, 'Name must be less than 50 characters'),
+  slug: z.string().max(50, 'Slug must be less than 50 characters').regex(CATEGORY_SLUG_PATTERN, 'Slug can only contain lowercase letters, numbers and single hyphens'),
+  description: z.string().max(500, 'Description must be less than 500 characters').optional(),
+  icon: z.string().max(100, 'Icon must be less than 100 characters').optional(),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a hex color like #3B82F6').optional(),
+  parentId: z.string().uuid('Invalid parent category ID').optional(),
+  sortOrder: z.number().int().min(0, 'Sort order must be at least 0').optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const updateCategorySchema = createCategorySchema.partial().extend({
+  parentId: z.string().uuid('Invalid parent category ID').nullable().optional(),
+});
+
+export const reorderCategoriesSchema = z.object({
+  parentId: z.string().uuid('Invalid parent category ID').nullable().optional(),
+  categoryIds: z.array(z.string().uuid('Invalid category ID')).min(1, 'At least one category is required').max(200, 'Maximum 200 categories allowed'),
+});